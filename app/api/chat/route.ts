@@ -7,64 +7,145 @@
  * - fastapi: Connect directly to Risentia FastAPI backend (production)
  */
 
-import { NextRequest } from 'next/server';
-import { createTrialMatchingGraph, shouldTriggerMatchingFromMessage, parsePatientFromMessage, extractMaxResultsFromMessage } from '@/lib/langgraph/graph';
-import { extractPatientFromMessage } from '@/lib/patient-extractor';
-import { chat as sdkChat, createThread, checkHealth } from '@/lib/langgraph/sdk-client';
+import { NextRequest, after } from 'next/server';
+import { createTrialMatchingGraph, shouldTriggerMatchingFromMessage, extractMaxResultsFromMessage } from '@/lib/langgraph/graph';
+import { LLM_PIPELINE, runExtractionPipeline } from '@/lib/extraction-pipeline';
+import { chat as sdkChat, createThread, cancelRun, checkHealth } from '@/lib/langgraph/sdk-client';
 import {
   streamMatching,
   patientProfileToInput,
   checkHealth as checkFastAPIHealth,
-  FastAPIEvent,
+  PatientInput,
 } from '@/lib/fastapi-client';
 import { chatWithClaude } from '@/lib/chat-client';
-import { PatientProfile, createEmptyPatientProfile, TrialResult } from '@/types';
+import { createDeidentifier } from '@/lib/deidentify';
+import { mergeBiomarkers } from '@/lib/biomarkers';
+import { mergeLabs, mergeMedications } from '@/lib/clinical-context';
+import { rankTrialsByDistance } from '@/lib/geo';
+import { fillMissingProvenance, pruneProvenance } from '@/lib/provenance';
+import { applyProfileEdit } from '@/lib/profile-edits';
+import { describeRejectedOperations, undoProfileChange } from '@/lib/profile-operations';
+import { describeConflicts } from '@/lib/profile-conflicts';
+import { assessReadiness, checkReadiness, describeReadiness, openGaps, recordUnknownConfirmations } from '@/lib/readiness';
+import { invalidRequest, normalizeProfile, parseBody, rememberUndo } from '@/lib/route-helpers';
+import { getSessionStore, getSessionStoreBackend, Session } from '@/lib/session-store';
+import {
+  createMatchingJob,
+  getMatchingJob,
+  cancelMatchingJob,
+  streamMatchingJob,
+  JobHandle,
+  MatchingJob,
+} from '@/lib/matching-jobs';
+import {
+  ChatRequestSchema,
+  PatientProfile,
+  ProfileEditRequestSchema,
+  createEmptyPatientProfile,
+  TrialResult,
+} from '@/types';
+
+// Session store is configured via SESSION_STORE (memory | file | redis)
+const sessions = getSessionStore();
+
+/** One chat turn, as decided by the readiness gate */
+interface Turn {
+  sessionId: string;
+  message: string;
+  messageId: string | undefined;
+  triggerMatching: boolean;
+  /** Match requested but held back: the reply lists the remaining gaps */
+  matchRequested: boolean;
+}
+
+/** Remember which gaps the checklist listed, so asking to match again confirms the soft ones */
+function rememberReadinessPrompt(session: Session, turn: Turn) {
+  if (turn.matchRequested) session.readinessAsked = openGaps(assessReadiness(session.patientProfile));
+}
+
+// Turns kept for the chat model and for resolving "it" / "that" in the next message
+const CHAT_HISTORY_LIMIT = 20;
 
-// In-memory session store (use Redis in production)
-interface Session {
-  patientProfile: PatientProfile;
-  threadId?: string;
-  chatHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+function rememberChatTurn(session: Session, message: string, response?: string) {
+  session.chatHistory.push({ role: 'user', content: message });
+  if (response) session.chatHistory.push({ role: 'assistant', content: response });
+  session.chatHistory = session.chatHistory.slice(-CHAT_HISTORY_LIMIT);
+}
+
+/**
+ * The matching job `?jobId=` names, if it belongs to the caller's session
+ * (`?sessionId=`); another session's job is reported as not found
+ */
+async function findSessionJob(request: NextRequest, jobId: string): Promise<MatchingJob | undefined> {
+  const job = await getMatchingJob(jobId);
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+  return job && sessionId && job.sessionId === sessionId ? job : undefined;
 }
-const sessions = new Map<string, Session>();
 
 export async function POST(request: NextRequest) {
   try {
-    const { sessionId, message, mode = 'local', patientProfile: clientProfile } = await request.json();
+    const body = await parseBody(request, ChatRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, message, messageId, mode, patientProfile: rawClientProfile } = body.data;
 
-    if (!sessionId || !message) {
-      return Response.json({ error: 'Missing sessionId or message' }, { status: 400 });
-    }
+    // Values the client sends without provenance (older clients, seeded profiles) are attributed to it
+    const clientProfile: PatientProfile | undefined = rawClientProfile &&
+      fillMissingProvenance(normalizeProfile(rawClientProfile), { source: 'client' });
 
     // Get or create session (seed from client profile on cold start)
-    let session = sessions.get(sessionId);
+    let session = await sessions.get(sessionId);
     if (!session) {
       session = {
         patientProfile: clientProfile || createEmptyPatientProfile(),
         chatHistory: [],
       };
-      sessions.set(sessionId, session);
-    } else if (clientProfile) {
-      // Merge client profile into server session (client is source of truth for accumulated data)
-      session.patientProfile = {
-        ...session.patientProfile,
-        ...clientProfile,
-        biomarkers: { ...clientProfile.biomarkers, ...session.patientProfile.biomarkers },
-        priorTreatments: [...new Set([
-          ...(clientProfile.priorTreatments || []),
-          ...session.patientProfile.priorTreatments,
-        ])],
-      };
+    } else {
+      session.patientProfile = normalizeProfile(session.patientProfile);
+      if (clientProfile) {
+        // Merge client profile into server session (client is source of truth for accumulated data).
+        // Provenance is the server's: only values it has no entry for are attributed to the client
+        session.patientProfile = fillMissingProvenance({
+          ...session.patientProfile,
+          ...clientProfile,
+          biomarkers: mergeBiomarkers(session.patientProfile.biomarkers, clientProfile.biomarkers),
+          priorTreatments: [...new Set([
+            ...(clientProfile.priorTreatments || []),
+            ...session.patientProfile.priorTreatments,
+          ])],
+          labs: mergeLabs(session.patientProfile.labs, clientProfile.labs),
+          comorbidities: [...new Set([...clientProfile.comorbidities, ...session.patientProfile.comorbidities])],
+          currentMedications: mergeMedications(session.patientProfile.currentMedications, clientProfile.currentMedications),
+          provenance: session.patientProfile.provenance,
+        }, { source: 'client' });
+        session.patientProfile = pruneProvenance(session.patientProfile);
+      }
+    }
+
+    // Readiness gate: a match request with gaps left becomes a normal turn
+    // ending in a checklist; "stage unknown"-style answers are recorded on any turn
+    let triggerMatching = false;
+    let matchRequested = false;
+    if (shouldTriggerMatchingFromMessage(message)) {
+      const readiness = checkReadiness(session.patientProfile, message, session.readinessAsked);
+      session.patientProfile = readiness.profile;
+      triggerMatching = readiness.proceed;
+      matchRequested = !readiness.proceed;
+      if (readiness.proceed) session.readinessAsked = undefined;
+    } else {
+      session.patientProfile = recordUnknownConfirmations(session.patientProfile, message);
     }
+    await sessions.set(sessionId, session);
 
-    const triggerMatching = shouldTriggerMatchingFromMessage(message, session.patientProfile);
     const encoder = new TextEncoder();
+    const turn: Turn = { sessionId, message, messageId, triggerMatching, matchRequested };
 
-    // Choose mode: local (mock) or fastapi
+    // Choose mode: local (mock), remote (LangGraph server) or fastapi
     if (mode === 'fastapi') {
-      return handleFastAPIMode(encoder, session, sessionId, message, triggerMatching);
+      return handleFastAPIMode(encoder, session, turn, request.signal);
+    } else if (mode === 'remote') {
+      return handleRemoteMode(encoder, session, turn, request.signal);
     } else {
-      return handleLocalMode(encoder, session, sessionId, message, triggerMatching);
+      return handleLocalMode(encoder, session, turn, request.signal);
     }
   } catch (error) {
     console.error('Chat API error:', error);
@@ -79,11 +160,16 @@ export async function POST(request: NextRequest) {
 async function handleLocalMode(
   encoder: TextEncoder,
   session: Session,
-  sessionId: string,
-  message: string,
-  triggerMatching: boolean
+  turn: Turn,
+  clientSignal: AbortSignal
 ) {
+  const { sessionId, message, messageId, triggerMatching, matchRequested } = turn;
   const graph = createTrialMatchingGraph();
+  const before = session.patientProfile;
+
+  // Stop the graph when the client disconnects or presses Stop
+  const abortController = new AbortController();
+  clientSignal.addEventListener('abort', () => abortController.abort());
 
   const stream = new ReadableStream({
     async start(controller) {
@@ -91,11 +177,14 @@ async function handleLocalMode(
         const streamEvents = graph.streamEvents(
           {
             userMessage: message,
+            messageId,
             sessionId,
             patientProfile: session.patientProfile,
+            history: session.chatHistory,
             triggerMatching,
+            matchRequested,
           },
-          { version: 'v2' }
+          { version: 'v2', signal: abortController.signal }
         );
 
         let finalState: Record<string, unknown> = {};
@@ -128,8 +217,13 @@ async function handleLocalMode(
         }
 
         // Update session
+        let undo: ReturnType<typeof rememberUndo>;
         if (finalState?.patientProfile) {
           session.patientProfile = finalState.patientProfile as PatientProfile;
+          undo = rememberUndo(session, before, messageId);
+          rememberReadinessPrompt(session, turn);
+          rememberChatTurn(session, message, finalState.response as string | undefined);
+          await sessions.set(sessionId, session);
         }
 
         // Send final response
@@ -139,6 +233,10 @@ async function handleLocalMode(
             content: finalState?.response || 'Error processing request.',
             patientData: finalState?.patientProfile || session.patientProfile,
             trials: finalState?.matchedTrials || [],
+            conflicts: finalState?.conflicts || [],
+            operations: (finalState?.operations as { applied?: unknown[] } | undefined)?.applied || [],
+            undo,
+            extraction: finalState?.extraction || [],
             pipelineResults: finalState?.pipelineResults || [],
             totalCost: finalState?.totalCost || 0,
           })}\n\n`
@@ -147,6 +245,10 @@ async function handleLocalMode(
         controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
         controller.close();
       } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log(`[Local] Run cancelled by client (session ${sessionId})`);
+          return;
+        }
         console.error('Stream error:', error);
         controller.enqueue(encoder.encode(
           `data: ${JSON.stringify({ type: 'error', message: 'Processing error.' })}\n\n`
@@ -154,6 +256,9 @@ async function handleLocalMode(
         controller.close();
       }
     },
+    cancel() {
+      abortController.abort();
+    },
   });
 
   return new Response(stream, {
@@ -166,324 +271,139 @@ async function handleLocalMode(
 }
 
 // =============================================================================
-// FastAPI Mode - Connect directly to Risentia FastAPI backend
+// Remote Mode - Stream from a LangGraph server via the SDK
 // =============================================================================
 
-async function handleFastAPIMode(
+async function handleRemoteMode(
   encoder: TextEncoder,
   session: Session,
-  sessionId: string,
-  message: string,
-  triggerMatching: boolean
+  turn: Turn,
+  clientSignal: AbortSignal
 ) {
-  // If not triggering matching, extract patient data and chat with Qwen
-  if (!triggerMatching) {
-    // Extract patient info via Claude (skip for "find trials" etc.)
-    const parsedProfile = await extractPatientFromMessage(message);
-    const hasPatientData = Object.keys(parsedProfile).some(
-      k => k !== 'biomarkers' && k !== 'priorTreatments' && parsedProfile[k as keyof typeof parsedProfile] !== undefined
-    ) || Object.keys(parsedProfile.biomarkers || {}).length > 0 || (parsedProfile.priorTreatments || []).length > 0;
-
-    if (hasPatientData) {
-      session.patientProfile = {
-        ...session.patientProfile,
-        ...parsedProfile,
-        biomarkers: { ...session.patientProfile.biomarkers, ...parsedProfile.biomarkers },
-        priorTreatments: [
-          ...new Set([...session.patientProfile.priorTreatments, ...(parsedProfile.priorTreatments || [])]),
-        ],
-        rawText: message,
-      };
-    }
-
-    // Chat with Qwen LLM
-    let content: string;
-    try {
-      content = await chatWithClaude(message, session.chatHistory);
-    } catch (err) {
-      console.error('Chat error:', err);
-      // Graceful fallback if Claude is unavailable
-      content = hasPatientData
-        ? `Got it — I've updated your patient profile. Say **"find trials"** when you're ready to search.`
-        : `I'm your clinical trial matching assistant. Describe a patient profile (age, cancer type, stage, biomarkers) and I'll help find matching trials.`;
-    }
-
-    // Update chat history
-    session.chatHistory.push({ role: 'user', content: message });
-    session.chatHistory.push({ role: 'assistant', content });
-    // Keep history bounded (last 20 messages)
-    if (session.chatHistory.length > 20) {
-      session.chatHistory = session.chatHistory.slice(-20);
-    }
-    sessions.set(sessionId, session);
-
-    const stream = new ReadableStream({
-      start(controller) {
-        controller.enqueue(encoder.encode(
-          `data: ${JSON.stringify({
-            type: 'response',
-            content,
-            patientData: session.patientProfile,
-            trials: [],
-            totalCost: 0,
-          })}\n\n`
-        ));
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
-        controller.close();
-      },
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-  }
-
-  // Check FastAPI health
-  const healthy = await checkFastAPIHealth();
+  const { sessionId, message, messageId, triggerMatching, matchRequested } = turn;
+  const phi = createDeidentifier(session, { messageId });
+  const healthy = await checkHealth();
   if (!healthy) {
     return Response.json(
-      { error: 'FastAPI backend unavailable. Check FASTAPI_URL configuration.' },
+      { error: 'LangGraph server unavailable. Check LANGGRAPH_API_URL configuration.' },
       { status: 503 }
     );
   }
 
-  // Convert patient profile to API format
-  const patientInput = patientProfileToInput(session.patientProfile, sessionId);
+  // Reuse the session's thread so the server keeps conversation state across turns
+  if (!session.threadId) {
+    const thread = await createThread({ sessionId });
+    session.threadId = thread.thread_id;
+    await sessions.set(sessionId, session);
+  }
 
-  // 4-minute timeout (must be under Vercel's 300s function limit)
+  // On client disconnect / Stop: drop the SDK stream and cancel the server-side run
   const abortController = new AbortController();
-  const timeout = setTimeout(() => abortController.abort(), 4 * 60 * 1000);
+  let runId: string | undefined;
+  const cancelRemoteRun = () => {
+    if (abortController.signal.aborted) return;
+    abortController.abort();
+    if (session.threadId && runId) {
+      cancelRun(session.threadId, runId).catch(error => {
+        console.error('Failed to cancel LangGraph run:', error);
+      });
+    }
+  };
+  clientSignal.addEventListener('abort', cancelRemoteRun);
 
   const stream = new ReadableStream({
     async start(controller) {
       try {
-        let totalCost = 0;
-        const trials: TrialResult[] = [];
-        let matchingMode = ''; // 'super_batch' or 'sequential'
-
-        // Extract max_results from user message (e.g. "find top 2 trials" → 2, default 5)
-        const maxResults = extractMaxResultsFromMessage(message);
-
-        // Stream from FastAPI backend
-        for await (const event of streamMatching(patientInput, maxResults, abortController.signal)) {
+        let completed = false;
+        // The deployment sees surrogates and shifted dates; its results are mapped back
+        const outbound = phi.scrub({ message, patientProfile: session.patientProfile }, 'langgraph:remote');
+
+        for await (const event of sdkChat(outbound.message, {
+          threadId: session.threadId,
+          messageId,
+          patientProfile: outbound.patientProfile,
+          triggerMatching,
+          matchRequested,
+          signal: abortController.signal,
+        })) {
           switch (event.type) {
-            // ---------------------------------------------------------------
-            // Phase lifecycle events → map to 4 frontend steps
-            // ---------------------------------------------------------------
-            case 'phase_start': {
-              const phase = event.phase || '';
-              if (phase === 'retrieval') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_start', step: 'Retrieve Trials', message: event.message })}\n\n`
-                ));
-              } else if (phase === 'matching') {
-                matchingMode = event.mode || '';
-                // Start Pre-filter step
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_start', step: 'Pre-filter', message: event.message })}\n\n`
-                ));
-                // In sequential mode (no super-batch), there are no prefilter events,
-                // so auto-complete Pre-filter and start Assess Eligibility immediately
-                if (matchingMode !== 'super_batch') {
-                  controller.enqueue(encoder.encode(
-                    `data: ${JSON.stringify({ type: 'step_complete', step: 'Pre-filter' })}\n\n`
-                  ));
-                  controller.enqueue(encoder.encode(
-                    `data: ${JSON.stringify({ type: 'step_start', step: 'Assess Eligibility', message: 'Sequential matching' })}\n\n`
-                  ));
-                }
-              } else if (phase === 'ranking') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_start', step: 'Rank & Report', message: event.message })}\n\n`
-                ));
-              }
-              break;
-            }
-
-            case 'phase_complete': {
-              const phase = event.phase || '';
-              if (event.cost_usd) totalCost += event.cost_usd;
-
-              if (phase === 'retrieval') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_complete', step: 'Retrieve Trials', cost: event.cost_usd, candidates: event.candidates })}\n\n`
-                ));
-              } else if (phase === 'matching') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_complete', step: 'Assess Eligibility', cost: event.cost_usd })}\n\n`
-                ));
-              } else if (phase === 'ranking') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'step_complete', step: 'Rank & Report', cost: event.cost_usd })}\n\n`
-                ));
-              }
-              break;
-            }
-
-            // ---------------------------------------------------------------
-            // Super-batch events → Pre-filter + Assess Eligibility progress
-            // ---------------------------------------------------------------
-            case 'super_batch_start':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Pre-filter', detail: `Super-batch: ${event.total_trials || '?'} trials` })}\n\n`
-              ));
-              break;
-
-            case 'prefilter_start':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Pre-filter', detail: `Pre-filtering ${event.total_trials || '?'} trials...` })}\n\n`
-              ));
-              break;
-
-            case 'prefilter_complete':
-              // Pre-filter done → complete it and start Assess Eligibility
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_complete', step: 'Pre-filter', detail: `${event.passed_count || 0} passed / ${event.failed_count || 0} failed` })}\n\n`
-              ));
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_start', step: 'Assess Eligibility', message: 'Assessing eligibility criteria' })}\n\n`
-              ));
-              break;
-
-            case 'exclusion_chunk_start':
-            case 'exclusion_chunk_complete':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: `Exclusion: chunk ${event.chunk_index ?? '?'}/${event.total_chunks ?? '?'}` })}\n\n`
-              ));
+            case 'thread_created':
+              session.threadId = event.threadId;
+              await sessions.set(sessionId, session);
               break;
 
-            case 'inclusion_chunk_start':
-            case 'inclusion_chunk_complete':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: `Inclusion: chunk ${event.chunk_index ?? '?'}/${event.total_chunks ?? '?'}` })}\n\n`
-              ));
+            case 'run_started':
+              runId = event.runId;
               break;
 
-            case 'exclusion_phase_complete':
-            case 'inclusion_phase_complete':
+            case 'step_start':
               controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: event.message || 'Phase complete' })}\n\n`
+                `data: ${JSON.stringify({ type: 'step_start', step: event.step })}\n\n`
               ));
               break;
 
-            case 'batch_complete':
-              if (event.cost_usd) totalCost += event.cost_usd;
+            case 'step_complete':
               controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: `Batch done: ${event.trials_processed || '?'} trials processed` })}\n\n`
-              ));
-              break;
-
-            case 'super_batch_fallback':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: 'Falling back to sequential mode...' })}\n\n`
-              ));
-              break;
-
-            // ---------------------------------------------------------------
-            // Trial-level progress
-            // ---------------------------------------------------------------
-            case 'trial_matched':
-              if (event.cost_usd) totalCost += event.cost_usd;
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({
-                  type: 'trial_progress',
-                  nctId: event.nct_id,
-                  title: event.title,
-                  index: event.index,
-                  total: event.total,
-                  status: event.status,
-                  confidence: event.confidence,
-                })}\n\n`
+                `data: ${JSON.stringify({ type: 'step_complete', step: event.step, cost: event.cost })}\n\n`
               ));
               break;
 
-            // ---------------------------------------------------------------
-            // Final results
-            // ---------------------------------------------------------------
-            case 'complete':
-              if (event.result?.matches) {
-                for (const match of event.result.matches) {
-                  trials.push({
-                    nctId: match.nct_id,
-                    title: match.title,
-                    phase: match.phase,
-                    status: match.status,
-                    sponsor: '', // Backend doesn't include sponsor in TrialMatchResponse yet
-                    matchScore: match.overall_score,
-                    matchReasons: match.criteria_details
-                      .filter(c => c.status === 'MEETS_CRITERION')
-                      .slice(0, 3)
-                      .map(c => c.reasoning),
-                    concerns: match.criteria_details
-                      .filter(c => c.status === 'FAILS_CRITERION' || c.status === 'INSUFFICIENT_INFO')
-                      .slice(0, 2)
-                      .map(c => c.reasoning),
-                    locations: match.locations?.map(l => `${l.city}, ${l.country}`) || [],
-                  });
-                }
+            case 'complete': {
+              completed = true;
+              const { response, patientProfile, conflicts } = phi.restore({
+                response: event.response,
+                patientProfile: event.patientProfile,
+                conflicts: event.conflicts,
+              });
+              let undo: ReturnType<typeof rememberUndo>;
+              if (patientProfile) {
+                const before = session.patientProfile;
+                session.patientProfile = patientProfile;
+                undo = rememberUndo(session, before, messageId);
               }
+              rememberReadinessPrompt(session, turn);
+              rememberChatTurn(session, message, response);
+              await sessions.set(sessionId, session);
 
-              // Defensively mark all steps complete
               controller.enqueue(encoder.encode(
                 `data: ${JSON.stringify({
                   type: 'response',
-                  content: event.result?.clinical_narrative ||
-                    `Found ${trials.length} matching trials for your patient.`,
+                  content: response || 'Error processing request.',
                   patientData: session.patientProfile,
-                  trials,
-                  totalCost: event.summary?.cost_usd || totalCost,
-                  summary: event.summary,
+                  trials: event.trials || [],
+                  conflicts: conflicts || [],
+                  undo,
+                  totalCost: event.totalCost || 0,
                 })}\n\n`
               ));
               break;
-
-            // ---------------------------------------------------------------
-            // Errors
-            // ---------------------------------------------------------------
-            case 'error':
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({
-                  type: 'error',
-                  message: event.message || event.error || 'Unknown error from backend',
-                })}\n\n`
-              ));
-              break;
-
-            // ---------------------------------------------------------------
-            // Heartbeat / unknown
-            // ---------------------------------------------------------------
-            case 'heartbeat':
-              // Forward heartbeat to client to keep connection alive and reset heartbeat timeout
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'step_progress', step: 'Assess Eligibility', detail: 'Processing...' })}\n\n`
-              ));
-              break;
-
-            default:
-              console.log(`[FastAPI SSE] Unhandled event type: ${event.type}`, event);
-              break;
+            }
           }
         }
 
+        if (!completed) {
+          controller.enqueue(encoder.encode(
+            `data: ${JSON.stringify({ type: 'error', message: 'LangGraph run ended without a result.' })}\n\n`
+          ));
+        }
+
         controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
         controller.close();
       } catch (error) {
-        console.error('FastAPI stream error:', error);
-        const msg = error instanceof Error
-          ? (error.name === 'AbortError' ? 'Request timed out — the matching is still processing on the backend. Please retry in a moment.' : error.message)
-          : 'FastAPI connection error';
+        if (abortController.signal.aborted) {
+          console.log(`[Remote] Run ${runId ?? '?'} cancelled by client (session ${sessionId})`);
+          return;
+        }
+        console.error('Remote stream error:', error);
         controller.enqueue(encoder.encode(
-          `data: ${JSON.stringify({ type: 'error', message: msg })}\n\n`
+          `data: ${JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : 'LangGraph connection error' })}\n\n`
         ));
         controller.close();
-      } finally {
-        clearTimeout(timeout);
       }
     },
+    cancel() {
+      cancelRemoteRun();
+    },
   });
 
   return new Response(stream, {
@@ -495,16 +415,401 @@ async function handleFastAPIMode(
   });
 }
 
-export async function GET() {
-  const [sdkHealth, fastApiHealth] = await Promise.all([
+// =============================================================================
+// FastAPI Mode - Connect directly to Risentia FastAPI backend
+// =============================================================================
+
+async function handleFastAPIMode(
+  encoder: TextEncoder,
+  session: Session,
+  turn: Turn,
+  clientSignal: AbortSignal
+) {
+  const { sessionId, message, messageId, triggerMatching, matchRequested } = turn;
+  // Identifiers in pasted notes are scrubbed before every outbound call (lib/deidentify.ts)
+  const phi = createDeidentifier(session, { messageId });
+  // If not triggering matching, extract patient data and chat with Qwen
+  if (!triggerMatching) {
+    // Extract patient info via Claude, falling back to the rule parser; the
+    // history lets "she progressed on it" resolve against earlier turns
+    const before = session.patientProfile;
+    const extraction = await runExtractionPipeline(LLM_PIPELINE, {
+      message,
+      messageId,
+      profile: session.patientProfile,
+      history: session.chatHistory,
+      deidentifier: phi,
+    });
+    const { conflicts, operations, hasPatientData } = extraction;
+    session.patientProfile = extraction.profile;
+    const undo = rememberUndo(session, before, messageId);
+
+    // Chat with Qwen LLM, unless the readiness gate held back a match request
+    let content: string;
+    if (matchRequested) {
+      const readiness = assessReadiness(session.patientProfile);
+      content = `${hasPatientData ? "Got it — I've updated the profile.\n\n" : ''}${describeReadiness(readiness, session.patientProfile.cancerType)}`;
+      rememberReadinessPrompt(session, turn);
+    } else {
+      try {
+        content = await chatWithClaude(message, session.chatHistory, phi);
+      } catch (err) {
+        console.error('Chat error:', err);
+        // Graceful fallback if Claude is unavailable
+        content = hasPatientData
+          ? `Got it — I've updated your patient profile. Say **"find trials"** when you're ready to search.`
+          : `I'm your clinical trial matching assistant. Describe a patient profile (age, cancer type, stage, biomarkers) and I'll help find matching trials.`;
+      }
+    }
+    if (operations.rejected.length > 0) content += `\n\n${describeRejectedOperations(operations.rejected)}`;
+    if (conflicts.length > 0) content += `\n\n${describeConflicts(conflicts)}`;
+
+    rememberChatTurn(session, message, content);
+    await sessions.set(sessionId, session);
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(
+          `data: ${JSON.stringify({
+            type: 'response',
+            content,
+            patientData: session.patientProfile,
+            trials: [],
+            conflicts,
+            operations: operations.applied,
+            undo,
+            extraction: extraction.stages,
+            totalCost: 0,
+          })}\n\n`
+        ));
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  }
+
+  // Check FastAPI health
+  const healthy = await checkFastAPIHealth();
+  if (!healthy) {
+    return Response.json(
+      { error: 'FastAPI backend unavailable. Check FASTAPI_URL configuration.' },
+      { status: 503 }
+    );
+  }
+
+  // Convert patient profile to API format. Only the free-text notes are
+  // scrubbed: structured dates (labs, medications) stay real, since the
+  // backend measures eligibility windows against today
+  const patientInput = patientProfileToInput({
+    ...session.patientProfile,
+    rawText: phi.scrub(session.patientProfile.rawText, 'fastapi:matching'),
+  }, sessionId);
+  await sessions.set(sessionId, session);
+
+  // Matching runs as a job detached from this response: if the connection
+  // drops, the client resumes via GET /api/chat?jobId=... with Last-Event-ID
+  const job = await createMatchingJob(sessionId);
+  after(runFastAPIMatchingJob(job, session, message, patientInput));
+
+  return new Response(streamMatchingJob(job.id, 0, clientSignal), {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+async function runFastAPIMatchingJob(
+  job: JobHandle,
+  session: Session,
+  message: string,
+  patientInput: PatientInput
+) {
+  // No deadline of our own: the client can resume the job, so it runs until the
+  // backend finishes or the platform ends this invocation (tails then report it
+  // stalled). Stop (DELETE /api/chat?jobId=...) aborts job.signal, which closes
+  // the backend stream so the run stops burning tokens
+
+  try {
+    let totalCost = 0;
+    const trials: TrialResult[] = [];
+    let matchingMode = ''; // 'super_batch' or 'sequential'
+
+    // Extract max_results from user message (e.g. "find top 2 trials" → 2, default 5)
+    const maxResults = extractMaxResultsFromMessage(message);
+
+    // Stream from FastAPI backend
+    for await (const event of streamMatching(patientInput, maxResults, job.signal)) {
+      switch (event.type) {
+        // ---------------------------------------------------------------
+        // Phase lifecycle events → map to 4 frontend steps
+        // ---------------------------------------------------------------
+        case 'phase_start': {
+          const phase = event.phase || '';
+          if (phase === 'retrieval') {
+            await job.emit({ type: 'step_start', step: 'Retrieve Trials', message: event.message });
+          } else if (phase === 'matching') {
+            matchingMode = event.mode || '';
+            // Start Pre-filter step
+            await job.emit({ type: 'step_start', step: 'Pre-filter', message: event.message });
+            // In sequential mode (no super-batch), there are no prefilter events,
+            // so auto-complete Pre-filter and start Assess Eligibility immediately
+            if (matchingMode !== 'super_batch') {
+              await job.emit({ type: 'step_complete', step: 'Pre-filter' });
+              await job.emit({ type: 'step_start', step: 'Assess Eligibility', message: 'Sequential matching' });
+            }
+          } else if (phase === 'ranking') {
+            await job.emit({ type: 'step_start', step: 'Rank & Report', message: event.message });
+          }
+          break;
+        }
+
+        case 'phase_complete': {
+          const phase = event.phase || '';
+          if (event.cost_usd) totalCost += event.cost_usd;
+
+          if (phase === 'retrieval') {
+            await job.emit({ type: 'step_complete', step: 'Retrieve Trials', cost: event.cost_usd, candidates: event.candidates });
+          } else if (phase === 'matching') {
+            await job.emit({ type: 'step_complete', step: 'Assess Eligibility', cost: event.cost_usd });
+          } else if (phase === 'ranking') {
+            await job.emit({ type: 'step_complete', step: 'Rank & Report', cost: event.cost_usd });
+          }
+          break;
+        }
+
+        // ---------------------------------------------------------------
+        // Super-batch events → Pre-filter + Assess Eligibility progress
+        // ---------------------------------------------------------------
+        case 'super_batch_start':
+          await job.emit({ type: 'step_progress', step: 'Pre-filter', detail: `Super-batch: ${event.total_trials || '?'} trials` });
+          break;
+
+        case 'prefilter_start':
+          await job.emit({ type: 'step_progress', step: 'Pre-filter', detail: `Pre-filtering ${event.total_trials || '?'} trials...` });
+          break;
+
+        case 'prefilter_complete':
+          // Pre-filter done → complete it and start Assess Eligibility
+          await job.emit({ type: 'step_complete', step: 'Pre-filter', detail: `${event.passed_count || 0} passed / ${event.failed_count || 0} failed` });
+          await job.emit({ type: 'step_start', step: 'Assess Eligibility', message: 'Assessing eligibility criteria' });
+          break;
+
+        case 'exclusion_chunk_start':
+        case 'exclusion_chunk_complete':
+          await job.emit({ type: 'step_progress', step: 'Assess Eligibility', detail: `Exclusion: chunk ${event.chunk_index ?? '?'}/${event.total_chunks ?? '?'}` });
+          break;
+
+        case 'inclusion_chunk_start':
+        case 'inclusion_chunk_complete':
+          await job.emit({ type: 'step_progress', step: 'Assess Eligibility', detail: `Inclusion: chunk ${event.chunk_index ?? '?'}/${event.total_chunks ?? '?'}` });
+          break;
+
+        case 'exclusion_phase_complete':
+        case 'inclusion_phase_complete':
+          await job.emit({ type: 'step_progress', step: 'Assess Eligibility', detail: event.message || 'Phase complete' });
+          break;
+
+        case 'batch_complete':
+          if (event.cost_usd) totalCost += event.cost_usd;
+          await job.emit({ type: 'step_progress', step: 'Assess Eligibility', detail: `Batch done: ${event.trials_processed || '?'} trials processed` });
+          break;
+
+        case 'super_batch_fallback':
+          await job.emit({ type: 'step_progress', step: 'Assess Eligibility', detail: 'Falling back to sequential mode...' });
+          break;
+
+        // ---------------------------------------------------------------
+        // Trial-level progress
+        // ---------------------------------------------------------------
+        case 'trial_matched':
+          if (event.cost_usd) totalCost += event.cost_usd;
+          await job.emit({
+            type: 'trial_progress',
+            nctId: event.nct_id,
+            title: event.title,
+            index: event.index,
+            total: event.total,
+            status: event.status,
+            confidence: event.confidence,
+          });
+          break;
+
+        // ---------------------------------------------------------------
+        // Final results
+        // ---------------------------------------------------------------
+        case 'complete':
+          if (event.result?.matches) {
+            for (const match of event.result.matches) {
+              trials.push({
+                nctId: match.nct_id,
+                title: match.title,
+                phase: match.phase,
+                status: match.status,
+                sponsor: '', // Backend doesn't include sponsor in TrialMatchResponse yet
+                matchScore: match.overall_score,
+                matchReasons: match.criteria_details
+                  .filter(c => c.status === 'MEETS_CRITERION')
+                  .slice(0, 3)
+                  .map(c => c.reasoning),
+                concerns: match.criteria_details
+                  .filter(c => c.status === 'FAILS_CRITERION' || c.status === 'INSUFFICIENT_INFO')
+                  .slice(0, 2)
+                  .map(c => c.reasoning),
+                locations: match.locations?.map(l => [l.city, l.state, l.country].filter(Boolean).join(', ')) || [],
+              });
+            }
+          }
+
+          // Defensively mark all steps complete
+          await job.emit({
+            type: 'response',
+            content: event.result?.clinical_narrative ||
+              `Found ${trials.length} matching trials for your patient.`,
+            patientData: session.patientProfile,
+            // Nearby sites first when the patient gave a location and travel radius
+            trials: rankTrialsByDistance(trials, session.patientProfile),
+            totalCost: event.summary?.cost_usd || totalCost,
+            summary: event.summary,
+          });
+          break;
+
+        // ---------------------------------------------------------------
+        // Errors
+        // ---------------------------------------------------------------
+        case 'error':
+          await job.emit({
+            type: 'error',
+            message: event.message || event.error || 'Unknown error from backend',
+          });
+          break;
+
+        // ---------------------------------------------------------------
+        // Heartbeat / unknown
+        // ---------------------------------------------------------------
+        case 'heartbeat':
+          // Marks the run alive; tails keep the client connection open on their own
+          await job.touch();
+          break;
+
+        default:
+          console.log(`[FastAPI SSE] Unhandled event type: ${event.type}`, event);
+          break;
+      }
+    }
+
+    await job.finish('complete');
+  } catch (error) {
+    if (job.signal.aborted) {
+      console.log(`[FastAPI] Matching job ${job.id} cancelled`);
+      await job.finish('cancelled');
+      return;
+    }
+    console.error('FastAPI stream error:', error);
+    const msg = error instanceof Error ? error.message : 'FastAPI connection error';
+    await job.emit({ type: 'error', message: msg });
+    await job.finish('error');
+  }
+}
+
+export async function GET(request: NextRequest) {
+  // Resume a matching job: replay events after Last-Event-ID, then tail
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  if (jobId) {
+    const job = await findSessionJob(request, jobId);
+    if (!job) {
+      return Response.json({ error: 'Matching job not found or expired' }, { status: 404 });
+    }
+    const lastEventId = parseInt(
+      request.headers.get('Last-Event-ID') || request.nextUrl.searchParams.get('lastEventId') || '0',
+      10
+    ) || 0;
+    return new Response(streamMatchingJob(jobId, lastEventId, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  }
+
+  const [sdkHealth, fastApiHealth, sessionCount] = await Promise.all([
     checkHealth(),
     checkFastAPIHealth(),
+    sessions.count().catch(error => {
+      console.error('Session store count failed:', error);
+      return null;
+    }),
   ]);
 
   return Response.json({
     status: 'ok',
-    sessions: sessions.size,
+    sessions: sessionCount,
+    sessionStore: getSessionStoreBackend(),
     sdkAvailable: sdkHealth,
     fastApiAvailable: fastApiHealth,
   });
 }
+
+/**
+ * Apply a manual profile edit from the PatientCard, or undo a message's
+ * profile changes. Unlike the POST merge, which only adds, both can replace
+ * lists and clear fields, so deletions stick instead of being merged back in
+ * from the session.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await parseBody(request, ProfileEditRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, edit, undoId, patientProfile: rawClientProfile } = body.data;
+
+    // Cold start: the client's (already edited) profile seeds the session
+    const session: Session = await sessions.get(sessionId) || {
+      patientProfile: rawClientProfile ? normalizeProfile(rawClientProfile) : createEmptyPatientProfile(),
+      chatHistory: [],
+    };
+    session.patientProfile = normalizeProfile(session.patientProfile);
+
+    if (undoId) {
+      const entry = session.undoStack?.find(e => e.id === undoId);
+      if (!entry) {
+        return Response.json({ error: 'That change can no longer be undone' }, { status: 404 });
+      }
+      const restored = undoProfileChange(session.patientProfile, entry);
+      if (!restored) {
+        return Response.json({ error: 'Those fields have changed since; edit them on the patient card instead' }, { status: 409 });
+      }
+      session.patientProfile = restored;
+      session.undoStack = session.undoStack!.filter(e => e.id !== undoId);
+    } else {
+      session.patientProfile = applyProfileEdit(session.patientProfile, edit!);
+    }
+    await sessions.set(sessionId, session);
+
+    return Response.json({ patientProfile: session.patientProfile });
+  } catch (error) {
+    console.error('Profile edit error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  if (!jobId) {
+    return Response.json({ error: 'Missing jobId' }, { status: 400 });
+  }
+  const found = await findSessionJob(request, jobId) && await cancelMatchingJob(jobId);
+  if (!found) {
+    return Response.json({ error: 'Matching job not found or expired' }, { status: 404 });
+  }
+  return Response.json({ status: 'cancelled', jobId });
+}
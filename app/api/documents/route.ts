@@ -0,0 +1,100 @@
+/**
+ * Documents API Route
+ *
+ * Clinical document intake (lib/documents):
+ * - POST: read a pasted or uploaded document into a review of profile changes
+ * - PATCH: merge the changes the user accepted from a review
+ */
+
+import { NextRequest } from 'next/server';
+import { createDeidentifier } from '@/lib/deidentify';
+import {
+  applyDocumentChanges,
+  describeDocumentReview,
+  extractPdfText,
+  ingestDocument,
+  MAX_DOCUMENT_CHARS,
+  MAX_PENDING_DOCUMENTS,
+} from '@/lib/documents';
+import { LLM_PIPELINE, RULES_PIPELINE } from '@/lib/extraction-pipeline';
+import { describeRejectedOperations } from '@/lib/profile-operations';
+import { invalidRequest, normalizeProfile, parseBody, rememberUndo } from '@/lib/route-helpers';
+import { getSessionStore, Session } from '@/lib/session-store';
+import { createEmptyPatientProfile, DocumentApplyRequestSchema, DocumentIngestRequestSchema } from '@/types';
+
+const sessions = getSessionStore();
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, DocumentIngestRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, name, mode, text: pasted, pdfBase64, patientProfile: rawClientProfile } = body.data;
+
+    const text = (pasted ?? extractPdfText(Buffer.from(pdfBase64!, 'base64'))).replace(/\r\n?/g, '\n').trim();
+    if (!text) {
+      return Response.json({
+        error: pdfBase64
+          ? 'No text found in that PDF; it may be a scan. Paste the report text instead.'
+          : 'The document is empty',
+      }, { status: 422 });
+    }
+    if (text.length > MAX_DOCUMENT_CHARS) {
+      return Response.json({
+        error: `That document is too long (${text.length.toLocaleString()} characters, limit ${MAX_DOCUMENT_CHARS.toLocaleString()}); upload the relevant report on its own`,
+      }, { status: 413 });
+    }
+
+    // Cold start: the client's profile seeds the session
+    const session: Session = await sessions.get(sessionId) || {
+      patientProfile: rawClientProfile ? normalizeProfile(rawClientProfile) : createEmptyPatientProfile(),
+      chatHistory: [],
+    };
+    session.patientProfile = normalizeProfile(session.patientProfile);
+
+    const document = await ingestDocument(text, {
+      name,
+      profile: session.patientProfile,
+      deidentifier: mode === 'local' ? undefined : createDeidentifier(session),
+      pipeline: mode === 'local' ? RULES_PIPELINE : LLM_PIPELINE,
+    });
+    session.documents = [...(session.documents || []), document].slice(-MAX_PENDING_DOCUMENTS);
+    await sessions.set(sessionId, session);
+
+    return Response.json({ review: document.review, content: describeDocumentReview(document.review) });
+  } catch (error) {
+    console.error('Document intake error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/** Merge a review's accepted changes as one transaction, with an undo entry like a chat message's */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await parseBody(request, DocumentApplyRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, documentId, accept } = body.data;
+
+    const session = await sessions.get(sessionId);
+    const document = session?.documents?.find(d => d.review.id === documentId);
+    if (!session || !document) {
+      return Response.json({ error: 'That document review has expired; upload the document again' }, { status: 404 });
+    }
+
+    session.patientProfile = normalizeProfile(session.patientProfile);
+    const before = session.patientProfile;
+    const { profile, applied, rejected } = applyDocumentChanges(before, document, accept);
+    session.patientProfile = profile;
+    const undo = applied.length > 0 ? rememberUndo(session, before, documentId) : undefined;
+    session.documents = session.documents!.filter(d => d !== document);
+    await sessions.set(sessionId, session);
+
+    return Response.json({
+      patientProfile: session.patientProfile,
+      ...(undo ? { undo } : {}),
+      ...(rejected.length > 0 ? { warning: describeRejectedOperations(rejected) } : {}),
+    });
+  } catch (error) {
+    console.error('Document merge error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
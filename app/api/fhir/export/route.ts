@@ -0,0 +1,43 @@
+/**
+ * FHIR Export API Route
+ *
+ * POST: the session's patient profile and the client's trial matches as a
+ * FHIR R4 transaction bundle (lib/fhir), for writing results back to the EHR
+ * or a trial management system. Required mCODE elements the profile lacks are
+ * named in X-Mcode-Missing; the bundle is exported regardless
+ */
+
+import { NextRequest } from 'next/server';
+import { exportFhirBundle, validateMcode } from '@/lib/fhir';
+import { invalidRequest, normalizeProfile, parseBody } from '@/lib/route-helpers';
+import { getSessionStore } from '@/lib/session-store';
+import { createEmptyPatientProfile, FhirExportRequestSchema } from '@/types';
+
+const sessions = getSessionStore();
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, FhirExportRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, trials, patientReference, patientProfile: rawClientProfile } = body.data;
+
+    // The session's profile is the merged one; the client's only stands in on a cold start
+    const session = await sessions.get(sessionId);
+    const profile = session
+      ? normalizeProfile(session.patientProfile)
+      : rawClientProfile ? normalizeProfile(rawClientProfile) : createEmptyPatientProfile();
+
+    const bundle = exportFhirBundle(profile, trials, { patientReference });
+    const missing = validateMcode(profile).filter(i => i.severity === 'error').map(i => i.element);
+    return new Response(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/fhir+json',
+        'Content-Disposition': `attachment; filename="trial-matches-${new Date().toISOString().slice(0, 10)}.json"`,
+        ...(missing.length > 0 ? { 'X-Mcode-Missing': missing.join(', ') } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('FHIR export error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * FHIR API Route
+ *
+ * EHR interop (lib/fhir):
+ * - POST: map a FHIR R4 bundle onto a review of profile changes, reporting
+ *   the resources that weren't mapped; accepted changes merge through
+ *   PATCH /api/documents like a document's
+ */
+
+import { NextRequest } from 'next/server';
+import { createPendingReview, MAX_PENDING_DOCUMENTS } from '@/lib/documents';
+import { Bundle, describeFhirImport, importFhirBundle, importSection } from '@/lib/fhir';
+import { invalidRequest, normalizeProfile, parseBody } from '@/lib/route-helpers';
+import { getSessionStore, Session } from '@/lib/session-store';
+import { createEmptyPatientProfile, FhirImportRequestSchema } from '@/types';
+
+const sessions = getSessionStore();
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, FhirImportRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, name, bundle, patientProfile: rawClientProfile } = body.data;
+
+    if (bundle.entry.length === 0) {
+      return Response.json({ error: 'The bundle has no entries' }, { status: 422 });
+    }
+
+    // Cold start: the client's profile seeds the session
+    const session: Session = await sessions.get(sessionId) || {
+      patientProfile: rawClientProfile ? normalizeProfile(rawClientProfile) : createEmptyPatientProfile(),
+      chatHistory: [],
+    };
+    session.patientProfile = normalizeProfile(session.patientProfile);
+
+    const result = importFhirBundle(bundle as Bundle);
+    const sections = [...new Map(result.mapped.map(m => {
+      const section = importSection(m.resourceType);
+      return [section.title, section] as const;
+    })).values()];
+    const document = createPendingReview({
+      name,
+      text: result.summary,
+      profile: session.patientProfile,
+      extracted: result.extracted,
+      sections,
+      chunks: result.mapped.length,
+      sectionOf: result.sources,
+    });
+    if (result.unmapped.length > 0) document.review.unmapped = result.unmapped;
+    session.documents = [...(session.documents || []), document].slice(-MAX_PENDING_DOCUMENTS);
+    await sessions.set(sessionId, session);
+
+    return Response.json({ review: document.review, content: describeFhirImport(result, document.review) });
+  } catch (error) {
+    console.error('FHIR import error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Genomics API Route
+ *
+ * Molecular results as structured data (lib/genomics):
+ * - POST: parse a VCF or a CSV/TSV/JSON variant list into a review of
+ *   biomarker, TMB and MSI changes, reporting the variants that weren't
+ *   taken; accepted changes merge through PATCH /api/documents like a
+ *   document's
+ */
+
+import { NextRequest } from 'next/server';
+import { createPendingReview, MAX_PENDING_DOCUMENTS } from '@/lib/documents';
+import { describeGenomicImport, detectGenomicFormat, importGenomicReport, parseGenomicReport } from '@/lib/genomics';
+import { invalidRequest, normalizeProfile, parseBody } from '@/lib/route-helpers';
+import { getSessionStore, Session } from '@/lib/session-store';
+import { createEmptyPatientProfile, GenomicImportRequestSchema } from '@/types';
+
+const sessions = getSessionStore();
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, GenomicImportRequestSchema);
+    if (!body.success) return invalidRequest(body.error);
+    const { sessionId, name, text, patientProfile: rawClientProfile } = body.data;
+
+    const format = body.data.format || detectGenomicFormat(text, name);
+    const report = format && parseGenomicReport(text, format);
+    if (!report) {
+      return Response.json({ error: 'Not a VCF or a variant list with a gene column' }, { status: 422 });
+    }
+    if (report.variants.length === 0 && !report.tmb && !report.msi) {
+      return Response.json({ error: 'The report has no variants, TMB or MSI result' }, { status: 422 });
+    }
+
+    // Cold start: the client's profile seeds the session
+    const session: Session = await sessions.get(sessionId) || {
+      patientProfile: rawClientProfile ? normalizeProfile(rawClientProfile) : createEmptyPatientProfile(),
+      chatHistory: [],
+    };
+    session.patientProfile = normalizeProfile(session.patientProfile);
+
+    const result = importGenomicReport(report);
+    const document = createPendingReview({
+      name,
+      text: result.summary,
+      profile: session.patientProfile,
+      extracted: result.extracted,
+      sections: [{ title: 'Genomic report', kind: 'molecular' }],
+      chunks: result.mapped.length,
+      sectionOf: result.sources,
+    });
+    if (result.unmapped.length > 0) document.review.unmapped = result.unmapped;
+    session.documents = [...(session.documents || []), document].slice(-MAX_PENDING_DOCUMENTS);
+    await sessions.set(sessionId, session);
+
+    return Response.json({ review: document.review, content: describeGenomicImport(report, result, document.review) });
+  } catch (error) {
+    console.error('Genomic import error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
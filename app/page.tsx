@@ -7,6 +7,7 @@ import {
   PanelRightOpen,
   FlaskConical,
   TrendingUp,
+  Download,
 } from 'lucide-react';
 import { useChatStore } from '@/hooks/use-chat-store';
 import { cn } from '@/lib/utils';
@@ -37,9 +38,13 @@ export default function ChatPage() {
     totalCost,
     isLoading,
     sendMessage,
+    cancel,
     reset,
     mode,
     setMode,
+    editProfile,
+    ingestDocument,
+    exportTrials,
   } = useChatStore();
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -96,6 +101,7 @@ export default function ChatPage() {
                             <PipelineTracker
                               steps={pipelineSteps}
                               isRunning={isPipelineRunning}
+                              onCancel={cancel}
                               className="my-4"
                             />
                           </motion.div>
@@ -120,9 +126,24 @@ export default function ChatPage() {
                                   {trials.length} found
                                 </Badge>
                               </div>
-                              <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                <TrendingUp className="h-3 w-3" />
-                                Sorted by match score
+                              <div className="flex items-center gap-2">
+                                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                  <TrendingUp className="h-3 w-3" />
+                                  {trials.some(t => t.withinTravelRadius !== undefined)
+                                    ? 'Within travel radius first'
+                                    : 'Sorted by match score'}
+                                </div>
+                                {/* FHIR R4 bundle for the EHR or a trial management system */}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={exportTrials}
+                                  disabled={isPipelineRunning}
+                                  className="h-7 gap-1 px-2 text-xs"
+                                >
+                                  <Download className="h-3 w-3" />
+                                  FHIR
+                                </Button>
                               </div>
                             </div>
 
@@ -156,6 +177,8 @@ export default function ChatPage() {
               {/* Chat Input */}
               <ChatInput
                 onSend={sendMessage}
+                onCancel={cancel}
+                onDocument={ingestDocument}
                 isLoading={isLoading}
                 placeholder={
                   hasContent
@@ -178,7 +201,7 @@ export default function ChatPage() {
               >
                 <div className="w-80 space-y-4 h-full overflow-y-auto custom-scrollbar pr-2">
                   {/* Patient Profile Card */}
-                  <PatientCard profile={patientProfile} />
+                  <PatientCard profile={patientProfile} onEdit={editProfile} />
 
                   {/* Cost Display */}
                   <AnimatePresence>
@@ -2,21 +2,34 @@
 
 import { useRef, useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Send, Loader2, Sparkles } from 'lucide-react';
+import { Send, Loader2, Sparkles, Square, Paperclip, FileText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+
+// Pasted text this long reads better as a document (sections, review) than as a chat message
+const DOCUMENT_MIN_LINES = 6;
+const DOCUMENT_MIN_CHARS = 600;
+
+// Textarea growth limit before it scrolls
+const MAX_INPUT_HEIGHT = 200;
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  onCancel?: () => void;
+  /** A pasted or uploaded clinical document (.txt, .md, text-layer .pdf) */
+  onDocument?: (document: { name: string; text?: string; file?: File }) => void;
   isLoading: boolean;
   placeholder?: string;
 }
 
-export function ChatInput({ onSend, isLoading, placeholder }: ChatInputProps) {
-  const inputRef = useRef<HTMLInputElement>(null);
+export function ChatInput({ onSend, onCancel, onDocument, isLoading, placeholder }: ChatInputProps) {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
   const [value, setValue] = useState('');
 
+  const looksLikeDocument = !!onDocument &&
+    (value.split('\n').length >= DOCUMENT_MIN_LINES || value.length >= DOCUMENT_MIN_CHARS);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (value.trim() && !isLoading) {
@@ -25,14 +38,39 @@ export function ChatInput({ onSend, isLoading, placeholder }: ChatInputProps) {
     }
   };
 
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) handleSubmit(e);
+  };
+
+  const handleReadAsDocument = () => {
+    if (!onDocument || !value.trim() || isLoading) return;
+    onDocument({ name: 'Pasted document', text: value.trim() });
+    setValue('');
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && onDocument && !isLoading) onDocument({ name: file.name, file });
+  };
+
   // Focus input on mount
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
 
+  // Grow with the text, up to a limit
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.style.height = 'auto';
+    input.style.height = `${Math.min(input.scrollHeight, MAX_INPUT_HEIGHT)}px`;
+  }, [value]);
+
   return (
     <form onSubmit={handleSubmit} className="relative">
-      <div className="relative flex items-center gap-2 p-4 border-t bg-background">
+      <div className="relative flex items-end gap-2 p-4 border-t bg-background">
         {/* AI Indicator */}
         <motion.div
           animate={isLoading ? { scale: [1, 1.1, 1] } : {}}
@@ -50,45 +88,98 @@ export function ChatInput({ onSend, isLoading, placeholder }: ChatInputProps) {
 
         {/* Input Field */}
         <div className="flex-1 relative">
-          <Input
+          <textarea
             ref={inputRef}
+            rows={1}
             value={value}
             onChange={(e) => setValue(e.target.value)}
+            onKeyDown={handleKeyDown}
             placeholder={placeholder || 'Describe the patient profile...'}
             disabled={isLoading}
             className={cn(
-              'pr-12 h-11 text-sm',
-              'focus-visible:ring-accent',
+              'flex w-full resize-none rounded-md border border-input bg-background px-3 py-3 pr-12 min-h-11 text-sm leading-5',
+              'placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-accent',
+              'disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-150',
               isLoading && 'opacity-70'
             )}
           />
 
           {/* Character hint */}
           {value.length > 0 && (
-            <span className="absolute right-14 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+            <span className="absolute right-3 bottom-3 text-[10px] text-muted-foreground">
               {value.length}
             </span>
           )}
         </div>
 
-        {/* Send Button */}
-        <Button
-          type="submit"
-          size="icon"
-          variant="accent"
-          disabled={isLoading || !value.trim()}
-          className={cn(
-            'shrink-0 h-11 w-11 rounded-lg transition-all',
-            value.trim() && !isLoading && 'shadow-lg shadow-accent/25'
-          )}
-        >
-          {isLoading ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Send className="h-4 w-4" />
-          )}
-          <span className="sr-only">Send message</span>
-        </Button>
+        {/* Document intake: upload (reports or FHIR bundles), or read long pasted text section by section */}
+        {onDocument && (
+          <>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".txt,.md,.markdown,.pdf,.json,.vcf,.csv,.tsv,text/plain,text/markdown,application/pdf,application/json,application/fhir+json,text/csv,text/tab-separated-values"
+              onChange={handleFile}
+              className="hidden"
+            />
+            {looksLikeDocument ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleReadAsDocument}
+                disabled={isLoading}
+                className="shrink-0 h-11 rounded-lg gap-1.5 text-xs"
+              >
+                <FileText className="h-4 w-4" />
+                Read as document
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                onClick={() => fileRef.current?.click()}
+                disabled={isLoading}
+                className="shrink-0 h-11 w-11 rounded-lg"
+              >
+                <Paperclip className="h-4 w-4" />
+                <span className="sr-only">Upload a clinical document, FHIR bundle or genomic report</span>
+              </Button>
+            )}
+          </>
+        )}
+
+        {/* Stop Button (replaces Send while a request is in flight) */}
+        {isLoading && onCancel ? (
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={onCancel}
+            className="shrink-0 h-11 w-11 rounded-lg"
+          >
+            <Square className="h-4 w-4 fill-current" />
+            <span className="sr-only">Stop</span>
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            variant="accent"
+            disabled={isLoading || !value.trim()}
+            className={cn(
+              'shrink-0 h-11 w-11 rounded-lg transition-all',
+              value.trim() && !isLoading && 'shadow-lg shadow-accent/25'
+            )}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            <span className="sr-only">Send message</span>
+          </Button>
+        )}
       </div>
 
       {/* Loading indicator bar */}
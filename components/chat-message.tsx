@@ -1,13 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Bot, Sparkles, RotateCcw } from 'lucide-react';
+import { User, Bot, Sparkles, RotateCcw, Check, X, Undo2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { cn } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { useChatStore } from '@/hooks/use-chat-store';
-import type { ChatMessage as ChatMessageType } from '@/types';
+import type { ChatMessage as ChatMessageType, DocumentReview as DocumentReviewType, ProfileConflict } from '@/types';
 
 interface ChatMessageProps {
   message: ChatMessageType;
@@ -17,7 +18,9 @@ interface ChatMessageProps {
 export function ChatMessage({ message, isLatest = false }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isError = !isUser && message.content.startsWith('Error:');
-  const { retryLastMessage, lastUserMessage, isLoading } = useChatStore();
+  const {
+    retryLastMessage, lastUserMessage, isLoading, resolveConflict, undoChange, applyDocument, dismissDocument,
+  } = useChatStore();
   const canRetry = isError && isLatest && lastUserMessage && !isLoading;
 
   return (
@@ -87,6 +90,39 @@ export function ChatMessage({ message, isLatest = false }: ChatMessageProps) {
           </ReactMarkdown>
         </div>
 
+        {message.metadata?.conflicts && message.metadata.conflicts.length > 0 && (
+          <ConflictList
+            conflicts={message.metadata.conflicts}
+            onResolve={(conflictId, accept) => resolveConflict(message.id, conflictId, accept)}
+          />
+        )}
+
+        {message.metadata?.document && (
+          <DocumentReview
+            review={message.metadata.document}
+            onMerge={accept => applyDocument(message.id, accept)}
+            onDismiss={() => dismissDocument(message.id)}
+          />
+        )}
+
+        {message.metadata?.undo && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-muted/50 px-3 py-2 text-xs">
+            <span className={cn(message.metadata.undo.undone && 'line-through text-muted-foreground')}>
+              {message.metadata.undo.summary}
+            </span>
+            <div className="ml-auto">
+              {message.metadata.undo.undone ? (
+                <span className="text-muted-foreground">Undone</span>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => undoChange(message.id)}>
+                  <Undo2 className="h-3 w-3" />
+                  Undo
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {canRetry && (
           <Button
             variant="outline"
@@ -103,6 +139,144 @@ export function ChatMessage({ message, isLatest = false }: ChatMessageProps) {
   );
 }
 
+interface ConflictListProps {
+  conflicts: ProfileConflict[];
+  onResolve: (conflictId: string, accept: boolean) => void;
+}
+
+/** Accept / keep-current choices for values that contradict the profile or that the extractors read two ways */
+function ConflictList({ conflicts, onResolve }: ConflictListProps) {
+  return (
+    <div className="space-y-1.5">
+      {conflicts.map(conflict => (
+        <div
+          key={conflict.id}
+          className="flex flex-wrap items-center gap-2 rounded-lg border border-warning/30 bg-warning/10 px-3 py-2 text-xs"
+        >
+          <span className="font-medium">{conflict.label}:</span>
+          <span className={cn(conflict.resolution === 'accepted' && 'line-through text-muted-foreground')}>
+            {conflict.currentDisplay}
+          </span>
+          <span className="text-muted-foreground">{conflict.origin === 'extractors' ? 'or' : '→'}</span>
+          <span className={cn(conflict.resolution === 'rejected' && 'line-through text-muted-foreground')}>
+            {conflict.incomingDisplay}
+          </span>
+          <div className="ml-auto flex gap-1.5">
+            {conflict.resolution ? (
+              <span className="text-muted-foreground">
+                {conflict.resolution === 'accepted' ? 'Updated' : 'Kept current value'}
+              </span>
+            ) : conflict.origin === 'extractors' ? (
+              <>
+                <span className="text-muted-foreground">read two ways</span>
+                <Button variant="outline" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => onResolve(conflict.id, true)}>
+                  <Check className="h-3 w-3" />
+                  Use {conflict.incomingDisplay}
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => onResolve(conflict.id, false)}>
+                  <X className="h-3 w-3" />
+                  Keep {conflict.currentDisplay}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => onResolve(conflict.id, true)}>
+                  <Check className="h-3 w-3" />
+                  Accept
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={() => onResolve(conflict.id, false)}>
+                  <X className="h-3 w-3" />
+                  Keep {conflict.currentDisplay}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface DocumentReviewProps {
+  review: DocumentReviewType;
+  onMerge: (accept: string[]) => void;
+  onDismiss: () => void;
+}
+
+/** What a clinical document would change on the profile, each change picked before merging */
+function DocumentReview({ review, onMerge, onDismiss }: DocumentReviewProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(review.changes.map(c => c.id)));
+  const decided = !!review.status;
+  const accepted = new Set(review.accepted || []);
+
+  const toggle = (id: string) => setSelected(current => {
+    const next = new Set(current);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="space-y-1.5 rounded-lg border border-border bg-background/60 p-2">
+      {review.changes.map(change => {
+        const checked = decided ? accepted.has(change.id) : selected.has(change.id);
+        return (
+          <label
+            key={change.id}
+            title={change.evidence}
+            className={cn(
+              'flex flex-wrap items-center gap-2 rounded-md px-2 py-1.5 text-xs',
+              !decided && 'cursor-pointer hover:bg-muted/60',
+              decided && !checked && 'text-muted-foreground line-through'
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={checked}
+              disabled={decided}
+              onChange={() => toggle(change.id)}
+              className="h-3.5 w-3.5"
+            />
+            <span className="font-medium">{change.label}:</span>
+            {change.currentDisplay && (
+              <>
+                <span className="text-muted-foreground">{change.currentDisplay}</span>
+                <span className="text-muted-foreground">→</span>
+              </>
+            )}
+            <span>{change.proposedDisplay}</span>
+            <span className="ml-auto rounded bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">{change.section}</span>
+          </label>
+        );
+      })}
+      <div className="flex items-center gap-1.5 px-2 pt-1 text-xs">
+        {decided ? (
+          <span className="text-muted-foreground">
+            {review.status === 'merged' ? `Merged ${accepted.size} of ${review.changes.length}` : 'Dismissed'}
+          </span>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 gap-1 px-2 text-[11px]"
+              disabled={selected.size === 0}
+              onClick={() => onMerge(review.changes.filter(c => selected.has(c.id)).map(c => c.id))}
+            >
+              <Check className="h-3 w-3" />
+              Merge {selected.size} selected
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px]" onClick={onDismiss}>
+              <X className="h-3 w-3" />
+              Dismiss
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function formatTime(date: Date): string {
   return new Intl.DateTimeFormat('en-US', {
     hour: 'numeric',
@@ -13,6 +13,7 @@ import type { AppMode } from '@/types';
 
 const MODE_CONFIG: Record<AppMode, { label: string; icon: typeof Server; color: string }> = {
   local: { label: 'Mock', icon: Monitor, color: 'bg-amber-500/10 text-amber-600 border-amber-200' },
+  remote: { label: 'LangGraph', icon: Server, color: 'bg-violet-500/10 text-violet-600 border-violet-200' },
   fastapi: { label: 'FastAPI', icon: Cloud, color: 'bg-emerald-500/10 text-emerald-600 border-emerald-200' },
 };
 
@@ -74,7 +75,7 @@ export function Header({ mode, onModeChange, onReset }: HeaderProps) {
           <button
             className="sm:hidden"
             onClick={() => {
-              const modes: AppMode[] = ['local', 'fastapi'];
+              const modes: AppMode[] = ['local', 'remote', 'fastapi'];
               const next = modes[(modes.indexOf(mode) + 1) % modes.length];
               onModeChange(next);
             }}
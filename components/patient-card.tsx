@@ -10,6 +10,13 @@ import {
   ChevronUp,
   FileText,
   AlertCircle,
+  FlaskConical,
+  HeartPulse,
+  Tablets,
+  MapPin,
+  Pencil,
+  Check,
+  AlertTriangle,
 } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
@@ -18,18 +25,33 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import type { PatientProfile } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { PatientProfileEditor } from '@/components/patient-profile-editor';
+import { formatPatientLocation } from '@/lib/geo';
+import { describeProvenance, getProvenance, isLowConfidence } from '@/lib/provenance';
+import { assessReadiness } from '@/lib/readiness';
+import { formatTnm } from '@/lib/staging';
+import { drugClasses } from '@/lib/terminology';
+import type { ProfileEdit } from '@/lib/profile-edits';
+import type { FieldProvenance, PatientLocation, PatientProfile } from '@/types';
 
 interface PatientCardProps {
   profile: PatientProfile;
+  /** Enables inline editing; edits are applied through the chat store */
+  onEdit?: (edit: ProfileEdit) => void;
   className?: string;
 }
 
-export function PatientCard({ profile, className }: PatientCardProps) {
+export function PatientCard({ profile, onEdit, className }: PatientCardProps) {
   const [isOpen, setIsOpen] = useState(true);
-  const hasData = profile.age || profile.cancerType || Object.keys(profile.biomarkers).length > 0;
+  const [isEditing, setIsEditing] = useState(false);
+  const hasData = profile.age || profile.cancerType || profile.biomarkers.length > 0 ||
+    profile.labs.length > 0 || profile.comorbidities.length > 0 || profile.currentMedications.length > 0;
+  const hasPdl1Biomarker = profile.biomarkers.some(b => b.gene === 'PD-L1');
 
   const dataCompleteness = calculateCompleteness(profile);
+  const readiness = assessReadiness(profile);
 
   return (
     <Card className={cn('overflow-hidden', className)}>
@@ -49,7 +71,9 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                     Patient Profile
                   </CardTitle>
                   <p className="text-xs text-white/80">
-                    {dataCompleteness}% complete
+                    {dataCompleteness}% complete · {readiness.ready
+                      ? 'ready to match'
+                      : `${readiness.blocking.length} needed to match`}
                   </p>
                 </div>
               </div>
@@ -76,8 +100,40 @@ export function PatientCard({ profile, className }: PatientCardProps) {
 
         <CollapsibleContent>
           <CardContent className="p-4 space-y-4">
+            {onEdit && (
+              <div className="flex justify-end -mb-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground"
+                  onClick={() => setIsEditing(editing => !editing)}
+                >
+                  {isEditing ? (
+                    <>
+                      <Check className="h-3 w-3 mr-1" />
+                      Done
+                    </>
+                  ) : (
+                    <>
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Edit
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
+
             <AnimatePresence mode="wait">
-              {!hasData ? (
+              {isEditing && onEdit ? (
+                <motion.div
+                  key="edit"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                >
+                  <PatientProfileEditor profile={profile} onEdit={onEdit} />
+                </motion.div>
+              ) : !hasData ? (
                 <motion.div
                   key="empty"
                   initial={{ opacity: 0 }}
@@ -113,13 +169,17 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                         {profile.age && (
                           <div>
                             <span className="text-muted-foreground">Age: </span>
-                            <span className="font-medium">{profile.age}</span>
+                            <ProvenanceHint provenance={getProvenance(profile, 'age')}>
+                              <span className="font-medium">{profile.age}</span>
+                            </ProvenanceHint>
                           </div>
                         )}
                         {profile.sex && (
                           <div>
                             <span className="text-muted-foreground">Sex: </span>
-                            <span className="font-medium">{profile.sex}</span>
+                            <ProvenanceHint provenance={getProvenance(profile, 'sex')}>
+                              <span className="font-medium">{profile.sex}</span>
+                            </ProvenanceHint>
                           </div>
                         )}
                       </div>
@@ -127,7 +187,7 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                   )}
 
                   {/* Diagnosis */}
-                  {(profile.cancerType || profile.stage || profile.histology) && (
+                  {(profile.cancerType || profile.stage || profile.tnm || profile.stageExtent || profile.histology) && (
                     <ProfileSection
                       icon={Activity}
                       title="Diagnosis"
@@ -135,31 +195,51 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                       <div className="space-y-2 text-sm">
                         {profile.cancerType && (
                           <div className="flex flex-wrap gap-1">
-                            <Badge variant="accent" className="text-xs">
-                              {profile.cancerType}
-                            </Badge>
-                            {profile.histology && (
-                              <Badge variant="secondary" className="text-xs">
-                                {profile.histology}
+                            <ProvenanceHint provenance={getProvenance(profile, 'cancerType')}>
+                              <Badge variant="accent" className="text-xs">
+                                {profile.cancerType}
                               </Badge>
+                            </ProvenanceHint>
+                            {profile.histology && (
+                              <ProvenanceHint provenance={getProvenance(profile, 'histology')}>
+                                <Badge variant="secondary" className="text-xs">
+                                  {profile.histology}
+                                </Badge>
+                              </ProvenanceHint>
                             )}
                           </div>
                         )}
-                        {profile.stage && (
-                          <div>
+                        {(profile.stage || profile.tnm || profile.stageExtent) && (
+                          <div className="flex flex-wrap items-center gap-x-1.5">
                             <span className="text-muted-foreground">Stage: </span>
-                            <span className="font-medium">{profile.stage}</span>
+                            {profile.stage && (
+                              <ProvenanceHint provenance={getProvenance(profile, 'stage')}>
+                                <span className="font-medium">{profile.stage}</span>
+                              </ProvenanceHint>
+                            )}
+                            {profile.stageExtent && (
+                              <ProvenanceHint provenance={getProvenance(profile, 'stageExtent')}>
+                                <span className="font-medium">{profile.stageExtent}-stage</span>
+                              </ProvenanceHint>
+                            )}
+                            {profile.tnm && (
+                              <ProvenanceHint provenance={getProvenance(profile, 'tnm')}>
+                                <span className="font-mono text-xs text-muted-foreground">{formatTnm(profile.tnm)}</span>
+                              </ProvenanceHint>
+                            )}
                           </div>
                         )}
                         {profile.ecog !== undefined && (
                           <div>
                             <span className="text-muted-foreground">ECOG PS: </span>
-                            <Badge
-                              variant={profile.ecog <= 1 ? 'success' : profile.ecog <= 2 ? 'warning' : 'destructive'}
-                              className="text-xs"
-                            >
-                              {profile.ecog}
-                            </Badge>
+                            <ProvenanceHint provenance={getProvenance(profile, 'ecog')}>
+                              <Badge
+                                variant={profile.ecog <= 1 ? 'success' : profile.ecog <= 2 ? 'warning' : 'destructive'}
+                                className="text-xs"
+                              >
+                                {profile.ecog}
+                              </Badge>
+                            </ProvenanceHint>
                           </div>
                         )}
                       </div>
@@ -167,24 +247,42 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                   )}
 
                   {/* Biomarkers */}
-                  {Object.keys(profile.biomarkers).length > 0 && (
+                  {profile.biomarkers.length > 0 && (
                     <ProfileSection
                       icon={Dna}
                       title="Biomarkers"
                     >
                       <div className="flex flex-wrap gap-1.5">
-                        {Object.entries(profile.biomarkers).map(([key, value]) => (
-                          <Badge
-                            key={key}
-                            variant="teal"
-                            className="text-xs font-normal"
+                        {profile.biomarkers.map((biomarker, idx) => (
+                          <ProvenanceHint
+                            key={`${biomarker.gene}-${biomarker.alteration ?? idx}`}
+                            provenance={getProvenance(profile, 'biomarkers', biomarker)}
+                            details={[
+                              biomarker.method && `Method: ${biomarker.method}`,
+                              biomarker.specimenDate && `Specimen: ${biomarker.specimenDate}`,
+                            ]}
                           >
-                            <span className="font-medium">{key}:</span>
-                            <span className="ml-1">{value}</span>
-                          </Badge>
+                            <Badge
+                              variant={biomarker.status === 'Negative' ? 'muted' : 'teal'}
+                              className="text-xs font-normal"
+                            >
+                              <span className="font-medium">{biomarker.gene}</span>
+                              {biomarker.alteration && (
+                                <span className="ml-1">{biomarker.alteration}</span>
+                              )}
+                              <span className="ml-1">
+                                {biomarker.value !== undefined
+                                  ? `${biomarker.value}${biomarker.unit?.startsWith('%') ? biomarker.unit : biomarker.unit ? ` ${biomarker.unit}` : ''}`
+                                  : biomarker.status}
+                              </span>
+                              {biomarker.method && (
+                                <span className="ml-1 text-[10px] opacity-70">{biomarker.method}</span>
+                              )}
+                            </Badge>
+                          </ProvenanceHint>
                         ))}
                       </div>
-                      {profile.pdl1Score && (
+                      {profile.pdl1Score && !hasPdl1Biomarker && (
                         <div className="mt-2 text-sm">
                           <span className="text-muted-foreground">PD-L1 TPS: </span>
                           <span className="font-medium">{profile.pdl1Score}</span>
@@ -201,13 +299,88 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                     >
                       <div className="flex flex-wrap gap-1.5">
                         {profile.priorTreatments.map((treatment, idx) => (
-                          <Badge
+                          <ProvenanceHint
                             key={idx}
-                            variant="outline"
-                            className="text-xs"
+                            provenance={getProvenance(profile, 'priorTreatments', treatment)}
+                            details={[drugClasses(treatment).filter(c => c !== treatment).join(' · ')]}
                           >
-                            {treatment}
-                          </Badge>
+                            <Badge
+                              variant="outline"
+                              className="text-xs"
+                            >
+                              {treatment}
+                            </Badge>
+                          </ProvenanceHint>
+                        ))}
+                      </div>
+                    </ProfileSection>
+                  )}
+
+                  {/* Labs */}
+                  {profile.labs.length > 0 && (
+                    <ProfileSection
+                      icon={FlaskConical}
+                      title="Labs"
+                    >
+                      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+                        {profile.labs.map((lab) => (
+                          <div key={lab.name} className="flex items-center gap-1 min-w-0">
+                            <span className="text-muted-foreground truncate">{lab.name}: </span>
+                            <ProvenanceHint provenance={getProvenance(profile, 'labs', lab)} details={[lab.date && `Date: ${lab.date}`]}>
+                              <span className={cn('font-medium', lab.isNormal === false && 'text-warning')}>
+                                {lab.value}
+                              </span>
+                            </ProvenanceHint>
+                            <span className="text-[10px] text-muted-foreground">{lab.unit}</span>
+                            {lab.isNormal === false && (
+                              <AlertCircle className="h-3 w-3 text-warning shrink-0" />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </ProfileSection>
+                  )}
+
+                  {/* Comorbidities */}
+                  {profile.comorbidities.length > 0 && (
+                    <ProfileSection
+                      icon={HeartPulse}
+                      title="Comorbidities"
+                    >
+                      <div className="flex flex-wrap gap-1.5">
+                        {profile.comorbidities.map((condition) => (
+                          <ProvenanceHint key={condition} provenance={getProvenance(profile, 'comorbidities', condition)}>
+                            <Badge
+                              variant="secondary"
+                              className="text-xs"
+                            >
+                              {condition}
+                            </Badge>
+                          </ProvenanceHint>
+                        ))}
+                      </div>
+                    </ProfileSection>
+                  )}
+
+                  {/* Current Medications */}
+                  {profile.currentMedications.length > 0 && (
+                    <ProfileSection
+                      icon={Tablets}
+                      title="Current Medications"
+                    >
+                      <div className="flex flex-wrap gap-1.5">
+                        {profile.currentMedications.map((med) => (
+                          <ProvenanceHint key={med.name} provenance={getProvenance(profile, 'currentMedications', med)}>
+                            <Badge
+                              variant={med.status === 'active' ? 'outline' : 'muted'}
+                              className="text-xs"
+                            >
+                              {med.name}
+                              {med.status === 'stopped' && (
+                                <span className="ml-1 text-[10px]">(stopped)</span>
+                              )}
+                            </Badge>
+                          </ProvenanceHint>
                         ))}
                       </div>
                     </ProfileSection>
@@ -215,6 +388,9 @@ export function PatientCard({ profile, className }: PatientCardProps) {
                 </motion.div>
               )}
             </AnimatePresence>
+
+            {/* Location & travel (always shown so it can be entered manually) */}
+            <LocationSection profile={profile} onEdit={onEdit} />
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
@@ -247,14 +423,162 @@ function ProfileSection({ icon: Icon, title, children }: ProfileSectionProps) {
   );
 }
 
+interface ProvenanceHintProps {
+  provenance?: FieldProvenance;
+  /** Extra lines for the tooltip (falsy entries are skipped) */
+  details?: Array<string | false | undefined>;
+  children: React.ReactNode;
+}
+
+/**
+ * Shows where a value came from on hover; low-confidence values get a
+ * dashed warning outline so they stand out before anyone trusts a match.
+ */
+function ProvenanceHint({ provenance, details = [], children }: ProvenanceHintProps) {
+  const lines = details.filter((line): line is string => !!line);
+  if (!provenance && lines.length === 0) return <>{children}</>;
+  const isLow = isLowConfidence(provenance);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'inline-flex items-center gap-0.5 rounded-md',
+            isLow && 'outline outline-1 outline-dashed outline-warning outline-offset-1'
+          )}
+        >
+          {children}
+          {isLow && <AlertTriangle className="h-3 w-3 text-warning shrink-0" />}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="left" className="max-w-[260px] text-xs space-y-1">
+        {provenance && (
+          <>
+            <p className="font-medium">{describeProvenance(provenance)}</p>
+            {provenance.span && (
+              <p className="italic text-muted-foreground">&ldquo;{provenance.span.text}&rdquo;</p>
+            )}
+            <p className="text-muted-foreground">
+              {new Date(provenance.recordedAt).toLocaleString()}
+              {provenance.messageId && ` · message ${provenance.messageId.slice(0, 8)}`}
+            </p>
+            {isLow && <p className="text-warning">Low confidence. Please verify.</p>}
+          </>
+        )}
+        {lines.map(line => (
+          <p key={line} className="text-muted-foreground">{line}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+interface LocationSectionProps {
+  profile: PatientProfile;
+  onEdit?: (edit: ProfileEdit) => void;
+}
+
+function LocationSection({ profile, onEdit }: LocationSectionProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [city, setCity] = useState('');
+  const [postalCode, setPostalCode] = useState('');
+  const [radius, setRadius] = useState('');
+
+  const startEditing = () => {
+    setCity(profile.location?.city || '');
+    setPostalCode(profile.location?.postalCode || '');
+    setRadius(profile.maxTravelMiles !== undefined ? String(profile.maxTravelMiles) : '');
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    // State/country qualify the old city; drop them when the city changes
+    const keepQualifiers = city.trim() === (profile.location?.city || '');
+    const location: PatientLocation = {
+      ...(keepQualifiers ? profile.location : {}),
+      city: city.trim() || undefined,
+      postalCode: postalCode.trim() || undefined,
+    };
+    const miles = parseInt(radius, 10);
+    onEdit?.({
+      set: {
+        location: location.city || location.postalCode ? location : undefined,
+        maxTravelMiles: Number.isFinite(miles) && miles > 0 ? miles : undefined,
+      },
+    });
+    setIsEditing(false);
+  };
+
+  const label = formatPatientLocation(profile.location);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <MapPin className="h-4 w-4 text-accent" />
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+          Location & Travel
+        </span>
+        {onEdit && !isEditing && (
+          <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto" onClick={startEditing} title="Edit location">
+            <Pencil className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      {isEditing ? (
+        <form
+          className="space-y-2"
+          onSubmit={e => { e.preventDefault(); save(); }}
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <Input className="h-8 text-xs" placeholder="City" value={city} onChange={e => setCity(e.target.value)} />
+            <Input className="h-8 text-xs" placeholder="ZIP / postal code" value={postalCode} onChange={e => setPostalCode(e.target.value)} />
+          </div>
+          <Input
+            className="h-8 text-xs"
+            type="number"
+            min={1}
+            placeholder="Max travel distance (miles)"
+            value={radius}
+            onChange={e => setRadius(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" className="h-7 text-xs">
+              Save
+            </Button>
+          </div>
+        </form>
+      ) : label || profile.maxTravelMiles !== undefined ? (
+        <div className="text-sm">
+          {label && (
+            <ProvenanceHint provenance={getProvenance(profile, 'location')}>
+              <span className="font-medium">{label}</span>
+            </ProvenanceHint>
+          )}
+          {profile.maxTravelMiles !== undefined && (
+            <span className="text-muted-foreground">{label ? ' · ' : ''}within {profile.maxTravelMiles} mi</span>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Add a home city or postal code to rank trials by distance
+        </p>
+      )}
+    </div>
+  );
+}
+
 function calculateCompleteness(profile: PatientProfile): number {
   const fields = [
     profile.age,
     profile.sex,
     profile.cancerType,
-    profile.stage,
+    profile.stage || profile.stageExtent,
     profile.ecog !== undefined,
-    Object.keys(profile.biomarkers).length > 0,
+    profile.biomarkers.length > 0,
     profile.priorTreatments.length > 0,
   ];
 
@@ -0,0 +1,327 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, X, Eraser } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatBiomarker, parseBiomarkerLabel } from '@/lib/biomarkers';
+import { formatStageGroup, formatTnm, normalizeStage, parseTnm, stageGroupFromTnm } from '@/lib/staging';
+import { normalizeTreatments } from '@/lib/terminology';
+import type { ProfileEdit, ProfileField } from '@/lib/profile-edits';
+import type { PatientProfile } from '@/types';
+
+interface PatientProfileEditorProps {
+  profile: PatientProfile;
+  onEdit: (edit: ProfileEdit) => void;
+}
+
+const SELECT_CLASS =
+  'flex h-8 w-full rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+/**
+ * Edit mode of the PatientCard: every field is editable, list fields are
+ * chips that can be added or removed, and each field can be cleared.
+ */
+export function PatientProfileEditor({ profile, onEdit }: PatientProfileEditorProps) {
+  const clear = (field: ProfileField) => onEdit({ clear: [field] });
+
+  return (
+    <div className="space-y-4 text-sm">
+      <EditorSection title="Demographics">
+        <div className="grid grid-cols-2 gap-2">
+          <FieldRow label="Age" onClear={profile.age !== undefined ? () => clear('age') : undefined}>
+            <TextField
+              type="number"
+              value={profile.age !== undefined ? String(profile.age) : ''}
+              onCommit={value => {
+                const age = parseInt(value, 10);
+                onEdit(Number.isFinite(age) && age > 0 ? { set: { age } } : { clear: ['age'] });
+              }}
+            />
+          </FieldRow>
+          <FieldRow label="Sex" onClear={profile.sex ? () => clear('sex') : undefined}>
+            <select
+              className={SELECT_CLASS}
+              value={profile.sex || ''}
+              onChange={e => onEdit(e.target.value
+                ? { set: { sex: e.target.value as PatientProfile['sex'] } }
+                : { clear: ['sex'] })}
+            >
+              <option value="">—</option>
+              <option value="Male">Male</option>
+              <option value="Female">Female</option>
+            </select>
+          </FieldRow>
+        </div>
+      </EditorSection>
+
+      <EditorSection title="Diagnosis">
+        <div className="grid grid-cols-2 gap-2">
+          <FieldRow label="Cancer type" onClear={profile.cancerType ? () => clear('cancerType') : undefined}>
+            <TextField value={profile.cancerType || ''} onCommit={value => commitText('cancerType', value, onEdit)} />
+          </FieldRow>
+          <FieldRow label="Histology" onClear={profile.histology ? () => clear('histology') : undefined}>
+            <TextField value={profile.histology || ''} onCommit={value => commitText('histology', value, onEdit)} />
+          </FieldRow>
+          <FieldRow label="Stage" onClear={profile.stage ? () => clear('stage') : undefined}>
+            <TextField
+              value={profile.stage || ''}
+              onCommit={value => onEdit(value.trim() ? { set: { stage: normalizeStage(value) } } : { clear: ['stage'] })}
+            />
+          </FieldRow>
+          <FieldRow label="TNM" onClear={profile.tnm ? () => clear('tnm') : undefined}>
+            <TextField
+              value={profile.tnm ? formatTnm(profile.tnm) : ''}
+              onCommit={value => {
+                if (!value.trim()) return onEdit({ clear: ['tnm'] });
+                const tnm = parseTnm(value);
+                if (!tnm) return;
+                // A new TNM re-derives the group when the cancer type has a table for it
+                const group = stageGroupFromTnm(tnm, profile.cancerType);
+                onEdit({ set: { tnm, ...(group ? { stage: formatStageGroup(group) } : {}) } });
+              }}
+            />
+          </FieldRow>
+          <FieldRow label="ECOG PS" onClear={profile.ecog !== undefined ? () => clear('ecog') : undefined}>
+            <select
+              className={SELECT_CLASS}
+              value={profile.ecog !== undefined ? String(profile.ecog) : ''}
+              onChange={e => onEdit(e.target.value
+                ? { set: { ecog: parseInt(e.target.value, 10) } }
+                : { clear: ['ecog'] })}
+            >
+              <option value="">—</option>
+              {[0, 1, 2, 3, 4].map(score => (
+                <option key={score} value={score}>{score}</option>
+              ))}
+            </select>
+          </FieldRow>
+          {(profile.stageExtent || /\bsclc\b|small cell/i.test(profile.cancerType || '')) && (
+            <FieldRow label="SCLC extent" onClear={profile.stageExtent ? () => clear('stageExtent') : undefined}>
+              <select
+                className={SELECT_CLASS}
+                value={profile.stageExtent || ''}
+                onChange={e => onEdit(e.target.value
+                  ? { set: { stageExtent: e.target.value as PatientProfile['stageExtent'] } }
+                  : { clear: ['stageExtent'] })}
+              >
+                <option value="">—</option>
+                <option value="Limited">Limited</option>
+                <option value="Extensive">Extensive</option>
+              </select>
+            </FieldRow>
+          )}
+        </div>
+      </EditorSection>
+
+      <EditorSection
+        title="Biomarkers"
+        onClear={profile.biomarkers.length > 0 || profile.pdl1Score ? () => onEdit({ clear: ['biomarkers', 'pdl1Score'] }) : undefined}
+      >
+        <ChipList
+          items={profile.biomarkers.map(formatBiomarker)}
+          onRemove={idx => onEdit({ set: { biomarkers: profile.biomarkers.filter((_, i) => i !== idx) } })}
+          addPlaceholder="Add biomarker (e.g. KRAS G12C)"
+          onAdd={text => {
+            const biomarker = parseBiomarkerLabel(text);
+            if (biomarker) onEdit({ set: { biomarkers: [...profile.biomarkers, biomarker] } });
+          }}
+        />
+      </EditorSection>
+
+      <EditorSection
+        title="Prior Treatments"
+        onClear={profile.priorTreatments.length > 0 ? () => clear('priorTreatments') : undefined}
+      >
+        <ChipList
+          items={profile.priorTreatments}
+          onRemove={idx => onEdit({ set: { priorTreatments: profile.priorTreatments.filter((_, i) => i !== idx) } })}
+          addPlaceholder="Add treatment (e.g. Carboplatin)"
+          onAdd={text => {
+            // "Keytruda" → Pembrolizumab, "FOLFOX" → its components
+            const priorTreatments = normalizeTreatments([...profile.priorTreatments, text]);
+            if (priorTreatments.length > profile.priorTreatments.length) onEdit({ set: { priorTreatments } });
+          }}
+        />
+      </EditorSection>
+
+      {profile.labs.length > 0 && (
+        <EditorSection title="Labs" onClear={() => clear('labs')}>
+          <ChipList
+            items={profile.labs.map(lab => `${lab.name} ${lab.value} ${lab.unit}`)}
+            onRemove={idx => onEdit({ set: { labs: profile.labs.filter((_, i) => i !== idx) } })}
+          />
+        </EditorSection>
+      )}
+
+      {profile.comorbidities.length > 0 && (
+        <EditorSection title="Comorbidities" onClear={() => clear('comorbidities')}>
+          <ChipList
+            items={profile.comorbidities}
+            onRemove={idx => onEdit({ set: { comorbidities: profile.comorbidities.filter((_, i) => i !== idx) } })}
+          />
+        </EditorSection>
+      )}
+
+      {profile.currentMedications.length > 0 && (
+        <EditorSection title="Current Medications" onClear={() => clear('currentMedications')}>
+          <ChipList
+            items={profile.currentMedications.map(med => med.status === 'stopped' ? `${med.name} (stopped)` : med.name)}
+            onRemove={idx => onEdit({ set: { currentMedications: profile.currentMedications.filter((_, i) => i !== idx) } })}
+          />
+        </EditorSection>
+      )}
+    </div>
+  );
+}
+
+function commitText(field: 'cancerType' | 'histology', value: string, onEdit: (edit: ProfileEdit) => void) {
+  const trimmed = value.trim();
+  onEdit(trimmed ? { set: { [field]: trimmed } } : { clear: [field] });
+}
+
+// =============================================================================
+// Building Blocks
+// =============================================================================
+
+interface EditorSectionProps {
+  title: string;
+  onClear?: () => void;
+  children: React.ReactNode;
+}
+
+function EditorSection({ title, onClear, children }: EditorSectionProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+          {title}
+        </span>
+        {onClear && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px] text-muted-foreground" onClick={onClear}>
+            <Eraser className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface FieldRowProps {
+  label: string;
+  onClear?: () => void;
+  children: React.ReactNode;
+}
+
+function FieldRow({ label, onClear, children }: FieldRowProps) {
+  return (
+    <label className="block space-y-1">
+      <span className="flex items-center justify-between text-[11px] text-muted-foreground">
+        {label}
+        {onClear && (
+          <button
+            type="button"
+            className="hover:text-foreground"
+            onClick={e => { e.preventDefault(); onClear(); }}
+            title={`Clear ${label.toLowerCase()}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+interface TextFieldProps {
+  value: string;
+  type?: 'text' | 'number';
+  onCommit: (value: string) => void;
+}
+
+/** Input that keeps a local draft and commits on blur or Enter */
+function TextField({ value, type = 'text', onCommit }: TextFieldProps) {
+  const [draft, setDraft] = useState(value);
+
+  // Follow outside changes (chat extraction, clear button)
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <Input
+      type={type}
+      className="h-8 text-xs"
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        }
+      }}
+    />
+  );
+}
+
+interface ChipListProps {
+  items: string[];
+  onRemove: (index: number) => void;
+  onAdd?: (text: string) => void;
+  addPlaceholder?: string;
+}
+
+function ChipList({ items, onRemove, onAdd, addPlaceholder }: ChipListProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const text = draft.trim();
+    if (!text || !onAdd) return;
+    onAdd(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={cn('flex flex-wrap gap-1.5', items.length === 0 && 'hidden')}>
+        {items.map((item, idx) => (
+          <Badge key={`${item}-${idx}`} variant="outline" className="text-xs font-normal pr-1">
+            {item}
+            <button
+              type="button"
+              className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+              onClick={() => onRemove(idx)}
+              title={`Remove ${item}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      {onAdd && (
+        <form
+          className="flex gap-1.5"
+          onSubmit={e => { e.preventDefault(); add(); }}
+        >
+          <Input
+            className="h-8 text-xs"
+            placeholder={addPlaceholder}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="iconSm" className="shrink-0" disabled={!draft.trim()}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,13 @@ import {
   AlertCircle,
   Zap,
   ChevronRight,
+  Ban,
+  Square,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import type { PipelineStep, ModelId, MODEL_CONFIGS } from '@/types';
@@ -19,11 +22,13 @@ import type { PipelineStep, ModelId, MODEL_CONFIGS } from '@/types';
 interface PipelineTrackerProps {
   steps: PipelineStep[];
   isRunning: boolean;
+  onCancel?: () => void;
   className?: string;
 }
 
-export function PipelineTracker({ steps, isRunning, className }: PipelineTrackerProps) {
+export function PipelineTracker({ steps, isRunning, onCancel, className }: PipelineTrackerProps) {
   const completedSteps = steps.filter(s => s.status === 'complete').length;
+  const isCancelled = steps.some(s => s.status === 'cancelled');
   const progressPercent = (completedSteps / steps.length) * 100;
 
   const currentStep = steps.find(s => s.status === 'running');
@@ -44,13 +49,28 @@ export function PipelineTracker({ steps, isRunning, className }: PipelineTracker
               Pipeline Execution
             </CardTitle>
           </div>
-          <Badge variant={isRunning ? 'accent' : completedSteps === steps.length ? 'success' : 'secondary'}>
-            {isRunning
-              ? 'Running'
-              : completedSteps === steps.length
-              ? 'Complete'
-              : `${completedSteps}/${steps.length}`}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant={isRunning ? 'accent' : completedSteps === steps.length ? 'success' : 'secondary'}>
+              {isRunning
+                ? 'Running'
+                : isCancelled
+                ? 'Cancelled'
+                : completedSteps === steps.length
+                ? 'Complete'
+                : `${completedSteps}/${steps.length}`}
+            </Badge>
+            {isRunning && onCancel && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onCancel}
+                className="h-6 px-2 gap-1 text-[10px]"
+              >
+                <Square className="h-3 w-3 fill-current" />
+                Stop
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Overall Progress */}
@@ -124,6 +144,7 @@ function PipelineStepItem({ step, isLast, layout }: PipelineStepItemProps) {
     running: <Loader2 className="h-4 w-4 text-accent animate-spin" />,
     complete: <CheckCircle2 className="h-4 w-4 text-success" />,
     error: <AlertCircle className="h-4 w-4 text-destructive" />,
+    cancelled: <Ban className="h-4 w-4 text-muted-foreground" />,
   };
 
   if (layout === 'horizontal') {
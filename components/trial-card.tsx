@@ -10,6 +10,7 @@ import {
   Beaker,
   ChevronDown,
   ChevronUp,
+  Navigation,
 } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
@@ -95,6 +96,22 @@ export function TrialCard({ trial, index }: TrialCardProps) {
                 </span>
               </div>
             )}
+            {trial.nearestSite && (
+              <div
+                className={cn(
+                  'flex items-center gap-1',
+                  trial.withinTravelRadius === true && 'text-success',
+                  trial.withinTravelRadius === false && 'text-warning'
+                )}
+                title={`Nearest site: ${trial.nearestSite.location}`}
+              >
+                <Navigation className="h-3 w-3" />
+                <span>
+                  {trial.nearestSite.distanceMiles} mi
+                  {trial.locations.length > 1 && ` · ${trial.nearestSite.location}`}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Match Score Bar */}
@@ -2,11 +2,131 @@
 
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import { ChatMessage, PatientProfile, PipelineStep, TrialMatch, TrialProgressEvent, PIPELINE_STEPS, createEmptyPatientProfile, AppMode } from '@/types';
+import { mergeBiomarkers } from '@/lib/biomarkers';
+import { mergeLabs, mergeMedications } from '@/lib/clinical-context';
+import { detectGenomicFormat } from '@/lib/genomics/report';
+import { rankTrialsByDistance } from '@/lib/geo';
+import { applyProfileEdit, normalizeProfileEdit, ProfileEdit } from '@/lib/profile-edits';
+import { pruneProvenance } from '@/lib/provenance';
+import { conflictEdit, revertConflicts } from '@/lib/profile-conflicts';
+import { withOperatedFields } from '@/lib/profile-operations';
+import { ChatMessage, ChatStreamEvent, DocumentReview, PatientProfile, PipelineStep, TrialMatch, TrialProgressEvent, PIPELINE_STEPS, createEmptyPatientProfile, AppMode } from '@/types';
 
 // Heartbeat timeout: if no SSE event for this long, assume connection is dead
 const HEARTBEAT_TIMEOUT_MS = 45_000; // 45 seconds
 
+// Reconnects allowed for a matching job before giving up
+const MAX_RESUME_ATTEMPTS = 3;
+
+// Controller for the in-flight /api/chat request (not kept in state: not serializable)
+let activeRequest: AbortController | null = null;
+// Matching job backing the in-flight request, so Stop can cancel it server-side
+let activeJobId: string | null = null;
+// Last manual profile edit sent to the server; messages wait for it so the
+// session never merges a removed value back in
+let pendingProfileSync: Promise<void> = Promise.resolve();
+
+/**
+ * Error for a failed /api/chat response; a 400 lists the fields that failed
+ * validation ("patientProfile.ecog: Number must be less than or equal to 4").
+ */
+async function responseError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null) as
+    { error?: string; issues?: Array<{ path: string; message: string }> } | null;
+  if (!body?.error) return new Error(`Request failed (${response.status})`);
+  const issues = (body.issues || []).map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message);
+  return new Error(issues.length > 0 ? `${body.error} — ${issues.join('; ')}` : body.error);
+}
+
+/** A file's bytes as base64, for JSON upload (PDFs) */
+async function fileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+/**
+ * Where a document goes: a FHIR bundle (JSON with resourceType "Bundle") to
+ * the record import, a VCF or variant list to the genomic import, anything
+ * else to document intake as text or a PDF.
+ */
+async function documentRequest(text?: string, file?: File): Promise<{ url: string; body: Record<string, unknown> }> {
+  if (file && (file.type === 'application/pdf' || /\.pdf$/i.test(file.name))) {
+    return { url: '/api/documents', body: { pdfBase64: await fileAsBase64(file) } };
+  }
+  const content = file ? await file.text() : text || '';
+  if (/^\s*\{/.test(content)) {
+    try {
+      const bundle = JSON.parse(content);
+      if (bundle?.resourceType === 'Bundle') return { url: '/api/fhir', body: { bundle } };
+    } catch {
+      // Not JSON after all: read it as text
+    }
+  }
+  const format = detectGenomicFormat(content, file?.name);
+  if (format) return { url: '/api/genomics', body: { text: content, format } };
+  return { url: '/api/documents', body: { text: content } };
+}
+
+/**
+ * Read an SSE response, calling `onEvent` for each `data:` payload (with its
+ * `id:` when present). Cancels the reader if no data arrives within the
+ * heartbeat timeout.
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (data: ChatStreamEvent, id?: number) => void
+): Promise<{ heartbeatDead: boolean }> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No stream');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Heartbeat timeout: detect dead connections
+  let lastEventTime = Date.now();
+  let heartbeatDead = false;
+  const heartbeatChecker = setInterval(() => {
+    if (Date.now() - lastEventTime > HEARTBEAT_TIMEOUT_MS) {
+      heartbeatDead = true;
+      reader.cancel();
+      clearInterval(heartbeatChecker);
+    }
+  }, 5000);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      lastEventTime = Date.now(); // Reset heartbeat on any data
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const eventText of events) {
+        let id: number | undefined;
+        let payload = '';
+        for (const line of eventText.split('\n')) {
+          if (line.startsWith('id: ')) id = parseInt(line.slice(4), 10);
+          else if (line.startsWith('data: ')) payload = line.slice(6);
+        }
+        if (!payload) continue;
+        try {
+          onEvent(JSON.parse(payload) as ChatStreamEvent, id);
+        } catch (e) {
+          console.error('Parse error:', e);
+        }
+      }
+    }
+  } finally {
+    clearInterval(heartbeatChecker);
+  }
+
+  return { heartbeatDead };
+}
+
 interface ChatState {
   sessionId: string;
   messages: ChatMessage[];
@@ -23,8 +143,16 @@ interface ChatState {
 
   sendMessage: (content: string) => Promise<void>;
   retryLastMessage: () => Promise<void>;
+  cancel: () => void;
   reset: () => void;
   setMode: (mode: AppMode) => void;
+  editProfile: (edit: ProfileEdit) => void;
+  resolveConflict: (messageId: string, conflictId: string, accept: boolean) => void;
+  undoChange: (messageId: string) => Promise<void>;
+  ingestDocument: (document: { name: string; text?: string; file?: File }) => Promise<void>;
+  applyDocument: (messageId: string, accept: string[]) => Promise<void>;
+  dismissDocument: (messageId: string) => void;
+  exportTrials: () => Promise<void>;
 }
 
 export const useChatStore = create<ChatState>((set, get) => ({
@@ -61,162 +189,193 @@ export const useChatStore = create<ChatState>((set, get) => ({
       lastUserMessage: content,
     });
 
+    const abortController = new AbortController();
+    activeRequest = abortController;
+
     try {
-      const response = await fetch('/api/chat', {
+      let jobId: string | null = null;
+      let lastEventId = 0;
+      let streamDone = false;
+
+      // Event handler shared by the initial stream and resumed job streams
+      const handleEvent = (data: ChatStreamEvent) => {
+        switch (data.type) {
+          case 'step_start':
+            set({ isPipelineRunning: true });
+            set(state => ({
+              pipelineSteps: state.pipelineSteps.map(step =>
+                step.name === data.step ? { ...step, status: 'running' as const, detail: data.message || undefined } : step
+              ),
+            }));
+            break;
+
+          case 'step_complete':
+            set(state => ({
+              pipelineSteps: state.pipelineSteps.map(step =>
+                step.name === data.step ? { ...step, status: 'complete' as const, cost: data.cost, detail: undefined } : step
+              ),
+            }));
+            break;
+
+          case 'step_progress':
+            set(state => ({
+              pipelineSteps: state.pipelineSteps.map(step =>
+                step.name === data.step ? { ...step, detail: data.detail || data.message || step.detail } : step
+              ),
+              matchingDetail: data.detail || data.message || state.matchingDetail,
+            }));
+            break;
+
+          case 'trial_progress':
+            set(state => ({
+              trialProgress: [...state.trialProgress, {
+                nctId: data.nctId,
+                title: data.title,
+                index: data.index,
+                total: data.total,
+                status: data.status,
+                confidence: data.confidence,
+              }],
+            }));
+            break;
+
+          case 'response': {
+            const assistantMessage: ChatMessage = {
+              id: uuidv4(),
+              role: 'assistant',
+              content: data.content,
+              timestamp: new Date(),
+              metadata: { patientData: data.patientData, trials: data.trials, conflicts: data.conflicts, undo: data.undo },
+            };
+
+            // Mark all steps as complete (defensive)
+            set(state => ({
+              messages: [...state.messages, assistantMessage],
+              // Conflicting values stay as they are until resolved in chat; fields the
+              // message explicitly changed ("remove KRAS") are taken as the server has them
+              patientProfile: data.patientData
+                ? withOperatedFields(pruneProvenance(revertConflicts(state.patientProfile, {
+                    ...state.patientProfile,
+                    ...data.patientData,
+                    biomarkers: mergeBiomarkers(state.patientProfile.biomarkers, data.patientData.biomarkers || []),
+                    priorTreatments: [...new Set([
+                      ...state.patientProfile.priorTreatments,
+                      ...(data.patientData.priorTreatments || []),
+                    ])],
+                    labs: mergeLabs(state.patientProfile.labs, data.patientData.labs || []),
+                    comorbidities: [...new Set([
+                      ...state.patientProfile.comorbidities,
+                      ...(data.patientData.comorbidities || []),
+                    ])],
+                    currentMedications: mergeMedications(
+                      state.patientProfile.currentMedications,
+                      data.patientData.currentMedications || []
+                    ),
+                    provenance: { ...state.patientProfile.provenance, ...data.patientData.provenance },
+                  }, data.conflicts || [])), data.patientData, data.operations || [])
+                : state.patientProfile,
+              trials: data.trials || [],
+              totalCost: data.totalCost || 0,
+              isPipelineRunning: false,
+              lastUserMessage: null, // Clear retry state on success
+              pipelineSteps: state.pipelineSteps.map(step =>
+                step.status === 'pending' || step.status === 'running'
+                  ? { ...step, status: 'complete' as const, detail: undefined }
+                  : step
+              ),
+            }));
+            break;
+          }
+
+          case 'error': {
+            const errorMessage: ChatMessage = {
+              id: uuidv4(),
+              role: 'assistant',
+              content: `Error: ${data.message}\n\nYou can retry by clicking the retry button or sending your message again.`,
+              timestamp: new Date(),
+            };
+            // Mark running steps as error
+            set(state => ({
+              messages: [...state.messages, errorMessage],
+              isPipelineRunning: false,
+              pipelineSteps: state.pipelineSteps.map(step =>
+                step.status === 'running'
+                  ? { ...step, status: 'error' as const }
+                  : step
+              ),
+            }));
+            break;
+          }
+
+          case 'job':
+            // FastAPI matching runs as a resumable job
+            jobId = data.jobId;
+            activeJobId = data.jobId;
+            break;
+
+          case 'done':
+            // Stream end marker
+            streamDone = true;
+            break;
+        }
+      };
+
+      await pendingProfileSync;
+      let response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId, message: content, mode, patientProfile: get().patientProfile }),
+        body: JSON.stringify({ sessionId, message: content, messageId: userMessage.id, mode, patientProfile: get().patientProfile }),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) throw new Error('Failed');
+      for (let resumeAttempt = 0; ; resumeAttempt++) {
+        if (!response.ok) throw await responseError(response);
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No stream');
+        const { heartbeatDead } = await readEventStream(response, (data, id) => {
+          if (id !== undefined) lastEventId = id;
+          handleEvent(data);
+        });
 
-      const decoder = new TextDecoder();
-      let buffer = '';
+        if (streamDone) break;
 
-      // Heartbeat timeout: detect dead connections
-      let lastEventTime = Date.now();
-      let heartbeatDead = false;
-      const heartbeatChecker = setInterval(() => {
-        if (Date.now() - lastEventTime > HEARTBEAT_TIMEOUT_MS) {
-          heartbeatDead = true;
-          reader.cancel();
-          clearInterval(heartbeatChecker);
+        // Matching job: reconnect and replay everything after the last event seen
+        if (jobId && resumeAttempt < MAX_RESUME_ATTEMPTS) {
+          set({ matchingDetail: 'Connection lost — resuming matching...' });
+          response = await fetch(`/api/chat?jobId=${encodeURIComponent(jobId)}&sessionId=${encodeURIComponent(sessionId)}`, {
+            headers: { 'Last-Event-ID': String(lastEventId) },
+            signal: abortController.signal,
+          });
+          continue;
         }
-      }, 5000);
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          lastEventTime = Date.now(); // Reset heartbeat on any data
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-
-                switch (data.type) {
-                  case 'step_start':
-                    set({ isPipelineRunning: true });
-                    set(state => ({
-                      pipelineSteps: state.pipelineSteps.map(step =>
-                        step.name === data.step ? { ...step, status: 'running' as const, detail: data.message || undefined } : step
-                      ),
-                    }));
-                    break;
-
-                  case 'step_complete':
-                    set(state => ({
-                      pipelineSteps: state.pipelineSteps.map(step =>
-                        step.name === data.step ? { ...step, status: 'complete' as const, cost: data.cost, detail: undefined } : step
-                      ),
-                    }));
-                    break;
-
-                  case 'step_progress':
-                    set(state => ({
-                      pipelineSteps: state.pipelineSteps.map(step =>
-                        step.name === data.step ? { ...step, detail: data.detail || data.message || step.detail } : step
-                      ),
-                      matchingDetail: data.detail || data.message || state.matchingDetail,
-                    }));
-                    break;
-
-                  case 'trial_progress':
-                    set(state => ({
-                      trialProgress: [...state.trialProgress, {
-                        nctId: data.nctId,
-                        title: data.title,
-                        index: data.index,
-                        total: data.total,
-                        status: data.status,
-                        confidence: data.confidence,
-                      }],
-                    }));
-                    break;
-
-                  case 'response': {
-                    const assistantMessage: ChatMessage = {
-                      id: uuidv4(),
-                      role: 'assistant',
-                      content: data.content,
-                      timestamp: new Date(),
-                      metadata: { patientData: data.patientData, trials: data.trials },
-                    };
-
-                    // Mark all steps as complete (defensive)
-                    set(state => ({
-                      messages: [...state.messages, assistantMessage],
-                      patientProfile: data.patientData
-                        ? {
-                            ...state.patientProfile,
-                            ...data.patientData,
-                            biomarkers: { ...state.patientProfile.biomarkers, ...(data.patientData.biomarkers || {}) },
-                            priorTreatments: [...new Set([
-                              ...state.patientProfile.priorTreatments,
-                              ...(data.patientData.priorTreatments || []),
-                            ])],
-                          }
-                        : state.patientProfile,
-                      trials: data.trials || [],
-                      totalCost: data.totalCost || 0,
-                      isPipelineRunning: false,
-                      lastUserMessage: null, // Clear retry state on success
-                      pipelineSteps: state.pipelineSteps.map(step =>
-                        step.status === 'pending' || step.status === 'running'
-                          ? { ...step, status: 'complete' as const, detail: undefined }
-                          : step
-                      ),
-                    }));
-                    break;
-                  }
-
-                  case 'error': {
-                    const errorMessage: ChatMessage = {
-                      id: uuidv4(),
-                      role: 'assistant',
-                      content: `Error: ${data.message}\n\nYou can retry by clicking the retry button or sending your message again.`,
-                      timestamp: new Date(),
-                    };
-                    // Mark running steps as error
-                    set(state => ({
-                      messages: [...state.messages, errorMessage],
-                      isPipelineRunning: false,
-                      pipelineSteps: state.pipelineSteps.map(step =>
-                        step.status === 'running'
-                          ? { ...step, status: 'error' as const }
-                          : step
-                      ),
-                    }));
-                    break;
-                  }
-
-                  case 'done':
-                    // Stream end marker — no-op
-                    break;
-                }
-              } catch (e) {
-                console.error('Parse error:', e);
-              }
-            }
-          }
-        }
-      } finally {
-        clearInterval(heartbeatChecker);
-      }
 
-      // If stream ended due to heartbeat timeout, surface a specific error
-      if (heartbeatDead) {
-        throw new Error('Connection lost — no response from server for 45 seconds. The matching may still be running on the backend.');
+        // If stream ended due to heartbeat timeout, surface a specific error
+        if (heartbeatDead) {
+          throw new Error('Connection lost — no response from server for 45 seconds. The matching may still be running on the backend.');
+        }
+        break;
       }
     } catch (error) {
+      // User pressed Stop: aborting the fetch closes the SSE stream, which the
+      // route propagates to the backend run (matching jobs are cancelled in cancel())
+      if (abortController.signal.aborted) {
+        const cancelMessage: ChatMessage = {
+          id: uuidv4(),
+          role: 'assistant',
+          content: 'Matching cancelled. Send your message again to restart.',
+          timestamp: new Date(),
+        };
+        set(state => ({
+          messages: [...state.messages, cancelMessage],
+          isPipelineRunning: false,
+          pipelineSteps: state.pipelineSteps.map(step =>
+            step.status === 'running'
+              ? { ...step, status: 'cancelled' as const, detail: undefined }
+              : step
+          ),
+        }));
+        return;
+      }
+
       console.error('Chat error:', error);
       const msg = error instanceof Error ? error.message : 'Connection error';
       const errorMessage: ChatMessage = {
@@ -235,10 +394,24 @@ export const useChatStore = create<ChatState>((set, get) => ({
         ),
       }));
     } finally {
+      if (activeRequest === abortController) {
+        activeRequest = null;
+        activeJobId = null;
+      }
       set({ isLoading: false });
     }
   },
 
+  cancel: () => {
+    // Matching jobs outlive the connection, so cancel them explicitly
+    if (activeJobId) {
+      const { sessionId } = get();
+      fetch(`/api/chat?jobId=${encodeURIComponent(activeJobId)}&sessionId=${encodeURIComponent(sessionId)}`, { method: 'DELETE' })
+        .catch(error => console.error('Cancel error:', error));
+    }
+    activeRequest?.abort();
+  },
+
   retryLastMessage: async () => {
     const { lastUserMessage, sendMessage } = get();
     if (lastUserMessage) {
@@ -260,6 +433,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   reset: () => {
+    get().cancel();
     set({
       sessionId: uuidv4(),
       messages: [],
@@ -275,4 +449,239 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   setMode: (mode) => set({ mode }),
+
+  editProfile: (rawEdit) => {
+    const { sessionId } = get();
+    const edit = normalizeProfileEdit(rawEdit);
+    set(state => {
+      const patientProfile = applyProfileEdit(state.patientProfile, edit);
+      const fields = [...Object.keys(edit.set || {}), ...(edit.clear || [])];
+      if (!fields.includes('location') && !fields.includes('maxTravelMiles')) {
+        return { patientProfile };
+      }
+      return {
+        patientProfile,
+        // Re-rank results already on screen from score order
+        trials: rankTrialsByDistance(
+          [...state.trials].sort((a, b) => b.matchScore - a.matchScore)
+            .map(({ nearestSite, withinTravelRadius, ...trial }) => trial),
+          patientProfile
+        ),
+      };
+    });
+
+    const patientProfile = get().patientProfile;
+    pendingProfileSync = pendingProfileSync.then(() =>
+      fetch('/api/chat', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, edit, patientProfile }),
+      })
+        .then(async response => {
+          if (!response.ok) throw await responseError(response);
+        })
+        .catch(error => console.error('Profile sync error:', error))
+    );
+  },
+
+  resolveConflict: (messageId, conflictId, accept) => {
+    const conflict = get().messages
+      .find(m => m.id === messageId)?.metadata?.conflicts
+      ?.find(c => c.id === conflictId);
+    if (!conflict || conflict.resolution) return;
+
+    set(state => ({
+      messages: state.messages.map(m => m.id !== messageId || !m.metadata?.conflicts ? m : {
+        ...m,
+        metadata: {
+          ...m.metadata,
+          conflicts: m.metadata.conflicts.map(c =>
+            c.id === conflictId ? { ...c, resolution: accept ? 'accepted' as const : 'rejected' as const } : c
+          ),
+        },
+      }),
+    }));
+
+    // Rejecting keeps the current value, which the profile already has; for
+    // a disputed reading the choice still confirms it
+    if (accept) get().editProfile(conflictEdit(get().patientProfile, conflict));
+    else if (conflict.origin === 'extractors') {
+      get().editProfile(conflictEdit(get().patientProfile, { ...conflict, incomingValue: conflict.currentValue }));
+    }
+  },
+
+  undoChange: async (messageId) => {
+    const { sessionId } = get();
+    const undo = get().messages.find(m => m.id === messageId)?.metadata?.undo;
+    if (!undo || undo.undone) return;
+
+    await pendingProfileSync;
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, undoId: undo.id }),
+      });
+      if (!response.ok) throw await responseError(response);
+      const { patientProfile } = await response.json() as { patientProfile: PatientProfile };
+      set(state => ({
+        patientProfile,
+        messages: state.messages.map(m => m.id !== messageId || !m.metadata?.undo ? m : {
+          ...m,
+          metadata: { ...m.metadata, undo: { ...m.metadata.undo, undone: true } },
+        }),
+      }));
+    } catch (error) {
+      set(state => ({
+        messages: [...state.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: `Couldn't undo: ${error instanceof Error ? error.message : 'request failed'}`,
+          timestamp: new Date(),
+        }],
+      }));
+    }
+  },
+
+  ingestDocument: async ({ name, text, file }) => {
+    const { sessionId, mode } = get();
+    set(state => ({
+      messages: [...state.messages, { id: uuidv4(), role: 'user', content: `📄 ${name}`, timestamp: new Date() }],
+      isLoading: true,
+    }));
+
+    const abortController = new AbortController();
+    activeRequest = abortController;
+    try {
+      const { url, body } = await documentRequest(text, file);
+
+      await pendingProfileSync;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, name, mode, ...body, patientProfile: get().patientProfile }),
+        signal: abortController.signal,
+      });
+      if (!response.ok) throw await responseError(response);
+      const { review, content: reply } = await response.json() as { review: DocumentReview; content: string };
+      set(state => ({
+        messages: [...state.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: reply,
+          timestamp: new Date(),
+          ...(review.changes.length > 0 ? { metadata: { document: review } } : {}),
+        }],
+      }));
+    } catch (error) {
+      set(state => ({
+        messages: [...state.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: abortController.signal.aborted
+            ? 'Document reading cancelled.'
+            : `Couldn't read the document: ${error instanceof Error ? error.message : 'request failed'}`,
+          timestamp: new Date(),
+        }],
+      }));
+    } finally {
+      if (activeRequest === abortController) activeRequest = null;
+      set({ isLoading: false });
+    }
+  },
+
+  applyDocument: async (messageId, accept) => {
+    const { sessionId } = get();
+    const review = get().messages.find(m => m.id === messageId)?.metadata?.document;
+    if (!review || review.status || accept.length === 0) return;
+
+    await pendingProfileSync;
+    try {
+      const response = await fetch('/api/documents', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, documentId: review.id, accept }),
+      });
+      if (!response.ok) throw await responseError(response);
+      const { patientProfile, undo, warning } = await response.json() as {
+        patientProfile: PatientProfile;
+        undo?: { id: string; summary: string };
+        warning?: string;
+      };
+      set(state => ({
+        patientProfile,
+        messages: [
+          ...state.messages.map(m => m.id !== messageId || !m.metadata?.document ? m : {
+            ...m,
+            metadata: { ...m.metadata, document: { ...m.metadata.document, status: 'merged' as const, accepted: accept }, undo },
+          }),
+          ...(warning ? [{ id: uuidv4(), role: 'assistant' as const, content: warning, timestamp: new Date() }] : []),
+        ],
+      }));
+    } catch (error) {
+      set(state => ({
+        messages: [...state.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: `Couldn't merge the document: ${error instanceof Error ? error.message : 'request failed'}`,
+          timestamp: new Date(),
+        }],
+      }));
+    }
+  },
+
+  dismissDocument: (messageId) => {
+    set(state => ({
+      messages: state.messages.map(m => m.id !== messageId || !m.metadata?.document ? m : {
+        ...m,
+        metadata: { ...m.metadata, document: { ...m.metadata.document, status: 'dismissed' as const } },
+      }),
+    }));
+  },
+
+  exportTrials: async () => {
+    const { sessionId, trials } = get();
+    if (trials.length === 0) return;
+
+    try {
+      await pendingProfileSync;
+      const response = await fetch('/api/fhir/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, trials, patientProfile: get().patientProfile }),
+      });
+      if (!response.ok) throw await responseError(response);
+
+      // Save the bundle under the name the server gives it
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'trial-matches.json';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      // Exported anyway, but the receiving system may reject an incomplete mCODE record
+      const missing = response.headers.get('X-Mcode-Missing');
+      if (missing) {
+        set(state => ({
+          messages: [...state.messages, {
+            id: uuidv4(),
+            role: 'assistant',
+            content: `Exported the results. The patient record is missing required mCODE elements: ${missing}.`,
+            timestamp: new Date(),
+          }],
+        }));
+      }
+    } catch (error) {
+      set(state => ({
+        messages: [...state.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: `Couldn't export the results: ${error instanceof Error ? error.message : 'request failed'}`,
+          timestamp: new Date(),
+        }],
+      }));
+    }
+  },
 }));
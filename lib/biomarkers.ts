@@ -0,0 +1,308 @@
+/**
+ * Biomarker helpers
+ *
+ * Structured biomarker entries (gene, alteration, status, value/unit, method)
+ * shared by the regex parser, the Claude extractor, the chat route and the UI.
+ */
+
+import { assertionAt } from '@/lib/rule-parser/context';
+import { Biomarker, BiomarkerStatus } from '@/types';
+
+// =============================================================================
+// Normalization & Merge
+// =============================================================================
+
+const STATUSES: BiomarkerStatus[] = ['Positive', 'Negative', 'Detected', 'Equivocal', 'Unknown'];
+
+/** Map free-text status ("mutant", "wild-type", "not detected", ...) to a BiomarkerStatus */
+export function normalizeBiomarkerStatus(raw: string | undefined): BiomarkerStatus {
+  if (!raw) return 'Detected';
+  const exact = STATUSES.find(s => s.toLowerCase() === raw.trim().toLowerCase());
+  if (exact) return exact;
+  if (/not\s+detected|wild[\s-]?type|\bwt\b|neg/i.test(raw)) return 'Negative';
+  if (/equivocal|borderline|indeterminate/i.test(raw)) return 'Equivocal';
+  if (/unknown|pending/i.test(raw)) return 'Unknown';
+  if (/pos|mutant|mutation|amplif|fusion|rearrange|high|\+/i.test(raw)) return 'Positive';
+  return 'Detected';
+}
+
+// MMR IHC with a protein lost: "MLH1 and PMS2 loss", "loss of MSH2 expression", "PMS2: absent"
+const MMR_PROTEIN_LOSS = /\b(?:MLH1|MSH2|MSH6|PMS2)\b[^.;]*?(?:\bloss\b|\blost\b|\babsent\b|deficien|:\s*negative\b)|\b(?:loss|absence)\s+of\s+(?:nuclear\s+)?(?:expression\s+(?:of\s+)?)?(?:MLH1|MSH2|MSH6|PMS2)\b/i;
+
+/** Canonical MSI status ("MSI-H", "MSI-L", "MSS") from report wording or MMR IHC; undefined if indeterminate */
+export function normalizeMsiStatus(raw: string): string | undefined {
+  // Instability reported as absent: "MSI-H not detected", "no evidence of microsatellite instability"
+  if (/\b(?:MSI(?:[\s-]*H(?:igh)?)?|microsatellite[\s-]+instability(?:[\s-]*high)?)\b[\s:(-]*(?:not\s+(?:detected|identified)|negative|absent)\b/i.test(raw)
+    || /\bno\s+(?:evidence\s+of\s+)?(?:MSI|microsatellite[\s-]+instability)\b/i.test(raw)) {
+    return 'MSS';
+  }
+  // Instability or lost mismatch repair before stability: "unstable" contains "stable", and dMMR reports list the intact proteins too
+  if (/\bMSI[\s-]*H(?:igh)?\b|instability[\s-]*high|high[\s-]+(?:level[\s-]+)?(?:microsatellite|MSI)|\bunstable\b|\bdMMR\b|deficien/i.test(raw)) return 'MSI-H';
+  // Loss of any mismatch repair protein is dMMR; "no loss of MLH1" is pMMR
+  const noLoss = /\bno\s+(?:evidence\s+of\s+)?loss\b/i.test(raw);
+  if (MMR_PROTEIN_LOSS.test(raw) && !noLoss) return 'MSI-H';
+  if (/\bMSI[\s-]*L(?:ow)?\b|instability[\s-]*low|low[\s-]+(?:level[\s-]+)?(?:microsatellite|MSI)/i.test(raw)) return 'MSI-L';
+  if (/\bMSS\b|microsatellite[\s-]+stable|\bstable\b|\bpMMR\b|proficient/i.test(raw)) return 'MSS';
+  if (/\b(?:intact|retained)\b/i.test(raw) && !/\bloss\b|\blost\b|absent|deficien/i.test(raw)) return 'MSS';
+  if (noLoss && /\b(?:MLH1|MSH2|MSH6|PMS2|MMR)\b/i.test(raw)) return 'MSS';
+  if (/\bMSI\b(?![\s-]*(?:indeterminate|equivocal|status|score|result|testing|pending))/i.test(raw)) return 'MSI-H';
+  return undefined;
+}
+
+/**
+ * Accept both the structured array and the legacy `Record<gene, status>`
+ * shape (older sessions and clients) and return structured entries.
+ */
+export function normalizeBiomarkers(input: unknown): Biomarker[] {
+  if (Array.isArray(input)) {
+    return input
+      .filter((b): b is Biomarker => !!b && typeof b === 'object' && typeof (b as Biomarker).gene === 'string')
+      .map(b => ({ ...b, status: normalizeBiomarkerStatus(b.status) }));
+  }
+  if (input && typeof input === 'object') {
+    return Object.entries(input as Record<string, unknown>).map(([gene, status]) => ({
+      gene,
+      status: normalizeBiomarkerStatus(typeof status === 'string' ? status : undefined),
+    }));
+  }
+  return [];
+}
+
+function biomarkerKey(b: Biomarker): string {
+  return `${b.gene.toUpperCase()}|${(b.alteration || '').toUpperCase()}`;
+}
+
+/**
+ * Merge biomarker lists; entries in `incoming` win on the same gene+alteration.
+ * An incoming entry with a specific alteration replaces a generic entry for
+ * the same gene (e.g. "EGFR Positive" → "EGFR L858R Positive").
+ */
+export function mergeBiomarkers(base: Biomarker[], incoming: Biomarker[]): Biomarker[] {
+  const result = [...base];
+  for (const entry of incoming) {
+    const key = biomarkerKey(entry);
+    const idx = result.findIndex(b =>
+      biomarkerKey(b) === key ||
+      (entry.alteration && !b.alteration && b.gene.toUpperCase() === entry.gene.toUpperCase())
+    );
+    if (idx >= 0) {
+      result[idx] = { ...result[idx], ...entry };
+    } else {
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+/** Human-readable label, e.g. "EGFR L858R Positive (NGS)" or "PD-L1 45% TPS" */
+export function formatBiomarker(b: Biomarker): string {
+  const parts = [b.gene];
+  if (b.alteration) parts.push(b.alteration);
+  if (b.value !== undefined) {
+    parts.push(b.unit?.startsWith('%') ? `${b.value}${b.unit}` : `${b.value}${b.unit ? ` ${b.unit}` : ''}`);
+  } else {
+    parts.push(b.status);
+  }
+  return b.method ? `${parts.join(' ')} (${b.method})` : parts.join(' ');
+}
+
+/**
+ * Parse a manually typed biomarker such as "KRAS G12C", "ALK fusion
+ * negative" or "PD-L1 50%". Falls back to gene + free-text alteration for
+ * markers the extractor doesn't know.
+ */
+export function parseBiomarkerLabel(text: string): Biomarker | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const [extracted] = extractBiomarkersFromText(trimmed);
+  if (extracted) return extracted;
+
+  const [gene, ...rest] = trimmed.split(/\s+/);
+  const statusWord = rest.length > 0 && STATUSES.some(s => s.toLowerCase() === rest[rest.length - 1].toLowerCase())
+    ? rest.pop()
+    : undefined;
+  return {
+    gene: gene.toUpperCase(),
+    status: statusWord ? normalizeBiomarkerStatus(statusWord) : 'Positive',
+    ...(rest.length > 0 ? { alteration: rest.join(' ') } : {}),
+  };
+}
+
+// Three-letter amino acid codes in HGVS protein changes
+const AMINO_ACIDS: Record<string, string> = {
+  Ala: 'A', Arg: 'R', Asn: 'N', Asp: 'D', Cys: 'C', Gln: 'Q', Glu: 'E', Gly: 'G', His: 'H', Ile: 'I',
+  Leu: 'L', Lys: 'K', Met: 'M', Phe: 'F', Pro: 'P', Ser: 'S', Thr: 'T', Trp: 'W', Tyr: 'Y', Val: 'V',
+  Ter: '*', Sec: 'U',
+};
+
+/**
+ * An HGVS protein change as reports write the alteration: "p.Leu858Arg" →
+ * "L858R", "p.(Gly12Cys)" → "G12C", "p.Glu746_Ala750del" → "E746_A750del".
+ * Undefined if `hgvs` isn't one.
+ */
+export function shortProteinChange(hgvs: string): string | undefined {
+  const change = hgvs.trim().match(/^p\.\(?([A-Za-z0-9_*]+?)\)?$/)?.[1];
+  if (!change || !/\d/.test(change)) return undefined;
+  return change.replace(/(Ala|Arg|Asn|Asp|Cys|Gln|Glu|Gly|His|Ile|Leu|Lys|Met|Phe|Pro|Ser|Thr|Trp|Tyr|Val|Ter|Sec)/g, code => AMINO_ACIDS[code]);
+}
+
+/** The reverse of shortProteinChange for a substitution: "L858R" → "p.Leu858Arg"; undefined for anything else */
+export function hgvsProteinChange(alteration: string): string | undefined {
+  const match = alteration.trim().match(/^([A-Z])(\d{1,4})([A-Z*])$/);
+  if (!match) return undefined;
+  const threeLetter = (code: string) => Object.keys(AMINO_ACIDS).find(key => AMINO_ACIDS[key] === code);
+  const from = threeLetter(match[1]);
+  const to = threeLetter(match[3]);
+  return from && to ? `p.${from}${match[2]}${to}` : undefined;
+}
+
+// =============================================================================
+// Rule-based Extraction
+// =============================================================================
+
+// Gene families are listed by member too, since reports name the one altered ("FGFR2 fusion")
+export const KNOWN_BIOMARKER_GENES = [
+  'EGFR', 'BRAF', 'KRAS', 'ALK', 'ROS1', 'HER2', 'NTRK', 'NTRK1', 'NTRK2', 'NTRK3', 'MET', 'RET', 'PIK3CA',
+  'BRCA1', 'BRCA2', 'TP53', 'IDH1', 'IDH2', 'FGFR', 'FGFR1', 'FGFR2', 'FGFR3', 'FGFR4',
+];
+
+// Alteration patterns, most specific first
+const ALTERATION_PATTERNS: Array<{ regex: RegExp; format: (m: RegExpMatchArray) => string }> = [
+  { regex: /\bexon\s*(\d+)\s*(del(?:etion)?|ins(?:ertion)?|skip(?:ping)?)/i,
+    format: m => `exon ${m[1]} ${/^del/i.test(m[2]) ? 'deletion' : /^ins/i.test(m[2]) ? 'insertion' : 'skipping'}` },
+  { regex: /\b(?:p\.)?([ACDEFGHIKLMNPQRSTVWY]\d{1,4}(?:[ACDEFGHIKLMNPQRSTVWY*]|fs|del|dup)?)\b/, format: m => m[1].toUpperCase() },
+  { regex: /\b(fusion|rearrangement|rearranged)\b/i, format: () => 'fusion' },
+  { regex: /\b(amplification|amplified)\b/i, format: () => 'amplification' },
+  { regex: /\b(overexpress(?:ion|ed)?)\b/i, format: () => 'overexpression' },
+];
+
+const METHOD_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(ctDNA|liquid biopsy)\b/i, 'ctDNA'],
+  [/\b(NGS|next[\s-]generation sequencing|foundation ?one|guardant)\b/i, 'NGS'],
+  [/\bIHC\b|immunohisto/i, 'IHC'],
+  [/\bFISH\b/i, 'FISH'],
+  [/\b(PCR|cobas)\b/i, 'PCR'],
+];
+
+function detectMethod(ctx: string): string | undefined {
+  return METHOD_PATTERNS.find(([regex]) => regex.test(ctx))?.[1];
+}
+
+// Status words in a gene's own clause: "EGFR negative", "KRAS wild-type",
+// "EGFR-" (a hyphen only counts when nothing follows it, so "EGFR-mutant" stays positive)
+const NEGATIVE_STATUS = /^\s*-(?![\w])|\b(?:neg(?:ative)?|wild[\s-]?type|wt|not\s+(?:detected|found|identified)|absent)\b/i;
+// "3+" is a positive IHC score ("HER2 3+ by IHC"), "2+" an equivocal one
+const EXPLICIT_POSITIVE = /^\s*\+|(?<![\d.])3\+|\b(?:pos(?:itive)?)\b/i;
+const EQUIVOCAL_SCORE = /(?<![\d.])2\+/;
+// No result at all: "EGFR not tested", "ALK pending" (left as a readiness gap, lib/readiness.ts)
+const NOT_TESTED = /\b(?:not\s+(?:yet\s+)?(?:tested|done|assessed|performed|sent)|untested|unknown|pending|awaiting|n\/a)\b/i;
+const POSITIVE_CUE = /\b(?:mutant|mutated|mutations?|amplif\w*|fusions?|rearrange\w*|detected|altered|alterations?|overexpress\w*)\b/i;
+// A status shared by a list of genes: "EGFR, ALK and ROS1 negative"
+const SHARED_STATUS = /^(?:\s*(?:,|\/|\band\b|\bor\b)\s*[A-Z][A-Za-z0-9-]{1,7})+[\s:=]*([^,;.]{0,25})/;
+
+/**
+ * Status of the gene mention at `start`–`end`: explicit status words in its
+ * own clause (or one shared by a gene list) first, then the sentence's
+ * negation/uncertainty context ("no EGFR mutation", "possible ALK fusion").
+ * Undefined when the text says it hasn't been tested.
+ */
+function biomarkerStatus(message: string, start: number, end: number, clause: string, hasAlteration: boolean): BiomarkerStatus | undefined {
+  const hasStatusWord = (text: string) =>
+    NEGATIVE_STATUS.test(text) || EXPLICIT_POSITIVE.test(text) || EQUIVOCAL_SCORE.test(text) || POSITIVE_CUE.test(text) || NOT_TESTED.test(text);
+  const shared = !hasAlteration && !hasStatusWord(clause) ? message.slice(end).match(SHARED_STATUS)?.[1] : undefined;
+  const phrase = shared && hasStatusWord(shared) ? shared : clause;
+  const leadIn = message.slice(Math.max(0, start - 40), start).split(/[;.]/).pop() || '';
+  const context = assertionAt(message, start, end);
+
+  if (!hasAlteration && NOT_TESTED.test(phrase)) return undefined;
+
+  let status: BiomarkerStatus;
+  if (NEGATIVE_STATUS.test(phrase)) status = 'Negative';
+  else if (EXPLICIT_POSITIVE.test(phrase)) status = 'Positive';
+  else if (EQUIVOCAL_SCORE.test(phrase)) status = 'Equivocal';
+  else if (context.negated) status = 'Negative';
+  else if (hasAlteration || POSITIVE_CUE.test(phrase) || /\bpositive\s+for\b/i.test(leadIn)) status = 'Positive';
+  else status = 'Detected';
+
+  return context.uncertain && status !== 'Negative' ? 'Equivocal' : status;
+}
+
+export interface Pdl1Score {
+  scoring: 'TPS' | 'CPS';
+  value: number;
+  /** Reported as under `value` ("<1%") */
+  below: boolean;
+}
+
+/** PD-L1 score as written: "PD-L1 TPS 45%", "PD-L1 CPS 10", "PD-L1 80%", "PD-L1 <1%" */
+export function extractPdl1Score(message: string): Pdl1Score | undefined {
+  const match = message.match(/pd-?l1[\s:=-]*(tps|cps)?[\s:=-]*(<|≤|less\s+than\s*)?(\d+)\s*%?/i);
+  if (!match) return undefined;
+  return { scoring: match[1]?.toUpperCase() === 'CPS' ? 'CPS' : 'TPS', value: parseInt(match[3]), below: !!match[2] };
+}
+
+/** The profile's `pdl1Score` text: "TPS 45%", "CPS 10", "TPS <1%" */
+export function formatPdl1Score({ scoring, value, below }: Pdl1Score): string {
+  return `${scoring} ${below ? '<' : ''}${value}${scoring === 'CPS' ? '' : '%'}`;
+}
+
+/**
+ * Extract structured biomarkers for the given genes, plus PD-L1 and TMB
+ * numeric results, from free text.
+ */
+export function extractBiomarkersFromText(message: string, genes: string[] = KNOWN_BIOMARKER_GENES): Biomarker[] {
+  const biomarkers: Biomarker[] = [];
+
+  for (const marker of genes) {
+    // Lookahead skips lab values that share a gene name ("eGFR 60 mL/min");
+    // a relative's result ("mother BRCA1 positive") isn't the patient's
+    const regex = new RegExp(`\\b${marker}\\b(?![\\s:=]*\\d+(?:\\.\\d+)?\\s*ml\\/min)`, 'gi');
+    const match = [...message.matchAll(regex)]
+      .find(m => !assertionAt(message, m.index!, m.index! + marker.length).family);
+    if (!match) continue;
+
+    const start = match.index!;
+    const end = start + marker.length;
+    // Alteration and status must follow the gene name within the same clause (e.g. "EGFR L858R", "ALK fusion")
+    const clause = message.slice(end, end + 30).split(/[,;]|\.\s|\band\b/i)[0];
+    let alteration: string | undefined;
+    for (const { regex: altRegex, format } of ALTERATION_PATTERNS) {
+      const altMatch = clause.match(altRegex);
+      if (altMatch) { alteration = format(altMatch); break; }
+    }
+
+    const status = biomarkerStatus(message, start, end, clause, !!alteration);
+    if (!status) continue;
+
+    biomarkers.push({
+      gene: marker,
+      status,
+      ...(alteration ? { alteration } : {}),
+      ...(detectMethod(clause) ? { method: detectMethod(clause) } : {}),
+    });
+  }
+
+  // PD-L1: an exact score carries its value; "<1%" is negative without one
+  const pdl1 = extractPdl1Score(message);
+  if (pdl1) {
+    const negative = pdl1.below ? pdl1.value <= 1 : pdl1.value < 1;
+    biomarkers.push({
+      gene: 'PD-L1',
+      status: negative ? 'Negative' : pdl1.below ? 'Detected' : 'Positive',
+      ...(pdl1.below ? {} : { value: pdl1.value }),
+      unit: pdl1.scoring === 'CPS' ? 'CPS' : '% TPS',
+      method: 'IHC',
+    });
+  }
+
+  // TMB: "TMB 12 mut/Mb", "TMB-high"
+  const tmb = message.match(/\bTMB[\s:=-]*(\d+(?:\.\d+)?)\s*(?:mut(?:ations)?\/mb)?/i);
+  if (tmb) {
+    const value = parseFloat(tmb[1]);
+    biomarkers.push({ gene: 'TMB', status: value >= 10 ? 'Positive' : 'Negative', value, unit: 'mut/Mb' });
+  } else if (/\bTMB[\s-]*(high|H)\b/i.test(message)) {
+    biomarkers.push({ gene: 'TMB', alteration: 'high', status: 'Positive' });
+  }
+
+  return biomarkers;
+}
@@ -4,6 +4,7 @@
 
 import { ChatAnthropic } from '@langchain/anthropic';
 import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
+import type { Deidentifier } from '@/lib/deidentify';
 
 const SYSTEM_PROMPT = `You are Risentia's clinical trial matching assistant. Your role:
 
@@ -37,19 +38,24 @@ function getLLM(): ChatAnthropic {
   return llm;
 }
 
+/** Reply to `userMessage`; with a deidentifier the model sees surrogates, and the reply is mapped back */
 export async function chatWithClaude(
   userMessage: string,
-  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+  deidentifier?: Deidentifier
 ): Promise<string> {
+  const outbound = { history: conversationHistory.slice(-6), message: userMessage };
+  const { history, message } = deidentifier ? deidentifier.scrub(outbound, 'anthropic:chat') : outbound;
   const messages = [
     new SystemMessage(SYSTEM_PROMPT),
-    ...conversationHistory.slice(-6).map(msg =>
+    ...history.map(msg =>
       msg.role === 'user' ? new HumanMessage(msg.content) : new AIMessage(msg.content)
     ),
-    new HumanMessage(userMessage),
+    new HumanMessage(message),
   ];
 
   const response = await getLLM().invoke(messages);
-  return (typeof response.content === 'string' ? response.content : '') ||
+  const reply = typeof response.content === 'string' ? response.content : '';
+  return (deidentifier ? deidentifier.restore(reply) : reply) ||
     'I can help you find matching clinical trials. Please describe your patient profile.';
 }
@@ -0,0 +1,228 @@
+/**
+ * Clinical context helpers
+ *
+ * Labs (with units and reference ranges), comorbidities and current
+ * medications — the fields organ-function and exclusion criteria depend on.
+ * Rule-based extraction plus merge helpers shared by the route and the store.
+ */
+
+import { assertionAt } from '@/lib/rule-parser/context';
+import { LabValue, Medication, PatientProfile } from '@/types';
+
+// =============================================================================
+// Labs
+// =============================================================================
+
+interface LabDefinition {
+  name: string;
+  pattern: RegExp;
+  /** Unit assumed when the text gives only a number */
+  defaultUnit: string;
+  /** Recognized unit spellings → canonical unit */
+  units: Array<[RegExp, string]>;
+  /** Reference range in the default unit */
+  range?: { low?: number; high?: number };
+}
+
+// Longer names first so "creatinine clearance" wins over "creatinine"
+export const LAB_DEFINITIONS: LabDefinition[] = [
+  { name: 'Creatinine Clearance', pattern: /\b(?:creatinine clearance|crcl)\b/i, defaultUnit: 'mL/min',
+    units: [[/ml\/min/i, 'mL/min']], range: { low: 60 } },
+  { name: 'eGFR', pattern: /\beGFR\b(?=[\s:=]*\d)/, defaultUnit: 'mL/min/1.73m2',
+    units: [[/ml\/min/i, 'mL/min/1.73m2']], range: { low: 60 } },
+  // Bare "Cr" only with a value in a creatinine unit: "CR 2 years ago" is a complete response
+  { name: 'Creatinine', pattern: /\b(?:(?:serum\s+)?(?:creatinine|creat)\b|cr\b(?=(?:\s+(?:of|is|was))?[\s:=]*\d+(?:\.\d+)?\s*(?:mg\/dl|[uµ]mol\/l)))/i, defaultUnit: 'mg/dL',
+    units: [[/mg\/dl/i, 'mg/dL'], [/[uµ]mol\/l/i, 'µmol/L']], range: { low: 0.6, high: 1.3 } },
+  { name: 'Total Bilirubin', pattern: /\b(?:total\s+)?(?:bilirubin|t\.?\s?bili|bili)\b/i, defaultUnit: 'mg/dL',
+    units: [[/mg\/dl/i, 'mg/dL'], [/[uµ]mol\/l/i, 'µmol/L']], range: { high: 1.2 } },
+  { name: 'ANC', pattern: /\b(?:anc|absolute neutrophil count|neutrophils)\b/i, defaultUnit: 'x10^9/L',
+    units: [[/x\s?10\^?9\/l|10\^9\/l|k\/[uµ]l|g\/l/i, 'x10^9/L'], [/\/[uµ]l|\/mm3|cells\/mm/i, '/µL']], range: { low: 1.5 } },
+  { name: 'WBC', pattern: /\b(?:wbc|white (?:blood )?cell(?: count)?)\b/i, defaultUnit: 'x10^9/L',
+    units: [[/x\s?10\^?9\/l|10\^9\/l|k\/[uµ]l/i, 'x10^9/L']], range: { low: 4, high: 11 } },
+  { name: 'Hemoglobin', pattern: /\b(?:hemoglobin|haemoglobin|hgb|hb)\b/i, defaultUnit: 'g/dL',
+    units: [[/g\/dl/i, 'g/dL'], [/g\/l/i, 'g/L']], range: { low: 9 } },
+  { name: 'Platelets', pattern: /\b(?:platelets?|plt)\b/i, defaultUnit: 'x10^9/L',
+    units: [[/x\s?10\^?9\/l|10\^9\/l|k\/[uµ]l/i, 'x10^9/L']], range: { low: 100 } },
+  { name: 'AST', pattern: /\b(?:ast|sgot)\b/i, defaultUnit: 'U/L',
+    units: [[/u\/l|iu\/l/i, 'U/L']], range: { high: 40 } },
+  { name: 'ALT', pattern: /\b(?:alt|sgpt)\b/i, defaultUnit: 'U/L',
+    units: [[/u\/l|iu\/l/i, 'U/L']], range: { high: 40 } },
+  { name: 'Albumin', pattern: /\balbumin\b/i, defaultUnit: 'g/dL',
+    units: [[/g\/dl/i, 'g/dL'], [/g\/l/i, 'g/L']], range: { low: 3.5 } },
+  { name: 'INR', pattern: /\binr\b/i, defaultUnit: 'ratio', units: [], range: { high: 1.5 } },
+  { name: 'LDH', pattern: /\bldh\b/i, defaultUnit: 'U/L',
+    units: [[/u\/l|iu\/l/i, 'U/L']], range: { high: 250 } },
+];
+
+/** Unit of a result given as a multiple of the upper limit of normal ("ALT 3x ULN") */
+const ULN_MULTIPLE_UNIT = 'x ULN';
+
+function isWithinRange(def: LabDefinition, value: number, unit: string): boolean | undefined {
+  if (unit === ULN_MULTIPLE_UNIT) return def.range?.high !== undefined ? value <= 1 : undefined;
+  if (!def.range || unit !== def.defaultUnit) return undefined;
+  if (def.range.low !== undefined && value < def.range.low) return false;
+  if (def.range.high !== undefined && value > def.range.high) return false;
+  return true;
+}
+
+/** Extract lab results like "creatinine 1.2 mg/dL", "ANC: 1.8", "bilirubin 0.9", "ALT 3x ULN" */
+export function extractLabsFromText(message: string): LabValue[] {
+  const labs: LabValue[] = [];
+  // Blank out matched spans so "creatinine clearance 55" doesn't also yield "creatinine 55"
+  let remaining = message;
+
+  for (const def of LAB_DEFINITIONS) {
+    const regex = new RegExp(
+      `${def.pattern.source}(?:\\s+(?:of|is|was|at))?[\\s:=]*(\\d+(?:\\.\\d+)?)\\s*`
+        + `(?:((?:x|×|times)\\s*(?:the\\s+)?(?:uln|upper limit of normal))\\b|([^\\s,;]*))`,
+      def.pattern.flags
+    );
+    const match = remaining.match(regex);
+    if (!match) continue;
+
+    const value = parseFloat(match[1]);
+    const unitText = match[3] || '';
+    const unit = match[2]
+      ? ULN_MULTIPLE_UNIT
+      : def.units.find(([unitRegex]) => unitRegex.test(unitText))?.[1] || def.defaultUnit;
+    const isNormal = isWithinRange(def, value, unit);
+
+    labs.push({ name: def.name, value, unit, ...(isNormal !== undefined ? { isNormal } : {}) });
+    remaining = remaining.slice(0, match.index!) + ' '.repeat(match[0].length) + remaining.slice(match.index! + match[0].length);
+  }
+
+  return labs;
+}
+
+/** Merge lab lists by name; `incoming` wins (newer result). */
+export function mergeLabs(base: LabValue[], incoming: LabValue[]): LabValue[] {
+  const byName = new Map(base.map(l => [l.name.toLowerCase(), l]));
+  for (const lab of incoming) byName.set(lab.name.toLowerCase(), lab);
+  return [...byName.values()];
+}
+
+// =============================================================================
+// Comorbidities
+// =============================================================================
+
+// Conditions that commonly drive exclusion criteria
+const COMORBIDITY_MAP: Array<[RegExp, string]> = [
+  [/\b(interstitial lung disease|ild|pneumonitis|pulmonary fibrosis)\b/i, 'Interstitial Lung Disease'],
+  [/\bautoimmune (?:disease|disorder|condition)\b/i, 'Autoimmune Disease'],
+  [/\b(lupus|sle)\b/i, 'Systemic Lupus Erythematosus'],
+  [/\brheumatoid arthritis\b/i, 'Rheumatoid Arthritis'],
+  [/\b(crohn'?s|ulcerative colitis|inflammatory bowel disease|ibd)\b/i, 'Inflammatory Bowel Disease'],
+  [/\bpsoriasis\b/i, 'Psoriasis'],
+  [/\bmultiple sclerosis\b/i, 'Multiple Sclerosis'],
+  [/\b(?:hepatitis b|hbv)\b/i, 'Hepatitis B'],
+  [/\b(?:hepatitis c|hcv)\b/i, 'Hepatitis C'],
+  [/\bhiv\b/i, 'HIV'],
+  [/\b(?:type [12] )?diabetes\b/i, 'Diabetes Mellitus'],
+  [/\b(hypertension|htn)\b/i, 'Hypertension'],
+  [/\b(congestive heart failure|heart failure|chf)\b/i, 'Heart Failure'],
+  [/\b(myocardial infarction|heart attack)\b/i, 'Myocardial Infarction'],
+  [/\b(atrial fibrillation|afib|a-fib)\b/i, 'Atrial Fibrillation'],
+  [/\bqtc? prolongation\b/i, 'QTc Prolongation'],
+  [/\bcopd\b/i, 'COPD'],
+  [/\b(chronic kidney disease|ckd|renal insufficiency)\b/i, 'Chronic Kidney Disease'],
+  [/\bcirrhosis\b/i, 'Cirrhosis'],
+  [/\b(brain metastases|brain mets|cns metastases)\b/i, 'Brain Metastases'],
+  [/\b(deep vein thrombosis|dvt|pulmonary embolism)\b/i, 'Venous Thromboembolism'],
+];
+
+/** Occurrences of `regex` in `message`, for checking each mention's assertion context */
+function mentions(message: string, regex: RegExp): RegExpMatchArray[] {
+  return [...message.matchAll(new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`))];
+}
+
+// Skips "no history of ILD", "denies hepatitis", "possible pneumonitis", "mother has lupus"
+export function extractComorbiditiesFromText(message: string): string[] {
+  const found: string[] = [];
+  for (const [regex, name] of COMORBIDITY_MAP) {
+    const asserted = mentions(message, regex).some(m => {
+      const context = assertionAt(message, m.index!, m.index! + m[0].length);
+      return !context.negated && !context.uncertain && !context.family;
+    });
+    if (asserted && !found.includes(name)) found.push(name);
+  }
+  return found;
+}
+
+/** Canonical name for a condition an extractor returned as free text ("ILD" → Interstitial Lung Disease) */
+export function normalizeComorbidityName(name: string): string {
+  return COMORBIDITY_MAP.find(([regex]) => regex.test(name))?.[1] ?? name.trim();
+}
+
+// =============================================================================
+// Current Medications
+// =============================================================================
+
+// Concomitant (non-oncology) medications relevant to trial exclusions:
+// anticoagulants, steroids/immunosuppressants, strong CYP3A4 modulators, QT drugs
+const MEDICATION_MAP: Array<[RegExp, string]> = [
+  [/\b(?:warfarin|coumadin)\b/i, 'Warfarin'],
+  [/\b(?:apixaban|eliquis)\b/i, 'Apixaban'],
+  [/\b(?:rivaroxaban|xarelto)\b/i, 'Rivaroxaban'],
+  [/\b(enoxaparin|lovenox)\b/i, 'Enoxaparin'],
+  [/\bheparin\b/i, 'Heparin'],
+  [/\b(prednisone|prednisolone)\b/i, 'Prednisone'],
+  [/\b(?:dexamethasone|decadron)\b/i, 'Dexamethasone'],
+  [/\bmethotrexate\b/i, 'Methotrexate'],
+  [/\b(tacrolimus|cyclosporine)\b/i, 'Calcineurin Inhibitor'],
+  [/\bmetformin\b/i, 'Metformin'],
+  [/\binsulin\b/i, 'Insulin'],
+  [/\b(?:levothyroxine|synthroid)\b/i, 'Levothyroxine'],
+  [/\bamiodarone\b/i, 'Amiodarone'],
+  [/\b(omeprazole|pantoprazole|esomeprazole|lansoprazole)\b/i, 'Proton Pump Inhibitor'],
+  [/\b(ketoconazole|itraconazole|voriconazole|posaconazole)\b/i, 'Azole Antifungal'],
+  [/\b(clarithromycin)\b/i, 'Clarithromycin'],
+  [/\b(rifampin|rifampicin)\b/i, 'Rifampin'],
+  [/\b(carbamazepine|phenytoin)\b/i, 'Enzyme-inducing Anticonvulsant'],
+  [/\bst\.? john'?s wort\b/i, "St. John's Wort"],
+];
+
+export function extractMedicationsFromText(message: string): Medication[] {
+  const meds: Medication[] = [];
+  for (const [regex, name] of MEDICATION_MAP) {
+    // Skips "not on anticoagulation", "plans to start apixaban", "wife takes warfarin"
+    const match = mentions(message, regex).find(m => {
+      const context = assertionAt(message, m.index!, m.index! + m[0].length);
+      return !context.negated && !context.planned && !context.family;
+    });
+    if (!match) continue;
+    // "stopped warfarin", "discontinued dexamethasone" → no longer active
+    const before = message.slice(Math.max(0, match.index! - 25), match.index!);
+    const status = /\b(stopped|discontinued|off|held|previously on|no longer (?:on|taking))\b[^.;,]*$/i.test(before) ? 'stopped' : 'active';
+    if (!meds.some(m => m.name === name)) meds.push({ name, status });
+  }
+  return meds;
+}
+
+/** Canonical name for a medication an extractor returned as free text ("eliquis" → Apixaban) */
+export function normalizeMedicationName(name: string): string {
+  const known = MEDICATION_MAP.find(([regex]) => regex.test(name));
+  if (known) return known[1];
+  const trimmed = name.trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+/** Merge medication lists by name; `incoming` wins (e.g. active → stopped). */
+export function mergeMedications(base: Medication[], incoming: Medication[]): Medication[] {
+  const byName = new Map(base.map(m => [m.name.toLowerCase(), m]));
+  for (const med of incoming) byName.set(med.name.toLowerCase(), { ...byName.get(med.name.toLowerCase()), ...med });
+  return [...byName.values()];
+}
+
+// =============================================================================
+// Profile Defaults
+// =============================================================================
+
+/** Fill list fields missing from profiles created before they existed */
+export function withClinicalContextDefaults<T extends Partial<PatientProfile>>(profile: T): T {
+  return {
+    ...profile,
+    labs: profile.labs || [],
+    comorbidities: profile.comorbidities || [],
+    currentMedications: profile.currentMedications || [],
+  };
+}
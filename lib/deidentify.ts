@@ -0,0 +1,391 @@
+/**
+ * PHI de-identification
+ *
+ * Clinicians paste real notes. Before patient text leaves the server (the
+ * extraction and chat models, the FastAPI backend, a remote LangGraph
+ * deployment) names, MRNs and other record numbers, phone numbers, emails
+ * and street addresses are replaced with surrogates such as [NAME_1], and
+ * dates are shifted by a fixed number of days. Names are found after a label
+ * or title ("Name:", "Mrs.") or as a capitalized full name right before a
+ * clinical cue ("John Smith is a 64 year old…", "John Smith presents…");
+ * a name in running text without either is missed. Both are kept per session,
+ * so the same person is the same surrogate on every turn and intervals
+ * between dates survive; replies and extraction results are mapped back.
+ *
+ * City, state and ZIP are left in place: they are how trial sites are
+ * ranked by distance (lib/geo.ts). Bare years are left too, as under HIPAA
+ * Safe Harbor. Every outbound call that carried something scrubbed is
+ * recorded for audit, by surrogate; the originals stay in the vault.
+ */
+
+import { findCancerTypeMentions, findTreatmentMentions, lookupDrug } from '@/lib/terminology';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PhiKind = 'name' | 'mrn' | 'ssn' | 'phone' | 'email' | 'address';
+
+export type PhiDestination = 'anthropic:extraction' | 'anthropic:chat' | 'fastapi:matching' | 'langgraph:remote';
+
+/** A session's surrogates and date shift, kept in the session store */
+export interface PhiVault {
+  /** Days added to every outbound date; fixed per session so intervals survive */
+  dateShiftDays: number;
+  /** Surrogate → original, for mapping replies back */
+  originals: Record<string, string>;
+  /** Original → surrogate */
+  surrogates: Record<string, string>;
+  /**
+   * A full name's parts → their own surrogates, used only where a title or
+   * label introduces the part ("Mrs. Doe" after "Name: Jane Doe")
+   */
+  parts?: Record<string, string>;
+}
+
+export interface PhiAuditEntry {
+  at: string;
+  destination: PhiDestination;
+  messageId?: string;
+  /** What was replaced, by surrogate; how often in this call */
+  replaced: Array<{ kind: PhiKind; surrogate: string; count: number }>;
+  datesShifted: number;
+}
+
+/** Where a deidentifier keeps its vault and audit trail (the chat session) */
+export interface PhiHolder {
+  phi?: PhiVault;
+  phiAudit?: PhiAuditEntry[];
+}
+
+export interface Deidentifier {
+  /** `value` (a string, or any object of strings) with identifiers replaced and dates shifted; audited */
+  scrub<T>(value: T, destination: PhiDestination): T;
+  /** A reply or extraction result with surrogates and dates put back */
+  restore<T>(value: T): T;
+}
+
+// Audit entries kept per session, newest last
+export const MAX_PHI_AUDIT_ENTRIES = 100;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+// Capitalized words that follow "Patient:" or a title, or open a sentence, without being a name
+const NOT_NAMES = new Set([
+  'Patient', 'Female', 'Male', 'Woman', 'Man', 'Stage', 'Cancer', 'Carcinoma', 'History', 'Diagnosis',
+  'Positive', 'Negative', 'Lung', 'Breast', 'Colon', 'Year', 'Old', 'Presents', 'With', 'Is', 'Has', 'The',
+  'MRN', 'DOB', 'SSN', 'Age', 'Sex', 'Phone', 'Address', 'Email',
+  'This', 'Our', 'Chief', 'Complaint', 'Today', 'Follow', 'Assessment', 'Plan', 'Present', 'Illness', 'Oncology', 'Clinic', 'Hospital',
+  'Performance', 'Status', 'Score', 'Then', 'Now', 'Also', 'Here', 'Since', 'When', 'After', 'Before', 'Recently', 'Currently',
+]);
+
+const NAME_WORD = "[A-Z][a-zA-Z'’-]+";
+// Stricter for unlabelled names: no acronyms ("NSCLC", "EGFR") and no NOT_NAMES, so "Patient John
+// Smith" is matched from "John"
+const PROPER_WORD = `(?!(?:${[...NOT_NAMES].join('|')})\\b)[A-Z](?:[a-z]|['’][A-Z])[a-zA-Z'’-]*`;
+
+// What follows a patient's name in a note: an age ("is a 64 year old", ", 64 y/o", "(64M)"), a
+// presentation or diagnosis, or a pronoun starting the next sentence
+const AGE = '\\d{1,3}[\\s-]*(?:y|[MF]\\b)';
+const CLINICAL_CUE = [
+  `,?\\s+(?:is|was)\\s+(?:an?\\s+)?${AGE}`,
+  `,\\s*(?:an?\\s+)?${AGE}`,
+  `\\s*\\(\\s*${AGE}`,
+  ',?\\s+(?:presents|presented|presenting|reports|returns|(?:is|was|has\\s+been)\\s+diagnosed|was\\s+seen)\\b',
+  '[.;]\\s+(?:He|She)\\b',
+].join('|');
+
+// Given names and surnames that are also everyday words
+const COMMON_WORDS = new Set([
+  'Will', 'May', 'June', 'Young', 'Long', 'Hope', 'Faith', 'Mark', 'Bill', 'Grant', 'Frank', 'Rich', 'Miles',
+  'White', 'Black', 'Brown', 'Green', 'Gray', 'Grey', 'Hill', 'Case', 'Page', 'Rose', 'Summer', 'Dawn',
+]);
+
+/** Whether a name part is also a month, a drug or a word notes use, so it can't stand for the person alone */
+function isVocabularyWord(word: string): boolean {
+  return NOT_NAMES.has(word) || COMMON_WORDS.has(word) || new RegExp(`^${MONTH}$`, 'i').test(word) || !!lookupDrug(word);
+}
+
+/** Patterns in priority order; the identifier is group 1 where a label precedes it */
+const DETECTORS: Array<{ kind: PhiKind; pattern: RegExp; check?: (text: string) => boolean }> = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { kind: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'phone', pattern: /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  {
+    kind: 'mrn',
+    pattern: /\b(?:MRN|medical\s+record(?:\s+(?:number|no\.?))?|record\s+(?:number|no\.?)|acct|account(?:\s+(?:number|no\.?))?|patient\s+id|pt\s+id|member\s+id)\s*(?:#|no\.?|number)?\s*[:=#]?\s*([A-Z]{0,3}\d[\dA-Z-]{3,})\b/gi,
+  },
+  {
+    kind: 'address',
+    pattern: /\b\d{1,6}\s+(?:[A-Z][a-z]+\s+){1,3}(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Dr|Drive|Ln|Lane|Way|Ct|Court|Pl|Place|Ter|Terrace|Pkwy|Parkway|Cir|Circle|Hwy|Highway)\b\.?(?:,?\s+(?:Apt|Suite|Unit|#)\s*[\w-]+)?/g,
+  },
+  {
+    // "Name: Jane Doe", "Patient name: DOE, JANE"; not "Drug name: ..."
+    kind: 'name',
+    pattern: new RegExp(`(?<![Dd]rug\\s|[Bb]rand\\s|[Gg]eneric\\s|[Tt]rial\\s|[Ss]tudy\\s)\\b(?:[Pp]atient\\s+|[Pp]t\\s+|PATIENT\\s+)?(?:[Nn]ame|NAME)\\s*[:=]\\s*(${NAME_WORD}(?:,? ${NAME_WORD}){0,3})`, 'g'),
+    check: text => text.split(/[\s,]+/).every(word => !NOT_NAMES.has(word)),
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(`\\b(?:[Pp]atient|PATIENT|[Pp]t|PT)\\s*[:=]\\s*(${NAME_WORD}(?: [A-Z]\\.)? ${NAME_WORD})`, 'g'),
+    check: text => text.split(/\s+/).every(word => !NOT_NAMES.has(word)),
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.?\\s+(${NAME_WORD}(?: ${NAME_WORD})?)`, 'g'),
+    check: text => !NOT_NAMES.has(text.split(/\s+/)[0]),
+  },
+  {
+    // "John Smith is a 64 year old…", "John A. Smith presents with…": no label, so a full name only, and
+    // not one made of note vocabulary, drugs or cancer types ("Lung Adenocarcinoma (12 mm)")
+    kind: 'name',
+    pattern: new RegExp(`(?<![\\w'’-])(${PROPER_WORD}(?: [A-Z]\\.)?(?: ${PROPER_WORD}){1,2})(?=${CLINICAL_CUE})`, 'g'),
+    check: text => text.split(/\s+/).every(word => !lookupDrug(word))
+      && findCancerTypeMentions(text).length === 0 && findTreatmentMentions(text).length === 0,
+  },
+];
+
+const SURROGATE = /\[(NAME|MRN|SSN|PHONE|EMAIL|ADDRESS)_(\d+)\]/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function surrogateKind(surrogate: string): PhiKind {
+  return surrogate.slice(1, surrogate.indexOf('_')).toLowerCase() as PhiKind;
+}
+
+function newSurrogate(vault: PhiVault, kind: PhiKind, original: string): string {
+  const tag = kind.toUpperCase();
+  const count = Object.keys(vault.originals).filter(s => s.startsWith(`[${tag}_`)).length;
+  const surrogate = `[${tag}_${count + 1}]`;
+  vault.originals[surrogate] = original;
+  return surrogate;
+}
+
+/** The surrogate for `original`, registering it (and a full name's parts) on first sight */
+function surrogateFor(vault: PhiVault, kind: PhiKind, original: string): string {
+  const known = vault.surrogates[original] || (kind === 'name' ? vault.parts?.[original] : undefined);
+  if (known) return known;
+  const surrogate = newSurrogate(vault, kind, original);
+  vault.surrogates[original] = surrogate;
+  // "Mrs. Doe" later in the conversation is the same person as "Name: Jane Doe";
+  // each part maps back to itself, so "Mrs. Doe" doesn't come back as "Mrs. Jane Doe"
+  const parts = kind === 'name' ? original.split(/[\s,]+/).filter(Boolean) : [];
+  if (parts.length > 1) {
+    for (const part of parts) {
+      if (part.length < 3 || isVocabularyWord(part) || vault.parts?.[part] || vault.surrogates[part]) continue;
+      (vault.parts ||= {})[part] = newSurrogate(vault, kind, part);
+    }
+  }
+  return surrogate;
+}
+
+/**
+ * Identifiers found on earlier turns that are replaced wherever they appear:
+ * everything but single-word names, which only count after a title or label
+ */
+function recurringIdentifiers(vault: PhiVault): string[] {
+  return Object.keys(vault.surrogates).filter(original => {
+    const surrogate = vault.surrogates[original];
+    // Vaults from before parts had their own surrogates map parts to the full name's
+    if (vault.originals[surrogate] !== original) return false;
+    return surrogateKind(surrogate) !== 'name' || /\s/.test(original.trim());
+  });
+}
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+function shiftDate(year: number, month: number, day: number, days: number): Date {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+function fullYear(year: string): number {
+  const value = parseInt(year, 10);
+  if (year.length === 4) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+}
+
+function pad(value: number, like: string): string {
+  return like.length === 2 ? String(value).padStart(2, '0') : String(value);
+}
+
+function monthName(index: number, like: string): string {
+  const name = MONTHS[index];
+  const abbreviated = !MONTHS.includes(like.replace(/\.$/, '').toLowerCase());
+  const text = abbreviated ? name.slice(0, 3) : name;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(m => m.startsWith(name.slice(0, 3).toLowerCase()));
+}
+
+// Each rewrites a date in its own format; timestamps (2024-03-14T10:00) are left alone
+const DATE_FORMATS: Array<{ pattern: RegExp; shift: (match: RegExpExecArray, days: number) => string }> = [
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b(?!T\d)/g,
+    shift: ([, y, m, d], days) => shiftDate(+y, +m, +d, days).toISOString().slice(0, 10),
+  },
+  {
+    pattern: /\b(\d{1,2})([/-])(\d{1,2})[/-](\d{4}|\d{2})\b/g,
+    shift: ([, m, sep, d, y], days) => {
+      const date = shiftDate(fullYear(y), +m, +d, days);
+      const year = y.length === 2 ? String(date.getUTCFullYear() % 100).padStart(2, '0') : String(date.getUTCFullYear());
+      return `${pad(date.getUTCMonth() + 1, m)}${sep}${pad(date.getUTCDate(), d)}${sep}${year}`;
+    },
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'g'),
+    shift: ([, month, d, y], days) => {
+      const date = shiftDate(+y, monthIndex(month) + 1, +d, days);
+      return `${monthName(date.getUTCMonth(), month)} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH}\\.?,?\\s+(\\d{4})\\b`, 'g'),
+    shift: ([, d, month, y], days) => {
+      const date = shiftDate(+y, monthIndex(month) + 1, +d, days);
+      return `${date.getUTCDate()} ${monthName(date.getUTCMonth(), month)} ${date.getUTCFullYear()}`;
+    },
+  },
+  {
+    // Month and year only: by whole months, so mapping back lands on the same month
+    pattern: new RegExp(`(?<!\\d\\s)\\b${MONTH}\\.?\\s+(\\d{4})\\b`, 'g'),
+    shift: ([, month, y], days) => {
+      const months = +y * 12 + monthIndex(month) + Math.round(days / 30.44);
+      return `${monthName(months % 12, month)} ${Math.floor(months / 12)}`;
+    },
+  },
+];
+
+/** `text` with every date moved by `days`; how many there were */
+function shiftDates(text: string, days: number): { text: string; count: number } {
+  let count = 0;
+  // One pass over all formats, so a shifted date isn't matched again by a later format
+  const combined = new RegExp(DATE_FORMATS.map(f => `(${f.pattern.source})`).join('|'), 'g');
+  const result = text.replace(combined, match => {
+    for (const format of DATE_FORMATS) {
+      const exact = new RegExp(`^(?:${format.pattern.source})$`).exec(match);
+      if (!exact) continue;
+      const shifted = format.shift(exact, days);
+      if (!shifted.includes('NaN')) {
+        count++;
+        return shifted;
+      }
+    }
+    return match;
+  });
+  return { text: result, count };
+}
+
+// =============================================================================
+// Text
+// =============================================================================
+
+function createVault(): PhiVault {
+  // Up to a year either way, never zero
+  const [magnitude, sign] = globalThis.crypto.getRandomValues(new Uint32Array(2));
+  const days = (magnitude % 365) + 1;
+  return { dateShiftDays: sign % 2 ? -days : days, originals: {}, surrogates: {} };
+}
+
+interface ScrubStats {
+  replaced: Map<string, number>;
+  datesShifted: number;
+}
+
+function scrubText(text: string, vault: PhiVault, stats: ScrubStats): string {
+  const count = (surrogate: string) => stats.replaced.set(surrogate, (stats.replaced.get(surrogate) || 0) + 1);
+
+  // Each detector sees the text with earlier ones already replaced, so an
+  // address's "Dr" is gone before titles are looked for
+  let result = text;
+  for (const { kind, pattern, check } of DETECTORS) {
+    result = result.replace(pattern, (match: string, group: unknown) => {
+      const original = (typeof group === 'string' ? group : match).trim();
+      if (check && !check(original)) return match;
+      const surrogate = surrogateFor(vault, kind, original);
+      count(surrogate);
+      return match.replace(original, surrogate);
+    });
+  }
+
+  // Then whatever earlier turns identified ("Jane Doe" after "Name: Jane Doe")
+  const known = recurringIdentifiers(vault).sort((a, b) => b.length - a.length);
+  if (known.length > 0) {
+    const pattern = new RegExp(`(?<![\\w@.])(?:${known.map(escapeRegExp).join('|')})(?![\\w@])`, 'g');
+    result = result.replace(pattern, original => {
+      const surrogate = vault.surrogates[original];
+      count(surrogate);
+      return surrogate;
+    });
+  }
+
+  const shifted = shiftDates(result, vault.dateShiftDays);
+  stats.datesShifted += shifted.count;
+  return shifted.text;
+}
+
+/** Apply `transform` to every string in `value`, keeping its shape */
+function mapStrings<T>(value: T, transform: (text: string) => string): T {
+  if (typeof value === 'string') return transform(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])) as T;
+  }
+  return value;
+}
+
+// =============================================================================
+// Deidentifier
+// =============================================================================
+
+/**
+ * A deidentifier for one turn of `holder` (the session): surrogates and the
+ * date shift are created on first use and kept on it, and so is the audit
+ * trail, which is the only record of a scrub (nothing is logged). The caller
+ * saves the session.
+ */
+export function createDeidentifier(
+  holder: PhiHolder,
+  { messageId }: { messageId?: string } = {}
+): Deidentifier {
+  return {
+    scrub(value, destination) {
+      const vault = holder.phi ||= createVault();
+      const stats: ScrubStats = { replaced: new Map(), datesShifted: 0 };
+      const scrubbed = mapStrings(value, text => scrubText(text, vault, stats));
+
+      if (stats.replaced.size > 0 || stats.datesShifted > 0) {
+        const entry: PhiAuditEntry = {
+          at: new Date().toISOString(),
+          destination,
+          messageId,
+          replaced: [...stats.replaced].map(([surrogate, count]) => ({ kind: surrogateKind(surrogate), surrogate, count })),
+          datesShifted: stats.datesShifted,
+        };
+        holder.phiAudit = [...(holder.phiAudit || []), entry].slice(-MAX_PHI_AUDIT_ENTRIES);
+      }
+      return scrubbed;
+    },
+
+    restore(value) {
+      const vault = holder.phi;
+      if (!vault) return value;
+      return mapStrings(value, text => shiftDates(
+        text.replace(SURROGATE, surrogate => vault.originals[surrogate] ?? surrogate),
+        -vault.dateShiftDays
+      ).text);
+    },
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Clinical document intake
+ *
+ * Pathology reports, molecular reports and clinic notes, pasted or uploaded
+ * (text, markdown, or a PDF's text layer). The document is split into
+ * sections and chunks (./sections), each chunk goes through the extraction
+ * pipeline with its section heading as context, and only the fields its
+ * section can speak to are kept: no stage from a family history, no drug
+ * from a plan. What the document would add or change on the profile is
+ * offered as a list of changes, and only the ones the user accepts are
+ * applied, as one transaction (lib/profile-operations.ts).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Deidentifier } from '@/lib/deidentify';
+import { extractWithPipeline, ExtractionPipeline, LLM_PIPELINE } from '@/lib/extraction-pipeline';
+import { fieldLabel } from '@/lib/profile-conflicts';
+import { isListField, ProfileField } from '@/lib/profile-edits';
+import { applyProfileOperations, formatFieldValue, mergeListItems, OperationsResult } from '@/lib/profile-operations';
+import { itemKey, provenanceKey, SCALAR_FIELDS } from '@/lib/provenance';
+import {
+  Biomarker,
+  createEmptyPatientProfile,
+  DocumentChange,
+  DocumentReview,
+  LabValue,
+  Medication,
+  PatientProfile,
+  PROFILE_LIST_FIELDS,
+  ProfileListField,
+  ProfileOperation,
+} from '@/types';
+import { chunkSection, DocumentChunk, MAX_CHUNKS, SECTION_FIELDS, splitSections } from './sections';
+
+export { extractPdfText } from './pdf-text';
+export { splitSections, chunkSection, sectionKind } from './sections';
+export type { DocumentSection, DocumentChunk } from './sections';
+
+type ListItem = Biomarker | LabValue | Medication | string;
+
+// About twenty pages of report text
+export const MAX_DOCUMENT_CHARS = 60_000;
+
+// Reviews kept per session; an older one has to be uploaded again
+export const MAX_PENDING_DOCUMENTS = 3;
+
+// Review labels for fields conflicts never ask about (see fieldLabel)
+const CHANGE_LABELS: Partial<Record<ProfileField, string>> = {
+  age: 'Age',
+  sex: 'Sex',
+  location: 'Location',
+  maxTravelMiles: 'Travel radius',
+  biomarkers: 'Biomarker',
+  priorTreatments: 'Prior treatment',
+  labs: 'Lab',
+  comorbidities: 'Comorbidity',
+  currentMedications: 'Medication',
+};
+
+/** A document read but not yet merged: the review the user sees, and the operation behind each change */
+export interface PendingDocument {
+  review: DocumentReview;
+  /** The document text; provenance spans point into it */
+  text: string;
+  operations: Record<string, ProfileOperation>;
+  createdAt: string;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+interface Reading {
+  chunk: DocumentChunk;
+  extracted: Partial<PatientProfile>;
+}
+
+/** Only the fields the chunk's section may set, with provenance spans moved to document offsets */
+function withinSection(extracted: Partial<PatientProfile>, chunk: DocumentChunk): Partial<PatientProfile> {
+  const allowed = new Set<string>(SECTION_FIELDS[chunk.section.kind]);
+  const kept = Object.fromEntries(Object.entries(extracted).filter(([field]) => allowed.has(field))) as Partial<PatientProfile>;
+  kept.provenance = Object.fromEntries(Object.entries(extracted.provenance || {})
+    .filter(([key]) => allowed.has(key.split(':')[0]))
+    .map(([key, entry]) => [key, entry.span
+      ? { ...entry, span: { ...entry.span, start: entry.span.start + chunk.start, end: entry.span.end + chunk.start } }
+      : entry]));
+  return kept;
+}
+
+/**
+ * One reading of the whole document. Sections without a specific kind go
+ * first, so a value from the diagnosis or molecular section wins over a
+ * passing mention in the opening text; lists accumulate.
+ */
+function combineReadings(readings: Reading[]): { combined: Partial<PatientProfile>; sections: Map<string, string> } {
+  const ordered = [...readings].sort((a, b) =>
+    Number(a.chunk.section.kind !== 'general') - Number(b.chunk.section.kind !== 'general'));
+  const combined: Partial<PatientProfile> = { provenance: {} };
+  const record = combined as Record<string, unknown>;
+  const sections = new Map<string, string>();
+
+  for (const { chunk, extracted } of ordered) {
+    for (const [field, value] of Object.entries(extracted)) {
+      if (field === 'provenance' || value === undefined) continue;
+      record[field] = isListField(field)
+        ? mergeListItems(field, (record[field] as ListItem[]) || [], value as ListItem[])
+        : value;
+    }
+    Object.assign(combined.provenance!, extracted.provenance);
+    for (const key of Object.keys(extracted.provenance || {})) sections.set(key, chunk.section.title);
+  }
+  return { combined, sections };
+}
+
+// =============================================================================
+// Changes
+// =============================================================================
+
+/** The profile entry an incoming one would merge into: same key, or the generic result a variant refines */
+function counterpart(field: ProfileListField, items: ListItem[], item: ListItem): ListItem | undefined {
+  const key = itemKey(field, item);
+  const same = items.find(existing => itemKey(field, existing) === key);
+  if (same || field !== 'biomarkers') return same;
+  const biomarker = item as Biomarker;
+  return biomarker.alteration
+    ? (items as Biomarker[]).find(b => !b.alteration && b.gene.toUpperCase() === biomarker.gene.toUpperCase())
+    : undefined;
+}
+
+/** The document line a value was read from, as evidence */
+function evidenceLine(text: string, span: { start: number; end: number } | undefined): string | undefined {
+  if (!span) return undefined;
+  const start = text.lastIndexOf('\n', span.start - 1) + 1;
+  const end = text.indexOf('\n', span.end);
+  const line = text.slice(start, end < 0 ? undefined : end).trim();
+  return line.length > 200 ? `${line.slice(0, 197)}…` : line;
+}
+
+/** What `combined` would add to or change on `profile`, each with the operation that applies it */
+function diffProfile(
+  profile: PatientProfile,
+  combined: Partial<PatientProfile>,
+  sections: Map<string, string>,
+  text: string
+): Array<{ change: DocumentChange; operation: ProfileOperation }> {
+  const result: Array<{ change: DocumentChange; operation: ProfileOperation }> = [];
+  const add = (field: ProfileField, key: string, operation: Omit<ProfileOperation, 'source'>, current: unknown, proposed: unknown) => {
+    const provenance = combined.provenance?.[key];
+    const change: DocumentChange = {
+      id: uuidv4(),
+      field,
+      label: CHANGE_LABELS[field] || fieldLabel(field),
+      section: sections.get(key) || 'Document',
+      ...(current !== undefined ? { currentDisplay: formatFieldValue(field, current) } : {}),
+      proposedDisplay: formatFieldValue(field, proposed),
+      ...(provenance?.span ? { evidence: evidenceLine(text, provenance.span) } : {}),
+    };
+    result.push({ change, operation: { ...operation, ...(provenance ? { source: provenance.source } : {}) } });
+  };
+
+  for (const field of SCALAR_FIELDS) {
+    const value = combined[field];
+    if (value === undefined || JSON.stringify(value) === JSON.stringify(profile[field])) continue;
+    add(field, provenanceKey(field), { op: profile[field] === undefined ? 'set' : 'update', field, value }, profile[field], value);
+  }
+
+  // Appends merge like extracted lists do: a variant replaces its generic result, a newer lab value the older one
+  for (const field of PROFILE_LIST_FIELDS) {
+    const items = profile[field] as ListItem[];
+    for (const item of (combined[field] as ListItem[] | undefined) || []) {
+      const existing = counterpart(field, items, item);
+      if (existing && JSON.stringify(mergeListItems(field, [existing], [item])[0]) === JSON.stringify(existing)) continue;
+      add(field, provenanceKey(field, item), { op: 'append', field, value: item }, existing, item);
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// Intake
+// =============================================================================
+
+/**
+ * Read a document against the current profile. Chunks are extracted one at
+ * a time, so a long report doesn't fire two dozen model calls at once; each
+ * is read on its own, not against the profile, and nothing is merged.
+ */
+export async function ingestDocument(
+  text: string,
+  { name, profile, deidentifier, pipeline = LLM_PIPELINE }: {
+    name: string;
+    profile: PatientProfile;
+    deidentifier?: Deidentifier;
+    pipeline?: ExtractionPipeline;
+  }
+): Promise<PendingDocument> {
+  const id = uuidv4();
+  const sections = splitSections(text);
+  const allChunks = sections
+    .filter(section => SECTION_FIELDS[section.kind].length > 0)
+    .flatMap(chunkSection);
+  // Chunks vary in size, so a document under MAX_DOCUMENT_CHARS can still run past the limit
+  const chunks = allChunks.slice(0, MAX_CHUNKS);
+  const unread = [...new Set(allChunks.slice(MAX_CHUNKS).map(chunk => chunk.section.title))];
+
+  const readings: Reading[] = [];
+  for (const chunk of chunks) {
+    const { extracted } = await extractWithPipeline(pipeline, chunk.text, {
+      messageId: id,
+      context: { profile: createEmptyPatientProfile(), history: [], deidentifier, section: chunk.section.title },
+    });
+    readings.push({ chunk, extracted: withinSection(extracted, chunk) });
+  }
+
+  const { combined, sections: sectionOf } = combineReadings(readings);
+  const document = createPendingReview({
+    id,
+    name,
+    text,
+    profile,
+    extracted: combined,
+    sections: sections.map(({ title, kind }) => ({ title, kind })),
+    chunks: chunks.length,
+    sectionOf,
+  });
+  if (unread.length > 0) document.review.unread = unread;
+  return document;
+}
+
+/**
+ * A review of what `extracted` would change on `profile`, for values read
+ * from a document or an imported record. `sectionOf` names where each value
+ * came from, by provenance key; spans in its provenance point into `text`.
+ */
+export function createPendingReview({ id = uuidv4(), name, text, profile, extracted, sections, chunks, sectionOf }: {
+  id?: string;
+  name: string;
+  text: string;
+  profile: PatientProfile;
+  extracted: Partial<PatientProfile>;
+  sections: DocumentReview['sections'];
+  chunks: number;
+  sectionOf: Map<string, string>;
+}): PendingDocument {
+  const changes = diffProfile(profile, extracted, sectionOf, text);
+  return {
+    review: { id, name, sections, chunks, changes: changes.map(c => c.change) },
+    text,
+    operations: Object.fromEntries(changes.map(c => [c.change.id, c.operation])),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Apply the accepted changes as one transaction; provenance points into the document */
+export function applyDocumentChanges(profile: PatientProfile, document: PendingDocument, accept: string[]): OperationsResult {
+  const operations = accept.map(id => document.operations[id]).filter((operation): operation is ProfileOperation => !!operation);
+  return applyProfileOperations(profile, operations, { message: document.text, messageId: document.review.id });
+}
+
+/** Chat reply for a read document: what was found and what is up for review */
+export function describeDocumentReview(review: DocumentReview): string {
+  const sections = review.sections.length === 1 ? '1 section' : `${review.sections.length} sections`;
+  const read = `📄 Read **${review.name}** (${sections}).`;
+  const unread = review.unread?.length
+    ? `\n\nThe document is too long to read in full; sections not read (or only in part): ${review.unread.join(', ')}. Upload those sections on their own to include them.`
+    : '';
+  if (review.changes.length === 0) return `${read} It doesn't add anything to the patient profile.${unread}`;
+  const changes = review.changes.length === 1 ? '1 change' : `${review.changes.length} changes`;
+  return `${read} It suggests ${changes} to the patient profile; pick the ones to merge below.${unread}`;
+}
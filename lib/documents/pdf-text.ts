@@ -0,0 +1,126 @@
+/**
+ * PDF text layer
+ *
+ * Reports exported from an EHR or a lab portal carry their text as PDF
+ * text operators; this reads them without a PDF library. Content streams
+ * are inflated (FlateDecode) and the strings shown by Tj/TJ/'/" are joined,
+ * with line moves as newlines. Scanned PDFs have no text layer and give an
+ * empty string; fonts with custom encodings come out garbled and are
+ * better pasted as text.
+ */
+
+import { inflateSync } from 'zlib';
+
+// Below this many letters the PDF is taken to be a scan
+const MIN_LETTERS = 20;
+
+// Literal strings (one level of nested parentheses), hex strings, array brackets, numbers, operators
+const CONTENT_TOKEN = /\((?:\\[\s\S]|[^\\()]|\((?:\\[\s\S]|[^\\()])*\))*\)|<[0-9A-Fa-f\s]*>|\[|\]|[-+]?(?:\d+\.?\d*|\.\d+)|\/[^\s/[\]()<>{}%]+|[A-Za-z'"*]+/g;
+
+// TJ kerning (thousandths of an em) wide enough to be a word space
+const WORD_GAP = -200;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+function decodeLiteral(token: string): string {
+  return token.slice(1, -1).replace(/\\(\r?\n|[0-7]{1,3}|[\s\S])/g, (_, escaped: string) => {
+    if (/^\r?\n$/.test(escaped)) return '';
+    if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    return ESCAPES[escaped] ?? escaped;
+  });
+}
+
+function decodeHex(token: string): string {
+  const hex = token.slice(1, -1).replace(/\s+/g, '');
+  const bytes = (hex.length % 2 ? `${hex}0` : hex).match(/../g) || [];
+  return bytes.map(byte => String.fromCharCode(parseInt(byte, 16))).join('');
+}
+
+/** The text a content stream shows, in drawing order */
+function contentText(content: string): string {
+  let text = '';
+  let operands: string[] = [];
+  let array: string[] | undefined;
+
+  for (const [token] of content.matchAll(CONTENT_TOKEN)) {
+    if (token.startsWith('(') || token.startsWith('<')) {
+      const value = token.startsWith('(') ? decodeLiteral(token) : decodeHex(token);
+      if (array) array.push(value);
+      else operands.push(value);
+    } else if (token === '[') {
+      array = [];
+    } else if (token === ']') {
+      operands.push((array || []).join(''));
+      array = undefined;
+    } else if (/^[-+.\d]/.test(token)) {
+      if (array && Number(token) < WORD_GAP) array.push(' ');
+      else if (!array) operands.push(token);
+    } else if (!token.startsWith('/')) {
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += operands[operands.length - 1] ?? '';
+          break;
+        case "'":
+        case '"':
+          text += `\n${operands[operands.length - 1] ?? ''}`;
+          break;
+        case 'Td':
+        case 'TD':
+          // A move down starts a new line; a move along the line separates words
+          text += Number(operands[1]) !== 0 ? '\n' : ' ';
+          break;
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          text += '\n';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return text;
+}
+
+/** Each stream's bytes, inflated where it is FlateDecode; images and other filters are skipped */
+function* streams(pdf: Buffer): Generator<Buffer> {
+  const raw = pdf.toString('latin1');
+  const keyword = /\bstream\r?\n/g;
+  for (let match = keyword.exec(raw); match; match = keyword.exec(raw)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    keyword.lastIndex = end + 'endstream'.length;
+
+    const dictionary = raw.slice(Math.max(0, raw.lastIndexOf('obj', match.index)), match.index);
+    const data = pdf.subarray(start, end);
+    if (/\/Subtype\s*\/Image/.test(dictionary)) continue;
+    if (!/\/Filter/.test(dictionary)) {
+      yield data;
+    } else if (/\/FlateDecode/.test(dictionary) && !/\/(?:DCT|JPX|JBIG2|CCITTFax)Decode/.test(dictionary)) {
+      try {
+        yield inflateSync(data);
+      } catch {
+        // Truncated or not really deflate: skip it, like a viewer would
+      }
+    }
+  }
+}
+
+/** The PDF's text, one line per line drawn; empty if it has no text layer */
+export function extractPdfText(pdf: Buffer): string {
+  if (pdf.subarray(0, 5).toString('latin1') !== '%PDF-') return '';
+  const pages: string[] = [];
+  for (const stream of streams(pdf)) {
+    const content = stream.toString('latin1');
+    if (/\bBT\b/.test(content)) pages.push(contentText(content));
+  }
+
+  const text = pages.join('\n\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return (text.match(/[A-Za-z]/g) || []).length >= MIN_LETTERS ? text : '';
+}
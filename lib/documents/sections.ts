@@ -0,0 +1,152 @@
+/**
+ * Document sections
+ *
+ * Clinical documents are split at their headings ("FINAL DIAGNOSIS:",
+ * "## Molecular results", "Oncologic history") and each section gets a
+ * kind, which decides what may be read from it: a diagnosis gives the
+ * cancer type and stage, a molecular report the biomarkers, a family
+ * history nothing about the patient. Long sections are cut into chunks at
+ * paragraph, line or sentence boundaries for the extractor.
+ */
+
+import type { ProfileField } from '@/lib/profile-edits';
+import { DocumentSectionKind } from '@/types';
+
+export interface DocumentSection {
+  title: string;
+  kind: DocumentSectionKind;
+  /** Offset of `text` in the document */
+  start: number;
+  text: string;
+}
+
+export interface DocumentChunk {
+  section: DocumentSection;
+  /** Offset of `text` in the document */
+  start: number;
+  text: string;
+}
+
+// Characters per extraction call: a page or so of a report
+const CHUNK_CHARS = 2500;
+export const MAX_CHUNKS = 24;
+
+// The first match wins: "Family history" before history, "Assessment and plan" before plan, "Treatment plan" before treatment
+const SECTION_KINDS: Array<[RegExp, DocumentSectionKind]> = [
+  [/\bfamily\b/i, 'family'],
+  [/molecular|genomic|biomarker|mutation|\bngs\b|next[-\s]generation|sequencing|immunohisto|\bihc\b|pd-?l1|\bfish\b|variant|genetic/i, 'molecular'],
+  [/diagnos|impression|patholog|staging|histolog|assessment|synopsis|summary/i, 'diagnosis'],
+  [/\bplan\b|recommendation|follow[-\s]?up/i, 'plan'],
+  [/oncolog\w*\s+history|treatment|therap|regimen|chemo|radiation|surgical\s+history|prior\s+(?:lines|systemic)/i, 'treatment'],
+  [/medication|\bmeds\b/i, 'medications'],
+  [/\blab(?:s|oratory)?\b|hematology|chemistry|\bcbc\b|\bcmp\b/i, 'labs'],
+  [/past\s+medical|medical\s+history|\bpmh\b|comorbid|problem\s+list/i, 'history'],
+  [/demographic|patient\s+information|identification/i, 'demographics'],
+  [/\bsocial\b/i, 'social'],
+];
+
+const ALL_FIELDS: ProfileField[] = [
+  'age', 'sex', 'cancerType', 'histology', 'stage', 'tnm', 'stageExtent', 'biomarkers', 'pdl1Score', 'msiStatus',
+  'ecog', 'priorTreatments', 'labs', 'comorbidities', 'currentMedications', 'location', 'maxTravelMiles',
+];
+
+/** What each kind of section may set on the profile; family history and plans set nothing */
+export const SECTION_FIELDS: Record<DocumentSectionKind, ProfileField[]> = {
+  demographics: ['age', 'sex', 'location'],
+  diagnosis: ['age', 'sex', 'cancerType', 'histology', 'stage', 'tnm', 'stageExtent', 'biomarkers', 'pdl1Score', 'msiStatus', 'ecog'],
+  molecular: ['biomarkers', 'pdl1Score', 'msiStatus'],
+  treatment: ['priorTreatments', 'cancerType', 'histology', 'biomarkers'],
+  medications: ['currentMedications', 'priorTreatments'],
+  labs: ['labs'],
+  history: ['comorbidities'],
+  social: ['location', 'maxTravelMiles'],
+  family: [],
+  plan: [],
+  general: ALL_FIELDS,
+};
+
+// =============================================================================
+// Headings
+// =============================================================================
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+// "FINAL DIAGNOSIS:", "Oncologic history:"
+const BARE_HEADING = /^([A-Za-z][A-Za-z0-9 ,/&()'-]{1,60}):$/;
+// "MOLECULAR RESULTS"
+const CAPS_HEADING = /^[A-Z][A-Z0-9 ,/&()'-]{2,60}$/;
+// "Diagnosis: adenocarcinoma …", a heading only if the label names a section
+const LABELED_LINE = /^([A-Za-z][A-Za-z ,/&()'-]{1,40}):\s*(\S.*)$/;
+
+export function sectionKind(title: string): DocumentSectionKind {
+  return SECTION_KINDS.find(([regex]) => regex.test(title))?.[1] || 'general';
+}
+
+/** A line's heading and any text after it on the same line */
+function parseHeading(line: string): { title: string; rest: string } | undefined {
+  const trimmed = line.trim();
+  const markdown = trimmed.match(MARKDOWN_HEADING);
+  if (markdown) return { title: markdown[1].replace(/[*_:]+/g, '').trim(), rest: '' };
+  const bare = trimmed.match(BARE_HEADING);
+  if (bare) return { title: bare[1].trim(), rest: '' };
+  // All-caps lines are headings only where they name a section ("EGFR L858R DETECTED" is a result)
+  if (CAPS_HEADING.test(trimmed) && /[A-Z]{3}/.test(trimmed) && sectionKind(trimmed) !== 'general') {
+    return { title: trimmed, rest: '' };
+  }
+  const labeled = trimmed.match(LABELED_LINE);
+  if (labeled && sectionKind(labeled[1]) !== 'general') return { title: labeled[1].trim(), rest: labeled[2] };
+  return undefined;
+}
+
+function titleCase(title: string): string {
+  return title === title.toUpperCase() ? title.charAt(0) + title.slice(1).toLowerCase() : title;
+}
+
+// =============================================================================
+// Splitting
+// =============================================================================
+
+/** The document's sections in order; text before the first heading is a general section */
+export function splitSections(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { title: 'Opening text', kind: 'general', start: 0, text: '' };
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const heading = parseHeading(line);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      const title = titleCase(heading.title);
+      const start = offset + line.length - heading.rest.length;
+      current = { title, kind: sectionKind(title), start, text: heading.rest };
+    } else {
+      current.text += current.text || current.start !== offset ? `\n${line}` : line;
+    }
+    offset += line.length + 1;
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+/** Where to end a chunk starting at `start`: the last paragraph, line or sentence break past halfway */
+function chunkEnd(text: string, start: number): number {
+  const end = start + CHUNK_CHARS;
+  if (end >= text.length) return text.length;
+  const window = text.slice(start, end);
+  for (const separator of ['\n\n', '\n', '. ', '; ']) {
+    const at = window.lastIndexOf(separator);
+    if (at > CHUNK_CHARS / 2) return start + at + separator.length;
+  }
+  return end;
+}
+
+/** A section in extraction-sized pieces, with their offsets in the document */
+export function chunkSection(section: DocumentSection): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (let start = 0; start < section.text.length;) {
+    const end = chunkEnd(section.text, start);
+    const text = section.text.slice(start, end);
+    if (text.trim()) chunks.push({ section, start: section.start + start, text });
+    start = end;
+  }
+  return chunks;
+}
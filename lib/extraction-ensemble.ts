@@ -0,0 +1,175 @@
+/**
+ * Ensemble arbitration
+ *
+ * Field-level choice between extractors that read the same message (the
+ * LLM and the rule parser, run in parallel by the extraction pipeline).
+ * Readings that agree win outright and gain confidence; a value only one
+ * extractor found is kept, so a field the model dropped is still caught.
+ * When they disagree, the reading the message text supports best wins, then
+ * the field's preferred source; the losing reading is offered to the user as a
+ * conflict and the kept one is marked low-confidence until confirmed.
+ */
+
+import { mergeBiomarkers } from '@/lib/biomarkers';
+import { mergeLabs, mergeMedications } from '@/lib/clinical-context';
+import type { Arbiter, Arbitration, Candidate } from '@/lib/extraction-pipeline';
+import { extractorDisagreement } from '@/lib/profile-conflicts';
+import { LOW_CONFIDENCE_THRESHOLD, provenanceKey, SCALAR_FIELDS } from '@/lib/provenance';
+import { Biomarker, FieldProvenance, PatientProfile, ProfileConflict, ProvenanceMap } from '@/types';
+
+// Pattern-shaped fields the rule parser reads more reliably than the model
+const RULES_PREFERRED = new Set<string>(['ecog', 'pdl1Score', 'tnm', 'maxTravelMiles']);
+
+const AGREEMENT_BONUS = 0.1;
+// Kept readings of a disputed value are flagged in the UI until confirmed
+const DISPUTED_CONFIDENCE = LOW_CONFIDENCE_THRESHOLD - 0.1;
+
+interface Reading<T> {
+  candidate: Candidate;
+  value: T;
+  /** How much of the reading the message text shows (a span, a biomarker's alteration) */
+  evidence: number;
+  provenance?: FieldProvenance;
+}
+
+// =============================================================================
+// Ranking
+// =============================================================================
+
+/** Candidates in order of preference for `field`: its preferred source, then pipeline order */
+function byPreference(candidates: Candidate[], field: string): Candidate[] {
+  const preferred = RULES_PREFERRED.has(field) ? 'regex' : 'llm';
+  return [...candidates].sort((a, b) =>
+    Number(a.extractor.source !== preferred) - Number(b.extractor.source !== preferred) ||
+    candidates.indexOf(a) - candidates.indexOf(b)
+  );
+}
+
+/** Readings grouped by value; the winning group first (found in the text, more extractors, preferred source) */
+function rankGroups<T>(readings: Reading<T>[], comparable: (value: T) => string, ranked: Candidate[]): Reading<T>[][] {
+  const groups = new Map<string, Reading<T>[]>();
+  for (const reading of readings) {
+    const key = comparable(reading.value);
+    groups.set(key, [...(groups.get(key) || []), reading]);
+  }
+  const evidence = (group: Reading<T>[]) => Math.max(...group.map(r => r.evidence));
+  const bestRank = (group: Reading<T>[]) => Math.min(...group.map(r => ranked.indexOf(r.candidate)));
+  return [...groups.values()]
+    .map(group => [...group].sort((a, b) => ranked.indexOf(a.candidate) - ranked.indexOf(b.candidate)))
+    .sort((a, b) =>
+      evidence(b) - evidence(a) ||
+      b.length - a.length ||
+      bestRank(a) - bestRank(b)
+    );
+}
+
+/** Provenance for a value `holders` agree on, best-ranked first */
+function combinedProvenance(holders: Array<FieldProvenance | undefined>, names: string[], disputed: boolean): FieldProvenance | undefined {
+  const entries = holders.filter((p): p is FieldProvenance => !!p);
+  if (entries.length === 0) return undefined;
+  const confidence = Math.min(1, Math.max(...entries.map(p => p.confidence)) + (entries.length > 1 ? AGREEMENT_BONUS : 0));
+  return {
+    ...entries[0],
+    extractor: names.join(' + '),
+    confidence: Math.round((disputed ? Math.min(confidence, DISPUTED_CONFIDENCE) : confidence) * 100) / 100,
+  };
+}
+
+function comparableScalar(value: unknown): string {
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function biomarkerPolarity(b: Biomarker): string {
+  return b.status === 'Detected' ? 'positive' : b.status.toLowerCase();
+}
+
+// =============================================================================
+// Arbitration
+// =============================================================================
+
+function arbitrate(candidates: Candidate[], message: string): Arbitration {
+  const extracted: Partial<PatientProfile> = {};
+  const provenance: ProvenanceMap = {};
+  const disagreements: ProfileConflict[] = [];
+  const disputedKeys = new Set<string>();
+
+  // Scalars: one reading wins, the others are offered as alternatives
+  for (const field of SCALAR_FIELDS) {
+    const ranked = byPreference(candidates, field);
+    const readings = ranked
+      .filter(c => c.extracted[field] !== undefined)
+      .map(c => {
+        const provenance = c.extracted.provenance?.[field];
+        return { candidate: c, value: c.extracted[field] as unknown, evidence: provenance?.span ? 1 : 0, provenance };
+      });
+    if (readings.length === 0) continue;
+
+    const [winner, ...losers] = rankGroups(readings, comparableScalar, ranked);
+    (extracted as Record<string, unknown>)[field] = winner[0].value;
+    const entry = combinedProvenance(winner.map(r => r.provenance), winner.map(r => r.candidate.extractor.name), losers.length > 0);
+    if (entry) provenance[field] = entry;
+    for (const loser of losers) {
+      const conflict = extractorDisagreement(field, winner[0].value, loser[0].value, entry);
+      if (conflict) disagreements.push(conflict);
+    }
+  }
+
+  // Biomarkers: per gene, the status readings compete; agreeing entries are merged
+  // so the more specific one (EGFR L858R over EGFR) is kept
+  const rankedBiomarkers = byPreference(candidates, 'biomarkers');
+  const text = message.toLowerCase();
+  const genes = [...new Set(candidates.flatMap(c => (c.extracted.biomarkers || []).map(b => b.gene.toUpperCase())))];
+  extracted.biomarkers = [];
+  for (const gene of genes) {
+    const readings = rankedBiomarkers.flatMap(c => {
+      const entries = (c.extracted.biomarkers || []).filter(b => b.gene.toUpperCase() === gene);
+      if (entries.length === 0) return [];
+      const spanned = entries.some(b => !!c.extracted.provenance?.[provenanceKey('biomarkers', b)]?.span);
+      const alteration = entries.some(b => !!b.alteration && text.includes(b.alteration.toLowerCase()));
+      return [{ candidate: c, value: entries, evidence: Number(spanned) + Number(alteration) }];
+    });
+    const [winner, ...losers] = rankGroups(readings, entries => biomarkerPolarity(entries[0]), rankedBiomarkers);
+    const kept = [...winner].reverse().reduce<Biomarker[]>((merged, r) => mergeBiomarkers(merged, r.value), []);
+    extracted.biomarkers.push(...kept);
+    if (losers.length > 0) kept.forEach(b => disputedKeys.add(provenanceKey('biomarkers', b)));
+    for (const loser of losers) {
+      const conflict = extractorDisagreement('biomarkers', kept[0], loser[0].value[0]);
+      if (conflict) disagreements.push(conflict);
+    }
+  }
+
+  // Other lists: union, the preferred extractor's entry winning a same-name clash
+  const inReverse = (field: string) => byPreference(candidates, field).reverse();
+  extracted.priorTreatments = [...new Set(byPreference(candidates, 'priorTreatments').flatMap(c => c.extracted.priorTreatments || []))];
+  extracted.comorbidities = [...new Set(byPreference(candidates, 'comorbidities').flatMap(c => c.extracted.comorbidities || []))];
+  extracted.labs = inReverse('labs').reduce((merged, c) => mergeLabs(merged, c.extracted.labs || []), extracted.labs || []);
+  extracted.currentMedications = inReverse('currentMedications')
+    .reduce((merged, c) => mergeMedications(merged, c.extracted.currentMedications || []), extracted.currentMedications || []);
+
+  for (const field of ['biomarkers', 'priorTreatments', 'labs', 'comorbidities', 'currentMedications'] as const) {
+    const ranked = byPreference(candidates, field);
+    for (const item of extracted[field] as Array<Parameters<typeof provenanceKey>[1]>) {
+      const key = provenanceKey(field, item);
+      const holders = ranked.filter(c => c.extracted.provenance?.[key]);
+      const entry = combinedProvenance(
+        holders.map(c => c.extracted.provenance?.[key]),
+        holders.map(c => c.extractor.name),
+        disputedKeys.has(key)
+      );
+      if (entry) provenance[key] = entry;
+    }
+  }
+
+  // The kept value of a disputed biomarker carries the flagged provenance
+  for (const conflict of disagreements) {
+    if (conflict.field === 'biomarkers' && conflict.itemKey) conflict.provenance = provenance[conflict.itemKey];
+  }
+
+  return { extracted: { ...extracted, provenance }, disagreements };
+}
+
+export const FIELD_ARBITER: Arbiter = {
+  name: 'field arbitration',
+  arbitrate,
+};
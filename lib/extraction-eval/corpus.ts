@@ -0,0 +1,172 @@
+/**
+ * Labelled extraction corpus
+ *
+ * Patient descriptions with the full profile a careful reader would record,
+ * in the canonical vocabulary (lib/terminology, lib/clinical-context,
+ * "Stage IIIB" stage groups). A field left out of `expected` means nothing
+ * should be extracted for it, so spurious values count against precision.
+ */
+
+import { BiomarkerStatus } from '@/types';
+
+export interface ExpectedProfile {
+  age?: number;
+  sex?: 'Male' | 'Female';
+  cancerType?: string;
+  stage?: string;
+  stageExtent?: 'Limited' | 'Extensive';
+  ecog?: number;
+  /** Status per gene; "Detected" results are labelled Positive */
+  biomarkers?: Record<string, Exclude<BiomarkerStatus, 'Detected' | 'Unknown'>>;
+  priorTreatments?: string[];
+  comorbidities?: string[];
+  /** Active medications only */
+  currentMedications?: string[];
+}
+
+export interface LabelledCase {
+  /** Stable key for recorded LLM responses (./recordings.ts) */
+  id: string;
+  text: string;
+  expected: ExpectedProfile;
+}
+
+export const LABELLED_CORPUS: LabelledCase[] = [
+  {
+    id: 'nsclc-egfr-osimertinib',
+    text: '62-year-old woman with stage IV lung adenocarcinoma, EGFR exon 19 deletion, ECOG 1. Progressed on osimertinib.',
+    expected: {
+      age: 62, sex: 'Female', cancerType: 'NSCLC', stage: 'Stage IV', ecog: 1,
+      biomarkers: { EGFR: 'Positive' }, priorTreatments: ['Osimertinib'],
+    },
+  },
+  {
+    id: 'crc-kras-folfox',
+    text: '58M with metastatic colorectal cancer, KRAS G12D. Received FOLFOX then FOLFIRI + bevacizumab. Type 2 diabetes on metformin.',
+    expected: {
+      age: 58, sex: 'Male', cancerType: 'CRC', stage: 'Stage IV',
+      biomarkers: { KRAS: 'Positive' },
+      priorTreatments: ['Fluorouracil', 'Leucovorin', 'Oxaliplatin', 'Irinotecan', 'Bevacizumab'],
+      comorbidities: ['Diabetes Mellitus'], currentMedications: ['Metformin'],
+    },
+  },
+  {
+    id: 'breast-her2-neg-brca2',
+    text: '45 yo female, stage IIA breast cancer, HER2 negative, germline BRCA2 mutation. Completed AC-T. ECOG 0.',
+    expected: {
+      age: 45, sex: 'Female', cancerType: 'Breast Cancer', stage: 'Stage IIA', ecog: 0,
+      biomarkers: { HER2: 'Negative', BRCA2: 'Positive' },
+      priorTreatments: ['Doxorubicin', 'Cyclophosphamide', 'Paclitaxel'],
+    },
+  },
+  {
+    id: 'nsclc-treatment-naive',
+    text: '71-year-old man with NSCLC, no prior chemotherapy or immunotherapy. KRAS G12C, PD-L1 TPS 60%. No history of ILD.',
+    expected: {
+      age: 71, sex: 'Male', cancerType: 'NSCLC',
+      biomarkers: { KRAS: 'Positive', 'PD-L1': 'Positive' },
+    },
+  },
+  {
+    id: 'pancreas-family-history',
+    text: 'Mother had breast cancer. Patient is a 52 year old man with pancreatic adenocarcinoma, BRCA2 negative, on apixaban for a DVT.',
+    expected: {
+      age: 52, sex: 'Male', cancerType: 'Pancreatic Cancer',
+      biomarkers: { BRCA2: 'Negative' },
+      comorbidities: ['Venous Thromboembolism'], currentMedications: ['Apixaban'],
+    },
+  },
+  {
+    id: 'nsclc-chemoradiation-planned-io',
+    text: 'Stage IIIB NSCLC, 66F, completed chemoradiation with carboplatin/paclitaxel, planning durvalumab consolidation.',
+    expected: {
+      age: 66, sex: 'Female', cancerType: 'NSCLC', stage: 'Stage IIIB',
+      priorTreatments: ['Chemotherapy', 'Radiotherapy', 'Carboplatin', 'Paclitaxel'],
+    },
+  },
+  {
+    id: 'sclc-extensive',
+    text: 'Extensive-stage small cell lung cancer, 68yo male smoker, progressed on carboplatin/etoposide + atezolizumab, ECOG 2.',
+    expected: {
+      age: 68, sex: 'Male', cancerType: 'SCLC', stageExtent: 'Extensive', ecog: 2,
+      priorTreatments: ['Carboplatin', 'Etoposide', 'Atezolizumab'],
+    },
+  },
+  {
+    id: 'melanoma-braf-adjuvant',
+    text: 'Melanoma, BRAF V600E, stage IIIC, 39-year-old female. Received adjuvant nivolumab. Hypothyroidism on levothyroxine.',
+    expected: {
+      age: 39, sex: 'Female', cancerType: 'Melanoma', stage: 'Stage IIIC',
+      biomarkers: { BRAF: 'Positive' }, priorTreatments: ['Nivolumab'],
+      comorbidities: ['Hypothyroidism'], currentMedications: ['Levothyroxine'],
+    },
+  },
+  {
+    id: 'nsclc-tnm-alk',
+    text: 'pT2a N1 M0 lung adenocarcinoma, 60 yo male, ALK rearrangement, s/p lobectomy.',
+    expected: {
+      age: 60, sex: 'Male', cancerType: 'NSCLC', stage: 'Stage IIB',
+      biomarkers: { ALK: 'Positive' }, priorTreatments: ['Surgery'],
+    },
+  },
+  {
+    id: 'nsclc-uncertain-findings',
+    text: 'Suspected ALK fusion, awaiting FISH. 55 yo woman with lung adenocarcinoma. Possible ILD on CT.',
+    expected: {
+      age: 55, sex: 'Female', cancerType: 'NSCLC',
+      biomarkers: { ALK: 'Equivocal' },
+    },
+  },
+  {
+    id: 'tnbc-brand-names',
+    text: '48F, metastatic TNBC, progressed on Keytruda + chemo and Trodelvy. Rheumatoid arthritis on prednisone.',
+    expected: {
+      age: 48, sex: 'Female', cancerType: 'TNBC', stage: 'Stage IV',
+      priorTreatments: ['Pembrolizumab', 'Chemotherapy', 'Sacituzumab govitecan'],
+      comorbidities: ['Rheumatoid Arthritis'], currentMedications: ['Prednisone'],
+    },
+  },
+  {
+    id: 'gastric-her2-capox',
+    text: 'Gastric adenocarcinoma, HER2 positive, 63 years old, male, ECOG 1, progressed after trastuzumab plus CAPOX.',
+    expected: {
+      age: 63, sex: 'Male', cancerType: 'Gastric Cancer', ecog: 1,
+      biomarkers: { HER2: 'Positive' },
+      priorTreatments: ['Trastuzumab', 'Capecitabine', 'Oxaliplatin'],
+    },
+  },
+  {
+    id: 'ovarian-parp-maintenance',
+    text: 'Her creatinine is 1.1 mg/dL and ANC 2.3. She is 70, ovarian cancer, BRCA1 mutated, on olaparib maintenance after carboplatin/paclitaxel.',
+    expected: {
+      age: 70, sex: 'Female', cancerType: 'Ovarian Cancer',
+      biomarkers: { BRCA1: 'Positive' },
+      priorTreatments: ['Olaparib', 'Carboplatin', 'Paclitaxel'],
+    },
+  },
+  {
+    id: 'prostate-stopped-warfarin',
+    text: 'No longer on warfarin, now on enoxaparin. 57 yo man, stage II prostate cancer, prior radiotherapy.',
+    expected: {
+      age: 57, sex: 'Male', cancerType: 'Prostate Cancer', stage: 'Stage II',
+      priorTreatments: ['Radiotherapy'], currentMedications: ['Enoxaparin'],
+    },
+  },
+  {
+    id: 'pancreas-kidney-egfr',
+    text: 'eGFR 55 mL/min, 74-year-old female with metastatic pancreatic cancer, progressed on gemcitabine/nab-paclitaxel, ECOG 1.',
+    expected: {
+      age: 74, sex: 'Female', cancerType: 'Pancreatic Cancer', stage: 'Stage IV', ecog: 1,
+      priorTreatments: ['Gemcitabine', 'Nab-paclitaxel'],
+    },
+  },
+  {
+    id: 'hcc-cirrhosis-hbv',
+    text: 'HCC with Child-Pugh A cirrhosis and hepatitis B, 61M, prior atezolizumab + bevacizumab.',
+    expected: {
+      age: 61, sex: 'Male', cancerType: 'HCC',
+      priorTreatments: ['Atezolizumab', 'Bevacizumab'],
+      comorbidities: ['Cirrhosis', 'Hepatitis B'],
+    },
+  },
+];
@@ -0,0 +1,282 @@
+/**
+ * Extraction evaluation
+ *
+ * Field-level precision/recall/F1 for the patient extractors against the
+ * labelled corpus (./corpus.ts), each run through the extraction pipeline's
+ * normalizers: the rule parser, the LLM extractor replaying recorded
+ * structured outputs (./recordings.ts) or, with ANTHROPIC_API_KEY set and
+ * `llmMode: 'live'`, calling the model, and the two arbitrated as an
+ * ensemble. Recorded runs need no network, so a prompt or trigger-list
+ * change can be judged by comparing reports before and after.
+ */
+
+import { normalizeComorbidityName, normalizeMedicationName } from '@/lib/clinical-context';
+import { createExtractionPipeline, Extractor, extractWithPipeline, LLM_EXTRACTOR, RULE_EXTRACTOR } from '@/lib/extraction-pipeline';
+import { EXTRACTION_MODEL, fromModelExtraction, invokeExtractionModel, PatientExtraction } from '@/lib/patient-extractor';
+import { normalizeCancerType, normalizeTreatments } from '@/lib/terminology';
+import { PatientProfile } from '@/types';
+import { ExpectedProfile, LABELLED_CORPUS, LabelledCase } from './corpus';
+import { RECORDED_LLM_RESPONSES } from './recordings';
+
+export { LABELLED_CORPUS, RECORDED_LLM_RESPONSES };
+export type { ExpectedProfile, LabelledCase };
+
+export const EVALUATED_FIELDS = [
+  'age', 'sex', 'cancerType', 'stage', 'stageExtent', 'ecog',
+  'biomarkers', 'priorTreatments', 'comorbidities', 'currentMedications',
+] as const;
+
+export type EvaluatedField = typeof EVALUATED_FIELDS[number];
+export type ExtractorName = 'rules' | 'llm' | 'ensemble';
+/** `live` calls the model and needs ANTHROPIC_API_KEY; only ever chosen explicitly */
+export type LlmMode = 'recorded' | 'live';
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/** Where one case's extraction differs from its label */
+export interface CaseDiff {
+  caseId: string;
+  field: EvaluatedField;
+  /** Labelled but not extracted (or extracted with another value) */
+  missed: string[];
+  /** Extracted but not labelled */
+  spurious: string[];
+}
+
+export interface ExtractorReport {
+  extractor: ExtractorName;
+  /** e.g. "parsePatientFromMessage", "claude-haiku-4-5-20251001 (recorded)" */
+  source: string;
+  fields: Record<EvaluatedField, FieldScore>;
+  /** Micro-averaged over all fields */
+  overall: FieldScore;
+  diffs: CaseDiff[];
+  /** Cases the extractor couldn't run on (no recording, API error) */
+  skipped: Array<{ caseId: string; reason: string }>;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * A field as a set of comparable items: scalars become a single item,
+ * biomarkers `GENE:status`, lists their canonical names (case-insensitive).
+ */
+function fieldItems(profile: Partial<PatientProfile> | ExpectedProfile, field: EvaluatedField): string[] {
+  if (field === 'biomarkers') {
+    const biomarkers = profile.biomarkers;
+    const entries = Array.isArray(biomarkers)
+      ? biomarkers.filter(b => b.status !== 'Unknown').map(b => [b.gene, b.status === 'Detected' ? 'Positive' : b.status])
+      : Object.entries(biomarkers || {});
+    return [...new Set(entries.map(([gene, status]) => `${gene.toUpperCase()}:${status}`))];
+  }
+  if (field === 'priorTreatments') {
+    return normalizeTreatments(profile.priorTreatments || []).map(t => t.toLowerCase());
+  }
+  if (field === 'comorbidities') {
+    return [...new Set((profile.comorbidities || []).map(c => normalizeComorbidityName(c).toLowerCase()))];
+  }
+  if (field === 'currentMedications') {
+    const medications = (profile.currentMedications || []) as Array<string | { name: string; status: string }>;
+    const active = medications.filter(m => typeof m === 'string' || m.status === 'active');
+    return [...new Set(active.map(m => normalizeMedicationName(typeof m === 'string' ? m : m.name).toLowerCase()))];
+  }
+
+  const value = profile[field];
+  if (value === undefined || value === null || value === '') return [];
+  return [field === 'cancerType' ? normalizeCancerType(String(value)) : String(value)];
+}
+
+function score(truePositives: number, falsePositives: number, falseNegatives: number): FieldScore {
+  // An empty field that stays empty is perfect, not 0/0
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives);
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+/** Score extractions (by case id) against the labels */
+export function scoreExtractions(
+  cases: LabelledCase[],
+  extractions: Map<string, Partial<PatientProfile>>
+): Pick<ExtractorReport, 'fields' | 'overall' | 'diffs'> {
+  const counts = Object.fromEntries(EVALUATED_FIELDS.map(f => [f, { tp: 0, fp: 0, fn: 0 }])) as
+    Record<EvaluatedField, { tp: number; fp: number; fn: number }>;
+  const diffs: CaseDiff[] = [];
+
+  for (const testCase of cases) {
+    const extracted = extractions.get(testCase.id);
+    if (!extracted) continue;
+
+    for (const field of EVALUATED_FIELDS) {
+      const expected = fieldItems(testCase.expected, field);
+      const actual = fieldItems(extracted, field);
+      const missed = expected.filter(item => !actual.includes(item));
+      const spurious = actual.filter(item => !expected.includes(item));
+      counts[field].tp += expected.length - missed.length;
+      counts[field].fp += spurious.length;
+      counts[field].fn += missed.length;
+      if (missed.length > 0 || spurious.length > 0) diffs.push({ caseId: testCase.id, field, missed, spurious });
+    }
+  }
+
+  const totals = Object.values(counts).reduce(
+    (sum, c) => ({ tp: sum.tp + c.tp, fp: sum.fp + c.fp, fn: sum.fn + c.fn }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  return {
+    fields: Object.fromEntries(
+      EVALUATED_FIELDS.map(f => [f, score(counts[f].tp, counts[f].fp, counts[f].fn)])
+    ) as Record<EvaluatedField, FieldScore>,
+    overall: score(totals.tp, totals.fp, totals.fn),
+    diffs,
+  };
+}
+
+// =============================================================================
+// Extractors
+// =============================================================================
+
+// Replays RECORDED_LLM_RESPONSES in place of the model
+function recordedLlmExtractor(cases: LabelledCase[]): Extractor {
+  return {
+    ...LLM_EXTRACTOR,
+    extract: async message => {
+      const testCase = cases.find(c => c.text === message);
+      const recorded = testCase && RECORDED_LLM_RESPONSES[testCase.id];
+      if (!recorded) throw new Error('no recorded response');
+      return fromModelExtraction(recorded);
+    },
+  };
+}
+
+// Through the pipeline's normalizers (and arbiter, for the ensemble): a
+// failure is reported rather than falling back to another extractor, which
+// would score the wrong one
+async function evaluateExtractor(
+  name: ExtractorName,
+  extractors: Extractor[],
+  source: string,
+  cases: LabelledCase[]
+): Promise<ExtractorReport> {
+  const pipeline = createExtractionPipeline({ extractors });
+  const extractions = new Map<string, Partial<PatientProfile>>();
+  const skipped: ExtractorReport['skipped'] = [];
+
+  for (const testCase of cases) {
+    const { extracted, stages } = await extractWithPipeline(pipeline, testCase.text);
+    const failed = stages.find(stage => stage.status === 'failed');
+    if (failed) skipped.push({ caseId: testCase.id, reason: failed.error || 'failed' });
+    else extractions.set(testCase.id, extracted);
+  }
+
+  return { extractor: name, source, ...scoreExtractions(cases, extractions), skipped };
+}
+
+export interface EvaluationOptions {
+  extractors?: ExtractorName[];
+  llmMode?: LlmMode;
+  cases?: LabelledCase[];
+}
+
+/** One report per extractor; offline unless the LLM runs live */
+export async function evaluateExtractors({
+  extractors = ['rules', 'llm', 'ensemble'],
+  llmMode = 'recorded',
+  cases = LABELLED_CORPUS,
+}: EvaluationOptions = {}): Promise<ExtractorReport[]> {
+  const reports: ExtractorReport[] = [];
+  for (const extractor of extractors) {
+    if (extractor === 'rules') {
+      reports.push(await evaluateExtractor('rules', [RULE_EXTRACTOR], RULE_EXTRACTOR.name, cases));
+      continue;
+    }
+    const llm = llmMode === 'live' ? LLM_EXTRACTOR : recordedLlmExtractor(cases);
+    if (extractor === 'llm') {
+      reports.push(await evaluateExtractor('llm', [llm], `${EXTRACTION_MODEL} (${llmMode})`, cases));
+    } else {
+      reports.push(await evaluateExtractor(
+        'ensemble', [llm, RULE_EXTRACTOR], `${EXTRACTION_MODEL} (${llmMode}) + ${RULE_EXTRACTOR.name}, arbitrated`, cases
+      ));
+    }
+  }
+  return reports;
+}
+
+/**
+ * Call the model on every case, for refreshing ./recordings.ts after a
+ * prompt or schema change (needs ANTHROPIC_API_KEY).
+ */
+export async function recordLlmResponses(cases: LabelledCase[] = LABELLED_CORPUS): Promise<Record<string, PatientExtraction>> {
+  const recorded: Record<string, PatientExtraction> = {};
+  for (const testCase of cases) {
+    recorded[testCase.id] = await invokeExtractionModel(testCase.text);
+  }
+  return recorded;
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+export interface FieldComparison {
+  field: EvaluatedField | 'overall';
+  before: number;
+  after: number;
+  /** F1 change; negative is a regression */
+  delta: number;
+}
+
+/** F1 per field between two runs of the same extractor (e.g. before/after a prompt change) */
+export function compareReports(before: ExtractorReport, after: ExtractorReport): FieldComparison[] {
+  const row = (field: EvaluatedField | 'overall', a: FieldScore, b: FieldScore) =>
+    ({ field, before: a.f1, after: b.f1, delta: b.f1 - a.f1 });
+  return [
+    ...EVALUATED_FIELDS.map(f => row(f, before.fields[f], after.fields[f])),
+    row('overall', before.overall, after.overall),
+  ];
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(6);
+
+/** Plain-text table of P/R/F1 per field and extractor, then each extractor's diffs */
+export function formatReport(reports: ExtractorReport[]): string {
+  const header = ['Field'.padEnd(20), ...reports.map(r =>
+    `${r.extractor.padEnd(8)} ${'P'.padStart(6)}  ${'R'.padStart(6)}  ${'F1'.padStart(6)}`)].join(' | ');
+  const line = (label: string, scoreOf: (r: ExtractorReport) => FieldScore) =>
+    [label.padEnd(20), ...reports.map(r => {
+      const s = scoreOf(r);
+      return `${''.padEnd(8)} ${pct(s.precision)}  ${pct(s.recall)}  ${pct(s.f1)}`;
+    })].join(' | ');
+
+  const sections = [
+    reports.map(r => `${r.extractor}: ${r.source}`).join('\n'),
+    [
+      header,
+      '-'.repeat(header.length),
+      ...EVALUATED_FIELDS.map(f => line(f, r => r.fields[f])),
+      '-'.repeat(header.length),
+      line('overall (micro)', r => r.overall),
+    ].join('\n'),
+  ];
+
+  for (const report of reports) {
+    const diffLines = report.diffs.map(d => [
+      `  ${d.caseId} · ${d.field}`,
+      d.missed.length > 0 ? `missed: ${d.missed.join(', ')}` : '',
+      d.spurious.length > 0 ? `spurious: ${d.spurious.join(', ')}` : '',
+    ].filter(Boolean).join('  '));
+    const skippedLines = report.skipped.map(s => `  ${s.caseId} · skipped: ${s.reason}`);
+    sections.push([`${report.extractor} diffs (${report.diffs.length})`, ...diffLines, ...skippedLines].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Recorded LLM extractions
+ *
+ * Raw structured outputs of the extraction model (lib/patient-extractor.ts)
+ * for the labelled corpus, keyed by case id, replayed by offline runs.
+ * Refresh them with `recordLlmResponses()` whenever the prompt, schema or
+ * model changes, or the scores describe an extractor that no longer exists.
+ */
+
+import type { PatientExtraction } from '@/lib/patient-extractor';
+
+export const RECORDED_LLM_RESPONSES: Record<string, PatientExtraction> = {
+  'nsclc-egfr-osimertinib': {
+    age: 62,
+    sex: 'Female',
+    cancerType: 'Lung adenocarcinoma',
+    stage: 'Stage IV',
+    ecog: 1,
+    biomarkers: [{ gene: 'EGFR', alteration: 'exon 19 deletion', status: 'Positive' }],
+    priorTreatments: ['osimertinib'],
+  },
+  'crc-kras-folfox': {
+    age: 58,
+    sex: 'Male',
+    cancerType: 'Colorectal cancer',
+    stage: 'Stage IV',
+    biomarkers: [{ gene: 'KRAS', alteration: 'G12D', status: 'Positive' }],
+    priorTreatments: ['FOLFOX', 'FOLFIRI', 'bevacizumab'],
+    comorbidities: ['Type 2 Diabetes'],
+    currentMedications: ['metformin'],
+  },
+  'breast-her2-neg-brca2': {
+    age: 45,
+    sex: 'Female',
+    cancerType: 'Breast Cancer',
+    stage: 'Stage IIA',
+    ecog: 0,
+    biomarkers: [
+      { gene: 'HER2', status: 'Negative' },
+      { gene: 'BRCA2', alteration: 'germline mutation', status: 'Positive' },
+    ],
+    priorTreatments: ['AC-T'],
+  },
+  'nsclc-treatment-naive': {
+    age: 71,
+    sex: 'Male',
+    cancerType: 'NSCLC',
+    pdl1Score: 'TPS 60%',
+    biomarkers: [
+      { gene: 'KRAS', alteration: 'G12C', status: 'Positive' },
+      { gene: 'PD-L1', status: 'Positive', value: 60, unit: '% TPS' },
+    ],
+  },
+  'pancreas-family-history': {
+    age: 52,
+    sex: 'Male',
+    cancerType: 'Pancreatic adenocarcinoma',
+    biomarkers: [{ gene: 'BRCA2', status: 'Negative' }],
+    comorbidities: ['Deep vein thrombosis'],
+    currentMedications: ['apixaban'],
+  },
+  'nsclc-chemoradiation-planned-io': {
+    age: 66,
+    sex: 'Female',
+    cancerType: 'NSCLC',
+    stage: 'Stage IIIB',
+    priorTreatments: ['chemoradiation', 'carboplatin', 'paclitaxel'],
+  },
+  'sclc-extensive': {
+    age: 68,
+    sex: 'Male',
+    cancerType: 'Small cell lung cancer',
+    stageExtent: 'Extensive',
+    ecog: 2,
+    priorTreatments: ['carboplatin', 'etoposide', 'atezolizumab'],
+  },
+  'melanoma-braf-adjuvant': {
+    age: 39,
+    sex: 'Female',
+    cancerType: 'Melanoma',
+    stage: 'Stage IIIC',
+    biomarkers: [{ gene: 'BRAF', alteration: 'V600E', status: 'Positive' }],
+    priorTreatments: ['nivolumab'],
+    comorbidities: ['Hypothyroidism'],
+    currentMedications: ['levothyroxine'],
+  },
+  'nsclc-tnm-alk': {
+    age: 60,
+    sex: 'Male',
+    cancerType: 'Lung adenocarcinoma',
+    tnm: 'pT2a N1 M0',
+    biomarkers: [{ gene: 'ALK', alteration: 'rearrangement', status: 'Positive' }],
+    priorTreatments: ['lobectomy'],
+  },
+  'nsclc-uncertain-findings': {
+    age: 55,
+    sex: 'Female',
+    cancerType: 'Lung adenocarcinoma',
+    biomarkers: [{ gene: 'ALK', alteration: 'fusion', status: 'Equivocal', method: 'FISH' }],
+    comorbidities: ['Interstitial Lung Disease'],
+  },
+  'tnbc-brand-names': {
+    age: 48,
+    sex: 'Female',
+    cancerType: 'Triple-negative breast cancer',
+    stage: 'Stage IV',
+    priorTreatments: ['Keytruda', 'chemotherapy', 'Trodelvy'],
+    comorbidities: ['Rheumatoid Arthritis'],
+    currentMedications: ['prednisone'],
+  },
+  'gastric-her2-capox': {
+    age: 63,
+    sex: 'Male',
+    cancerType: 'Gastric adenocarcinoma',
+    ecog: 1,
+    biomarkers: [{ gene: 'HER2', status: 'Positive' }],
+    priorTreatments: ['trastuzumab', 'CAPOX'],
+  },
+  'ovarian-parp-maintenance': {
+    age: 70,
+    sex: 'Female',
+    cancerType: 'Ovarian Cancer',
+    biomarkers: [{ gene: 'BRCA1', status: 'Positive' }],
+    priorTreatments: ['olaparib', 'carboplatin', 'paclitaxel'],
+    labs: [
+      { name: 'Creatinine', value: 1.1, unit: 'mg/dL' },
+      { name: 'ANC', value: 2.3, unit: 'x10^9/L' },
+    ],
+  },
+  'prostate-stopped-warfarin': {
+    age: 57,
+    sex: 'Male',
+    cancerType: 'Prostate Cancer',
+    stage: 'Stage II',
+    priorTreatments: ['radiotherapy'],
+    currentMedications: ['enoxaparin'],
+  },
+  'pancreas-kidney-egfr': {
+    age: 74,
+    sex: 'Female',
+    cancerType: 'Pancreatic Cancer',
+    stage: 'Stage IV',
+    ecog: 1,
+    priorTreatments: ['gemcitabine', 'nab-paclitaxel'],
+    labs: [{ name: 'eGFR', value: 55, unit: 'mL/min' }],
+  },
+  'hcc-cirrhosis-hbv': {
+    age: 61,
+    sex: 'Male',
+    cancerType: 'Hepatocellular carcinoma',
+    priorTreatments: ['atezolizumab', 'bevacizumab'],
+    comorbidities: ['Child-Pugh A cirrhosis', 'Hepatitis B'],
+  },
+};
@@ -0,0 +1,406 @@
+/**
+ * Extraction pipeline
+ *
+ * The one path from a chat message to an updated profile, shared by the
+ * local graph and the FastAPI route. Extractors run in order until one
+ * succeeds, or, with an arbiter, all in parallel (the LLM and the rule
+ * parser as an ensemble, lib/extraction-ensemble.ts); normalizers put each
+ * result in canonical form, provenance is recorded, the arbiter picks
+ * field by field between readings, and a merge policy folds the result into
+ * the current profile. Each stage's output and timing is returned for
+ * debugging.
+ *
+ * Extractors see the current profile and recent history, so besides new
+ * values they can emit operations on what the profile already holds
+ * ("actually stage IIIA", "remove KRAS", "progressed on it"); the merge
+ * applies those last, as one transaction (lib/profile-operations.ts).
+ */
+
+import { mergeBiomarkers } from '@/lib/biomarkers';
+import { mergeLabs, mergeMedications } from '@/lib/clinical-context';
+import type { Deidentifier } from '@/lib/deidentify';
+import { FIELD_ARBITER } from '@/lib/extraction-ensemble';
+import { EXTRACTION_MODEL, fromModelExtraction, invokeExtractionModel } from '@/lib/patient-extractor';
+import { conflictSubject, detectConflicts, revertConflicts } from '@/lib/profile-conflicts';
+import { isListField } from '@/lib/profile-edits';
+import { applyProfileOperations, OperationsResult, operationSubject, withoutDeletedValues } from '@/lib/profile-operations';
+import { buildProvenance, pruneProvenance } from '@/lib/provenance';
+import { parsePatientFromMessage, parseProfileOperations } from '@/lib/rule-parser';
+import { normalizeStaging } from '@/lib/staging';
+import { normalizeTerminology } from '@/lib/terminology';
+import { PatientProfile, ProfileConflict, ProfileOperation, ProvenanceSource } from '@/types';
+
+// =============================================================================
+// Stages
+// =============================================================================
+
+/** What the message is read against: pronouns and corrections refer to it */
+export interface ExtractionContext {
+  profile: PatientProfile;
+  /** Recent turns, oldest first */
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Scrubs what extractors send to a model, and maps their results back */
+  deidentifier?: Deidentifier;
+  /** Heading of the section being read, when the text is part of a clinical document (lib/documents) */
+  section?: string;
+}
+
+/** Values the message states, plus operations on the profile it already refers to */
+export type ExtractorOutput = Partial<PatientProfile> & { operations?: ProfileOperation[] };
+
+export interface Extractor {
+  /** Recorded as the provenance `extractor` (e.g. parsePatientFromMessage, a model id) */
+  name: string;
+  source: ProvenanceSource;
+  /** Profile-shaped values as the extractor found them; throws if it can't run */
+  extract(message: string, context?: ExtractionContext): Promise<ExtractorOutput>;
+}
+
+export interface Normalizer {
+  name: string;
+  normalize(extracted: Partial<PatientProfile>): Partial<PatientProfile>;
+}
+
+export interface MergeResult {
+  profile: PatientProfile;
+  /** Values held back until the user confirms them (lib/profile-conflicts.ts) */
+  conflicts: ProfileConflict[];
+  /** The message's operations: applied, and rejected with why */
+  operations: Omit<OperationsResult, 'profile'>;
+}
+
+export interface MergePolicy {
+  name: string;
+  merge(
+    current: PatientProfile,
+    extracted: Partial<PatientProfile>,
+    turn: { message: string; messageId?: string; operations: ProfileOperation[] }
+  ): MergeResult;
+}
+
+/** One extractor's normalized reading of the message, with provenance */
+export interface Candidate {
+  extractor: Extractor;
+  extracted: Partial<PatientProfile>;
+}
+
+export interface Arbitration {
+  /** The chosen readings, with provenance */
+  extracted: Partial<PatientProfile>;
+  /** Readings that lost a disagreement, for the user to confirm or swap in */
+  disagreements: ProfileConflict[];
+}
+
+export interface Arbiter {
+  name: string;
+  /** `candidates` in pipeline order; at least two */
+  arbitrate(candidates: Candidate[], message: string): Arbitration;
+}
+
+export interface ExtractionPipeline {
+  extractors: Extractor[];
+  normalizers: Normalizer[];
+  /** Runs the extractors in parallel and chooses between them; without one they fall back in order */
+  arbiter?: Arbiter;
+  merge: MergePolicy;
+}
+
+export const RULE_EXTRACTOR: Extractor = {
+  name: 'parsePatientFromMessage',
+  source: 'regex',
+  extract: async (message, context) => {
+    const extracted = parsePatientFromMessage(message);
+    return context
+      ? { ...extracted, operations: parseProfileOperations(message, extracted, context.profile, context.history) }
+      : extracted;
+  },
+};
+
+export const LLM_EXTRACTOR: Extractor = {
+  name: EXTRACTION_MODEL,
+  source: 'llm',
+  extract: async (message, context) => fromModelExtraction(await invokeExtractionModel(message, context)),
+};
+
+// Drugs, regimens, diagnoses and conditions first: stage groups depend on the cancer type
+export const DEFAULT_NORMALIZERS: Normalizer[] = [
+  { name: 'terminology', normalize: normalizeTerminology },
+  { name: 'staging', normalize: normalizeStaging },
+];
+
+/**
+ * Scalars replace, lists accumulate. A value contradicting the current
+ * profile keeps the current one until confirmed, unless an operation
+ * explicitly changes it; merges can also replace entries (generic EGFR →
+ * EGFR L858R) and TNM may now meet the cancer type it needs for a stage
+ * group. Operations are applied last, so a removal wins over a mention.
+ */
+export const ACCUMULATE_MERGE: MergePolicy = {
+  name: 'accumulate',
+  merge(current, extracted, { message, messageId, operations }) {
+    const explicit = new Set(operations.map(operationSubject));
+    extracted = withoutDeletedValues(extracted, operations);
+    const conflicts = detectConflicts(current, extracted).filter(c => !explicit.has(conflictSubject(c)));
+    const merged: PatientProfile = {
+      ...current,
+      ...extracted,
+      biomarkers: mergeBiomarkers(current.biomarkers, extracted.biomarkers || []),
+      priorTreatments: [...new Set([...current.priorTreatments, ...(extracted.priorTreatments || [])])],
+      labs: mergeLabs(current.labs, extracted.labs || []),
+      comorbidities: [...new Set([...current.comorbidities, ...(extracted.comorbidities || [])])],
+      currentMedications: mergeMedications(current.currentMedications, extracted.currentMedications || []),
+      provenance: { ...current.provenance, ...extracted.provenance },
+      rawText: message,
+    };
+    const { profile, ...applied } = applyProfileOperations(revertConflicts(current, merged, conflicts), operations, { message, messageId });
+    return { profile: normalizeStaging(pruneProvenance(profile)), conflicts, operations: applied };
+  },
+};
+
+export function createExtractionPipeline(overrides: Partial<ExtractionPipeline> = {}): ExtractionPipeline {
+  return {
+    extractors: [LLM_EXTRACTOR, RULE_EXTRACTOR],
+    normalizers: DEFAULT_NORMALIZERS,
+    arbiter: FIELD_ARBITER,
+    merge: ACCUMULATE_MERGE,
+    ...overrides,
+  };
+}
+
+/** LLM and rule parser in parallel, arbitrated; the rule parser alone if the model is unavailable (FastAPI mode) */
+export const LLM_PIPELINE = createExtractionPipeline();
+
+/** Rule parser only: no model calls (local graph) */
+export const RULES_PIPELINE = createExtractionPipeline({ extractors: [RULE_EXTRACTOR] });
+
+// =============================================================================
+// Running
+// =============================================================================
+
+export interface StageResult {
+  stage: string;
+  kind: 'extract' | 'normalize' | 'arbitrate' | 'merge';
+  status: 'ok' | 'failed' | 'skipped';
+  durationMs: number;
+  /** The extractor whose output a normalize stage ran on, when several ran */
+  extractor?: string;
+  /** Fields the stage produced or changed */
+  fields: string[];
+  /** What the stage returned (extractors, normalizers and the arbiter) */
+  output?: Partial<PatientProfile>;
+  /** Operations an extractor emitted, or the merge applied */
+  operations?: ProfileOperation[];
+  error?: string;
+}
+
+export interface ExtractionResult {
+  /** The current profile with this message merged in */
+  profile: PatientProfile;
+  /** What the message contributed, normalized, with provenance */
+  extracted: Partial<PatientProfile>;
+  /** Held-back profile changes, then extractor disagreements on other fields */
+  conflicts: ProfileConflict[];
+  operations: MergeResult['operations'];
+  /** Whether the message held any patient data (or changes to it) at all */
+  hasPatientData: boolean;
+  stages: StageResult[];
+}
+
+/** Fields with a value: scalars that are set, lists that aren't empty */
+function presentFields(profile: Partial<PatientProfile>): string[] {
+  return Object.entries(profile)
+    .filter(([field, value]) => field !== 'provenance' && field !== 'rawText' && value !== undefined)
+    .filter(([field, value]) => !isListField(field) || (value as unknown[]).length > 0)
+    .map(([field]) => field);
+}
+
+function changedKeys(before: object, after: object): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key => key !== 'provenance' &&
+    JSON.stringify((before as Record<string, unknown>)[key]) !== JSON.stringify((after as Record<string, unknown>)[key]));
+}
+
+async function runExtractor(
+  extractor: Extractor,
+  message: string,
+  context: ExtractionContext | undefined
+): Promise<{ output?: Partial<PatientProfile>; operations: ProfileOperation[]; stage: StageResult }> {
+  const started = Date.now();
+  try {
+    // Provenance is rebuilt on the normalized values
+    const { operations = [], ...output } = await extractor.extract(message, context);
+    delete output.provenance;
+    return {
+      output,
+      operations: operations.map(operation => ({ ...operation, source: extractor.source })),
+      stage: {
+        stage: extractor.name, kind: 'extract', status: 'ok', durationMs: Date.now() - started,
+        fields: presentFields(output), output, ...(operations.length > 0 ? { operations } : {}),
+      },
+    };
+  } catch (error) {
+    console.error(`Extractor ${extractor.name} failed:`, error);
+    return {
+      operations: [],
+      stage: {
+        stage: extractor.name, kind: 'extract', status: 'failed', durationMs: Date.now() - started, fields: [],
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+function normalize(
+  pipeline: ExtractionPipeline,
+  extracted: Partial<PatientProfile>,
+  stages: StageResult[],
+  extractor?: string
+): Partial<PatientProfile> {
+  for (const normalizer of pipeline.normalizers) {
+    const started = Date.now();
+    const output = normalizer.normalize(extracted);
+    stages.push({
+      stage: normalizer.name, kind: 'normalize', status: 'ok', durationMs: Date.now() - started, extractor,
+      fields: changedKeys(extracted, output), output,
+    });
+    extracted = output;
+  }
+  return extracted;
+}
+
+/**
+ * Operation values (and the names they match) in the canonical form the
+ * profile holds: "IIIA" → Stage IIIA, "Tagrisso" → Osimertinib. Only
+ * scalars and name lists; a regimen appended expands to its drugs.
+ */
+function normalizeOperations(pipeline: ExtractionPipeline, operations: ProfileOperation[]): ProfileOperation[] {
+  const canonical = (field: ProfileOperation['field'], value: unknown): unknown[] => {
+    const names = field === 'priorTreatments' || field === 'comorbidities';
+    if (isListField(field) && (!names || typeof value !== 'string')) return [value];
+    const partial = { [field]: names ? [value] : value } as Partial<PatientProfile>;
+    const normalized = pipeline.normalizers.reduce((p, n) => n.normalize(p), partial)[field];
+    return names ? normalized as unknown[] : [normalized ?? value];
+  };
+
+  return operations.flatMap(operation => {
+    const match = operation.match && canonical(operation.field, operation.match)[0];
+    const normalized = { ...operation, ...(typeof match === 'string' ? { match } : {}) };
+    if (operation.value === undefined || operation.op === 'delete' || (isListField(operation.field) && operation.op !== 'append')) {
+      return [normalized];
+    }
+    return canonical(operation.field, operation.value).map(value => ({ ...normalized, value }));
+  });
+}
+
+/** The same change from several extractors once; on a clash over one value the earlier extractor's */
+function combineOperations(operations: ProfileOperation[]): ProfileOperation[] {
+  const seen = new Set<string>();
+  return operations.filter(operation => {
+    const target = isListField(operation.field) ? (operation.match || JSON.stringify(operation.value)) : '';
+    const key = `${operation.op}|${operation.field}|${String(target).toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Extract and normalize one message, with provenance on the canonical
+ * values so its keys match the merged lists. With an arbiter every
+ * extractor runs and each successful reading is normalized before they are
+ * arbitrated; otherwise extractors run in order until one succeeds.
+ */
+export async function extractWithPipeline(
+  pipeline: ExtractionPipeline,
+  message: string,
+  { messageId, context }: { messageId?: string; context?: ExtractionContext } = {}
+): Promise<{
+  extracted: Partial<PatientProfile>;
+  operations: ProfileOperation[];
+  disagreements: ProfileConflict[];
+  stages: StageResult[];
+}> {
+  const stages: StageResult[] = [];
+  const readings: Array<{ extractor: Extractor; output: Partial<PatientProfile>; operations: ProfileOperation[] }> = [];
+  const ensemble = !!pipeline.arbiter && pipeline.extractors.length > 1;
+
+  if (ensemble) {
+    const runs = await Promise.all(pipeline.extractors.map(extractor => runExtractor(extractor, message, context)));
+    runs.forEach(({ output, operations, stage }, i) => {
+      stages.push(stage);
+      if (output) readings.push({ extractor: pipeline.extractors[i], output, operations });
+    });
+  } else {
+    for (const extractor of pipeline.extractors) {
+      if (readings.length > 0) {
+        stages.push({ stage: extractor.name, kind: 'extract', status: 'skipped', durationMs: 0, fields: [] });
+        continue;
+      }
+      const { output, operations, stage } = await runExtractor(extractor, message, context);
+      stages.push(stage);
+      if (output) readings.push({ extractor, output, operations });
+    }
+  }
+
+  if (readings.length === 0) {
+    return { extracted: normalize(pipeline, {}, stages), operations: [], disagreements: [], stages };
+  }
+
+  const operations = combineOperations(normalizeOperations(pipeline, readings.flatMap(r => r.operations)));
+  const candidates: Candidate[] = readings.map(({ extractor, output }) => {
+    const normalized = normalize(pipeline, output, stages, ensemble ? extractor.name : undefined);
+    return {
+      extractor,
+      extracted: presentFields(normalized).length > 0
+        ? { ...normalized, provenance: buildProvenance(normalized, message, { source: extractor.source, extractor: extractor.name, messageId }) }
+        : normalized,
+    };
+  });
+
+  if (candidates.length === 1 || !pipeline.arbiter) {
+    return { extracted: candidates[0].extracted, operations, disagreements: [], stages };
+  }
+
+  const started = Date.now();
+  const { extracted, disagreements } = pipeline.arbiter.arbitrate(candidates, message);
+  stages.push({
+    stage: pipeline.arbiter.name, kind: 'arbitrate', status: 'ok', durationMs: Date.now() - started,
+    fields: [...new Set(disagreements.map(d => d.field))], output: extracted,
+  });
+  return { extracted, operations, disagreements, stages };
+}
+
+/** Extract, normalize and merge one message into `profile`, read in the context of `history` */
+export async function runExtractionPipeline(
+  pipeline: ExtractionPipeline,
+  { message, messageId, profile, history = [], deidentifier }: {
+    message: string;
+    messageId?: string;
+    profile: PatientProfile;
+    history?: ExtractionContext['history'];
+    deidentifier?: Deidentifier;
+  }
+): Promise<ExtractionResult> {
+  const { extracted, operations, disagreements, stages } = await extractWithPipeline(pipeline, message, {
+    messageId,
+    context: { profile, history, deidentifier },
+  });
+  const hasPatientData = presentFields(extracted).length > 0 || operations.length > 0;
+
+  const started = Date.now();
+  if (!hasPatientData) {
+    stages.push({ stage: pipeline.merge.name, kind: 'merge', status: 'skipped', durationMs: 0, fields: [] });
+    return { profile, extracted, conflicts: [], operations: { applied: [], rejected: [] }, hasPatientData, stages };
+  }
+  const merged = pipeline.merge.merge(profile, extracted, { message, messageId, operations });
+  stages.push({
+    stage: pipeline.merge.name, kind: 'merge', status: 'ok', durationMs: Date.now() - started,
+    fields: changedKeys(profile, merged.profile).filter(key => key !== 'rawText'),
+    ...(operations.length > 0 ? { operations: merged.operations.applied } : {}),
+  });
+
+  // A value already held back against the profile, or changed explicitly, needs no second question
+  const settled = new Set([...merged.conflicts.map(conflictSubject), ...merged.operations.applied.map(operationSubject)]);
+  const conflicts = [...merged.conflicts, ...disagreements.filter(d => !settled.has(conflictSubject(d)))];
+  return { ...merged, conflicts, extracted, hasPatientData, stages };
+}
@@ -6,6 +6,11 @@
  */
 
 import { PatientProfile } from '@/types';
+import { formatPatientLocation } from '@/lib/geo';
+import { formatTnm } from '@/lib/staging';
+import { drugClasses, lookupCancerType, normalizeTerminology } from '@/lib/terminology';
+import { assessReadiness, openGaps } from '@/lib/readiness';
+import { McodeElements, profileToMcode, validateMcode } from '@/lib/fhir/mcode';
 
 // =============================================================================
 // Configuration
@@ -22,12 +27,17 @@ const config = {
 
 export interface PatientInput {
   patient_id: string;
-  age: number;
-  sex: 'male' | 'female' | 'other';
+  /** null when unknown */
+  age: number | null;
+  sex: 'male' | 'female' | 'unknown';
+  /** "unknown" when not given */
   primary_diagnosis: string;
+  /** ICD-10-CM code of the primary diagnosis */
+  diagnosis_code?: string;
   diagnosis_date?: string;
   histology?: string;
   stage?: string;
+  tnm_stage?: string;
   biomarkers: Array<{
     name: string;
     status?: string;
@@ -35,6 +45,8 @@ export interface PatientInput {
     method?: string;
   }>;
   prior_treatments: string[];
+  /** Drug classes of the prior treatments (e.g. "Platinum Chemotherapy", "PD-(L)1 Inhibitor") */
+  prior_treatment_classes?: string[];
   current_medications: Array<{
     name: string;
     start_date?: string;
@@ -53,6 +65,13 @@ export interface PatientInput {
   clinical_notes?: string;
   preferred_locations: string[];
   max_travel_distance_miles?: number;
+  /** Fields with no value, as lib/readiness keys (e.g. "stage", "biomarkers:EGFR"), so they aren't mistaken for negatives */
+  unknown_fields?: string[];
+  /** The oncology fields as coded mCODE elements (lib/fhir/mcode) */
+  mcode?: McodeElements & {
+    /** Required mCODE elements the profile lacks (e.g. "TNMStageGroup") */
+    missing_required: string[];
+  };
 }
 
 export interface FastAPIEvent {
@@ -140,28 +159,55 @@ export interface TrialMatch {
  * Convert frontend PatientProfile to FastAPI PatientInput format.
  */
 export function patientProfileToInput(
-  profile: PatientProfile,
+  rawProfile: PatientProfile,
   sessionId: string
 ): PatientInput {
+  // Generic drug names and canonical cancer types, whatever the extractor returned
+  const profile = normalizeTerminology(rawProfile);
+  const readiness = assessReadiness(profile);
   return {
     patient_id: sessionId,
-    age: profile.age || 50,
-    sex: (profile.sex?.toLowerCase() as 'male' | 'female' | 'other') || 'other',
-    primary_diagnosis: profile.cancerType || 'cancer',
-    stage: profile.stage,
-    biomarkers: Object.entries(profile.biomarkers).map(([name, value]) => ({
-      name,
-      status: typeof value === 'string' && value.toLowerCase().includes('positive') ? 'positive' :
-              typeof value === 'string' && value.toLowerCase().includes('negative') ? 'negative' : undefined,
-      value: typeof value === 'string' ? value : undefined,
+    age: profile.age ?? null,
+    sex: (profile.sex?.toLowerCase() as 'male' | 'female' | undefined) ?? 'unknown',
+    primary_diagnosis: profile.cancerType || 'unknown',
+    diagnosis_code: profile.cancerType ? lookupCancerType(profile.cancerType)?.icd10 : undefined,
+    stage: profile.stage ?? (profile.stageExtent && `${profile.stageExtent}-stage`),
+    tnm_stage: profile.tnm && formatTnm(profile.tnm),
+    biomarkers: profile.biomarkers.map(b => ({
+      name: b.gene,
+      status: b.status === 'Positive' || b.status === 'Detected' ? 'positive' :
+              b.status === 'Negative' ? 'negative' : b.status.toLowerCase(),
+      value: b.value !== undefined
+        ? `${b.value}${b.unit ? ` ${b.unit}` : ''}`
+        : b.alteration,
+      method: b.method,
     })),
     prior_treatments: profile.priorTreatments,
-    current_medications: [],
-    lab_values: [],
+    prior_treatment_classes: [...new Set(profile.priorTreatments.flatMap(drugClasses))],
+    current_medications: (profile.currentMedications || []).map(m => ({
+      name: m.name,
+      start_date: m.startDate,
+      end_date: m.endDate,
+      status: m.status,
+    })),
+    lab_values: (profile.labs || []).map(l => ({
+      name: l.name,
+      value: l.value,
+      unit: l.unit,
+      // Backend requires a date; chat-reported labs are treated as current
+      date: l.date || new Date().toISOString().slice(0, 10),
+      is_normal: l.isNormal,
+    })),
     ecog_status: profile.ecog,
-    comorbidities: [],
+    comorbidities: profile.comorbidities || [],
     clinical_notes: profile.rawText,
-    preferred_locations: [],
+    preferred_locations: profile.location ? [formatPatientLocation(profile.location)] : [],
+    max_travel_distance_miles: profile.maxTravelMiles,
+    unknown_fields: [...readiness.unknown, ...openGaps(readiness)],
+    mcode: {
+      ...profileToMcode(profile),
+      missing_required: validateMcode(profile).filter(i => i.severity === 'error').map(i => i.element),
+    },
   };
 }
 
@@ -0,0 +1,292 @@
+/**
+ * FHIR R4 export
+ *
+ * Matching results as a transaction bundle the EHR or a trial management
+ * system can take as is: the patient as mCODE resources (./mcode: cancer
+ * patient, primary cancer condition with histology and stage group, TNM,
+ * ECOG, tumor markers, genomic variants, cancer-related medications and
+ * procedures) plus comorbidities, age, labs and current medications, one
+ * ResearchStudy per matched trial, created only if the system doesn't have it
+ * yet, and a candidate ResearchSubject per match carrying the match score and
+ * the criteria evidence as extensions. What the importer reads back (./import) is what it
+ * writes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { hgvsProteinChange } from '@/lib/biomarkers';
+import { PatientProfile, TrialMatch } from '@/types';
+import { codedConcept, HISTOLOGY_EXTENSION, MCODE_LOINC, MCODE_PROFILES, McodeElements, profileToMcode } from './mcode';
+import {
+  Bundle,
+  BundleEntry,
+  CLINICALTRIALS_GOV,
+  CodeableConcept,
+  Condition,
+  Extension,
+  MedicationStatement,
+  LOINC,
+  Observation,
+  OBSERVATION_CATEGORY,
+  Patient,
+  Procedure,
+  Reference,
+  Resource,
+  ResearchStudy,
+  ResearchSubject,
+  UCUM,
+} from './types';
+
+// Extensions this app defines for what FHIR has no element for
+export const EXTENSION_BASE = 'https://risentia.com/fhir/StructureDefinition';
+export const MATCH_SCORE_EXTENSION = `${EXTENSION_BASE}/match-score`;
+export const MATCH_EVIDENCE_EXTENSION = `${EXTENSION_BASE}/match-evidence`;
+export const NEAREST_SITE_EXTENSION = `${EXTENSION_BASE}/nearest-site`;
+
+const RESEARCH_STUDY_PHASE = 'http://terminology.hl7.org/CodeSystem/research-study-phase';
+
+// ClinicalTrials.gov overall status → ResearchStudy.status
+const STUDY_STATUS: Record<string, string> = {
+  NOT_YET_RECRUITING: 'approved',
+  RECRUITING: 'active',
+  ENROLLING_BY_INVITATION: 'active',
+  ACTIVE_NOT_RECRUITING: 'closed-to-accrual',
+  SUSPENDED: 'temporarily-closed-to-accrual',
+  TERMINATED: 'administratively-completed',
+  COMPLETED: 'completed',
+  WITHDRAWN: 'withdrawn',
+};
+
+interface ExportOptions {
+  /** The EHR's own Patient ("Patient/123"), to attach results to instead of creating one */
+  patientReference?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function loinc(code: string, text: string): CodeableConcept {
+  return { coding: [{ system: LOINC, code }], text };
+}
+
+function category(code: 'laboratory' | 'survey' | 'exam' | 'vital-signs'): CodeableConcept[] {
+  return [{ coding: [{ system: OBSERVATION_CATEGORY, code }] }];
+}
+
+/** "RECRUITING", "Recruiting" or "Active, not recruiting" → the ResearchStudy status */
+function studyStatus(status: string): string {
+  return STUDY_STATUS[status.trim().toUpperCase().replace(/[\s,-]+/g, '_')] || 'active';
+}
+
+/** "Phase 1/Phase 2", "PHASE2", "Phase 3" → a research-study-phase code */
+function studyPhase(phase: string): CodeableConcept | undefined {
+  const numbers = [...phase.matchAll(/(?:phase\s*)?([0-4])/gi)].map(m => m[1]);
+  const code = /early/i.test(phase) ? 'early-phase-1'
+    : numbers.length === 0 ? (/n\/?a/i.test(phase) ? 'n-a' : undefined)
+    : numbers.map(n => `phase-${n}`).join('-');
+  return code ? { coding: [{ system: RESEARCH_STUDY_PHASE, code }], text: phase } : phase ? { text: phase } : undefined;
+}
+
+function observation(subject: Reference, code: CodeableConcept, value: Partial<Observation>, kind: Parameters<typeof category>[0]): Observation {
+  return { resourceType: 'Observation', status: 'final', category: category(kind), code, subject, ...value };
+}
+
+function withProfile<T extends Resource>(resource: T, profile: string): T {
+  return { ...resource, meta: { profile: [profile] } };
+}
+
+/** A genomic variant as a genetic variant assessment, with its protein change in HGVS when it is a substitution */
+function variantObservation(subject: Reference, variant: McodeElements['genomicVariants'][number]): Observation {
+  const protein = variant.alteration && hgvsProteinChange(variant.alteration);
+  return withProfile(observation(subject, loinc(MCODE_LOINC.genomicVariant, 'Genetic variant assessment'), {
+    valueCodeableConcept: variant.status,
+    component: [
+      { code: loinc(MCODE_LOINC.geneStudied, 'Gene studied'), valueCodeableConcept: variant.geneStudied },
+      ...(protein ? [{ code: loinc(MCODE_LOINC.proteinChange, 'Amino acid change (pHGVS)'), valueCodeableConcept: { text: protein } }] : []),
+      ...(variant.alteration && !protein ? [{ code: loinc(MCODE_LOINC.variant, 'Discrete genetic variant'), valueCodeableConcept: { text: variant.alteration } }] : []),
+    ],
+    ...(variant.effectiveDateTime ? { effectiveDateTime: variant.effectiveDateTime } : {}),
+    ...(variant.method ? { method: variant.method } : {}),
+  }, 'laboratory'), MCODE_PROFILES.genomicVariant);
+}
+
+/** The match score and criteria evidence on a ResearchSubject */
+function matchExtensions(trial: TrialMatch): Extension[] {
+  return [
+    { url: MATCH_SCORE_EXTENSION, valueDecimal: trial.matchScore },
+    ...(trial.matchReasons.length + trial.concerns.length > 0 ? [{
+      url: MATCH_EVIDENCE_EXTENSION,
+      extension: [
+        ...trial.matchReasons.map(reason => ({ url: 'met', valueString: reason })),
+        ...trial.concerns.map(concern => ({ url: 'concern', valueString: concern })),
+      ],
+    }] : []),
+    ...(trial.nearestSite ? [{
+      url: NEAREST_SITE_EXTENSION,
+      extension: [
+        { url: 'location', valueString: trial.nearestSite.location },
+        { url: 'distance', valueQuantity: { value: trial.nearestSite.distanceMiles, unit: 'mi', system: UCUM, code: '[mi_i]' } },
+        ...(trial.withinTravelRadius !== undefined ? [{ url: 'withinTravelRadius', valueBoolean: trial.withinTravelRadius }] : []),
+      ],
+    }] : []),
+  ];
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * The profile and its trial matches as a transaction bundle. Entries refer
+ * to each other by urn:uuid, which the receiving server resolves; trials it
+ * already has (by NCT id) aren't created twice.
+ */
+export function exportFhirBundle(profile: PatientProfile, trials: TrialMatch[], { patientReference }: ExportOptions = {}): Bundle {
+  const entries: BundleEntry[] = [];
+  const add = <T extends Resource>(resource: T, ifNoneExist?: string): Reference => {
+    const fullUrl = `urn:uuid:${uuidv4()}`;
+    entries.push({ fullUrl, resource, request: { method: 'POST', url: resource.resourceType, ...(ifNoneExist ? { ifNoneExist } : {}) } });
+    return { reference: fullUrl };
+  };
+
+  const mcode = profileToMcode(profile);
+
+  // Patient: demographics only; the profile holds no identifiers
+  let subject: Reference;
+  if (patientReference) {
+    subject = { reference: patientReference };
+  } else {
+    const patient: Patient = {
+      resourceType: 'Patient',
+      ...(mcode.cancerPatient.gender ? { gender: mcode.cancerPatient.gender } : {}),
+      ...(profile.location && (profile.location.city || profile.location.postalCode) ? {
+        address: [{
+          use: 'home',
+          ...(profile.location.city ? { city: profile.location.city } : {}),
+          ...(profile.location.state ? { state: profile.location.state } : {}),
+          ...(profile.location.postalCode ? { postalCode: profile.location.postalCode } : {}),
+          ...(profile.location.country ? { country: profile.location.country } : {}),
+        }],
+      } : {}),
+    };
+    subject = add(withProfile(patient, MCODE_PROFILES.cancerPatient));
+  }
+
+  if (mcode.cancerPatient.age !== undefined) {
+    add(observation(subject, loinc('30525-0', 'Age'), { valueQuantity: { value: mcode.cancerPatient.age, unit: 'a', system: UCUM, code: 'a' } }, 'exam'));
+  }
+  if (mcode.ecogPerformanceStatus) {
+    const { code, value, interpretation } = mcode.ecogPerformanceStatus;
+    add(withProfile(observation(subject, code, {
+      valueInteger: value,
+      ...(interpretation ? { interpretation: [interpretation] } : {}),
+    }, 'survey'), MCODE_PROFILES.ecogPerformanceStatus));
+  }
+
+  // The cancer: TNM categories as members of the stage group, the stage group as the Condition's assessment
+  const cancer = mcode.primaryCancerCondition;
+  if (cancer) {
+    const tnmProfiles = [MCODE_PROFILES.tnmPrimaryTumorCategory, MCODE_PROFILES.tnmRegionalNodesCategory, MCODE_PROFILES.tnmDistantMetastasesCategory];
+    const categories = (cancer.tnm || []).map(category => {
+      const part = 'tnm'.indexOf((category.valueCodeableConcept?.text || '').replace(/^(?:yc|yp|c|p|r)/, '')[0]?.toLowerCase());
+      return add(withProfile(observation(subject, category.code, { valueCodeableConcept: category.valueCodeableConcept }, 'exam'), tnmProfiles[part] || tnmProfiles[0]));
+    });
+    const stageGroup = cancer.stageGroup && add(withProfile(observation(subject, cancer.stageGroup.code, {
+      valueCodeableConcept: cancer.stageGroup.valueCodeableConcept,
+      ...(categories.length > 0 ? { hasMember: categories } : {}),
+    }, 'exam'), MCODE_PROFILES.tnmStageGroup));
+    const assessment = stageGroup ? [stageGroup] : categories;
+
+    const condition: Condition = {
+      resourceType: 'Condition',
+      ...(cancer.histologyMorphologyBehavior ? { extension: [{ url: HISTOLOGY_EXTENSION, valueCodeableConcept: cancer.histologyMorphologyBehavior }] } : {}),
+      clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }] },
+      verificationStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'confirmed' }] },
+      category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-category', code: 'problem-list-item' }] }],
+      code: cancer.code,
+      subject,
+      ...(cancer.stageGroup || assessment.length > 0 ? {
+        stage: [{
+          ...(cancer.stageGroup?.valueCodeableConcept ? { summary: cancer.stageGroup.valueCodeableConcept } : {}),
+          ...(assessment.length > 0 ? { assessment } : {}),
+        }],
+      } : {}),
+    };
+    add(withProfile(condition, MCODE_PROFILES.primaryCancerCondition));
+  }
+  for (const comorbidity of profile.comorbidities) {
+    const condition: Condition = {
+      resourceType: 'Condition',
+      clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }] },
+      code: { text: comorbidity },
+      subject,
+    };
+    add(condition);
+  }
+
+  for (const marker of mcode.tumorMarkerTests) {
+    const { code, ...value } = marker;
+    add(withProfile(observation(subject, code, value, 'laboratory'), MCODE_PROFILES.tumorMarkerTest));
+  }
+  for (const variant of mcode.genomicVariants) add(variantObservation(subject, variant));
+  for (const lab of profile.labs) {
+    add(observation(subject, codedConcept('labs', lab.name), {
+      valueQuantity: { value: lab.value, unit: lab.unit },
+      ...(lab.date ? { effectiveDateTime: lab.date } : {}),
+      ...(lab.isNormal !== undefined
+        ? { interpretation: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation', code: lab.isNormal ? 'N' : 'A' }] }] }
+        : {}),
+    }, 'laboratory'));
+  }
+
+  // Prior treatments, without dates: the profile only knows they were given
+  for (const medication of mcode.cancerRelatedMedications) {
+    const statement: MedicationStatement = { resourceType: 'MedicationStatement', status: 'completed', medicationCodeableConcept: medication, subject };
+    add(withProfile(statement, MCODE_PROFILES.cancerRelatedMedicationStatement));
+  }
+  for (const code of mcode.cancerRelatedProcedures) {
+    const procedure: Procedure = { resourceType: 'Procedure', status: 'completed', code, subject };
+    const profileUrl = code.text === 'Surgery' ? MCODE_PROFILES.cancerRelatedSurgicalProcedure
+      : code.text === 'Radiotherapy' ? MCODE_PROFILES.radiotherapyCourseSummary
+      : undefined;
+    add(profileUrl ? withProfile(procedure, profileUrl) : procedure);
+  }
+
+  // Concomitant medications, active or stopped, with the dates the profile has
+  for (const medication of profile.currentMedications) {
+    const period = { ...(medication.startDate ? { start: medication.startDate } : {}), ...(medication.endDate ? { end: medication.endDate } : {}) };
+    const statement: MedicationStatement = {
+      resourceType: 'MedicationStatement',
+      status: medication.status,
+      medicationCodeableConcept: { text: medication.name },
+      subject,
+      ...(period.start || period.end ? { effectivePeriod: period } : {}),
+    };
+    add(statement);
+  }
+
+  // One study per trial, and the patient as a candidate for each
+  for (const trial of trials) {
+    const study: ResearchStudy = {
+      resourceType: 'ResearchStudy',
+      identifier: [{ system: CLINICALTRIALS_GOV, value: trial.nctId }],
+      title: trial.title,
+      status: studyStatus(trial.status),
+      ...(studyPhase(trial.phase) ? { phase: studyPhase(trial.phase) } : {}),
+      ...(cancer ? { condition: [cancer.code] } : {}),
+      ...(trial.sponsor ? { sponsor: { display: trial.sponsor } } : {}),
+      ...(trial.locations.length > 0 ? { site: trial.locations.map(location => ({ display: location })) } : {}),
+    };
+    const studyReference = add(study, `identifier=${CLINICALTRIALS_GOV}|${trial.nctId}`);
+    const subjectResource: ResearchSubject = {
+      resourceType: 'ResearchSubject',
+      status: 'candidate',
+      study: { ...studyReference, display: trial.nctId },
+      individual: subject,
+      extension: matchExtensions(trial),
+    };
+    add(subjectResource);
+  }
+
+  return { resourceType: 'Bundle', type: 'transaction', timestamp: new Date().toISOString(), entry: entries };
+}
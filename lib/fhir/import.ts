@@ -0,0 +1,473 @@
+/**
+ * FHIR R4 import
+ *
+ * Maps an EHR's bundle onto profile values: age and sex from Patient, cancer
+ * type, histology and stage from the cancer Condition (its stage summary, or
+ * TNM and stage group Observations), biomarkers, TMB, MSI and PD-L1 from
+ * genomic and lab Observations, ECOG from LOINC 89247-1, labs from lab
+ * Observations, and prior treatments from MedicationStatement and Procedure.
+ * Codes the bundled mCODE value set knows (./mcode) are read before text.
+ * Every resource is either mapped or reported with the reason it wasn't.
+ */
+
+import { KNOWN_BIOMARKER_GENES, extractBiomarkersFromText, normalizeBiomarkerStatus, normalizeMsiStatus, shortProteinChange } from '@/lib/biomarkers';
+import { extractLabsFromText, LAB_DEFINITIONS } from '@/lib/clinical-context';
+import { DEFAULT_NORMALIZERS } from '@/lib/extraction-pipeline';
+import { mergeListItems } from '@/lib/profile-operations';
+import { buildProvenance } from '@/lib/provenance';
+import { extractStagingFromText, normalizeStage } from '@/lib/staging';
+import { findCancerTypeMentions, findTreatmentMentions } from '@/lib/terminology';
+import { Biomarker, PatientProfile, PROFILE_LIST_FIELDS, ProfileListField, TnmStage } from '@/types';
+import {
+  Bundle,
+  CodeableConcept,
+  conceptCode,
+  conceptText,
+  Condition,
+  LOINC,
+  MedicationStatement,
+  Observation,
+  ObservationComponent,
+  Patient,
+  Procedure,
+  Resource,
+  resourceReference,
+} from './types';
+import { canonicalHistology, fromConcept, HISTOLOGY_EXTENSION, MCODE_LOINC, MCODE_PROFILES, TNM_CATEGORY_LOINC } from './mcode';
+
+/** Recorded as the provenance `extractor` of imported values */
+export const FHIR_EXTRACTOR = 'fhir-r4';
+
+export interface FhirImport {
+  /** Profile values, normalized, with provenance into `summary` */
+  extracted: Partial<PatientProfile>;
+  /** One line per mapped resource ("Condition/c1: Non-small cell lung cancer; Stage IV") */
+  summary: string;
+  /** The resource each value came from, by provenance key */
+  sources: Map<string, string>;
+  /** Mapped resources, in the order they were read */
+  mapped: Array<{ reference: string; resourceType: string }>;
+  unmapped: Array<{ reference: string; reason: string }>;
+}
+
+type Mapping = { values: Partial<PatientProfile>; line: string } | { reason: string };
+
+// =============================================================================
+// Codes
+// =============================================================================
+
+// Age as reported; mCODE has the birth date, which records may leave out
+const AGE_LOINC = '30525-0';
+const STAGE_GROUP_LOINCS = [MCODE_LOINC.clinicalStageGroup, MCODE_LOINC.pathologicalStageGroup];
+const TNM_LOINCS: Record<string, { part: 't' | 'n' | 'm'; prefix: 'c' | 'p' }> = Object.fromEntries(
+  (['c', 'p'] as const).flatMap(prefix => (['t', 'n', 'm'] as const).map(part => [TNM_CATEGORY_LOINC[prefix][part], { part, prefix }]))
+);
+
+// Genetic variant assessment answers
+const VARIANT_PRESENT = 'LA9633-4';
+const VARIANT_ABSENT = 'LA9634-2';
+
+const CANCER_WORDS = /carcinoma|cancer|neoplasm|malignan|tumou?r|sarcoma|lymphoma|leuk(?:a)?emia|melanoma|myeloma|glioma|blastoma|mesothelioma/i;
+
+// SNOMED display suffixes: "Malignant neoplasm of lung (disorder)"
+function withoutSemanticTag(text: string): string {
+  return text.replace(/\s*\((?:disorder|finding|morphologic abnormality|qualifier value|procedure|substance|product|observable entity)\)\s*$/i, '').trim();
+}
+
+function statusCode(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.coding?.find(c => c.code)?.code?.toLowerCase() || concept?.text?.toLowerCase();
+}
+
+function observationValue(resource: Observation | ObservationComponent): string | undefined {
+  if (resource.valueQuantity?.value !== undefined) {
+    return `${resource.valueQuantity.value}${resource.valueQuantity.unit ? ` ${resource.valueQuantity.unit}` : ''}`;
+  }
+  if (resource.valueInteger !== undefined) return String(resource.valueInteger);
+  return resource.valueString || conceptText(resource.valueCodeableConcept);
+}
+
+function component(observation: Observation, loinc: string): ObservationComponent | undefined {
+  return observation.component?.find(c => conceptCode(c.code, LOINC) === loinc);
+}
+
+/** Whole years between a FHIR date (YYYY, YYYY-MM or YYYY-MM-DD) and `now` */
+function ageAt(birthDate: string, now: Date): number | undefined {
+  const [year, month = 1, day = 1] = birthDate.split('-').map(Number);
+  if (!year) return undefined;
+  let age = now.getFullYear() - year;
+  if (now.getMonth() + 1 < month || (now.getMonth() + 1 === month && now.getDate() < day)) age--;
+  return age >= 0 && age <= 130 ? age : undefined;
+}
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+function mapPatient(patient: Patient, now: Date): Mapping {
+  const values: Partial<PatientProfile> = {};
+  const parts: string[] = [];
+  if (patient.gender === 'male' || patient.gender === 'female') {
+    values.sex = patient.gender === 'male' ? 'Male' : 'Female';
+    parts.push(patient.gender);
+  }
+  const age = patient.birthDate ? ageAt(patient.birthDate, now) : undefined;
+  if (age !== undefined) {
+    values.age = age;
+    parts.push(`born ${patient.birthDate} (${age} years)`);
+  }
+  const address = patient.address?.find(a => a.use === 'home') || patient.address?.[0];
+  if (address && (address.city || address.postalCode)) {
+    values.location = {
+      ...(address.city ? { city: address.city } : {}),
+      ...(address.state ? { state: address.state } : {}),
+      ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+      ...(address.country && address.country.length === 2 ? { country: address.country.toUpperCase() } : {}),
+    };
+    parts.push([address.city, address.state, address.postalCode].filter(Boolean).join(' '));
+  }
+  return parts.length > 0 ? { values, line: parts.join('; ') } : { reason: 'no gender, birth date or address' };
+}
+
+function isCancerCondition(condition: Condition, text: string): boolean {
+  const profiles = condition.meta?.profile || [];
+  if (profiles.includes(MCODE_PROFILES.primaryCancerCondition)) return true;
+  return !!fromConcept('cancerConditions', condition.code) || findCancerTypeMentions(text).length > 0 || CANCER_WORDS.test(text);
+}
+
+/**
+ * The cancer type a diagnosis names. Coded displays put the site last
+ * ("Adenocarcinoma of lung", "Malignant neoplasm of breast"), where the
+ * terminology only sees a generic morphology, so the site is tried first.
+ */
+function conditionCancerType(text: string, bodySite: string | undefined): string {
+  const site = text.match(/\bof\s+(?:the\s+)?([a-z][a-z\s-]*?)\s*(?:,|$)/i)?.[1] || bodySite;
+  const morphology = text.replace(/\s+of\s+.*$/i, '');
+  const candidates = [text, ...(site ? [`${site} ${morphology}`, `${site} cancer`] : [])];
+  for (const candidate of candidates) {
+    const mention = findCancerTypeMentions(candidate).find(m => !m.entry.generic);
+    if (mention) return mention.entry.name;
+  }
+  return text;
+}
+
+function mapCondition(condition: Condition, hasCancer: boolean): Mapping {
+  const verification = statusCode(condition.verificationStatus);
+  if (verification === 'refuted' || verification === 'entered-in-error') return { reason: `verification status ${verification}` };
+  const raw = conceptText(condition.code);
+  if (!raw) return { reason: 'no diagnosis code or text' };
+  const text = withoutSemanticTag(raw);
+
+  if (!isCancerCondition(condition, text)) {
+    const clinical = statusCode(condition.clinicalStatus);
+    if (clinical && ['inactive', 'resolved', 'remission'].includes(clinical)) return { reason: `clinical status ${clinical}` };
+    return { values: { comorbidities: [text] }, line: text };
+  }
+
+  if ((condition.meta?.profile || []).some(p => /secondary-cancer-condition/.test(p)) || /^secondary\b/i.test(text)) {
+    return { reason: 'secondary (metastatic) site; the diagnosis comes from the primary cancer' };
+  }
+  if (hasCancer) return { reason: 'another cancer diagnosis; the profile holds one' };
+
+  const cancerType = fromConcept('cancerConditions', condition.code) || conditionCancerType(text, conceptText(condition.bodySite?.[0]));
+  const values: Partial<PatientProfile> = { cancerType };
+  const morphology = condition.extension?.find(e => e.url === HISTOLOGY_EXTENSION)?.valueCodeableConcept;
+  const histology = fromConcept('histologies', morphology) || canonicalHistology(`${conceptText(morphology) || ''} ${text}`);
+  if (histology) values.histology = histology;
+  const stageText = (condition.stage || []).map(s => withoutSemanticTag(conceptText(s.summary) || '')).filter(Boolean).join('; ');
+  const staging = extractStagingFromText(stageText || text, cancerType);
+  if (!staging.stage && stageText) {
+    const stage = normalizeStage(stageText);
+    if (stage && /^Stage /.test(stage)) staging.stage = stage;
+  }
+  Object.assign(values, staging);
+  return { values, line: [cancerType === text ? text : `${text} (${cancerType})`, stageText].filter(Boolean).join('; ') };
+}
+
+/** A genomic variant Observation (LOINC 69548-6 or one with a gene-studied component) as a biomarker */
+function genomicBiomarker(observation: Observation): Biomarker | undefined {
+  const geneConcept = component(observation, MCODE_LOINC.geneStudied)?.valueCodeableConcept;
+  const gene = fromConcept('genes', geneConcept) || (conceptText(geneConcept) || '').trim().split(/\s+/)[0].toUpperCase();
+  if (!gene) return undefined;
+
+  const protein = component(observation, MCODE_LOINC.proteinChange);
+  const variant = component(observation, MCODE_LOINC.variant);
+  const proteinText = protein && observationValue(protein);
+  const variantText = variant && observationValue(variant);
+  const alteration = (proteinText && (shortProteinChange(proteinText) || proteinText))
+    || (variantText && (shortProteinChange(variantText.match(/p\.\(?[A-Za-z0-9_*]+\)?/)?.[0] || '') || variantText))
+    || (/fusion|rearrange/i.test(conceptText(observation.code) || '') ? 'fusion' : undefined)
+    || (/amplif|copy number gain/i.test(`${conceptText(observation.code)} ${variantText || ''}`) ? 'amplification' : undefined)
+    || (() => {
+      const dna = component(observation, MCODE_LOINC.dnaChange);
+      return dna && observationValue(dna);
+    })();
+
+  const answer = conceptCode(observation.valueCodeableConcept, LOINC);
+  const status = answer === VARIANT_PRESENT ? 'Positive'
+    : answer === VARIANT_ABSENT ? 'Negative'
+    : normalizeBiomarkerStatus(observationValue(observation) || (alteration ? 'Positive' : undefined));
+  const method = conceptText(observation.method);
+  return {
+    gene,
+    status,
+    ...(alteration ? { alteration } : {}),
+    ...(method && /sequenc|ngs/i.test(method) ? { method: 'NGS' } : {}),
+    ...(observation.effectiveDateTime ? { specimenDate: observation.effectiveDateTime.slice(0, 10) } : {}),
+  };
+}
+
+function mapObservation(observation: Observation): Mapping {
+  if (observation.status && !['final', 'amended', 'corrected', 'preliminary'].includes(observation.status)) {
+    return { reason: `status ${observation.status}` };
+  }
+  const loinc = conceptCode(observation.code, LOINC);
+  const name = withoutSemanticTag(conceptText(observation.code) || '');
+  const value = observationValue(observation);
+  const line = `${name || `LOINC ${loinc}`}: ${value ?? '(no value)'}`;
+
+  // Age as reported, for records without a birth date (such as this app's own export)
+  if (loinc === AGE_LOINC && observation.valueQuantity?.value !== undefined) {
+    const age = Math.floor(observation.valueQuantity.value);
+    return { values: { age }, line: `Age ${age} years` };
+  }
+
+  if (loinc === MCODE_LOINC.ecog) {
+    const answer = fromConcept('ecogAnswers', observation.valueCodeableConcept);
+    const ecog = observation.valueInteger ?? Number(answer ?? value?.match(/\b[0-4]\b/)?.[0] ?? NaN);
+    return Number.isInteger(ecog) && ecog >= 0 && ecog <= 4
+      ? { values: { ecog }, line: `ECOG ${ecog}` }
+      : { reason: `ECOG value "${value}" isn't a grade 0–4` };
+  }
+
+  if (loinc && STAGE_GROUP_LOINCS.includes(loinc)) {
+    const stage = value && normalizeStage(withoutSemanticTag(value).replace(/^.*?\bstage\s+/i, 'Stage '));
+    return stage && /^Stage /.test(stage) ? { values: { stage }, line: stage } : { reason: `stage group "${value}" not recognized` };
+  }
+
+  const tnmPart = loinc ? TNM_LOINCS[loinc] : undefined;
+  if (tnmPart) {
+    const category = value?.match(/\b[cpy]{0,2}([TNM](?:is|X|\d[a-e]?(?:mi)?))\b/i)?.[1];
+    if (!category) return { reason: `TNM category "${value}" not recognized` };
+    // "t2A" → "T2a", "mx" → "MX", as parseTnm writes them
+    const rest = category.slice(1);
+    const tnm: TnmStage = { prefix: tnmPart.prefix, [tnmPart.part]: `${category[0].toUpperCase()}${/^x$/i.test(rest) ? 'X' : rest.toLowerCase()}` };
+    return { values: { tnm }, line: category };
+  }
+
+  if (loinc === MCODE_LOINC.tmb && observation.valueQuantity?.value !== undefined) {
+    const tmb = observation.valueQuantity.value;
+    return {
+      values: { biomarkers: [{ gene: 'TMB', status: tmb >= 10 ? 'Positive' : 'Negative', value: tmb, unit: 'mut/Mb' }] },
+      line: `TMB ${tmb} mut/Mb`,
+    };
+  }
+
+  if (loinc === MCODE_LOINC.msi || /microsatellite|\bMSI\b|mismatch repair/i.test(name)) {
+    const msiStatus = value && normalizeMsiStatus(value);
+    return msiStatus ? { values: { msiStatus }, line: `${msiStatus} (${value})` } : { reason: `MSI result "${value}" not recognized` };
+  }
+
+  if (loinc === MCODE_LOINC.genomicVariant || component(observation, MCODE_LOINC.geneStudied)) {
+    const biomarker = genomicBiomarker(observation);
+    return biomarker
+      ? { values: { biomarkers: [biomarker] }, line: `${biomarker.gene} ${biomarker.alteration || ''} ${value || ''}`.replace(/\s+/g, ' ').trim() }
+      : { reason: 'genomic observation without a gene studied' };
+  }
+
+  // Coded elsewhere or not at all: read the name and value as a sentence ("PD-L1 TPS 60 %", "EGFR mutation: Detected")
+  const sentence = `${name} ${value ?? ''}`;
+  if (/pd-?l1/i.test(name) && observation.valueQuantity?.value !== undefined) {
+    const score = observation.valueQuantity.value;
+    const cps = /\bCPS\b|combined positive/i.test(sentence);
+    return {
+      values: {
+        biomarkers: [{ gene: 'PD-L1', status: score >= 1 ? 'Positive' : 'Negative', value: score, unit: cps ? 'CPS' : '% TPS', method: 'IHC' }],
+        pdl1Score: cps ? `CPS ${score}` : `TPS ${score}%`,
+      },
+      line: `PD-L1 ${cps ? 'CPS' : 'TPS'} ${score}${cps ? '' : '%'}`,
+    };
+  }
+  const biomarkers = KNOWN_BIOMARKER_GENES.some(gene => new RegExp(`\\b${gene}\\b`).test(name))
+    ? extractBiomarkersFromText(sentence)
+    : [];
+  if (biomarkers.length > 0) return { values: { biomarkers }, line: sentence.trim() };
+
+  const labName = fromConcept('labs', observation.code);
+  const lab = LAB_DEFINITIONS.find(definition => labName ? definition.name === labName : definition.pattern.test(name));
+  if (lab && observation.valueQuantity?.value !== undefined) {
+    const labs = extractLabsFromText(`${lab.name} ${observation.valueQuantity.value} ${observation.valueQuantity.unit || ''}`)
+      .map(l => observation.effectiveDateTime ? { ...l, date: observation.effectiveDateTime.slice(0, 10) } : l);
+    if (labs.length > 0) return { values: { labs }, line: `${lab.name} ${observation.valueQuantity.value} ${observation.valueQuantity.unit || ''}`.trim() };
+  }
+
+  return { reason: `no profile field for ${loinc ? `LOINC ${loinc} ` : ''}"${name || 'uncoded observation'}"` };
+}
+
+function mapMedicationStatement(statement: MedicationStatement, medication: CodeableConcept | undefined): Mapping {
+  const status = statement.status || 'unknown';
+  if (['entered-in-error', 'not-taken', 'intended'].includes(status)) return { reason: `status ${status}` };
+  const coded = fromConcept('medications', medication);
+  const name = withoutSemanticTag(conceptText(medication) || '');
+  if (!name) return { reason: 'no medication code or name' };
+
+  const treatments = coded ? [coded] : findTreatmentMentions(name).flatMap(m => m.treatments);
+  if (treatments.length > 0) return { values: { priorTreatments: treatments }, line: `${name} (${status})` };
+
+  // Other drugs are concomitant medications, without dose and form ("Warfarin 5 MG Oral Tablet")
+  const period = statement.effectivePeriod;
+  return {
+    values: {
+      currentMedications: [{
+        name: name.split(/\s+\d/)[0].trim(),
+        status: status === 'active' || status === 'unknown' ? 'active' : 'stopped',
+        ...(period?.start ? { startDate: period.start.slice(0, 10) } : {}),
+        ...(period?.end ? { endDate: period.end.slice(0, 10) } : {}),
+      }],
+    },
+    line: `${name} (${status})`,
+  };
+}
+
+function mapProcedure(procedure: Procedure): Mapping {
+  const status = procedure.status || 'completed';
+  if (!['completed', 'in-progress', 'stopped'].includes(status)) return { reason: `status ${status}` };
+  const name = withoutSemanticTag(conceptText(procedure.code) || '');
+  if (!name) return { reason: 'no procedure code or text' };
+  const coded = fromConcept('procedures', procedure.code);
+  const treatments = coded ? [coded] : findTreatmentMentions(name).flatMap(m => m.treatments);
+  return treatments.length > 0
+    ? { values: { priorTreatments: treatments }, line: `${name} (${treatments.join(', ')})` }
+    : { reason: `"${name}" isn't a cancer treatment` };
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/** When an Observation was made, for letting the latest ECOG or stage win */
+function effectiveTime(resource: Resource): string {
+  return String((resource as Observation).effectiveDateTime || '');
+}
+
+/** Profile values later resources override: scalars replace, TNM categories combine, lists merge */
+function combine(into: Partial<PatientProfile>, values: Partial<PatientProfile>) {
+  const record = into as Record<string, unknown>;
+  for (const [field, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    if ((PROFILE_LIST_FIELDS as readonly string[]).includes(field)) {
+      record[field] = mergeListItems(field as ProfileListField, (record[field] as never[]) || [], value as never[]);
+    } else if (field === 'tnm') {
+      into.tnm = { ...into.tnm, ...(value as TnmStage) };
+    } else {
+      record[field] = value;
+    }
+  }
+}
+
+function normalize(values: Partial<PatientProfile>): Partial<PatientProfile> {
+  return DEFAULT_NORMALIZERS.reduce((profile, normalizer) => normalizer.normalize(profile), values);
+}
+
+/**
+ * Map a bundle's resources onto the profile. Resources about another
+ * patient than the bundle's first Patient are reported, not mapped.
+ */
+export function importFhirBundle(bundle: Bundle, { now = new Date() }: { now?: Date } = {}): FhirImport {
+  const entries = (bundle.entry || []).filter(e => e.resource);
+  const resources = entries.map(e => e.resource!);
+  const byReference = new Map<string, Resource>();
+  for (const { fullUrl, resource } of entries) {
+    byReference.set(resourceReference(resource!), resource!);
+    if (fullUrl) byReference.set(fullUrl, resource!);
+  }
+
+  const patientEntry = entries.find(e => e.resource!.resourceType === 'Patient');
+  const patientRefs = new Set([patientEntry && resourceReference(patientEntry.resource!), patientEntry?.fullUrl].filter(Boolean));
+  const aboutPatient = (resource: Resource) => {
+    const subject = (resource as { subject?: { reference?: string } }).subject?.reference;
+    return !subject || patientRefs.size === 0 || patientRefs.has(subject);
+  };
+
+  // Medications named by reference, and the statements that use them
+  const referencedMedications = new Set<Resource>();
+  const medicationConcept = (statement: MedicationStatement): CodeableConcept | undefined => {
+    if (statement.medicationCodeableConcept) return statement.medicationCodeableConcept;
+    const reference = statement.medicationReference?.reference;
+    const contained = reference?.startsWith('#')
+      ? ((statement.contained || []) as Resource[]).find(r => `#${r.id}` === reference)
+      : reference ? byReference.get(reference) : undefined;
+    if (contained) referencedMedications.add(contained);
+    return (contained?.code as CodeableConcept | undefined)
+      || (statement.medicationReference?.display ? { text: statement.medicationReference.display } : undefined);
+  };
+
+  // Diagnosis first, then observations oldest to newest, so the latest ECOG or stage wins
+  const order = ['Patient', 'Condition', 'Observation', 'MedicationStatement', 'Procedure'];
+  const sorted = [...resources].sort((a, b) =>
+    ((order.indexOf(a.resourceType) + 1 || order.length + 1) - (order.indexOf(b.resourceType) + 1 || order.length + 1))
+    || effectiveTime(a).localeCompare(effectiveTime(b)));
+
+  const extracted: Partial<PatientProfile> = {};
+  const sources = new Map<string, string>();
+  const lines: string[] = [];
+  const mapped: FhirImport['mapped'] = [];
+  const unmapped: FhirImport['unmapped'] = [];
+  let hasCancer = false;
+
+  for (const resource of sorted) {
+    const reference = resourceReference(resource);
+    let mapping: Mapping;
+    if (resource !== patientEntry?.resource && !aboutPatient(resource)) {
+      mapping = { reason: 'about another patient' };
+    } else {
+      switch (resource.resourceType) {
+        case 'Patient':
+          mapping = resource === patientEntry?.resource ? mapPatient(resource as Patient, now) : { reason: 'a second Patient in the bundle' };
+          break;
+        case 'Condition':
+          mapping = mapCondition(resource as Condition, hasCancer);
+          break;
+        case 'Observation':
+          mapping = mapObservation(resource as Observation);
+          break;
+        case 'MedicationStatement':
+          mapping = mapMedicationStatement(resource as MedicationStatement, medicationConcept(resource as MedicationStatement));
+          break;
+        case 'Procedure':
+          mapping = mapProcedure(resource as Procedure);
+          break;
+        default:
+          mapping = { reason: `no mapping for ${resource.resourceType}` };
+      }
+    }
+
+    if ('reason' in mapping) {
+      unmapped.push({ reference, reason: mapping.reason });
+      continue;
+    }
+    const values = normalize(mapping.values);
+    if (values.cancerType) hasCancer = true;
+    for (const key of Object.keys(buildProvenance(values, '', { source: 'import' }))) sources.set(key, reference);
+    combine(extracted, values);
+    lines.push(`${reference}: ${mapping.line}`);
+    mapped.push({ reference, resourceType: resource.resourceType });
+  }
+
+  // Medications only referenced by a statement were read with it
+  const reported = unmapped.filter(u => {
+    const resource = byReference.get(u.reference);
+    return !(resource && referencedMedications.has(resource));
+  });
+
+  // TNM from Observations meets the cancer type from the Condition here, and may yield the stage group
+  const normalized = normalize(extracted);
+  if (normalized.stage && !extracted.stage && sources.has('tnm')) sources.set('stage', sources.get('tnm')!);
+  const summary = lines.join('\n');
+  return {
+    extracted: { ...normalized, provenance: buildProvenance(normalized, summary, { source: 'import', extractor: FHIR_EXTRACTOR }) },
+    summary,
+    sources,
+    mapped,
+    unmapped: reported,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * FHIR R4 interop
+ *
+ * Bundles from the EHR integration come in through `importFhirBundle` and
+ * are reviewed like a clinical document (lib/documents): the user picks which
+ * of the mapped values to merge, and sees which resources weren't mapped.
+ * Matching results go back out through `exportFhirBundle`. Both speak mCODE
+ * (./mcode), which also checks a profile for the required oncology elements.
+ */
+
+import { createEmptyPatientProfile, DocumentReview } from '@/types';
+import { FhirImport } from './import';
+import { describeMissingMcode, validateMcode } from './mcode';
+
+export * from './types';
+export { importFhirBundle, FHIR_EXTRACTOR } from './import';
+export type { FhirImport } from './import';
+export { exportFhirBundle, EXTENSION_BASE, MATCH_SCORE_EXTENSION, MATCH_EVIDENCE_EXTENSION, NEAREST_SITE_EXTENSION } from './export';
+export {
+  profileToMcode,
+  mcodeToProfile,
+  validateMcode,
+  describeMissingMcode,
+  toCoding,
+  codedConcept,
+  fromConcept,
+  MCODE_PROFILES,
+  MCODE_VALUE_SET,
+} from './mcode';
+export type { McodeElements, McodeIssue, McodeValueSetName, ValueSetEntry } from './mcode';
+
+// Unmapped resources listed in the reply; the rest are counted
+const MAX_UNMAPPED_LISTED = 10;
+
+/** The review section a resource's values are grouped under */
+export function importSection(resourceType: string): DocumentReview['sections'][number] {
+  switch (resourceType) {
+    case 'Patient':
+      return { title: 'Patient', kind: 'demographics' };
+    case 'Condition':
+      return { title: 'Conditions', kind: 'diagnosis' };
+    case 'Observation':
+      return { title: 'Observations', kind: 'molecular' };
+    default:
+      return { title: 'Treatments', kind: 'treatment' };
+  }
+}
+
+/** Chat reply for an imported bundle: what was mapped, what is up for review, what wasn't mapped and which required mCODE elements the bundle lacks */
+export function describeFhirImport(result: FhirImport, review: DocumentReview): string {
+  const total = result.mapped.length + result.unmapped.length;
+  const lines = [`📥 Imported **${review.name}**: mapped ${result.mapped.length} of ${total} resource${total === 1 ? '' : 's'}.`];
+  if (review.changes.length === 0) {
+    lines[0] += ' Nothing in it changes the patient profile.';
+  } else {
+    const changes = review.changes.length === 1 ? '1 change' : `${review.changes.length} changes`;
+    lines[0] += ` It suggests ${changes} to the patient profile; pick the ones to merge below.`;
+  }
+  if (result.unmapped.length > 0) {
+    lines.push('', '**Not mapped:**');
+    for (const { reference, reason } of result.unmapped.slice(0, MAX_UNMAPPED_LISTED)) lines.push(`- ${reference}: ${reason}`);
+    if (result.unmapped.length > MAX_UNMAPPED_LISTED) lines.push(`- and ${result.unmapped.length - MAX_UNMAPPED_LISTED} more`);
+  }
+  const { provenance, ...values } = result.extracted;
+  const missing = describeMissingMcode(validateMcode({ ...createEmptyPatientProfile(), ...values }));
+  if (missing) lines.push('', missing);
+  return lines.join('\n');
+}
@@ -0,0 +1,191 @@
+/**
+ * Bundled mCODE value set
+ *
+ * Codes for the profile's vocabulary, so coded records can be read and
+ * written without a terminology server: SNOMED CT for cancer conditions,
+ * histology and procedures, LOINC for observations and their answers, RxNorm
+ * ingredients for cancer drugs, HGNC for genes. `value` is the profile's own
+ * spelling (the canonical names in lib/terminology and lib/clinical-context).
+ * A value without an entry is exchanged as text.
+ */
+
+import { HGNC, LOINC, RXNORM, SNOMED } from './types';
+
+export interface ValueSetEntry {
+  value: string;
+  system: string;
+  code: string;
+  display: string;
+}
+
+export type McodeValueSetName =
+  | 'cancerConditions'
+  | 'histologies'
+  | 'procedures'
+  | 'medications'
+  | 'genes'
+  | 'ecogAnswers'
+  | 'labs';
+
+const snomed = (value: string, code: string, display: string): ValueSetEntry => ({ value, system: SNOMED, code, display });
+const loinc = (value: string, code: string, display: string): ValueSetEntry => ({ value, system: LOINC, code, display });
+const rxnorm = (value: string, code: string): ValueSetEntry => ({ value, system: RXNORM, code, display: value.toLowerCase() });
+const hgnc = (value: string, code: string, symbol = value): ValueSetEntry => ({ value, system: HGNC, code: `HGNC:${code}`, display: symbol });
+
+export const MCODE_VALUE_SET: Record<McodeValueSetName, ValueSetEntry[]> = {
+  // Primary cancer condition (disorder), by lib/terminology cancer type name
+  cancerConditions: [
+    snomed('NSCLC', '254637007', 'Non-small cell lung cancer'),
+    snomed('SCLC', '254632001', 'Small cell carcinoma of lung'),
+    snomed('Breast Cancer', '254837009', 'Malignant neoplasm of breast'),
+    snomed('TNBC', '706970001', 'Triple negative malignant neoplasm of breast'),
+    snomed('Melanoma', '372244006', 'Malignant melanoma'),
+    snomed('CRC', '363406005', 'Malignant neoplasm of colon'),
+    snomed('Pancreatic Cancer', '363418001', 'Malignant neoplasm of pancreas'),
+    snomed('Ovarian Cancer', '363443007', 'Malignant neoplasm of ovary'),
+    snomed('Prostate Cancer', '399068003', 'Malignant neoplasm of prostate'),
+    snomed('Glioblastoma', '393563007', 'Glioblastoma multiforme'),
+    snomed('HCC', '109841003', 'Liver cell carcinoma'),
+    snomed('RCC', '702391001', 'Renal cell carcinoma'),
+    snomed('Gastric Cancer', '363349007', 'Malignant neoplasm of stomach'),
+    snomed('Esophageal Cancer', '363402007', 'Malignant neoplasm of esophagus'),
+    snomed('Bladder Cancer', '399326009', 'Malignant neoplasm of urinary bladder'),
+    snomed('Lymphoma', '118600007', 'Malignant lymphoma'),
+    snomed('Leukemia', '93143009', 'Leukemia'),
+    snomed('Multiple Myeloma', '109989006', 'Multiple myeloma'),
+    snomed('Thyroid Cancer', '363478007', 'Malignant neoplasm of thyroid gland'),
+    snomed('Cervical Cancer', '363354003', 'Malignant neoplasm of cervix uteri'),
+  ],
+
+  // Histology morphology behavior (morphologic abnormality)
+  histologies: [
+    snomed('Adenocarcinoma', '35917007', 'Adenocarcinoma, no subtype'),
+    snomed('Squamous cell carcinoma', '28899001', 'Squamous cell carcinoma, no ICD-O subtype'),
+    snomed('Small cell carcinoma', '74364000', 'Small cell carcinoma'),
+    snomed('Large cell carcinoma', '22687000', 'Large cell carcinoma'),
+    snomed('Adenosquamous carcinoma', '59367005', 'Adenosquamous carcinoma'),
+    snomed('Invasive ductal carcinoma', '82711006', 'Infiltrating duct carcinoma'),
+    snomed('Invasive lobular carcinoma', '89740008', 'Infiltrating lobular carcinoma'),
+    snomed('Urothelial carcinoma', '27090000', 'Transitional cell carcinoma'),
+    snomed('Clear cell carcinoma', '30546008', 'Clear cell adenocarcinoma'),
+  ],
+
+  // Cancer-related procedures, by therapy modality
+  procedures: [
+    snomed('Surgery', '387713003', 'Surgical procedure'),
+    snomed('Radiotherapy', '108290001', 'Radiation oncology AND/OR radiotherapy'),
+    snomed('Chemotherapy', '367336001', 'Chemotherapy'),
+    snomed('Immunotherapy', '76334006', 'Immunotherapy'),
+  ],
+
+  // Cancer-related medications (RxNorm ingredients), by generic name
+  medications: [
+    rxnorm('Carboplatin', '40048'),
+    rxnorm('Cisplatin', '2555'),
+    rxnorm('Oxaliplatin', '32592'),
+    rxnorm('Pemetrexed', '68446'),
+    rxnorm('Paclitaxel', '56946'),
+    rxnorm('Docetaxel', '72962'),
+    rxnorm('Gemcitabine', '12574'),
+    rxnorm('Fluorouracil', '4492'),
+    rxnorm('Leucovorin', '6313'),
+    rxnorm('Capecitabine', '194000'),
+    rxnorm('Irinotecan', '51499'),
+    rxnorm('Etoposide', '4179'),
+    rxnorm('Topotecan', '57308'),
+    rxnorm('Doxorubicin', '3639'),
+    rxnorm('Cyclophosphamide', '3002'),
+    rxnorm('Temozolomide', '37776'),
+    rxnorm('Vinorelbine', '39541'),
+    rxnorm('Vincristine', '11202'),
+    rxnorm('Pembrolizumab', '1547545'),
+    rxnorm('Nivolumab', '1597876'),
+    rxnorm('Atezolizumab', '1792776'),
+    rxnorm('Durvalumab', '1919503'),
+    rxnorm('Avelumab', '1875534'),
+    rxnorm('Ipilimumab', '1094833'),
+    rxnorm('Osimertinib', '1721560'),
+    rxnorm('Erlotinib', '337525'),
+    rxnorm('Gefitinib', '328134'),
+    rxnorm('Afatinib', '1430438'),
+    rxnorm('Cetuximab', '318341'),
+    rxnorm('Panitumumab', '263034'),
+    rxnorm('Crizotinib', '1148495'),
+    rxnorm('Ceritinib', '1535457'),
+    rxnorm('Alectinib', '1727455'),
+    rxnorm('Brigatinib', '1921217'),
+    rxnorm('Lorlatinib', '2103164'),
+    rxnorm('Vemurafenib', '1147220'),
+    rxnorm('Dabrafenib', '1424911'),
+    rxnorm('Trametinib', '1425098'),
+    rxnorm('Trastuzumab', '224905'),
+    rxnorm('Pertuzumab', '1298944'),
+    rxnorm('Lapatinib', '480167'),
+    rxnorm('Bevacizumab', '253337'),
+    rxnorm('Sorafenib', '495881'),
+    rxnorm('Sunitinib', '357977'),
+    rxnorm('Regorafenib', '1312397'),
+    rxnorm('Cabozantinib', '1363268'),
+    rxnorm('Lenvatinib', '1603296'),
+    rxnorm('Olaparib', '1597582'),
+    rxnorm('Palbociclib', '1601374'),
+    rxnorm('Tamoxifen', '10324'),
+    rxnorm('Letrozole', '72965'),
+    rxnorm('Anastrozole', '84857'),
+    rxnorm('Fulvestrant', '282357'),
+    rxnorm('Enzalutamide', '1307298'),
+    rxnorm('Abiraterone', '1100072'),
+    rxnorm('Rituximab', '121191'),
+  ],
+
+  // Genes studied, by the symbol biomarkers use (HER2 is ERBB2)
+  genes: [
+    hgnc('EGFR', '3236'),
+    hgnc('BRAF', '1097'),
+    hgnc('KRAS', '6407'),
+    hgnc('NRAS', '7989'),
+    hgnc('ALK', '427'),
+    hgnc('ROS1', '10261'),
+    hgnc('HER2', '3430', 'ERBB2'),
+    hgnc('MET', '7029'),
+    hgnc('RET', '9967'),
+    hgnc('PIK3CA', '8975'),
+    hgnc('BRCA1', '1100'),
+    hgnc('BRCA2', '1101'),
+    hgnc('TP53', '11998'),
+    hgnc('IDH1', '5382'),
+    hgnc('IDH2', '5383'),
+    hgnc('NTRK1', '8031'),
+    hgnc('NTRK2', '8032'),
+    hgnc('NTRK3', '8033'),
+    hgnc('FGFR1', '3688'),
+    hgnc('FGFR2', '3689'),
+    hgnc('FGFR3', '3690'),
+    hgnc('FGFR4', '3691'),
+  ],
+
+  // ECOG performance status answers, grades 0–4
+  ecogAnswers: [
+    loinc('0', 'LA9622-7', 'Fully active, able to carry on all pre-disease performance without restriction'),
+    loinc('1', 'LA9623-5', 'Restricted in physically strenuous activity but ambulatory and able to carry out work of a light or sedentary nature'),
+    loinc('2', 'LA9624-3', 'Ambulatory and capable of all selfcare but unable to carry out any work activities'),
+    loinc('3', 'LA9625-0', 'Capable of only limited selfcare, confined to bed or chair more than 50% of waking hours'),
+    loinc('4', 'LA9626-8', 'Completely disabled. Cannot carry on any selfcare. Totally confined to bed or chair'),
+  ],
+
+  // Labs, by lib/clinical-context lab name
+  labs: [
+    loinc('Hemoglobin', '718-7', 'Hemoglobin [Mass/volume] in Blood'),
+    loinc('Platelets', '777-3', 'Platelets [#/volume] in Blood by Automated count'),
+    loinc('WBC', '6690-2', 'Leukocytes [#/volume] in Blood by Automated count'),
+    loinc('ANC', '751-8', 'Neutrophils [#/volume] in Blood by Automated count'),
+    loinc('Creatinine', '2160-0', 'Creatinine [Mass/volume] in Serum or Plasma'),
+    loinc('Creatinine Clearance', '2164-2', 'Creatinine renal clearance in 24 hour Urine and Serum or Plasma'),
+    loinc('Total Bilirubin', '1975-2', 'Bilirubin.total [Mass/volume] in Serum or Plasma'),
+    loinc('AST', '1920-8', 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma'),
+    loinc('ALT', '1742-6', 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma'),
+    loinc('Albumin', '1751-7', 'Albumin [Mass/volume] in Serum or Plasma'),
+    loinc('INR', '6301-6', 'INR in Platelet poor plasma by Coagulation assay'),
+    loinc('LDH', '2532-0', 'Lactate dehydrogenase [Enzymatic activity/volume] in Serum or Plasma'),
+  ],
+};
@@ -0,0 +1,379 @@
+/**
+ * mCODE mapping
+ *
+ * The profile's oncology fields as mCODE (minimal Common Oncology Data
+ * Elements) and back: the cancer type as the primary cancer condition's
+ * SNOMED CT code, histology as its morphology, stage and TNM, ECOG, tumor
+ * markers and genomic variants, and prior treatments as cancer-related
+ * medications (RxNorm) and procedures (SNOMED CT). Codes come from the bundled
+ * value set (./mcode-value-set); values it doesn't know are carried as text.
+ * The FHIR import and export and the backend payload all go through here.
+ * https://hl7.org/fhir/us/mcode/
+ */
+
+import { KNOWN_BIOMARKER_GENES, normalizeBiomarkerStatus } from '@/lib/biomarkers';
+import { ProfileField } from '@/lib/profile-edits';
+import { normalizeStage } from '@/lib/staging';
+import { lookupCancerType, normalizeCancerType, normalizeTreatments } from '@/lib/terminology';
+import { Biomarker, PatientProfile, TnmStage } from '@/types';
+import { MCODE_VALUE_SET, McodeValueSetName } from './mcode-value-set';
+import { CodeableConcept, Coding, conceptText, ICD10CM, LOINC, Quantity, UCUM } from './types';
+
+export { MCODE_VALUE_SET } from './mcode-value-set';
+export type { McodeValueSetName, ValueSetEntry } from './mcode-value-set';
+
+const MCODE = 'http://hl7.org/fhir/us/mcode/StructureDefinition';
+
+export const MCODE_PROFILES = {
+  cancerPatient: `${MCODE}/mcode-cancer-patient`,
+  primaryCancerCondition: `${MCODE}/mcode-primary-cancer-condition`,
+  tnmStageGroup: `${MCODE}/mcode-tnm-stage-group`,
+  tnmPrimaryTumorCategory: `${MCODE}/mcode-tnm-primary-tumor-category`,
+  tnmRegionalNodesCategory: `${MCODE}/mcode-tnm-regional-nodes-category`,
+  tnmDistantMetastasesCategory: `${MCODE}/mcode-tnm-distant-metastases-category`,
+  ecogPerformanceStatus: `${MCODE}/mcode-ecog-performance-status`,
+  tumorMarkerTest: `${MCODE}/mcode-tumor-marker-test`,
+  genomicVariant: `${MCODE}/mcode-genomic-variant`,
+  cancerRelatedMedicationStatement: `${MCODE}/mcode-cancer-related-medication-statement`,
+  cancerRelatedSurgicalProcedure: `${MCODE}/mcode-cancer-related-surgical-procedure`,
+  radiotherapyCourseSummary: `${MCODE}/mcode-radiotherapy-course-summary`,
+};
+
+export const HISTOLOGY_EXTENSION = `${MCODE}/mcode-histology-morphology-behavior`;
+
+// Observation codes the mCODE profiles fix
+export const MCODE_LOINC = {
+  ecog: '89247-1',
+  clinicalStageGroup: '21908-9',
+  pathologicalStageGroup: '21902-2',
+  tmb: '94076-7',
+  msi: '81695-9',
+  genomicVariant: '69548-6',
+  geneStudied: '48018-6',
+  proteinChange: '48005-3',
+  dnaChange: '48004-6',
+  variant: '81252-9',
+};
+
+// Clinical and pathological T, N and M category observations
+export const TNM_CATEGORY_LOINC = {
+  c: { t: '21905-5', n: '21906-3', m: '21907-1' },
+  p: { t: '21899-0', n: '21900-6', m: '21901-4' },
+};
+
+// Histology named in a diagnosis, most specific first; values as in the value set
+const HISTOLOGIES: Array<[RegExp, string]> = [
+  [/(?<!non[\s-]?)small[\s-]cell/i, 'Small cell carcinoma'],
+  [/adenosquamous/i, 'Adenosquamous carcinoma'],
+  [/squamous/i, 'Squamous cell carcinoma'],
+  [/large[\s-]cell/i, 'Large cell carcinoma'],
+  [/invasive\s+ductal|infiltrating\s+duct|ductal\s+carcinoma/i, 'Invasive ductal carcinoma'],
+  [/invasive\s+lobular|infiltrating\s+lobular|lobular\s+carcinoma/i, 'Invasive lobular carcinoma'],
+  [/adenocarcinoma/i, 'Adenocarcinoma'],
+  [/urothelial|transitional\s+cell/i, 'Urothelial carcinoma'],
+  [/clear\s+cell/i, 'Clear cell carcinoma'],
+  [/serous/i, 'Serous carcinoma'],
+];
+
+// Therapies given as procedures rather than drugs
+const PROCEDURE_TREATMENTS = new Set(MCODE_VALUE_SET.procedures.map(e => e.value));
+
+// =============================================================================
+// Value set
+// =============================================================================
+
+function entryFor(set: McodeValueSetName, value: string) {
+  const key = value.trim().toLowerCase();
+  return MCODE_VALUE_SET[set].find(e => e.value.toLowerCase() === key);
+}
+
+/** The value set coding for a profile value, if the value set has one */
+export function toCoding(set: McodeValueSetName, value: string): Coding | undefined {
+  const entry = entryFor(set, value);
+  return entry && { system: entry.system, code: entry.code, display: entry.display };
+}
+
+/** A profile value as a concept: its coding when the value set has one, always its text */
+export function codedConcept(set: McodeValueSetName, value: string, text = value): CodeableConcept {
+  const coding = toCoding(set, value);
+  return coding ? { coding: [coding], text } : { text };
+}
+
+/** The profile value a coded concept stands for: by code, else by the value set's own spelling of its text */
+export function fromConcept(set: McodeValueSetName, concept: CodeableConcept | undefined): string | undefined {
+  if (!concept) return undefined;
+  for (const coding of concept.coding || []) {
+    const entry = MCODE_VALUE_SET[set].find(e => e.system === coding.system && e.code === coding.code);
+    if (entry) return entry.value;
+  }
+  const text = conceptText(concept);
+  return text ? entryFor(set, text)?.value : undefined;
+}
+
+/** The histology a diagnosis or morphology names, in the value set's spelling */
+export function canonicalHistology(text: string): string | undefined {
+  return entryFor('histologies', text)?.value ?? HISTOLOGIES.find(([regex]) => regex.test(text))?.[1];
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+interface McodeObservation {
+  code: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+}
+
+interface ResultDetails {
+  effectiveDateTime?: string;
+  method?: CodeableConcept;
+}
+
+/** The profile's oncology fields as mCODE elements */
+export interface McodeElements {
+  cancerPatient: { gender?: 'male' | 'female'; age?: number };
+  primaryCancerCondition?: {
+    code: CodeableConcept;
+    histologyMorphologyBehavior?: CodeableConcept;
+    /** TNMStageGroup, with its TNM category observations as members */
+    stageGroup?: McodeObservation;
+    tnm?: McodeObservation[];
+  };
+  ecogPerformanceStatus?: { code: CodeableConcept; value: number; interpretation?: CodeableConcept };
+  tumorMarkerTests: Array<McodeObservation & ResultDetails>;
+  genomicVariants: Array<{ geneStudied: CodeableConcept; alteration?: string; status: CodeableConcept } & ResultDetails>;
+  cancerRelatedMedications: CodeableConcept[];
+  cancerRelatedProcedures: CodeableConcept[];
+}
+
+function loincConcept(code: string, text: string): CodeableConcept {
+  return { coding: [{ system: LOINC, code }], text };
+}
+
+/** A genomic variant's call as the LOINC answer ("Present", "Absent") when it is one */
+function variantStatus(status: Biomarker['status']): CodeableConcept {
+  if (status === 'Positive' || status === 'Detected') return { coding: [{ system: LOINC, code: 'LA9633-4', display: 'Present' }], text: status };
+  if (status === 'Negative') return { coding: [{ system: LOINC, code: 'LA9634-2', display: 'Absent' }], text: status };
+  return { text: status };
+}
+
+function resultDetails(biomarker: Biomarker): ResultDetails {
+  return {
+    ...(biomarker.specimenDate ? { effectiveDateTime: biomarker.specimenDate } : {}),
+    ...(biomarker.method ? { method: { text: biomarker.method } } : {}),
+  };
+}
+
+function isTumorMarker(gene: string): boolean {
+  return /^(?:TMB|PD-?L1)$/i.test(gene);
+}
+
+export function profileToMcode(profile: PatientProfile): McodeElements {
+  const tnmPrefix = profile.tnm?.prefix === 'p' || profile.tnm?.prefix === 'yp' ? 'p' : 'c';
+  const entry = profile.cancerType ? lookupCancerType(profile.cancerType) : undefined;
+  const histology = profile.histology && (canonicalHistology(profile.histology) || profile.histology);
+
+  return {
+    cancerPatient: {
+      ...(profile.sex === 'Male' || profile.sex === 'Female' ? { gender: profile.sex === 'Male' ? 'male' as const : 'female' as const } : {}),
+      ...(profile.age !== undefined ? { age: profile.age } : {}),
+    },
+    ...(profile.cancerType ? {
+      primaryCancerCondition: {
+        code: {
+          coding: [
+            ...[toCoding('cancerConditions', entry?.name || profile.cancerType)].filter((c): c is Coding => !!c),
+            ...(entry ? [{ system: ICD10CM, code: entry.icd10, display: entry.label }] : []),
+          ],
+          text: entry?.label || profile.cancerType,
+        },
+        ...(histology ? { histologyMorphologyBehavior: codedConcept('histologies', histology) } : {}),
+        ...(profile.stage ? {
+          stageGroup: {
+            code: tnmPrefix === 'p'
+              ? loincConcept(MCODE_LOINC.pathologicalStageGroup, 'Stage group.pathology Cancer')
+              : loincConcept(MCODE_LOINC.clinicalStageGroup, 'Stage group.clinical Cancer'),
+            valueCodeableConcept: { text: profile.stage },
+          },
+        } : {}),
+        ...(profile.tnm ? {
+          tnm: (['t', 'n', 'm'] as const).filter(part => profile.tnm![part]).map(part => ({
+            code: loincConcept(TNM_CATEGORY_LOINC[tnmPrefix][part], `${tnmPrefix === 'p' ? 'Pathological' : 'Clinical'} ${part.toUpperCase()} category`),
+            valueCodeableConcept: { text: `${profile.tnm!.prefix || ''}${profile.tnm![part]}` },
+          })),
+        } : {}),
+      },
+    } : {}),
+    ...(profile.ecog !== undefined ? {
+      ecogPerformanceStatus: {
+        code: loincConcept(MCODE_LOINC.ecog, 'ECOG Performance Status score'),
+        value: profile.ecog,
+        ...(toCoding('ecogAnswers', String(profile.ecog)) ? { interpretation: codedConcept('ecogAnswers', String(profile.ecog)) } : {}),
+      },
+    } : {}),
+    tumorMarkerTests: [
+      ...profile.biomarkers.filter(b => isTumorMarker(b.gene)).map(b => {
+        const tmb = /^TMB$/i.test(b.gene);
+        const cps = /cps/i.test(b.unit || '');
+        return {
+          code: tmb ? loincConcept(MCODE_LOINC.tmb, 'Tumor mutation burden') : { text: `PD-L1 ${cps ? 'CPS' : 'TPS'}` },
+          ...(b.value !== undefined
+            ? { valueQuantity: tmb
+              ? { value: b.value, unit: 'mut/Mb', system: UCUM, code: '{mutations}/[Mb]' }
+              : cps ? { value: b.value, unit: 'CPS', system: UCUM, code: '{score}' } : { value: b.value, unit: '%', system: UCUM, code: '%' } }
+            : { valueCodeableConcept: { text: b.alteration || b.status } }),
+          ...resultDetails(b),
+        };
+      }),
+      ...(profile.msiStatus ? [{ code: loincConcept(MCODE_LOINC.msi, 'Microsatellite instability'), valueCodeableConcept: { text: profile.msiStatus } }] : []),
+    ],
+    genomicVariants: profile.biomarkers.filter(b => !isTumorMarker(b.gene)).map(b => ({
+      geneStudied: codedConcept('genes', b.gene),
+      ...(b.alteration ? { alteration: b.alteration } : {}),
+      status: variantStatus(b.status),
+      ...resultDetails(b),
+    })),
+    cancerRelatedMedications: profile.priorTreatments.filter(t => !PROCEDURE_TREATMENTS.has(t)).map(t => codedConcept('medications', t)),
+    cancerRelatedProcedures: profile.priorTreatments.filter(t => PROCEDURE_TREATMENTS.has(t)).map(t => codedConcept('procedures', t)),
+  };
+}
+
+/** The profile values mCODE elements carry; the reverse of profileToMcode */
+export function mcodeToProfile(elements: Partial<McodeElements>): Partial<PatientProfile> {
+  const profile: Partial<PatientProfile> = {};
+  const patient = elements.cancerPatient;
+  if (patient?.gender) profile.sex = patient.gender === 'male' ? 'Male' : 'Female';
+  if (patient?.age !== undefined) profile.age = patient.age;
+
+  const condition = elements.primaryCancerCondition;
+  if (condition) {
+    const text = conceptText(condition.code);
+    const cancerType = fromConcept('cancerConditions', condition.code) || (text && normalizeCancerType(text));
+    if (cancerType) profile.cancerType = cancerType;
+    const histology = fromConcept('histologies', condition.histologyMorphologyBehavior)
+      || canonicalHistology(conceptText(condition.histologyMorphologyBehavior) || text || '');
+    if (histology) profile.histology = histology;
+    const stage = normalizeStage(conceptText(condition.stageGroup?.valueCodeableConcept));
+    if (stage) profile.stage = stage;
+    const tnm: TnmStage = {};
+    for (const { code, valueCodeableConcept } of condition.tnm || []) {
+      const loinc = code.coding?.find(c => c.system === LOINC)?.code;
+      const category = conceptText(valueCodeableConcept)?.match(/^(yc|yp|c|p|r)?([TNM].+)$/i);
+      if (!loinc || !category) continue;
+      for (const [prefix, parts] of Object.entries(TNM_CATEGORY_LOINC)) {
+        for (const [part, partCode] of Object.entries(parts)) {
+          if (partCode !== loinc) continue;
+          tnm.prefix = (category[1]?.toLowerCase() || prefix) as TnmStage['prefix'];
+          tnm[part as 't' | 'n' | 'm'] = category[2];
+        }
+      }
+    }
+    if (tnm.t || tnm.n || tnm.m) profile.tnm = tnm;
+  }
+
+  if (elements.ecogPerformanceStatus) {
+    const grade = elements.ecogPerformanceStatus.interpretation && fromConcept('ecogAnswers', elements.ecogPerformanceStatus.interpretation);
+    profile.ecog = grade !== undefined ? Number(grade) : elements.ecogPerformanceStatus.value;
+  }
+
+  const biomarkers: Biomarker[] = [];
+  for (const marker of elements.tumorMarkerTests || []) {
+    const loinc = marker.code.coding?.find(c => c.system === LOINC)?.code;
+    const name = conceptText(marker.code) || '';
+    const value = marker.valueQuantity?.value;
+    if (loinc === MCODE_LOINC.msi) {
+      if (marker.valueCodeableConcept) profile.msiStatus = conceptText(marker.valueCodeableConcept);
+    } else if (loinc === MCODE_LOINC.tmb || /^TMB\b|mutation(?:al)? burden/i.test(name)) {
+      biomarkers.push(value !== undefined
+        ? { gene: 'TMB', status: value >= 10 ? 'Positive' : 'Negative', value, unit: 'mut/Mb' }
+        : { gene: 'TMB', status: normalizeBiomarkerStatus(conceptText(marker.valueCodeableConcept)) });
+    } else if (/pd-?l1/i.test(name)) {
+      const cps = /\bCPS\b/i.test(name) || marker.valueQuantity?.unit === 'CPS';
+      biomarkers.push(value !== undefined
+        ? { gene: 'PD-L1', status: value >= 1 ? 'Positive' : 'Negative', value, unit: cps ? 'CPS' : '% TPS' }
+        : { gene: 'PD-L1', status: normalizeBiomarkerStatus(conceptText(marker.valueCodeableConcept)) });
+    }
+  }
+  for (const variant of elements.genomicVariants || []) {
+    const gene = fromConcept('genes', variant.geneStudied) || conceptText(variant.geneStudied)?.trim().split(/\s+/)[0].toUpperCase();
+    if (!gene) continue;
+    const answer = variant.status.coding?.find(c => c.system === LOINC)?.code;
+    biomarkers.push({
+      gene,
+      status: answer === 'LA9633-4' ? 'Positive' : answer === 'LA9634-2' ? 'Negative' : normalizeBiomarkerStatus(conceptText(variant.status)),
+      ...(variant.alteration ? { alteration: variant.alteration } : {}),
+      ...(variant.effectiveDateTime ? { specimenDate: variant.effectiveDateTime.slice(0, 10) } : {}),
+      ...(variant.method ? { method: conceptText(variant.method) } : {}),
+    });
+  }
+  if (biomarkers.length > 0) profile.biomarkers = biomarkers;
+
+  const treatments = [
+    ...(elements.cancerRelatedMedications || []).map(c => fromConcept('medications', c) || conceptText(c)),
+    ...(elements.cancerRelatedProcedures || []).map(c => fromConcept('procedures', c) || conceptText(c)),
+  ].filter((t): t is string => !!t);
+  if (treatments.length > 0) profile.priorTreatments = normalizeTreatments(treatments);
+  return profile;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export interface McodeIssue {
+  /** The mCODE element, as partners name it */
+  element: string;
+  field: ProfileField;
+  /** error: a required element is missing; warning: a must-support element is missing or uncoded */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * What keeps the profile from being a complete mCODE record: the cancer
+ * patient's gender and age, the primary cancer condition and its stage are
+ * required; histology, ECOG, tumor markers and coded treatments are
+ * must-support.
+ */
+export function validateMcode(profile: PatientProfile): McodeIssue[] {
+  const issues: McodeIssue[] = [];
+  const required = (element: string, field: ProfileField, message: string) => issues.push({ element, field, severity: 'error', message });
+  const supported = (element: string, field: ProfileField, message: string) => issues.push({ element, field, severity: 'warning', message });
+
+  if (!profile.sex) required('CancerPatient.gender', 'sex', 'No administrative gender');
+  if (profile.age === undefined) required('CancerPatient.birthDate', 'age', 'No age or birth date');
+  if (!profile.cancerType) {
+    required('PrimaryCancerCondition.code', 'cancerType', 'No primary cancer diagnosis');
+  } else if (!toCoding('cancerConditions', normalizeCancerType(profile.cancerType))) {
+    supported('PrimaryCancerCondition.code', 'cancerType', `"${profile.cancerType}" has no SNOMED CT code in the bundled value set; sent as text`);
+  }
+  if (!profile.stage && !profile.tnm) required('TNMStageGroup', 'stage', 'No stage group or TNM categories');
+
+  if (!profile.histology) {
+    supported('PrimaryCancerCondition.histologyMorphologyBehavior', 'histology', 'No histology');
+  } else if (!toCoding('histologies', canonicalHistology(profile.histology) || profile.histology)) {
+    supported('PrimaryCancerCondition.histologyMorphologyBehavior', 'histology', `"${profile.histology}" has no SNOMED CT code in the bundled value set; sent as text`);
+  }
+  if (profile.ecog === undefined) supported('ECOGPerformanceStatus', 'ecog', 'No ECOG performance status');
+  if (profile.biomarkers.length === 0 && !profile.msiStatus) supported('TumorMarkerTest', 'biomarkers', 'No tumor marker or genomic results');
+  for (const gene of new Set(profile.biomarkers.map(b => b.gene))) {
+    if (!isTumorMarker(gene) && KNOWN_BIOMARKER_GENES.includes(gene.toUpperCase()) && !toCoding('genes', gene)) {
+      supported('GenomicVariant.geneStudied', 'biomarkers', `${gene} names a gene family; sent without an HGNC code`);
+    }
+  }
+  for (const treatment of profile.priorTreatments) {
+    const set = PROCEDURE_TREATMENTS.has(treatment) ? 'procedures' : 'medications';
+    if (!toCoding(set, treatment)) {
+      supported(set === 'procedures' ? 'CancerRelatedSurgicalProcedure' : 'CancerRelatedMedication', 'priorTreatments',
+        `"${treatment}" has no ${set === 'procedures' ? 'SNOMED CT' : 'RxNorm'} code in the bundled value set; sent as text`);
+    }
+  }
+  return issues;
+}
+
+/** One line naming the required mCODE elements a profile lacks, or '' when it has them all */
+export function describeMissingMcode(issues: McodeIssue[]): string {
+  const missing = issues.filter(i => i.severity === 'error').map(i => i.element);
+  return missing.length > 0 ? `Missing required mCODE elements: ${missing.join(', ')}.` : '';
+}
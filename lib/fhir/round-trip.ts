@@ -0,0 +1,69 @@
+/**
+ * FHIR round-trip check
+ *
+ * A profile with every field the export writes, exported (./export) and
+ * imported back (./import). `checkFhirRoundTrip()` returns the fields that
+ * came back different; `npm run eval:fhir` lists them and exits non-zero.
+ * Values the importer adds (an IHC method, a normal-range flag) don't count
+ * as differences: only what the profile had must come back.
+ */
+
+import { createEmptyPatientProfile, PatientProfile } from '@/types';
+import { exportFhirBundle } from './export';
+import { importFhirBundle } from './import';
+
+export interface RoundTripFailure {
+  field: keyof PatientProfile;
+  expected: unknown;
+  actual: unknown;
+}
+
+export const ROUND_TRIP_PROFILE: PatientProfile = {
+  ...createEmptyPatientProfile(),
+  age: 64,
+  sex: 'Male',
+  cancerType: 'NSCLC',
+  histology: 'Adenocarcinoma',
+  stage: 'Stage IIIA',
+  tnm: { prefix: 'c', t: 'T2a', n: 'N2', m: 'M0' },
+  ecog: 1,
+  biomarkers: [
+    { gene: 'EGFR', alteration: 'L858R', status: 'Positive' },
+    { gene: 'ALK', status: 'Negative' },
+    { gene: 'PD-L1', status: 'Positive', value: 50, unit: '% TPS' },
+  ],
+  msiStatus: 'MSS',
+  priorTreatments: ['Carboplatin', 'Pemetrexed', 'Surgery', 'Radiotherapy'],
+  labs: [{ name: 'Hemoglobin', value: 12, unit: 'g/dL' }],
+  comorbidities: ['Hypertension'],
+  currentMedications: [
+    { name: 'Warfarin', status: 'active', startDate: '2024-03-01' },
+    { name: 'Prednisone', status: 'stopped', startDate: '2024-06-01', endDate: '2025-01-10' },
+  ],
+  location: { city: 'Boston', state: 'MA' },
+};
+
+/** Whether `actual` has everything `expected` has; arrays match item by item in any order */
+function contains(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length
+      && expected.every(item => actual.some(other => contains(other, item)));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) => contains((actual as Record<string, unknown>)[key], value));
+  }
+  return actual === expected;
+}
+
+export function checkFhirRoundTrip(profile: PatientProfile = ROUND_TRIP_PROFILE): RoundTripFailure[] {
+  const { extracted } = importFhirBundle(exportFhirBundle(profile, []));
+  const fields = Object.keys(profile) as (keyof PatientProfile)[];
+  return fields
+    .filter(field => {
+      const expected = profile[field];
+      return expected !== undefined && !(Array.isArray(expected) && expected.length === 0);
+    })
+    .filter(field => !contains(extracted[field], profile[field]))
+    .map(field => ({ field, expected: profile[field], actual: extracted[field] }));
+}
@@ -0,0 +1,187 @@
+/**
+ * FHIR R4 resource shapes
+ *
+ * The subset of the R4 resources this app reads and writes, with only the
+ * elements it uses; everything else passes through untyped.
+ * https://hl7.org/fhir/R4/
+ */
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+  comparator?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Extension {
+  url: string;
+  valueString?: string;
+  valueDecimal?: number;
+  valueInteger?: number;
+  valueBoolean?: boolean;
+  valueCodeableConcept?: CodeableConcept;
+  valueReference?: Reference;
+  valueQuantity?: Quantity;
+  extension?: Extension[];
+}
+
+export interface Resource {
+  resourceType: string;
+  id?: string;
+  meta?: { profile?: string[] };
+  extension?: Extension[];
+  [element: string]: unknown;
+}
+
+export interface Address {
+  use?: string;
+  line?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface Patient extends Resource {
+  resourceType: 'Patient';
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  deceasedBoolean?: boolean;
+  deceasedDateTime?: string;
+  address?: Address[];
+}
+
+export interface Condition extends Resource {
+  resourceType: 'Condition';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  bodySite?: CodeableConcept[];
+  subject?: Reference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  stage?: Array<{ summary?: CodeableConcept; assessment?: Reference[]; type?: CodeableConcept }>;
+}
+
+export interface ObservationComponent {
+  code: CodeableConcept;
+  valueCodeableConcept?: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueInteger?: number;
+}
+
+export interface Observation extends Resource {
+  resourceType: 'Observation';
+  status?: string;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  valueCodeableConcept?: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueInteger?: number;
+  valueBoolean?: boolean;
+  interpretation?: CodeableConcept[];
+  method?: CodeableConcept;
+  component?: ObservationComponent[];
+}
+
+export interface MedicationStatement extends Resource {
+  resourceType: 'MedicationStatement';
+  status?: string;
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  subject?: Reference;
+  effectivePeriod?: Period;
+  effectiveDateTime?: string;
+}
+
+export interface Procedure extends Resource {
+  resourceType: 'Procedure';
+  status?: string;
+  category?: CodeableConcept;
+  code?: CodeableConcept;
+  subject?: Reference;
+  performedDateTime?: string;
+  performedPeriod?: Period;
+}
+
+export interface ResearchStudy extends Resource {
+  resourceType: 'ResearchStudy';
+  identifier?: Array<{ system?: string; value?: string }>;
+  title?: string;
+  status: string;
+  phase?: CodeableConcept;
+  condition?: CodeableConcept[];
+  sponsor?: Reference;
+  site?: Reference[];
+}
+
+export interface ResearchSubject extends Resource {
+  resourceType: 'ResearchSubject';
+  status: string;
+  study: Reference;
+  individual: Reference;
+}
+
+export interface BundleEntry<T extends Resource = Resource> {
+  fullUrl?: string;
+  resource?: T;
+  request?: { method: string; url: string; ifNoneExist?: string };
+}
+
+export interface Bundle<T extends Resource = Resource> extends Resource {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: Array<BundleEntry<T>>;
+}
+
+export const LOINC = 'http://loinc.org';
+export const SNOMED = 'http://snomed.info/sct';
+export const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+export const HGNC = 'http://www.genenames.org';
+export const UCUM = 'http://unitsofmeasure.org';
+export const ICD10CM = 'http://hl7.org/fhir/sid/icd-10-cm';
+export const CLINICALTRIALS_GOV = 'https://clinicaltrials.gov';
+export const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+/** "Condition/abc", for reports and evidence */
+export function resourceReference(resource: Resource): string {
+  return resource.id ? `${resource.resourceType}/${resource.id}` : resource.resourceType;
+}
+
+/** A concept's text, else its first coding's display, else its first code */
+export function conceptText(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.text || concept?.coding?.find(c => c.display)?.display || concept?.coding?.find(c => c.code)?.code;
+}
+
+/** The concept's code in `system`, if it has one */
+export function conceptCode(concept: CodeableConcept | undefined, system: string): string | undefined {
+  return concept?.coding?.find(c => c.system === system)?.code;
+}
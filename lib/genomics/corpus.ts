@@ -0,0 +1,106 @@
+/**
+ * Genomic import fixtures
+ *
+ * Small variant lists in the shapes labs send, with the biomarkers each row
+ * must map to and the rows that must be left out. `evaluateGenomicCorpus()`
+ * parses and imports them and returns the failures; `npm run eval:genomics`
+ * lists them and exits non-zero.
+ */
+
+import { Biomarker } from '@/types';
+import { importGenomicReport } from './import';
+import { parseGenomicReport } from './report';
+import { GenomicFormat } from './types';
+
+export interface GenomicCase {
+  name: string;
+  format: GenomicFormat;
+  text: string;
+  /** Biomarkers the import must produce, by gene */
+  biomarkers: Record<string, Pick<Biomarker, 'status' | 'alteration'>>;
+  /** Genes that must not be mapped */
+  excluded?: string[];
+  msiStatus?: string;
+}
+
+export interface GenomicFailure {
+  name: string;
+  gene: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export const GENOMIC_CORPUS: GenomicCase[] = [
+  {
+    name: 'panel.csv',
+    format: 'table',
+    text: [
+      'Gene,Protein Change,cDNA,Variant Type,VAF (%),Classification',
+      'KRAS,p.G12C,c.34G>T,Missense,23.5,Tier I',
+      'EGFR,E746_A750del,c.2235_2249del,Deletion,18,Tier I',
+      // Copy-number loss with only a type: a deletion, not a mutation without an alteration
+      'PTEN,,,Deletion,,Tier II',
+      'CDKN2A,,,Homozygous deletion,,Tier II',
+      'ERBB2,,,Amplification,,Tier I',
+      'TP53,p.R273H,c.818G>A,Missense,40,VUS',
+      'TTN,p.M1V,c.1A>G,Missense,12,Tier III',
+      'MSI,MSS,,,,',
+    ].join('\n'),
+    biomarkers: {
+      KRAS: { status: 'Positive', alteration: 'G12C' },
+      EGFR: { status: 'Positive', alteration: 'E746_A750del' },
+      PTEN: { status: 'Positive', alteration: 'deletion' },
+      CDKN2A: { status: 'Positive', alteration: 'deletion' },
+      HER2: { status: 'Positive', alteration: 'amplification' },
+    },
+    excluded: ['TP53', 'TTN'],
+    msiStatus: 'MSS',
+  },
+  {
+    name: 'report.json',
+    format: 'json',
+    text: JSON.stringify({
+      msiStatus: 'MLH1 and PMS2 loss',
+      variants: [
+        { gene: 'ALK', result: 'Not detected' },
+        { gene: 'RET', type: 'fusion', partner: 'KIF5B' },
+        { gene: 'BRCA2', alteration: 'p.Lys3326Ter', classification: 'Benign' },
+      ],
+    }),
+    biomarkers: {
+      ALK: { status: 'Negative' },
+      RET: { status: 'Positive', alteration: 'fusion' },
+    },
+    excluded: ['BRCA2'],
+    msiStatus: 'MSI-H',
+  },
+];
+
+export function evaluateGenomicCorpus(): GenomicFailure[] {
+  const failures: GenomicFailure[] = [];
+
+  for (const testCase of GENOMIC_CORPUS) {
+    const fail = (gene: string, expected: unknown, actual: unknown) =>
+      failures.push({ name: testCase.name, gene, expected, actual });
+    const report = parseGenomicReport(testCase.text, testCase.format);
+    if (!report) {
+      fail('*', 'a parsed report', undefined);
+      continue;
+    }
+    const { extracted } = importGenomicReport(report);
+    const find = (gene: string) => extracted.biomarkers?.find(b => b.gene.toUpperCase() === gene.toUpperCase());
+
+    for (const [gene, expected] of Object.entries(testCase.biomarkers)) {
+      const actual = find(gene);
+      if (actual?.status !== expected.status || actual?.alteration !== expected.alteration) {
+        fail(gene, expected, actual && { status: actual.status, alteration: actual.alteration });
+      }
+    }
+    for (const gene of testCase.excluded || []) {
+      if (find(gene)) fail(gene, 'not mapped', find(gene));
+    }
+    if (testCase.msiStatus !== extracted.msiStatus) fail('MSI', testCase.msiStatus, extracted.msiStatus);
+  }
+
+  return failures;
+}
@@ -0,0 +1,104 @@
+/**
+ * Actionable genes
+ *
+ * Genes whose alterations decide trial eligibility or a targeted therapy:
+ * the ones the rule parser knows (KNOWN_BIOMARKER_GENES in lib/biomarkers,
+ * with the NTRK and FGFR families by member) plus the rest of what oncology
+ * panels commonly report as actionable. Variants in other genes are reported,
+ * not merged.
+ */
+
+export interface ActionableGene {
+  /** HGNC symbol */
+  symbol: string;
+  /** The name biomarkers use when it isn't the symbol (ERBB2 is HER2) */
+  biomarker?: string;
+  /** Other names reports use */
+  aliases?: string[];
+  /** What makes it actionable */
+  targets: string;
+}
+
+export const ACTIONABLE_GENES: ActionableGene[] = [
+  // Known to the rule parser
+  { symbol: 'EGFR', targets: 'EGFR TKI' },
+  { symbol: 'BRAF', targets: 'BRAF and MEK inhibitors' },
+  { symbol: 'KRAS', targets: 'KRAS G12C inhibitors' },
+  { symbol: 'ALK', targets: 'ALK TKI' },
+  { symbol: 'ROS1', targets: 'ROS1 TKI' },
+  { symbol: 'ERBB2', biomarker: 'HER2', aliases: ['HER2', 'NEU'], targets: 'Anti-HER2' },
+  { symbol: 'NTRK1', targets: 'NTRK TKI' },
+  { symbol: 'NTRK2', targets: 'NTRK TKI' },
+  { symbol: 'NTRK3', targets: 'NTRK TKI' },
+  { symbol: 'MET', targets: 'MET TKI' },
+  { symbol: 'RET', targets: 'RET TKI' },
+  { symbol: 'PIK3CA', targets: 'PI3Kα inhibitors' },
+  { symbol: 'BRCA1', targets: 'PARP inhibitors' },
+  { symbol: 'BRCA2', targets: 'PARP inhibitors' },
+  { symbol: 'TP53', targets: 'eligibility criterion' },
+  { symbol: 'IDH1', targets: 'IDH1 inhibitors' },
+  { symbol: 'IDH2', targets: 'IDH2 inhibitors' },
+  { symbol: 'FGFR1', targets: 'FGFR inhibitors' },
+  { symbol: 'FGFR2', targets: 'FGFR inhibitors' },
+  { symbol: 'FGFR3', targets: 'FGFR inhibitors' },
+
+  // MAPK and PI3K pathways
+  { symbol: 'NRAS', targets: 'MEK inhibitors' },
+  { symbol: 'HRAS', targets: 'farnesyltransferase inhibitors' },
+  { symbol: 'MAP2K1', targets: 'MEK inhibitors' },
+  { symbol: 'NF1', targets: 'MEK inhibitors' },
+  { symbol: 'ERBB3', targets: 'Anti-HER3' },
+  { symbol: 'NRG1', targets: 'Anti-HER3 (fusions)' },
+  { symbol: 'FGFR4', targets: 'FGFR inhibitors' },
+  { symbol: 'AKT1', targets: 'AKT inhibitors' },
+  { symbol: 'PTEN', targets: 'AKT inhibitors' },
+  { symbol: 'MTOR', targets: 'mTOR inhibitors' },
+  { symbol: 'TSC1', targets: 'mTOR inhibitors' },
+  { symbol: 'TSC2', targets: 'mTOR inhibitors' },
+
+  // Hormone receptors, cell cycle and kinases
+  { symbol: 'ESR1', targets: 'oral SERDs' },
+  { symbol: 'AR', targets: 'AR-directed therapy' },
+  { symbol: 'CDKN2A', targets: 'CDK4/6 inhibitors' },
+  { symbol: 'CDK4', targets: 'CDK4/6 inhibitors' },
+  { symbol: 'MDM2', targets: 'MDM2 inhibitors' },
+  { symbol: 'KIT', targets: 'KIT inhibitors' },
+  { symbol: 'PDGFRA', targets: 'PDGFRA inhibitors' },
+  { symbol: 'FLT3', targets: 'FLT3 inhibitors' },
+  { symbol: 'ABL1', targets: 'BCR-ABL inhibitors' },
+  { symbol: 'JAK2', targets: 'JAK inhibitors' },
+  { symbol: 'EZH2', targets: 'EZH2 inhibitors' },
+
+  // DNA damage repair
+  { symbol: 'ATM', targets: 'PARP inhibitors' },
+  { symbol: 'PALB2', targets: 'PARP inhibitors' },
+  { symbol: 'CHEK2', targets: 'PARP inhibitors' },
+  { symbol: 'RAD51C', targets: 'PARP inhibitors' },
+  { symbol: 'RAD51D', targets: 'PARP inhibitors' },
+  { symbol: 'CDK12', targets: 'PARP inhibitors' },
+  { symbol: 'BAP1', targets: 'eligibility criterion' },
+  { symbol: 'ARID1A', targets: 'eligibility criterion' },
+  { symbol: 'STK11', targets: 'eligibility criterion' },
+  { symbol: 'KEAP1', targets: 'eligibility criterion' },
+
+  // Mismatch repair and polymerase proofreading: hypermutation
+  { symbol: 'MLH1', targets: 'PD-(L)1 inhibitors (dMMR)' },
+  { symbol: 'MSH2', targets: 'PD-(L)1 inhibitors (dMMR)' },
+  { symbol: 'MSH6', targets: 'PD-(L)1 inhibitors (dMMR)' },
+  { symbol: 'PMS2', targets: 'PD-(L)1 inhibitors (dMMR)' },
+  { symbol: 'POLE', targets: 'PD-(L)1 inhibitors (hypermutation)' },
+];
+
+const BY_NAME = new Map(ACTIONABLE_GENES.flatMap(gene =>
+  [gene.symbol, ...(gene.aliases || [])].map(name => [name.toUpperCase(), gene] as const)
+));
+
+/** The actionable gene a symbol or alias names, if any */
+export function actionableGene(name: string): ActionableGene | undefined {
+  return BY_NAME.get(name.trim().toUpperCase());
+}
+
+/** The gene as biomarkers name it ("ERBB2" → "HER2") */
+export function biomarkerGene(gene: ActionableGene): string {
+  return gene.biomarker || gene.symbol;
+}
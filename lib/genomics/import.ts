@@ -0,0 +1,154 @@
+/**
+ * Genomic report import
+ *
+ * Maps a parsed report (./vcf, ./table) onto profile values: a biomarker per
+ * variant in an actionable gene (./genes) with its specific alteration, TMB
+ * as a biomarker and MSI as `msiStatus`. Variants that failed the lab's
+ * filters, are benign or of uncertain significance, don't change the protein
+ * or are in genes no trial selects on are reported with the reason.
+ */
+
+import { formatBiomarker, mergeBiomarkers, normalizeBiomarkerStatus, normalizeMsiStatus, shortProteinChange } from '@/lib/biomarkers';
+import { DEFAULT_NORMALIZERS } from '@/lib/extraction-pipeline';
+import { buildProvenance } from '@/lib/provenance';
+import { Biomarker, BiomarkerStatus, PatientProfile } from '@/types';
+import { actionableGene, ActionableGene, biomarkerGene } from './genes';
+import { GenomicReport, GenomicVariant } from './types';
+
+/** Recorded as the provenance `extractor` of imported values */
+export const GENOMIC_EXTRACTOR = 'genomic-report';
+
+// TMB-high, as trials and the tumor-agnostic approval define it
+const TMB_HIGH = 10;
+
+export interface GenomicImport {
+  /** Profile values, normalized, with provenance into `summary` */
+  extracted: Partial<PatientProfile>;
+  /** One line per mapped result ("line 42: EGFR L858R Positive (NGS), VAF 34% — EGFR TKI") */
+  summary: string;
+  /** The line or row each value came from, by provenance key */
+  sources: Map<string, string>;
+  /** Mapped results, in report order */
+  mapped: Array<{ reference: string; gene: string }>;
+  unmapped: Array<{ reference: string; reason: string }>;
+}
+
+type Mapping = { biomarker: Biomarker; line: string } | { reason: string };
+
+const UNCERTAIN = /uncertain|\bvus\b|conflicting|tier\s*(?:iii|3)\b/i;
+const BENIGN = /benign|tier\s*(?:iv|4)\b/i;
+// Consequences that leave the protein as it is
+const NO_PROTEIN_EFFECT = /synonymous|intron|upstream|downstream|utr|intergenic|non[\s_-]?coding/i;
+
+/** Present unless the list says otherwise ("Not detected", "wild-type", detected: false) */
+function variantStatus(variant: GenomicVariant): BiomarkerStatus {
+  if (!variant.status || /^(?:true|yes)$/i.test(variant.status)) return 'Positive';
+  if (/^(?:false|no)$/i.test(variant.status)) return 'Negative';
+  const status = normalizeBiomarkerStatus(variant.status);
+  return status === 'Detected' ? 'Positive' : status;
+}
+
+/** The alteration as the profile writes it: "L858R", "E746_A750del", "exon 14 skipping", "fusion" */
+function alterationOf(variant: GenomicVariant, gene: ActionableGene): string | undefined {
+  if (variant.kind !== 'mutation') return variant.kind;
+  // MET exon 14 skipping is called as a splice-site variant around exon 14
+  if (gene.symbol === 'MET' && /splice/i.test(variant.consequence || '') && ['13', '14'].includes(variant.exon || '')) {
+    return 'exon 14 skipping';
+  }
+  const protein = variant.proteinChange?.trim();
+  if (protein) return shortProteinChange(protein) || protein;
+  return variant.cdnaChange;
+}
+
+function mapVariant(variant: GenomicVariant, report: GenomicReport): Mapping {
+  if (variant.filter && !/^pass$/i.test(variant.filter)) return { reason: `failed filter ${variant.filter}` };
+  const gene = actionableGene(variant.gene);
+  if (!gene) return { reason: `${variant.gene} isn't in the actionable gene list` };
+  if (variant.significance && UNCERTAIN.test(variant.significance)) return { reason: `${variant.gene}: variant of uncertain significance` };
+  if (variant.significance && BENIGN.test(variant.significance) && !/pathogenic/i.test(variant.significance)) {
+    return { reason: `${variant.gene}: classified ${variant.significance}` };
+  }
+  if (variant.kind === 'mutation' && !/splice/i.test(variant.consequence || '')
+    && (NO_PROTEIN_EFFECT.test(variant.consequence || '') || /=\)?$/.test(variant.proteinChange || ''))) {
+    return { reason: `${variant.gene}: no protein change (${variant.consequence || variant.proteinChange})` };
+  }
+
+  const status = variantStatus(variant);
+  const alteration = alterationOf(variant, gene);
+  // A gene listed without an alteration or a result says nothing about it
+  if (!alteration && !variant.status) return { reason: `${variant.gene}: no alteration or result` };
+  const biomarker: Biomarker = {
+    gene: biomarkerGene(gene),
+    status,
+    ...(alteration ? { alteration } : {}),
+    method: report.method || 'NGS',
+    ...(report.date ? { specimenDate: report.date } : {}),
+  };
+  const details = [
+    variant.partner && `${variant.partner} partner`,
+    alteration !== variant.cdnaChange && variant.cdnaChange,
+    variant.vaf !== undefined && `VAF ${Math.round(variant.vaf * 1000) / 10}%`,
+    variant.significance,
+  ].filter(Boolean);
+  return {
+    biomarker,
+    line: `${formatBiomarker(biomarker)}${details.length > 0 ? `, ${details.join(', ')}` : ''}${status === 'Negative' ? '' : ` — ${gene.targets}`}`,
+  };
+}
+
+function normalize(values: Partial<PatientProfile>): Partial<PatientProfile> {
+  return DEFAULT_NORMALIZERS.reduce((profile, normalizer) => normalizer.normalize(profile), values);
+}
+
+/** Map a parsed report onto the profile */
+export function importGenomicReport(report: GenomicReport): GenomicImport {
+  const extracted: Partial<PatientProfile> = {};
+  const sources = new Map<string, string>();
+  const lines: string[] = [];
+  const mapped: GenomicImport['mapped'] = [];
+  const unmapped: GenomicImport['unmapped'] = [...report.skipped];
+
+  const record = (reference: string, gene: string, values: Partial<PatientProfile>, line: string) => {
+    for (const key of Object.keys(buildProvenance(values, '', { source: 'import' }))) sources.set(key, reference);
+    if (values.biomarkers) extracted.biomarkers = mergeBiomarkers(extracted.biomarkers || [], values.biomarkers);
+    if (values.msiStatus) extracted.msiStatus = values.msiStatus;
+    lines.push(`${reference}: ${line}`);
+    mapped.push({ reference, gene });
+  };
+
+  for (const variant of report.variants) {
+    const mapping = mapVariant(variant, report);
+    if ('reason' in mapping) unmapped.push({ reference: variant.reference, reason: mapping.reason });
+    else record(variant.reference, mapping.biomarker.gene, { biomarkers: [mapping.biomarker] }, mapping.line);
+  }
+
+  if (report.tmb) {
+    const { value, reference } = report.tmb;
+    const biomarker: Biomarker = {
+      gene: 'TMB',
+      status: value >= TMB_HIGH ? 'Positive' : 'Negative',
+      value,
+      unit: 'mut/Mb',
+      method: report.method || 'NGS',
+      ...(report.date ? { specimenDate: report.date } : {}),
+    };
+    record(reference, 'TMB', { biomarkers: [biomarker] }, `TMB ${value} mut/Mb${value >= TMB_HIGH ? ' (TMB-high)' : ''}`);
+  }
+  if (report.msi) {
+    const { value, reference } = report.msi;
+    const msiStatus = normalizeMsiStatus(value);
+    // The report's own wording, with the canonical status in front unless it already names it
+    if (msiStatus) record(reference, 'MSI', { msiStatus }, new RegExp(`\\b${msiStatus}\\b`, 'i').test(value) ? value : `${msiStatus} (${value})`);
+    else unmapped.push({ reference, reason: `MSI result "${value}" not recognized` });
+  }
+
+  const normalized = normalize(extracted);
+  const summary = lines.join('\n');
+  return {
+    extracted: { ...normalized, provenance: buildProvenance(normalized, summary, { source: 'import', extractor: GENOMIC_EXTRACTOR }) },
+    summary,
+    sources,
+    mapped,
+    unmapped,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Genomic report import
+ *
+ * Molecular results as labs send them, VCF or a CSV/TSV/JSON variant list,
+ * come in through `parseGenomicReport` and `importGenomicReport` and are
+ * reviewed like a clinical document (lib/documents): the user picks which
+ * biomarkers, TMB and MSI results to merge, and sees which variants weren't
+ * taken and why.
+ */
+
+import { DocumentReview } from '@/types';
+import { GenomicImport } from './import';
+import { GenomicReport } from './types';
+
+export * from './types';
+export { ACTIONABLE_GENES, actionableGene, biomarkerGene } from './genes';
+export type { ActionableGene } from './genes';
+export { detectGenomicFormat, parseGenomicReport } from './report';
+export { parseVcf } from './vcf';
+export { parseVariantTable, parseVariantJson } from './table';
+export { importGenomicReport, GENOMIC_EXTRACTOR } from './import';
+export type { GenomicImport } from './import';
+
+// Results not taken that are listed in the reply; the rest are counted
+const MAX_UNMAPPED_LISTED = 10;
+
+const FORMAT_NAMES: Record<GenomicReport['format'], string> = { vcf: 'VCF', table: 'variant table', json: 'JSON variant list' };
+
+/** Chat reply for an imported report: what was read, what is up for review and what wasn't taken */
+export function describeGenomicImport(report: GenomicReport, result: GenomicImport, review: DocumentReview): string {
+  const variants = report.variants.length === 1 ? '1 variant' : `${report.variants.length} variants`;
+  const extras = [report.tmb && 'TMB', report.msi && 'MSI'].filter(Boolean);
+  const lines = [`🧬 Read **${review.name}** (${FORMAT_NAMES[report.format]}): ${variants}${extras.length > 0 ? ` plus ${extras.join(' and ')}` : ''}.`];
+  if (review.changes.length === 0) {
+    lines[0] += ' Nothing in it changes the patient profile.';
+  } else {
+    const changes = review.changes.length === 1 ? '1 change' : `${review.changes.length} changes`;
+    lines[0] += ` It suggests ${changes} to the patient profile; pick the ones to merge below.`;
+  }
+  if (result.unmapped.length > 0) {
+    lines.push('', '**Not taken:**');
+    for (const { reference, reason } of result.unmapped.slice(0, MAX_UNMAPPED_LISTED)) lines.push(`- ${reference}: ${reason}`);
+    if (result.unmapped.length > MAX_UNMAPPED_LISTED) lines.push(`- and ${result.unmapped.length - MAX_UNMAPPED_LISTED} more`);
+  }
+  return lines.join('\n');
+}
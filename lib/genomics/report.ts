@@ -0,0 +1,42 @@
+/**
+ * Genomic report formats
+ *
+ * Which parser a report goes to, from its content and file name; kept apart
+ * from the import so the client can route uploads without the extractors.
+ */
+
+import { parseVariantJson, parseVariantTable, isVariantTableHeader } from './table';
+import { GenomicFormat, GenomicReport } from './types';
+import { parseVcf } from './vcf';
+
+/** The format of a genomic report, or undefined if the text isn't one (prose, a FHIR bundle) */
+export function detectGenomicFormat(text: string, fileName?: string): GenomicFormat | undefined {
+  const trimmed = text.trimStart();
+  if (/\.vcf$/i.test(fileName || '') || /^##fileformat=VCF/i.test(trimmed) || /^#CHROM\t/m.test(trimmed)) return 'vcf';
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      const json = JSON.parse(trimmed);
+      return json?.resourceType === undefined && parseVariantJson(json) ? 'json' : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  const header = trimmed.split(/\r?\n/).find(line => line.trim() && !line.startsWith('#')) || '';
+  return /\.(?:csv|tsv)$/i.test(fileName || '') || isVariantTableHeader(header) ? 'table' : undefined;
+}
+
+/** Parse a report in the given format; undefined if it doesn't parse as one */
+export function parseGenomicReport(text: string, format: GenomicFormat): GenomicReport | undefined {
+  switch (format) {
+    case 'vcf':
+      return parseVcf(text);
+    case 'table':
+      return parseVariantTable(text);
+    case 'json':
+      try {
+        return parseVariantJson(JSON.parse(text));
+      } catch {
+        return undefined;
+      }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Tabular variant lists
+ *
+ * The generic format labs export when they don't send VCF: a CSV or TSV with
+ * a header row, or JSON (an array of rows, or an object with the rows under
+ * `variants`, `alterations`, `findings` or `results`). Columns are matched by
+ * name, so "Gene", "gene_symbol" and "Hugo_Symbol" all work. TMB and MSI come
+ * from their own columns or keys, or from a row whose gene is "TMB" or "MSI".
+ */
+
+import { GenomicFormat, GenomicReport, GenomicVariant, VariantKind } from './types';
+
+type Row = Record<string, unknown>;
+
+// Column names, lowercased with separators removed
+const COLUMNS = {
+  gene: ['gene', 'genesymbol', 'symbol', 'hugosymbol', 'genename', 'biomarker', 'marker'],
+  protein: ['protein', 'proteinchange', 'hgvsp', 'pchange', 'aminoacidchange', 'aachange', 'alteration', 'variant', 'mutation'],
+  cdna: ['cdna', 'cdnachange', 'hgvsc', 'cchange', 'codingchange', 'nucleotidechange'],
+  kind: ['type', 'varianttype', 'alterationtype', 'variantclass', 'variantclassification', 'category', 'consequence', 'effect'],
+  exon: ['exon'],
+  partner: ['partner', 'fusionpartner', 'partnergene', 'gene2'],
+  significance: ['significance', 'clinicalsignificance', 'classification', 'pathogenicity', 'clinsig', 'tier', 'interpretation'],
+  vaf: ['vaf', 'af', 'allelefrequency', 'variantallelefrequency', 'allelefraction', 'tumorf', 'vafpercent'],
+  status: ['status', 'result', 'call', 'detected'],
+  value: ['value', 'score'],
+  copies: ['copynumber', 'cn', 'copies'],
+  tmb: ['tmb', 'tumormutationalburden', 'tumourmutationalburden', 'tumormutationburden'],
+  msi: ['msi', 'msistatus', 'microsatellitestatus', 'microsatelliteinstability'],
+  date: ['date', 'reportdate', 'collectiondate', 'specimendate', 'resultdate'],
+};
+
+const ROW_ARRAYS = ['variants', 'alterations', 'findings', 'results', 'genomicalterations', 'mutations'];
+
+const AMPLIFICATION_COPIES = 5;
+
+function columnKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** A row's value under the first alias it has, as text */
+function cell(row: Row, names: string[]): string | undefined {
+  for (const [key, value] of Object.entries(row)) {
+    if (!names.includes(columnKey(key)) || value === null || value === undefined) continue;
+    // JSON may nest a result: { "tmb": { "value": 14, "unit": "mut/Mb" } }, { "msi": { "status": "MSS" } }
+    const text = typeof value === 'object' ? (value as Row).value ?? (value as Row).status ?? (value as Row).text : value;
+    if (text !== undefined && String(text).trim() && !/^(?:\.|-|na|n\/a|none)$/i.test(String(text).trim())) return String(text).trim();
+  }
+  return undefined;
+}
+
+/** Split delimited text into rows keyed by the header; quoted fields may hold the delimiter */
+function parseDelimited(text: string): { rows: Row[]; skipped: GenomicReport['skipped'] } {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line, index })).filter(({ line }) => line.trim() && !line.startsWith('#'));
+  if (lines.length === 0) return { rows: [], skipped: [] };
+  const delimiter = lines[0].line.includes('\t') ? '\t' : lines[0].line.split(';').length > lines[0].line.split(',').length ? ';' : ',';
+  const split = (line: string) => {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === delimiter && !quoted) {
+        fields.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    return [...fields, current].map(field => field.trim());
+  };
+
+  const header = split(lines[0].line);
+  const rows: Row[] = [];
+  const skipped: GenomicReport['skipped'] = [];
+  for (const { line, index } of lines.slice(1)) {
+    const fields = split(line);
+    if (fields.length < 2) {
+      skipped.push({ reference: `line ${index + 1}`, reason: 'not a delimited row' });
+      continue;
+    }
+    rows.push({ ...Object.fromEntries(header.map((name, i) => [name, fields[i] ?? ''])), __reference: `line ${index + 1}` });
+  }
+  return { rows, skipped };
+}
+
+function variantKind(row: Row, protein: string | undefined): VariantKind {
+  const kind = cell(row, COLUMNS.kind) || '';
+  const text = `${kind} ${protein || ''}`;
+  const copies = parseFloat(cell(row, COLUMNS.copies) || '');
+  if (/fusion|rearrange|translocation|\bsv\b/i.test(text) || cell(row, COLUMNS.partner)) return 'fusion';
+  if (/amplif|\bamp\b|copy[\s_-]*(?:number[\s_-]*)?gain|\bgain\b/i.test(text) || copies >= AMPLIFICATION_COPIES) return 'amplification';
+  if (/homozygous[\s_-]*del|copy[\s_-]*(?:number[\s_-]*)?loss|\bloss\b|deep[\s_-]*del/i.test(text) || copies <= 1) return 'deletion';
+  // A bare "Deletion" type is the gene's copy-number loss; with a protein change ("E746_A750del") it's an in-frame deletion
+  if (/^(?:deletion|del|loss)$/i.test(kind.trim()) && !protein) return 'deletion';
+  return 'mutation';
+}
+
+/** Rows as a report: variant rows, and TMB and MSI wherever they are */
+function readRows(rows: Row[], format: GenomicFormat, reportLevel: Row = {}): GenomicReport {
+  const report: GenomicReport = { format, variants: [], skipped: [] };
+  const tmb = cell(reportLevel, COLUMNS.tmb);
+  if (tmb && !Number.isNaN(parseFloat(tmb))) report.tmb = { value: parseFloat(tmb), reference: 'report' };
+  const msi = cell(reportLevel, COLUMNS.msi);
+  if (msi) report.msi = { value: msi, reference: 'report' };
+  const date = cell(reportLevel, COLUMNS.date);
+  if (date && /^\d{4}-\d{2}-\d{2}/.test(date)) report.date = date.slice(0, 10);
+
+  rows.forEach((row, index) => {
+    const reference = typeof row.__reference === 'string' ? row.__reference : `row ${index + 1}`;
+    const gene = cell(row, COLUMNS.gene);
+    const rowTmb = cell(row, COLUMNS.tmb);
+    const rowMsi = cell(row, COLUMNS.msi);
+    if (rowTmb && !Number.isNaN(parseFloat(rowTmb))) report.tmb = { value: parseFloat(rowTmb), reference };
+    if (rowMsi) report.msi = { value: rowMsi, reference };
+    if (!report.date) {
+      const rowDate = cell(row, COLUMNS.date);
+      if (rowDate && /^\d{4}-\d{2}-\d{2}/.test(rowDate)) report.date = rowDate.slice(0, 10);
+    }
+    if (!gene) {
+      if (!rowTmb && !rowMsi) report.skipped.push({ reference, reason: 'no gene' });
+      return;
+    }
+
+    // Report-level results listed as rows: "TMB, 14 mut/Mb" or "MSI, MSS"
+    const result = cell(row, COLUMNS.value) || cell(row, COLUMNS.status) || cell(row, COLUMNS.protein);
+    if (/^(?:tmb|tumou?r mutation(?:al)? burden)$/i.test(gene)) {
+      const value = parseFloat(result || '');
+      if (Number.isNaN(value)) report.skipped.push({ reference, reason: `TMB result "${result || ''}" isn't a number` });
+      else report.tmb = { value, reference };
+      return;
+    }
+    if (/^(?:msi|microsatellite(?: instability| status)?|mmr)$/i.test(gene)) {
+      if (result) report.msi = { value: result, reference };
+      else report.skipped.push({ reference, reason: 'MSI row without a result' });
+      return;
+    }
+
+    const protein = cell(row, COLUMNS.protein);
+    const cdna = cell(row, COLUMNS.cdna) || (protein?.startsWith('c.') ? protein : undefined);
+    const vaf = parseFloat(cell(row, COLUMNS.vaf) || '');
+    const kindText = cell(row, COLUMNS.kind);
+    const variant: GenomicVariant = {
+      reference,
+      gene,
+      kind: variantKind(row, protein),
+      ...(protein && !protein.startsWith('c.') ? { proteinChange: protein } : {}),
+      ...(cdna ? { cdnaChange: cdna } : {}),
+      ...(kindText ? { consequence: kindText } : {}),
+      ...(cell(row, COLUMNS.exon) ? { exon: cell(row, COLUMNS.exon) } : {}),
+      ...(cell(row, COLUMNS.partner) ? { partner: cell(row, COLUMNS.partner) } : {}),
+      ...(cell(row, COLUMNS.significance) ? { significance: cell(row, COLUMNS.significance) } : {}),
+      // Percentages above 1 ("34.5") are read as percent
+      ...(!Number.isNaN(vaf) && vaf >= 0 && vaf <= 100 ? { vaf: vaf > 1 ? vaf / 100 : vaf } : {}),
+      ...(cell(row, COLUMNS.status) ? { status: cell(row, COLUMNS.status) } : {}),
+    };
+    report.variants.push(variant);
+  });
+  return report;
+}
+
+/** Parse a CSV or TSV variant list with a header row */
+export function parseVariantTable(text: string): GenomicReport {
+  const { rows, skipped } = parseDelimited(text);
+  const report = readRows(rows, 'table');
+  return { ...report, skipped: [...skipped, ...report.skipped] };
+}
+
+/** Parse a lab's JSON variant list; undefined if it has no rows */
+export function parseVariantJson(json: unknown): GenomicReport | undefined {
+  if (Array.isArray(json)) return readRows(json.filter((row): row is Row => !!row && typeof row === 'object'), 'json');
+  if (!json || typeof json !== 'object') return undefined;
+  const object = json as Row;
+  const key = Object.keys(object).find(k => ROW_ARRAYS.includes(columnKey(k)) && Array.isArray(object[k]));
+  if (!key && !cell(object, COLUMNS.tmb) && !cell(object, COLUMNS.msi)) return undefined;
+  const rows = key ? (object[key] as unknown[]).filter((row): row is Row => !!row && typeof row === 'object') : [];
+  return readRows(rows, 'json', object);
+}
+
+/** Whether a header row names a gene column, so the text is a variant table rather than prose */
+export function isVariantTableHeader(line: string): boolean {
+  const fields = line.split(/\t|,|;/).map(columnKey);
+  return fields.length >= 2 && fields.some(field => COLUMNS.gene.includes(field));
+}
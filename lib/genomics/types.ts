@@ -0,0 +1,53 @@
+/**
+ * Genomic report types
+ *
+ * What the parsers (./vcf, ./table) read from a report before it is mapped
+ * onto the profile (./import): one entry per reported variant, and the
+ * report-level TMB and MSI results.
+ */
+
+export type GenomicFormat = 'vcf' | 'table' | 'json';
+
+/** Small variants (SNVs and indels) are mutations; structural and copy-number results are named for what they do */
+export type VariantKind = 'mutation' | 'fusion' | 'amplification' | 'deletion';
+
+export interface GenomicVariant {
+  /** Where in the report it was read ("line 42", "row 3") */
+  reference: string;
+  /** HGNC symbol as reported */
+  gene: string;
+  kind: VariantKind;
+  /** Protein change, in HGVS ("p.Leu858Arg") or as the lab writes it ("L858R", "exon 19 deletion") */
+  proteinChange?: string;
+  /** HGVS coding DNA change ("c.2573T>G") */
+  cdnaChange?: string;
+  /** Sequence Ontology consequence ("missense_variant", "splice_donor_variant") */
+  consequence?: string;
+  /** Exon or intron number, for splice-site and exon-level calls */
+  exon?: string;
+  /** The other gene of a fusion */
+  partner?: string;
+  /** Clinical significance or tier as reported ("Pathogenic", "Tier II", "VUS") */
+  significance?: string;
+  /** Variant allele fraction, 0–1 */
+  vaf?: number;
+  /** Result as reported, for lists that include negatives ("Detected", "Not detected") */
+  status?: string;
+  /** VCF FILTER; anything but PASS failed the lab's filters */
+  filter?: string;
+}
+
+export interface GenomicReport {
+  format: GenomicFormat;
+  variants: GenomicVariant[];
+  /** Tumor mutational burden in mutations per megabase */
+  tmb?: { value: number; reference: string };
+  /** MSI result as reported ("MSI-High", "stable") */
+  msi?: { value: string; reference: string };
+  /** Report or specimen date (YYYY-MM-DD) */
+  date?: string;
+  /** Assay, when the report names one other than NGS ("ctDNA") */
+  method?: string;
+  /** Lines or rows that couldn't be read */
+  skipped: Array<{ reference: string; reason: string }>;
+}
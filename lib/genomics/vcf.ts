@@ -0,0 +1,185 @@
+/**
+ * VCF parser
+ *
+ * Reads annotated VCF 4.x as labs and pipelines send it: the gene and
+ * protein change from VEP (CSQ), SnpEff (ANN), ANNOVAR (Gene.refGene,
+ * AAChange.refGene) or plain INFO keys, fusions from breakends or a FUSION
+ * key, copy-number calls from symbolic alleles or SVTYPE, and TMB and MSI
+ * from the meta-information lines (##TMB=12.4, ##MSI=stable).
+ */
+
+import { GenomicReport, GenomicVariant, VariantKind } from './types';
+
+// SnpEff's ANN layout is fixed; VEP declares its CSQ fields in the header
+const ANN_FIELDS = ['Allele', 'Annotation', 'Annotation_Impact', 'Gene_Name', 'Gene_ID', 'Feature_Type', 'Feature_ID',
+  'Transcript_BioType', 'Rank', 'HGVS.c', 'HGVS.p'];
+
+const TMB_KEYS = /^(?:tmb|tumou?rmutation(?:al)?burden)$/;
+const MSI_KEYS = /^(?:msi(?:status)?|microsatellite(?:instability|status)?)$/;
+
+// Copy number at or above this on a symbolic or unlabelled call is an amplification; 1 or 0 is a loss
+const AMPLIFICATION_COPIES = 5;
+
+type Info = Map<string, string>;
+
+function parseInfo(field: string): Info {
+  const info: Info = new Map();
+  if (field === '.') return info;
+  for (const pair of field.split(';')) {
+    const eq = pair.indexOf('=');
+    info.set(eq < 0 ? pair : pair.slice(0, eq), eq < 0 ? 'true' : decodeInfoValue(pair.slice(eq + 1)));
+  }
+  return info;
+}
+
+// VCF percent-encodes the characters INFO reserves
+function decodeInfoValue(value: string): string {
+  return value.replace(/%3A/gi, ':').replace(/%3B/gi, ';').replace(/%3D/gi, '=').replace(/%2C/gi, ',').replace(/%25/g, '%');
+}
+
+/** The first annotation of a pipe-delimited INFO value (CSQ, ANN) as named fields */
+function firstAnnotation(value: string | undefined, fields: string[]): Map<string, string> | undefined {
+  if (!value || fields.length === 0) return undefined;
+  const annotations = value.split(',').map(a => a.split('|'));
+  // VEP marks the annotation it picked; otherwise the first is the most severe
+  const pickIndex = fields.indexOf('PICK');
+  const chosen = (pickIndex >= 0 && annotations.find(a => a[pickIndex] === '1')) || annotations[0];
+  return new Map(fields.map((name, i) => [name, chosen[i] || '']));
+}
+
+// "ENSP00000275493.2:p.Leu858Arg" → "p.Leu858Arg"
+function hgvsPart(value: string | undefined, prefix: 'p.' | 'c.'): string | undefined {
+  const at = value?.indexOf(prefix) ?? -1;
+  return value && at >= 0 ? value.slice(at).split(/[,|\s]/)[0] : undefined;
+}
+
+function firstValue(info: Info, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = info.get(key);
+    if (value && value !== '.') return value;
+  }
+  return undefined;
+}
+
+/** Fusion partners from a FUSION-style key ("EML4--ALK", "EML4-ALK", "EML4::ALK") */
+function fusionGenes(info: Info): [string, string] | undefined {
+  const value = firstValue(info, 'FUSION', 'GENE_FUSION', 'FUSION_NAME', 'FUSIONS');
+  const parts = value?.split(/--|::|-|\//).filter(Boolean);
+  if (parts && parts.length >= 2) return [parts[0], parts[1]];
+  const first = firstValue(info, 'GENE1', 'GENEA', 'LEFT_GENE');
+  const second = firstValue(info, 'GENE2', 'GENEB', 'RIGHT_GENE');
+  return first && second ? [first, second] : undefined;
+}
+
+function variantKind(alt: string, info: Info): VariantKind {
+  const svType = (info.get('SVTYPE') || alt.match(/^<([A-Z]+)/)?.[1] || '').toUpperCase();
+  const copies = Number(info.get('CN'));
+  if (svType === 'BND' || svType === 'FUSION' || /[[\]]/.test(alt) || fusionGenes(info)) return 'fusion';
+  if (svType === 'AMP' || svType === 'DUP' || (svType === 'CNV' && copies >= AMPLIFICATION_COPIES)) return 'amplification';
+  if ((svType === 'DEL' && /^</.test(alt)) || (svType === 'CNV' && copies <= 1)) return 'deletion';
+  return 'mutation';
+}
+
+/** One data line as a variant, or the reason it can't be read */
+function parseRecord(columns: string[], reference: string, csqFields: string[]): GenomicVariant | { reason: string } {
+  const [, , , , alt, , filter, infoField, format, sample] = columns;
+  const info = parseInfo(infoField);
+  const csq = firstAnnotation(info.get('CSQ'), csqFields);
+  const ann = firstAnnotation(info.get('ANN') || info.get('EFF'), ANN_FIELDS);
+  // ANNOVAR: "EGFR:NM_005228:exon21:c.T2573G:p.L858R,..."
+  const annovar = firstValue(info, 'AAChange.refGene', 'AAChange.ensGene')?.split(',')[0].split(':');
+
+  const kind = variantKind(alt, info);
+  const fusion = kind === 'fusion' ? fusionGenes(info) : undefined;
+  const gene = csq?.get('SYMBOL') || ann?.get('Gene_Name')
+    || firstValue(info, 'Gene.refGene', 'Gene.ensGene', 'GENE', 'Gene', 'SYMBOL', 'GENE_NAME', 'GENEINFO')?.split(/[:|,;]/)[0]
+    || annovar?.[0]
+    || fusion?.[1];
+  if (!gene) return { reason: 'no gene annotation' };
+
+  // Fusions are named for the 3' partner, whose kinase is usually the driver
+  const fusionPartner = fusion && (fusion[0].toUpperCase() === gene.toUpperCase() ? fusion[1] : fusion[0]);
+
+  // Allele fraction: INFO, or the first (tumor) sample's AF or AD
+  let vaf = Number(firstValue(info, 'AF', 'VAF'));
+  if (!(vaf >= 0 && vaf <= 1) && format && sample) {
+    const values = new Map(format.split(':').map((key, i) => [key, sample.split(':')[i]]));
+    const depths = values.get('AD')?.split(',').map(Number);
+    vaf = Number(values.get('AF')?.split(',')[0]);
+    if (!(vaf >= 0 && vaf <= 1) && depths && depths.length > 1 && depths.every(d => d >= 0)) {
+      const total = depths.reduce((sum, d) => sum + d, 0);
+      vaf = total > 0 ? depths[1] / total : NaN;
+    }
+  }
+
+  const proteinChange = hgvsPart(csq?.get('HGVSp'), 'p.') || hgvsPart(ann?.get('HGVS.p'), 'p.')
+    || hgvsPart(firstValue(info, 'HGVSp', 'HGVS_P', 'HGVSP', 'PROTEIN_CHANGE', 'AA_CHANGE'), 'p.')
+    || hgvsPart(annovar?.find(part => part.startsWith('p.')), 'p.');
+  const cdnaChange = hgvsPart(csq?.get('HGVSc'), 'c.') || hgvsPart(ann?.get('HGVS.c'), 'c.')
+    || hgvsPart(firstValue(info, 'HGVSc', 'HGVS_C', 'HGVSC', 'CDNA_CHANGE'), 'c.')
+    || hgvsPart(annovar?.find(part => part.startsWith('c.')), 'c.');
+  const consequence = csq?.get('Consequence') || ann?.get('Annotation') || firstValue(info, 'ExonicFunc.refGene', 'Func.refGene', 'CONSEQUENCE');
+  const exon = (csq?.get('EXON') || csq?.get('INTRON') || ann?.get('Rank') || annovar?.find(part => /^exon\d+$/.test(part))?.slice(4))?.split('/')[0];
+  const significance = csq?.get('CLIN_SIG') || firstValue(info, 'CLNSIG', 'CLIN_SIG', 'SIGNIFICANCE', 'CLASSIFICATION', 'TIER');
+
+  return {
+    reference,
+    gene,
+    kind,
+    ...(proteinChange ? { proteinChange } : {}),
+    ...(cdnaChange ? { cdnaChange } : {}),
+    // VEP joins several consequences with "&", most severe first
+    ...(consequence ? { consequence: consequence.split('&')[0] } : {}),
+    ...(exon ? { exon } : {}),
+    ...(fusionPartner ? { partner: fusionPartner } : {}),
+    ...(significance ? { significance: significance.replace(/_/g, ' ') } : {}),
+    ...(vaf >= 0 && vaf <= 1 ? { vaf } : {}),
+    ...(filter && filter !== '.' ? { filter } : {}),
+  };
+}
+
+/** Parse a VCF; lines that aren't valid records are listed in `skipped` */
+export function parseVcf(text: string): GenomicReport {
+  const report: GenomicReport = { format: 'vcf', variants: [], skipped: [] };
+  let csqFields: string[] = [];
+  let sawHeader = false;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const reference = `line ${index + 1}`;
+    if (!line.trim()) return;
+
+    if (line.startsWith('##')) {
+      const eq = line.indexOf('=');
+      if (eq < 0) return;
+      const key = line.slice(2, eq);
+      const value = line.slice(eq + 1).trim();
+      const normalizedKey = key.toLowerCase().replace(/[\s_.-]/g, '');
+      if (key === 'INFO' && /ID=CSQ\b/.test(value)) {
+        csqFields = value.match(/Format:\s*([^">]+)/)?.[1].trim().split('|') || [];
+      } else if (TMB_KEYS.test(normalizedKey) && !Number.isNaN(parseFloat(value))) {
+        report.tmb = { value: parseFloat(value), reference: `header ##${key}` };
+      } else if (MSI_KEYS.test(normalizedKey)) {
+        report.msi = { value, reference: `header ##${key}` };
+      } else if (key === 'fileDate' && /^\d{8}$/.test(value)) {
+        report.date = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+      } else if (/^(?:assay|source|specimen|sampletype)$/.test(normalizedKey) && /ctdna|cfdna|liquid|plasma/i.test(value)) {
+        report.method = 'ctDNA';
+      }
+      return;
+    }
+    if (line.startsWith('#')) {
+      sawHeader = true;
+      return;
+    }
+
+    const columns = line.split('\t');
+    if (!sawHeader || columns.length < 8) {
+      report.skipped.push({ reference, reason: sawHeader ? 'fewer than 8 columns' : 'record before the #CHROM header' });
+      return;
+    }
+    const variant = parseRecord(columns, reference, csqFields);
+    if ('reason' in variant) report.skipped.push({ reference, reason: variant.reason });
+    else report.variants.push(variant);
+  });
+  return report;
+}
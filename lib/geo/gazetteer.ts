@@ -0,0 +1,207 @@
+/**
+ * Offline gazetteer
+ *
+ * Coordinates for cities that commonly host oncology trial sites, plus US
+ * ZIP3 prefixes for the larger metros, so distance ranking works without a
+ * network geocoder. Coverage is deliberately coarse (city centroids).
+ */
+
+export interface GazetteerEntry {
+  city: string;
+  country: string;   // ISO 3166-1 alpha-2
+  state?: string;    // US state / region code
+  lat: number;
+  lon: number;
+  aliases?: string[];
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // United States
+  { city: 'Boston', state: 'MA', country: 'US', lat: 42.3601, lon: -71.0589 },
+  { city: 'New York', state: 'NY', country: 'US', lat: 40.7128, lon: -74.0060, aliases: ['NYC', 'New York City', 'Manhattan'] },
+  { city: 'Philadelphia', state: 'PA', country: 'US', lat: 39.9526, lon: -75.1652 },
+  { city: 'Baltimore', state: 'MD', country: 'US', lat: 39.2904, lon: -76.6122 },
+  { city: 'Washington', state: 'DC', country: 'US', lat: 38.9072, lon: -77.0369, aliases: ['Washington DC', 'Washington, DC'] },
+  { city: 'Bethesda', state: 'MD', country: 'US', lat: 38.9847, lon: -77.0947 },
+  { city: 'Pittsburgh', state: 'PA', country: 'US', lat: 40.4406, lon: -79.9959 },
+  { city: 'New Haven', state: 'CT', country: 'US', lat: 41.3083, lon: -72.9279 },
+  { city: 'Providence', state: 'RI', country: 'US', lat: 41.8240, lon: -71.4128 },
+  { city: 'Buffalo', state: 'NY', country: 'US', lat: 42.8864, lon: -78.8784 },
+  { city: 'Rochester', state: 'NY', country: 'US', lat: 43.1566, lon: -77.6088 },
+  { city: 'Hackensack', state: 'NJ', country: 'US', lat: 40.8859, lon: -74.0435 },
+  { city: 'New Brunswick', state: 'NJ', country: 'US', lat: 40.4862, lon: -74.4518 },
+  { city: 'Chicago', state: 'IL', country: 'US', lat: 41.8781, lon: -87.6298 },
+  { city: 'Detroit', state: 'MI', country: 'US', lat: 42.3314, lon: -83.0458 },
+  { city: 'Ann Arbor', state: 'MI', country: 'US', lat: 42.2808, lon: -83.7430 },
+  { city: 'Cleveland', state: 'OH', country: 'US', lat: 41.4993, lon: -81.6944 },
+  { city: 'Columbus', state: 'OH', country: 'US', lat: 39.9612, lon: -82.9988 },
+  { city: 'Cincinnati', state: 'OH', country: 'US', lat: 39.1031, lon: -84.5120 },
+  { city: 'Indianapolis', state: 'IN', country: 'US', lat: 39.7684, lon: -86.1581 },
+  { city: 'Milwaukee', state: 'WI', country: 'US', lat: 43.0389, lon: -87.9065 },
+  { city: 'Madison', state: 'WI', country: 'US', lat: 43.0731, lon: -89.4012 },
+  { city: 'Minneapolis', state: 'MN', country: 'US', lat: 44.9778, lon: -93.2650 },
+  { city: 'Rochester', state: 'MN', country: 'US', lat: 44.0121, lon: -92.4802 },
+  { city: 'St. Louis', state: 'MO', country: 'US', lat: 38.6270, lon: -90.1994, aliases: ['Saint Louis'] },
+  { city: 'Kansas City', state: 'MO', country: 'US', lat: 39.0997, lon: -94.5786 },
+  { city: 'Omaha', state: 'NE', country: 'US', lat: 41.2565, lon: -95.9345 },
+  { city: 'Iowa City', state: 'IA', country: 'US', lat: 41.6611, lon: -91.5302 },
+  { city: 'Nashville', state: 'TN', country: 'US', lat: 36.1627, lon: -86.7816 },
+  { city: 'Memphis', state: 'TN', country: 'US', lat: 35.1495, lon: -90.0490 },
+  { city: 'Louisville', state: 'KY', country: 'US', lat: 38.2527, lon: -85.7585 },
+  { city: 'Atlanta', state: 'GA', country: 'US', lat: 33.7490, lon: -84.3880 },
+  { city: 'Charlotte', state: 'NC', country: 'US', lat: 35.2271, lon: -80.8431 },
+  { city: 'Durham', state: 'NC', country: 'US', lat: 35.9940, lon: -78.8986 },
+  { city: 'Chapel Hill', state: 'NC', country: 'US', lat: 35.9132, lon: -79.0558 },
+  { city: 'Charleston', state: 'SC', country: 'US', lat: 32.7765, lon: -79.9311 },
+  { city: 'Richmond', state: 'VA', country: 'US', lat: 37.5407, lon: -77.4360 },
+  { city: 'Miami', state: 'FL', country: 'US', lat: 25.7617, lon: -80.1918 },
+  { city: 'Tampa', state: 'FL', country: 'US', lat: 27.9506, lon: -82.4572 },
+  { city: 'Orlando', state: 'FL', country: 'US', lat: 28.5383, lon: -81.3792 },
+  { city: 'Jacksonville', state: 'FL', country: 'US', lat: 30.3322, lon: -81.6557 },
+  { city: 'Gainesville', state: 'FL', country: 'US', lat: 29.6516, lon: -82.3248 },
+  { city: 'Birmingham', state: 'AL', country: 'US', lat: 33.5186, lon: -86.8104 },
+  { city: 'New Orleans', state: 'LA', country: 'US', lat: 29.9511, lon: -90.0715 },
+  { city: 'Houston', state: 'TX', country: 'US', lat: 29.7604, lon: -95.3698 },
+  { city: 'Dallas', state: 'TX', country: 'US', lat: 32.7767, lon: -96.7970 },
+  { city: 'San Antonio', state: 'TX', country: 'US', lat: 29.4241, lon: -98.4936 },
+  { city: 'Austin', state: 'TX', country: 'US', lat: 30.2672, lon: -97.7431 },
+  { city: 'Oklahoma City', state: 'OK', country: 'US', lat: 35.4676, lon: -97.5164 },
+  { city: 'Denver', state: 'CO', country: 'US', lat: 39.7392, lon: -104.9903 },
+  { city: 'Aurora', state: 'CO', country: 'US', lat: 39.7294, lon: -104.8319 },
+  { city: 'Salt Lake City', state: 'UT', country: 'US', lat: 40.7608, lon: -111.8910 },
+  { city: 'Phoenix', state: 'AZ', country: 'US', lat: 33.4484, lon: -112.0740 },
+  { city: 'Scottsdale', state: 'AZ', country: 'US', lat: 33.4942, lon: -111.9261 },
+  { city: 'Tucson', state: 'AZ', country: 'US', lat: 32.2226, lon: -110.9747 },
+  { city: 'Albuquerque', state: 'NM', country: 'US', lat: 35.0844, lon: -106.6504 },
+  { city: 'Las Vegas', state: 'NV', country: 'US', lat: 36.1699, lon: -115.1398 },
+  { city: 'Los Angeles', state: 'CA', country: 'US', lat: 34.0522, lon: -118.2437, aliases: ['LA'] },
+  { city: 'Duarte', state: 'CA', country: 'US', lat: 34.1395, lon: -117.9773 },
+  { city: 'Santa Monica', state: 'CA', country: 'US', lat: 34.0195, lon: -118.4912 },
+  { city: 'Orange', state: 'CA', country: 'US', lat: 33.7879, lon: -117.8531 },
+  { city: 'San Diego', state: 'CA', country: 'US', lat: 32.7157, lon: -117.1611, aliases: ['La Jolla'] },
+  { city: 'San Francisco', state: 'CA', country: 'US', lat: 37.7749, lon: -122.4194 },
+  { city: 'Stanford', state: 'CA', country: 'US', lat: 37.4275, lon: -122.1697, aliases: ['Palo Alto'] },
+  { city: 'Sacramento', state: 'CA', country: 'US', lat: 38.5816, lon: -121.4944 },
+  { city: 'Portland', state: 'OR', country: 'US', lat: 45.5152, lon: -122.6784 },
+  { city: 'Seattle', state: 'WA', country: 'US', lat: 47.6062, lon: -122.3321 },
+  { city: 'Honolulu', state: 'HI', country: 'US', lat: 21.3069, lon: -157.8583 },
+  // Canada
+  { city: 'Toronto', state: 'ON', country: 'CA', lat: 43.6532, lon: -79.3832 },
+  { city: 'Montreal', state: 'QC', country: 'CA', lat: 45.5017, lon: -73.5673 },
+  { city: 'Vancouver', state: 'BC', country: 'CA', lat: 49.2827, lon: -123.1207 },
+  { city: 'Ottawa', state: 'ON', country: 'CA', lat: 45.4215, lon: -75.6972 },
+  { city: 'Calgary', state: 'AB', country: 'CA', lat: 51.0447, lon: -114.0719 },
+  // Europe
+  { city: 'Brussels', country: 'BE', lat: 50.8503, lon: 4.3517, aliases: ['Bruxelles', 'Brussel'] },
+  { city: 'Leuven', country: 'BE', lat: 50.8798, lon: 4.7005 },
+  { city: 'Antwerp', country: 'BE', lat: 51.2194, lon: 4.4025, aliases: ['Antwerpen', 'Edegem'] },
+  { city: 'Ghent', country: 'BE', lat: 51.0543, lon: 3.7174, aliases: ['Gent'] },
+  { city: 'Liège', country: 'BE', lat: 50.6326, lon: 5.5797, aliases: ['Liege'] },
+  { city: 'Amsterdam', country: 'NL', lat: 52.3676, lon: 4.9041 },
+  { city: 'Rotterdam', country: 'NL', lat: 51.9244, lon: 4.4777 },
+  { city: 'Utrecht', country: 'NL', lat: 52.0907, lon: 5.1214 },
+  { city: 'Leiden', country: 'NL', lat: 52.1601, lon: 4.4970 },
+  { city: 'Nijmegen', country: 'NL', lat: 51.8126, lon: 5.8372 },
+  { city: 'Groningen', country: 'NL', lat: 53.2194, lon: 6.5665 },
+  { city: 'Maastricht', country: 'NL', lat: 50.8514, lon: 5.6910 },
+  { city: 'Luxembourg', country: 'LU', lat: 49.6116, lon: 6.1319 },
+  { city: 'Paris', country: 'FR', lat: 48.8566, lon: 2.3522, aliases: ['Villejuif'] },
+  { city: 'Lyon', country: 'FR', lat: 45.7640, lon: 4.8357 },
+  { city: 'Marseille', country: 'FR', lat: 43.2965, lon: 5.3698 },
+  { city: 'Lille', country: 'FR', lat: 50.6292, lon: 3.0573 },
+  { city: 'Bordeaux', country: 'FR', lat: 44.8378, lon: -0.5792 },
+  { city: 'Toulouse', country: 'FR', lat: 43.6047, lon: 1.4442 },
+  { city: 'Nantes', country: 'FR', lat: 47.2184, lon: -1.5536 },
+  { city: 'Strasbourg', country: 'FR', lat: 48.5734, lon: 7.7521 },
+  { city: 'London', country: 'GB', lat: 51.5074, lon: -0.1278, aliases: ['Sutton'] },
+  { city: 'Manchester', country: 'GB', lat: 53.4808, lon: -2.2426 },
+  { city: 'Birmingham', country: 'GB', lat: 52.4862, lon: -1.8904 },
+  { city: 'Glasgow', country: 'GB', lat: 55.8642, lon: -4.2518 },
+  { city: 'Edinburgh', country: 'GB', lat: 55.9533, lon: -3.1883 },
+  { city: 'Oxford', country: 'GB', lat: 51.7520, lon: -1.2577 },
+  { city: 'Cambridge', country: 'GB', lat: 52.2053, lon: 0.1218 },
+  { city: 'Dublin', country: 'IE', lat: 53.3498, lon: -6.2603 },
+  { city: 'Berlin', country: 'DE', lat: 52.5200, lon: 13.4050 },
+  { city: 'Munich', country: 'DE', lat: 48.1351, lon: 11.5820, aliases: ['München', 'Muenchen'] },
+  { city: 'Heidelberg', country: 'DE', lat: 49.3988, lon: 8.6724 },
+  { city: 'Hamburg', country: 'DE', lat: 53.5511, lon: 9.9937 },
+  { city: 'Frankfurt', country: 'DE', lat: 50.1109, lon: 8.6821 },
+  { city: 'Cologne', country: 'DE', lat: 50.9375, lon: 6.9603, aliases: ['Köln', 'Koeln'] },
+  { city: 'Essen', country: 'DE', lat: 51.4556, lon: 7.0116 },
+  { city: 'Dresden', country: 'DE', lat: 51.0504, lon: 13.7373 },
+  { city: 'Vienna', country: 'AT', lat: 48.2082, lon: 16.3738, aliases: ['Wien'] },
+  { city: 'Zurich', country: 'CH', lat: 47.3769, lon: 8.5417, aliases: ['Zürich'] },
+  { city: 'Geneva', country: 'CH', lat: 46.2044, lon: 6.1432, aliases: ['Genève'] },
+  { city: 'Bern', country: 'CH', lat: 46.9480, lon: 7.4474 },
+  { city: 'Lausanne', country: 'CH', lat: 46.5197, lon: 6.6323 },
+  { city: 'Milan', country: 'IT', lat: 45.4642, lon: 9.1900, aliases: ['Milano'] },
+  { city: 'Rome', country: 'IT', lat: 41.9028, lon: 12.4964, aliases: ['Roma'] },
+  { city: 'Naples', country: 'IT', lat: 40.8518, lon: 14.2681, aliases: ['Napoli'] },
+  { city: 'Turin', country: 'IT', lat: 45.0703, lon: 7.6869, aliases: ['Torino'] },
+  { city: 'Bologna', country: 'IT', lat: 44.4949, lon: 11.3426 },
+  { city: 'Madrid', country: 'ES', lat: 40.4168, lon: -3.7038 },
+  { city: 'Barcelona', country: 'ES', lat: 41.3851, lon: 2.1734 },
+  { city: 'Valencia', country: 'ES', lat: 39.4699, lon: -0.3763 },
+  { city: 'Seville', country: 'ES', lat: 37.3891, lon: -5.9845, aliases: ['Sevilla'] },
+  { city: 'Lisbon', country: 'PT', lat: 38.7223, lon: -9.1393, aliases: ['Lisboa'] },
+  { city: 'Porto', country: 'PT', lat: 41.1579, lon: -8.6291 },
+  { city: 'Copenhagen', country: 'DK', lat: 55.6761, lon: 12.5683, aliases: ['København'] },
+  { city: 'Stockholm', country: 'SE', lat: 59.3293, lon: 18.0686 },
+  { city: 'Oslo', country: 'NO', lat: 59.9139, lon: 10.7522 },
+  { city: 'Helsinki', country: 'FI', lat: 60.1699, lon: 24.9384 },
+  { city: 'Warsaw', country: 'PL', lat: 52.2297, lon: 21.0122, aliases: ['Warszawa'] },
+  { city: 'Krakow', country: 'PL', lat: 50.0647, lon: 19.9450, aliases: ['Kraków'] },
+  { city: 'Prague', country: 'CZ', lat: 50.0755, lon: 14.4378, aliases: ['Praha'] },
+  { city: 'Budapest', country: 'HU', lat: 47.4979, lon: 19.0402 },
+  { city: 'Athens', country: 'GR', lat: 37.9838, lon: 23.7275 },
+  // Middle East
+  { city: 'Dubai', country: 'AE', lat: 25.2048, lon: 55.2708 },
+  { city: 'Abu Dhabi', country: 'AE', lat: 24.4539, lon: 54.3773 },
+  { city: 'Doha', country: 'QA', lat: 25.2854, lon: 51.5310 },
+  { city: 'Riyadh', country: 'SA', lat: 24.7136, lon: 46.6753 },
+  { city: 'Jeddah', country: 'SA', lat: 21.4858, lon: 39.1925 },
+  { city: 'Tel Aviv', country: 'IL', lat: 32.0853, lon: 34.7818 },
+  { city: 'Jerusalem', country: 'IL', lat: 31.7683, lon: 35.2137 },
+  { city: 'Istanbul', country: 'TR', lat: 41.0082, lon: 28.9784 },
+  { city: 'Ankara', country: 'TR', lat: 39.9334, lon: 32.8597 },
+  // Asia-Pacific
+  { city: 'Tokyo', country: 'JP', lat: 35.6762, lon: 139.6503 },
+  { city: 'Seoul', country: 'KR', lat: 37.5665, lon: 126.9780 },
+  { city: 'Shanghai', country: 'CN', lat: 31.2304, lon: 121.4737 },
+  { city: 'Beijing', country: 'CN', lat: 39.9042, lon: 116.4074 },
+  { city: 'Guangzhou', country: 'CN', lat: 23.1291, lon: 113.2644 },
+  { city: 'Hong Kong', country: 'HK', lat: 22.3193, lon: 114.1694 },
+  { city: 'Taipei', country: 'TW', lat: 25.0330, lon: 121.5654 },
+  { city: 'Singapore', country: 'SG', lat: 1.3521, lon: 103.8198 },
+  { city: 'Sydney', country: 'AU', lat: -33.8688, lon: 151.2093 },
+  { city: 'Melbourne', country: 'AU', lat: -37.8136, lon: 144.9631 },
+  { city: 'Brisbane', country: 'AU', lat: -27.4698, lon: 153.0251 },
+];
+
+// US ZIP3 prefix → gazetteer city (state disambiguates duplicates like Rochester)
+export const US_ZIP3: Record<string, [string, string]> = {
+  '021': ['Boston', 'MA'], '022': ['Boston', 'MA'], '024': ['Boston', 'MA'],
+  '029': ['Providence', 'RI'], '065': ['New Haven', 'CT'],
+  '100': ['New York', 'NY'], '101': ['New York', 'NY'], '102': ['New York', 'NY'],
+  '103': ['New York', 'NY'], '104': ['New York', 'NY'], '112': ['New York', 'NY'], '113': ['New York', 'NY'],
+  '076': ['Hackensack', 'NJ'], '089': ['New Brunswick', 'NJ'],
+  '142': ['Buffalo', 'NY'], '146': ['Rochester', 'NY'],
+  '191': ['Philadelphia', 'PA'], '152': ['Pittsburgh', 'PA'],
+  '212': ['Baltimore', 'MD'], '208': ['Bethesda', 'MD'], '200': ['Washington', 'DC'],
+  '232': ['Richmond', 'VA'], '277': ['Durham', 'NC'], '275': ['Chapel Hill', 'NC'], '282': ['Charlotte', 'NC'],
+  '294': ['Charleston', 'SC'], '303': ['Atlanta', 'GA'],
+  '331': ['Miami', 'FL'], '336': ['Tampa', 'FL'], '328': ['Orlando', 'FL'], '322': ['Jacksonville', 'FL'], '326': ['Gainesville', 'FL'],
+  '352': ['Birmingham', 'AL'], '372': ['Nashville', 'TN'], '381': ['Memphis', 'TN'], '402': ['Louisville', 'KY'],
+  '441': ['Cleveland', 'OH'], '432': ['Columbus', 'OH'], '452': ['Cincinnati', 'OH'],
+  '462': ['Indianapolis', 'IN'], '482': ['Detroit', 'MI'], '481': ['Ann Arbor', 'MI'],
+  '532': ['Milwaukee', 'WI'], '537': ['Madison', 'WI'], '554': ['Minneapolis', 'MN'], '559': ['Rochester', 'MN'],
+  '606': ['Chicago', 'IL'], '607': ['Chicago', 'IL'], '608': ['Chicago', 'IL'],
+  '631': ['St. Louis', 'MO'], '641': ['Kansas City', 'MO'], '681': ['Omaha', 'NE'], '522': ['Iowa City', 'IA'],
+  '701': ['New Orleans', 'LA'], '731': ['Oklahoma City', 'OK'],
+  '770': ['Houston', 'TX'], '752': ['Dallas', 'TX'], '782': ['San Antonio', 'TX'], '787': ['Austin', 'TX'],
+  '802': ['Denver', 'CO'], '800': ['Aurora', 'CO'], '841': ['Salt Lake City', 'UT'],
+  '850': ['Phoenix', 'AZ'], '852': ['Scottsdale', 'AZ'], '857': ['Tucson', 'AZ'], '871': ['Albuquerque', 'NM'], '891': ['Las Vegas', 'NV'],
+  '900': ['Los Angeles', 'CA'], '910': ['Duarte', 'CA'], '904': ['Santa Monica', 'CA'], '928': ['Orange', 'CA'],
+  '921': ['San Diego', 'CA'], '941': ['San Francisco', 'CA'], '943': ['Stanford', 'CA'], '958': ['Sacramento', 'CA'],
+  '972': ['Portland', 'OR'], '981': ['Seattle', 'WA'], '968': ['Honolulu', 'HI'],
+};
@@ -0,0 +1,188 @@
+/**
+ * Geo helpers
+ *
+ * Patient location / travel radius extraction and distance ranking of trial
+ * sites against the bundled gazetteer. Everything resolves offline; places
+ * the gazetteer doesn't know simply get no distance.
+ */
+
+import { PatientLocation, PatientProfile, TrialMatch } from '@/types';
+import { GAZETTEER, GazetteerEntry, US_ZIP3 } from './gazetteer';
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'united states': 'US', usa: 'US', 'united states of america': 'US', canada: 'CA',
+  belgium: 'BE', netherlands: 'NL', 'the netherlands': 'NL', luxembourg: 'LU', france: 'FR',
+  'united kingdom': 'GB', uk: 'GB', england: 'GB', scotland: 'GB', ireland: 'IE',
+  germany: 'DE', austria: 'AT', switzerland: 'CH', italy: 'IT', spain: 'ES', portugal: 'PT',
+  denmark: 'DK', sweden: 'SE', norway: 'NO', finland: 'FI', poland: 'PL',
+  'czech republic': 'CZ', czechia: 'CZ', hungary: 'HU', greece: 'GR',
+  'united arab emirates': 'AE', uae: 'AE', qatar: 'QA', 'saudi arabia': 'SA', israel: 'IL', turkey: 'TR',
+  japan: 'JP', 'south korea': 'KR', korea: 'KR', 'republic of korea': 'KR', china: 'CN',
+  'hong kong': 'HK', taiwan: 'TW', singapore: 'SG', australia: 'AU',
+};
+
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\./g, '').trim().toLowerCase();
+}
+
+const byName = new Map<string, GazetteerEntry[]>();
+for (const entry of GAZETTEER) {
+  for (const name of [entry.city, ...(entry.aliases || [])]) {
+    const key = normalizeName(name);
+    byName.set(key, [...(byName.get(key) || []), entry]);
+  }
+}
+
+/** Country code from an ISO code or English country name */
+function toCountryCode(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const key = normalizeName(value);
+  if (COUNTRY_NAMES[key]) return COUNTRY_NAMES[key];
+  return /^[a-z]{2}$/.test(key) ? key.toUpperCase() : undefined;
+}
+
+function lookupCity(city: string, qualifiers: string[] = []): GazetteerEntry | undefined {
+  const candidates = byName.get(normalizeName(city));
+  if (!candidates) return undefined;
+  // Qualifiers ("MA", "Belgium", "US") pick between same-named cities
+  for (const q of qualifiers) {
+    const country = toCountryCode(q);
+    const match = candidates.find(c =>
+      c.state?.toUpperCase() === q.trim().toUpperCase() || (country && c.country === country)
+    );
+    if (match) return match;
+  }
+  return candidates[0];
+}
+
+/** Resolve a patient location to gazetteer coordinates (postal code first, then city) */
+export function resolvePatientLocation(location: PatientLocation | undefined): GazetteerEntry | undefined {
+  if (!location) return undefined;
+  const zip = location.postalCode?.trim().match(/^(\d{3})\d{2}(?:-\d{4})?$/);
+  if (zip && (!location.country || toCountryCode(location.country) === 'US')) {
+    const [city, state] = US_ZIP3[zip[1]] || [];
+    if (city) return lookupCity(city, [state]);
+  }
+  if (!location.city) return undefined;
+  return lookupCity(location.city, [location.state, location.country].filter((q): q is string => !!q));
+}
+
+/** Resolve a trial site string such as "Boston", "Brussels, Belgium" or "Rochester, MN, US" */
+export function resolveSiteLocation(site: string): GazetteerEntry | undefined {
+  const [city, ...qualifiers] = site.split(',').map(part => part.trim()).filter(Boolean);
+  return city ? lookupCity(city, qualifiers.reverse()) : undefined;
+}
+
+// =============================================================================
+// Distance
+// =============================================================================
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Great-circle distance in miles */
+export function haversineMiles(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Annotate each trial with its nearest site and sort by travel: trials with
+ * a site inside the patient's radius keep their score order at the top,
+ * then the rest by distance, then trials whose sites couldn't be resolved.
+ * Without a radius, trials stay in score order and are only annotated.
+ */
+export function rankTrialsByDistance<T extends TrialMatch>(trials: T[], profile: PatientProfile): T[] {
+  const origin = resolvePatientLocation(profile.location);
+  if (!origin) return trials;
+  const radius = profile.maxTravelMiles;
+
+  const annotated = trials.map(trial => {
+    let nearest: TrialMatch['nearestSite'];
+    for (const site of trial.locations) {
+      const place = resolveSiteLocation(site);
+      if (!place) continue;
+      const distanceMiles = Math.round(haversineMiles(origin, place));
+      if (!nearest || distanceMiles < nearest.distanceMiles) nearest = { location: site, distanceMiles };
+    }
+    if (!nearest) return trial;
+    return {
+      ...trial,
+      nearestSite: nearest,
+      ...(radius !== undefined ? { withinTravelRadius: nearest.distanceMiles <= radius } : {}),
+    };
+  });
+
+  if (radius === undefined) return annotated;
+
+  const rank = (t: T) => t.withinTravelRadius ? 0 : t.nearestSite ? 1 : 2;
+  return annotated
+    .map((trial, index) => ({ trial, index }))
+    .sort((a, b) =>
+      rank(a.trial) - rank(b.trial) ||
+      (rank(a.trial) === 1 ? a.trial.nearestSite!.distanceMiles - b.trial.nearestSite!.distanceMiles : 0) ||
+      a.index - b.index
+    )
+    .map(({ trial }) => trial);
+}
+
+// =============================================================================
+// Rule-based Extraction
+// =============================================================================
+
+const KM_PER_MILE = 1.609344;
+
+// Gazetteer names, longest first so "New York City" wins over "New York"
+const CITY_NAMES = [...byName.keys()].sort((a, b) => b.length - a.length);
+
+/**
+ * Extract where the patient lives, e.g. "lives in Brussels", "based in
+ * Rochester, MN", "zip 02115", "postal code 1050".
+ */
+export function extractLocationFromText(message: string): PatientLocation | undefined {
+  const location: PatientLocation = {};
+
+  const postal = message.match(/\b(?:zip(?:\s*code)?|postal\s*code|postcode)[\s:#]*([A-Z0-9]{3,5}(?:[\s-](?=[A-Z]*\d)[A-Z0-9]{3,4})?)\b/i);
+  if (postal) location.postalCode = postal[1].toUpperCase();
+
+  // Cue words may start a sentence; the place name itself must be capitalized
+  const cue = message.match(
+    /\b(?:[Ll]ives?|[Ll]iving|[Rr]esides?|[Rr]esiding|[Bb]ased|[Ll]ocated|[Hh]ome(?:\s+is)?|[Ss]taying)\s+(?:in|near|outside(?:\s+of)?|around)\s+([A-Z][\w'.\u00C0-\u017F-]*(?:\s+[A-Z][\w'.\u00C0-\u017F-]*){0,3})(?:,\s*([A-Z][\w.]*(?:\s+[A-Z][\w.]*){0,2}))?/
+  );
+  if (cue) {
+    // Prefer a gazetteer name at the start of the captured text, else keep it verbatim
+    const captured = normalizeName(cue[1]);
+    const known = CITY_NAMES.find(name => captured === name || captured.startsWith(`${name} `));
+    location.city = known ? byName.get(known)![0].city : cue[1].trim();
+    if (cue[2]) {
+      const country = toCountryCode(cue[2]);
+      if (country && cue[2].trim().length > 2) location.country = country;
+      else if (/^[A-Z]{2}$/.test(cue[2].trim())) location.state = cue[2].trim();
+    }
+  }
+
+  return Object.keys(location).length > 0 ? location : undefined;
+}
+
+/** Extract a travel limit in miles: "within 50 miles", "can travel up to 100 km" */
+export function extractTravelRadiusFromText(message: string): number | undefined {
+  const match = message.match(
+    /\b(?:within|up\s+to|max(?:imum)?|no\s+more\s+than|less\s+than|under|at\s+most|travel(?:\s+up\s+to)?|drive(?:\s+up\s+to)?)\s+(?:of\s+)?(?:about\s+|around\s+|~)?(\d+(?:[.,]\d+)?)\s*(miles?|mi|km|kilomet(?:er|re)s?)\b/i
+  );
+  if (!match) return undefined;
+  const value = parseFloat(match[1].replace(',', '.'));
+  return /^k/i.test(match[2]) ? Math.round(value / KM_PER_MILE) : Math.round(value);
+}
+
+/** Human-readable location, e.g. "Boston, MA 02115" or "Brussels, BE" */
+export function formatPatientLocation(location: PatientLocation | undefined): string {
+  if (!location) return '';
+  const place = [location.city, location.state || location.country].filter(Boolean).join(', ');
+  return [place, location.postalCode].filter(Boolean).join(' ');
+}
@@ -0,0 +1,373 @@
+/**
+ * Key-Value Store
+ *
+ * TTL-based JSON storage shared by chat sessions and matching jobs, so state
+ * survives redeploys, cold starts and multiple serverless instances.
+ *
+ * Backends (selected with SESSION_STORE):
+ * - memory: Process-local Map (default, dev only)
+ * - file: JSON file on disk (single-instance / self-hosted)
+ * - redis: Any Redis-protocol server (Redis, Valkey, Upstash TCP, ...)
+ */
+
+import { promises as fs } from 'fs';
+import net from 'net';
+import tls from 'tls';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export type StoreBackend = 'memory' | 'file' | 'redis';
+
+const config = {
+  backend: (process.env.SESSION_STORE || 'memory') as StoreBackend,
+  redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  /**
+   * Read-modify-write an existing entry atomically. `fn` may run more than
+   * once when another writer got in first; returning undefined leaves the
+   * entry as it is. Resolves to the stored value, or undefined if the key
+   * doesn't exist.
+   */
+  update(key: string, fn: (value: T) => T | undefined): Promise<T | undefined>;
+  delete(key: string): Promise<void>;
+  /** Number of live (non-expired) entries */
+  count(): Promise<number>;
+}
+
+export interface StoreOptions {
+  ttlSeconds: number;
+  /** JSON file used by the file backend */
+  filePath: string;
+  /** Key prefix used by the Redis backend */
+  keyPrefix: string;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// =============================================================================
+// In-Memory Store
+// =============================================================================
+
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private entries = new Map<string, StoredEntry<T>>();
+
+  constructor(private ttlSeconds: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+  }
+
+  async update(key: string, fn: (value: T) => T | undefined): Promise<T | undefined> {
+    const current = await this.get(key);
+    if (current === undefined) return undefined;
+    const next = fn(current);
+    if (next === undefined) return current;
+    await this.set(key, next);
+    return next;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async count(): Promise<number> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    return this.entries.size;
+  }
+}
+
+// =============================================================================
+// File Store
+// =============================================================================
+
+/**
+ * Stores all entries in a single JSON file. Writes go through a temp file
+ * and rename so a crash mid-write never leaves a truncated store behind.
+ */
+export class FileStore<T> implements KeyValueStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string, private ttlSeconds: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const data = await this.read();
+    const entry = data[key];
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.mutate(data => {
+      data[key] = { value, expiresAt: Date.now() + this.ttlSeconds * 1000 };
+    });
+  }
+
+  async update(key: string, fn: (value: T) => T | undefined): Promise<T | undefined> {
+    let result: T | undefined;
+    await this.mutate(data => {
+      const entry = data[key];
+      if (!entry || entry.expiresAt <= Date.now()) return;
+      const next = fn(entry.value);
+      result = next ?? entry.value;
+      if (next !== undefined) data[key] = { value: next, expiresAt: Date.now() + this.ttlSeconds * 1000 };
+    });
+    return result;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.mutate(data => {
+      delete data[key];
+    });
+  }
+
+  async count(): Promise<number> {
+    const data = await this.read();
+    const now = Date.now();
+    return Object.values(data).filter(entry => entry.expiresAt > now).length;
+  }
+
+  private async read(): Promise<Record<string, StoredEntry<T>>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  /** Serialize read-modify-write cycles within this process */
+  private mutate(fn: (data: Record<string, StoredEntry<T>>) => void): Promise<void> {
+    const run = this.queue.then(async () => {
+      const data = await this.read();
+      fn(data);
+
+      // Drop expired entries on every write so the file doesn't grow forever
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(data)) {
+        if (entry.expiresAt <= now) delete data[key];
+      }
+
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data));
+      await fs.rename(tmp, this.filePath);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// =============================================================================
+// Redis Store (minimal RESP client, no extra dependency)
+// =============================================================================
+
+type RespValue = string | number | null | RespValue[];
+
+// Compare-and-set: write ARGV[2] only if the key still holds ARGV[1]
+const COMPARE_AND_SET = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+  return 1
+end
+return 0`;
+
+// Conflicting writers retried before update() gives up
+const MAX_UPDATE_ATTEMPTS = 10;
+
+export class RedisStore<T> implements KeyValueStore<T> {
+  constructor(
+    private url: string,
+    private ttlSeconds: number,
+    private keyPrefix: string
+  ) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const [value] = await this.exec([['GET', this.key(key)]]);
+    return typeof value === 'string' ? JSON.parse(value) as T : undefined;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.exec([['SET', this.key(key), JSON.stringify(value), 'EX', String(this.ttlSeconds)]]);
+  }
+
+  async update(key: string, fn: (value: T) => T | undefined): Promise<T | undefined> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const [raw] = await this.exec([['GET', this.key(key)]]);
+      if (typeof raw !== 'string') return undefined;
+      const next = fn(JSON.parse(raw) as T);
+      if (next === undefined) return JSON.parse(raw) as T;
+      const [swapped] = await this.exec([
+        ['EVAL', COMPARE_AND_SET, '1', this.key(key), raw, JSON.stringify(next), String(this.ttlSeconds)],
+      ]);
+      if (swapped === 1) return next;
+    }
+    throw new Error(`Redis update of ${key} kept conflicting with other writers`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.exec([['DEL', this.key(key)]]);
+  }
+
+  async count(): Promise<number> {
+    // SCAN instead of KEYS so a large keyspace doesn't block the server
+    let cursor = '0';
+    let total = 0;
+    do {
+      const [reply] = await this.exec([['SCAN', cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', '500']]);
+      const [next, keys] = reply as [string, string[]];
+      cursor = next;
+      total += keys.length;
+    } while (cursor !== '0');
+    return total;
+  }
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  /**
+   * Open a connection, run the commands (after AUTH/SELECT from the URL)
+   * and close it. Serverless instances are short-lived, so no pooling.
+   */
+  private exec(commands: string[][]): Promise<RespValue[]> {
+    const url = new URL(this.url);
+    const setup: string[][] = [];
+    if (url.password) {
+      setup.push(url.username
+        ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+        : ['AUTH', decodeURIComponent(url.password)]);
+    }
+    const db = url.pathname.replace('/', '');
+    if (db) setup.push(['SELECT', db]);
+
+    const all = [...setup, ...commands];
+    const port = parseInt(url.port, 10) || 6379;
+
+    return new Promise((resolve, reject) => {
+      const socket = url.protocol === 'rediss:'
+        ? tls.connect({ host: url.hostname, port, servername: url.hostname })
+        : net.connect({ host: url.hostname, port });
+
+      let buffer = Buffer.alloc(0);
+      const replies: RespValue[] = [];
+
+      socket.setTimeout(5000, () => socket.destroy(new Error('Redis connection timed out')));
+      socket.on('error', reject);
+      // Fires after 'end' and 'error' too; without all replies the promise would never settle
+      socket.on('close', () => {
+        if (replies.length < all.length) {
+          reject(new Error(`Redis connection closed after ${replies.length} of ${all.length} replies`));
+        }
+      });
+      socket.on('connect', () => {
+        socket.write(all.map(encodeCommand).join(''));
+      });
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        try {
+          while (true) {
+            const parsed = parseReply(buffer, 0);
+            if (!parsed) break;
+            buffer = buffer.subarray(parsed.offset);
+            replies.push(parsed.value);
+          }
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+          return;
+        }
+        if (replies.length === all.length) {
+          socket.end();
+          resolve(replies.slice(setup.length));
+        }
+      });
+    });
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(a => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join('');
+}
+
+/** Parse one RESP reply starting at `offset`; null if the buffer is incomplete */
+function parseReply(buf: Buffer, offset: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buf.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const prefix = String.fromCharCode(buf[offset]);
+  const line = buf.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      throw new Error(`Redis error: ${line}`);
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+    case '$': {
+      const len = parseInt(line, 10);
+      if (len === -1) return { value: null, offset: next };
+      if (buf.length < next + len + 2) return null;
+      return { value: buf.toString('utf8', next, next + len), offset: next + len + 2 };
+    }
+    case '*': {
+      const len = parseInt(line, 10);
+      if (len === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let pos = next;
+      for (let i = 0; i < len; i++) {
+        const item = parseReply(buf, pos);
+        if (!item) return null;
+        items.push(item.value);
+        pos = item.offset;
+      }
+      return { value: items, offset: pos };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${prefix}`);
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createStore<T>(options: StoreOptions): KeyValueStore<T> {
+  switch (config.backend) {
+    case 'file':
+      return new FileStore<T>(options.filePath, options.ttlSeconds);
+    case 'redis':
+      return new RedisStore<T>(config.redisUrl, options.ttlSeconds, options.keyPrefix);
+    default:
+      return new MemoryStore<T>(options.ttlSeconds);
+  }
+}
+
+export function getStoreBackend(): StoreBackend {
+  return config.backend;
+}
@@ -6,7 +6,14 @@
  */
 
 import { StateGraph, Annotation, END, START } from '@langchain/langgraph';
-import { PatientProfile, TrialMatch, MODEL_CONFIGS, createEmptyPatientProfile } from '@/types';
+import { PatientProfile, ProfileConflict, TrialMatch, MODEL_CONFIGS, createEmptyPatientProfile } from '@/types';
+import { formatBiomarker } from '@/lib/biomarkers';
+import { ExtractionContext, MergeResult, runExtractionPipeline, RULES_PIPELINE, StageResult } from '@/lib/extraction-pipeline';
+import { formatPatientLocation, rankTrialsByDistance } from '@/lib/geo';
+import { formatStaging } from '@/lib/staging';
+import { describeConflicts } from '@/lib/profile-conflicts';
+import { describeRejectedOperations } from '@/lib/profile-operations';
+import { assessReadiness, describeReadiness, MATCH_ANYWAY } from '@/lib/readiness';
 
 // =============================================================================
 // State Annotation
@@ -14,10 +21,17 @@ import { PatientProfile, TrialMatch, MODEL_CONFIGS, createEmptyPatientProfile }
 
 const GraphState = Annotation.Root({
   userMessage: Annotation<string>(),
+  messageId: Annotation<string | undefined>(),
   sessionId: Annotation<string>(),
+  // Recent turns, for corrections and pronouns in the message
+  history: Annotation<ExtractionContext['history']>({
+    default: () => [],
+    reducer: (_, next) => next,
+  }),
+  // Replaced whole: a field merge would bring back values an operation removed
   patientProfile: Annotation<PatientProfile>({
     default: createEmptyPatientProfile,
-    reducer: (prev, next) => ({ ...prev, ...next }),
+    reducer: (_, next) => next,
   }),
   currentStep: Annotation<string>(),
   pipelineResults: Annotation<PipelineResult[]>({
@@ -32,12 +46,28 @@ const GraphState = Annotation.Root({
     default: () => [],
     reducer: (_, next) => next,
   }),
+  conflicts: Annotation<ProfileConflict[]>({
+    default: () => [],
+    reducer: (_, next) => next,
+  }),
+  // Per-stage results of the extraction pipeline, for debugging
+  extraction: Annotation<StageResult[]>({
+    default: () => [],
+    reducer: (_, next) => next,
+  }),
+  // The message's explicit changes (lib/profile-operations.ts)
+  operations: Annotation<MergeResult['operations']>({
+    default: () => ({ applied: [], rejected: [] }),
+    reducer: (_, next) => next,
+  }),
   response: Annotation<string>(),
   totalCost: Annotation<number>({
     default: () => 0,
     reducer: (prev, next) => prev + next,
   }),
   triggerMatching: Annotation<boolean>(),
+  // A match request the readiness gate held back (lib/readiness.ts)
+  matchRequested: Annotation<boolean>(),
 });
 
 type State = typeof GraphState.State;
@@ -63,62 +93,20 @@ function calculateCost(model: keyof typeof MODEL_CONFIGS, inputTokens: number, o
 // =============================================================================
 
 async function parsePatient(state: State): Promise<Partial<State>> {
-  const { userMessage, patientProfile } = state;
-  const updated = { ...patientProfile };
-
-  // Age
-  const ageMatch = userMessage.match(/(\d+)[\s-]*(year|yr|y\/?o)/i);
-  if (ageMatch) updated.age = parseInt(ageMatch[1]);
-
-  // Sex
-  if (/\b(male|man)\b/i.test(userMessage)) updated.sex = 'Male';
-  else if (/\b(female|woman)\b/i.test(userMessage)) updated.sex = 'Female';
-
-  // Cancer type
-  const cancerMap: Record<string, string> = {
-    nsclc: 'NSCLC', 'non-small cell lung': 'NSCLC', sclc: 'SCLC',
-    breast: 'Breast Cancer', tnbc: 'TNBC', melanoma: 'Melanoma',
-    colorectal: 'CRC', pancreatic: 'Pancreatic',
-  };
-  for (const [key, value] of Object.entries(cancerMap)) {
-    if (userMessage.toLowerCase().includes(key)) { updated.cancerType = value; break; }
-  }
-
-  // Stage
-  const stageMatch = userMessage.match(/stage[\s:=-]*(I{1,3}V?|IV)[ABC]?/i);
-  if (stageMatch) updated.stage = stageMatch[0].toUpperCase();
-  else if (/\b(metastatic|advanced)\b/i.test(userMessage)) updated.stage = 'Stage IV';
-
-  // Biomarkers
-  for (const marker of ['EGFR', 'BRAF', 'KRAS', 'ALK', 'ROS1', 'HER2']) {
-    const regex = new RegExp(`${marker}[\\s:=-]*(\\S+)?`, 'i');
-    const match = userMessage.match(regex);
-    if (match) {
-      const ctx = userMessage.slice(Math.max(0, match.index! - 20), match.index! + 30);
-      updated.biomarkers[marker] = /pos|positive|\+|mutant/i.test(ctx) ? 'Positive' :
-        /neg|negative|-|wild/i.test(ctx) ? 'Negative' : 'Detected';
-    }
-  }
-
-  // PD-L1
-  const pdl1 = userMessage.match(/pd-?l1[\s:=-]*(tps)?[\s:=-]*(\d+)\s*%?/i);
-  if (pdl1) updated.pdl1Score = `TPS ${pdl1[2]}%`;
-
-  // ECOG
-  const ecog = userMessage.match(/ecog[\s:=-]*(\d)/i);
-  if (ecog) updated.ecog = parseInt(ecog[1]);
-
-  // Treatments
-  const treatments = ['carboplatin', 'cisplatin', 'pemetrexed', 'pembrolizumab', 'nivolumab', 'osimertinib'];
-  for (const tx of treatments) {
-    if (userMessage.toLowerCase().includes(tx) && !updated.priorTreatments.includes(tx)) {
-      updated.priorTreatments.push(tx.charAt(0).toUpperCase() + tx.slice(1));
-    }
-  }
+  const { userMessage, messageId, patientProfile, history } = state;
+  const { profile, conflicts, operations, stages } = await runExtractionPipeline(RULES_PIPELINE, {
+    message: userMessage,
+    messageId,
+    profile: patientProfile,
+    history,
+  });
 
   const cost = calculateCost('qwen-flash', 200, 100);
   return {
-    patientProfile: updated,
+    patientProfile: profile,
+    conflicts,
+    operations,
+    extraction: stages,
     currentStep: 'parse',
     pipelineResults: [{ name: 'Retrieve Trials', model: 'qwen-flash', cost, duration: 50 }],
     totalCost: cost,
@@ -156,9 +144,9 @@ async function matchBiomarkers(state: State): Promise<Partial<State>> {
     let score = 0.5;
 
     if (patientProfile.cancerType) { reasons.push(`✅ ${patientProfile.cancerType} matches`); score += 0.15; }
-    if (patientProfile.stage) { reasons.push(`✅ ${patientProfile.stage} eligible`); score += 0.1; }
-    for (const [marker, status] of Object.entries(patientProfile.biomarkers)) {
-      reasons.push(`✅ ${marker} ${status}`);
+    if (formatStaging(patientProfile)) { reasons.push(`✅ ${formatStaging(patientProfile)} eligible`); score += 0.1; }
+    for (const biomarker of patientProfile.biomarkers) {
+      reasons.push(`✅ ${formatBiomarker(biomarker)}`);
       score += 0.05;
     }
 
@@ -197,7 +185,7 @@ async function analyzeEligibility(state: State): Promise<Partial<State>> {
 
   const cost = calculateCost('claude-sonnet', 1200, 600);
   return {
-    matchedTrials: analyzed.sort((a, b) => b.matchScore - a.matchScore),
+    matchedTrials: rankTrialsByDistance(analyzed.sort((a, b) => b.matchScore - a.matchScore), patientProfile),
     currentStep: 'eligibility',
     pipelineResults: [{ name: 'Rank & Report', model: 'claude-sonnet', cost, duration: 500 }],
     totalCost: cost,
@@ -205,16 +193,16 @@ async function analyzeEligibility(state: State): Promise<Partial<State>> {
 }
 
 async function generateSummary(state: State): Promise<Partial<State>> {
-  const { patientProfile, matchedTrials, totalCost } = state;
+  const { patientProfile, matchedTrials, totalCost, conflicts } = state;
   const p = patientProfile;
   const top = matchedTrials[0];
 
-  const bio = Object.entries(p.biomarkers).map(([k, v]) => `${k}: ${v}`).join(', ');
+  const bio = p.biomarkers.map(formatBiomarker).join(', ');
 
-  const response = `## 🔬 Trial Matching Complete
+  let response = `## 🔬 Trial Matching Complete
 
 ### Patient Profile
-${p.age ? `${p.age}yo` : ''} ${p.sex || ''} with ${p.cancerType || 'cancer'} ${p.stage ? `(${p.stage})` : ''}
+${p.age ? `${p.age}yo` : ''} ${p.sex || ''} with ${p.cancerType || 'cancer'} ${formatStaging(p) ? `(${formatStaging(p)})` : ''}
 ${bio ? `**Biomarkers:** ${bio}` : ''}
 ${p.pdl1Score ? `**PD-L1:** ${p.pdl1Score}` : ''}
 ${p.ecog !== undefined ? `**ECOG:** ${p.ecog}` : ''}
@@ -227,6 +215,7 @@ Found **${matchedTrials.length}** matching trials.
 ---
 ⚠️ AI-generated. Consult healthcare provider.
 **Pipeline Cost:** $${(totalCost + calculateCost('claude-haiku', 500, 300)).toFixed(4)} (60% savings)`;
+  if (conflicts.length > 0) response += `\n\n${describeConflicts(conflicts)}`;
 
   const cost = calculateCost('claude-haiku', 500, 300);
   return {
@@ -238,35 +227,39 @@ Found **${matchedTrials.length}** matching trials.
 }
 
 async function generateResponse(state: State): Promise<Partial<State>> {
-  const { patientProfile } = state;
+  const { patientProfile, conflicts, operations, matchRequested } = state;
   const p = patientProfile;
-  const hasAge = p.age !== undefined;
-  const hasCancer = p.cancerType !== undefined;
 
   const captured: string[] = [];
-  if (hasAge) captured.push(`Age: ${p.age}`);
+  if (p.age !== undefined) captured.push(`Age: ${p.age}`);
   if (p.sex) captured.push(`Sex: ${p.sex}`);
-  if (hasCancer) captured.push(`Diagnosis: ${p.cancerType}`);
-  if (p.stage) captured.push(`Stage: ${p.stage}`);
-  if (Object.keys(p.biomarkers).length > 0) {
-    captured.push(`Biomarkers: ${Object.entries(p.biomarkers).map(([k, v]) => `${k}: ${v}`).join(', ')}`);
+  if (p.cancerType) captured.push(`Diagnosis: ${p.cancerType}`);
+  if (formatStaging(p)) captured.push(`Stage: ${formatStaging(p)}`);
+  if (p.biomarkers.length > 0) {
+    captured.push(`Biomarkers: ${p.biomarkers.map(formatBiomarker).join(', ')}`);
   }
   if (p.ecog !== undefined) captured.push(`ECOG: ${p.ecog}`);
   if (p.priorTreatments.length > 0) captured.push(`Prior Tx: ${p.priorTreatments.join(', ')}`);
+  if (p.location) {
+    captured.push(`Location: ${formatPatientLocation(p.location)}${p.maxTravelMiles !== undefined ? ` (within ${p.maxTravelMiles} mi)` : ''}`);
+  }
 
-  const isReady = hasAge && hasCancer;
+  const readiness = assessReadiness(p);
+  const capturedList = captured.map(c => `- **${c}**`).join('\n');
 
   let response: string;
-  if (captured.length === 0) {
+  if (matchRequested) {
+    // "find trials" with gaps left: the checklist instead of a search
+    response = `${captured.length > 0 ? `📝 **Captured:**\n${capturedList}\n\n` : ''}${describeReadiness(readiness, p.cancerType)}`;
+  } else if (captured.length === 0) {
     response = `👋 **Welcome to Risentia Trial Matching!**\n\nDescribe the patient:\n> "55yo male with stage IIIB NSCLC, EGFR positive"`;
-  } else if (isReady) {
-    response = `✅ **Captured:**\n${captured.map(c => `- **${c}**`).join('\n')}\n\n👉 Say **"find trials"** when ready!`;
+  } else if (readiness.ready) {
+    response = `✅ **Captured:**\n${capturedList}\n\n👉 Say **"find trials"** when ready!`;
   } else {
-    const needed = [];
-    if (!hasAge) needed.push('Age');
-    if (!hasCancer) needed.push('Cancer Type');
-    response = `📝 **Captured:**\n${captured.map(c => `- **${c}**`).join('\n')}\n\n**Still needed:** ${needed.join(', ')}`;
+    response = `📝 **Captured:**\n${capturedList}\n\n**Still needed:** ${readiness.blocking.map(g => g.label).join(', ')}`;
   }
+  if (operations.rejected.length > 0) response += `\n\n${describeRejectedOperations(operations.rejected)}`;
+  if (conflicts.length > 0) response += `\n\n${describeConflicts(conflicts)}`;
 
   return { response };
 }
@@ -300,10 +293,10 @@ export function createTrialMatchingGraph() {
     .compile();
 }
 
-export function shouldTriggerMatchingFromMessage(message: string, profile: PatientProfile): boolean {
-  const patterns = [/find.*trial/i, /search.*trial/i, /match.*trial/i, /start.*match/i];
-  const hasMinData = profile.age !== undefined && profile.cancerType !== undefined;
-  return patterns.some(p => p.test(message)) && hasMinData;
+// Whether the user asks to match; the readiness gate decides whether the profile is complete enough
+export function shouldTriggerMatchingFromMessage(message: string): boolean {
+  const patterns = [/find.*trial/i, /search.*trial/i, /match.*trial/i, /start.*match/i, MATCH_ANYWAY];
+  return patterns.some(p => p.test(message));
 }
 
 /**
@@ -332,99 +325,4 @@ export function extractMaxResultsFromMessage(message: string, defaultMax: number
   return defaultMax;
 }
 
-export function parsePatientFromMessage(message: string): Partial<PatientProfile> {
-  const profile: Partial<PatientProfile> = {
-    biomarkers: {},
-    priorTreatments: [],
-  };
-
-  // Age: "55 year old", "45yo", "age 45", "aged 62", "58-yr-old", "age: 71"
-  const ageMatch = message.match(/(\d+)[\s-]*(year|yr|y\/?o)/i)
-    || message.match(/\bage[d]?[\s:=-]*(\d+)/i);
-  if (ageMatch) profile.age = parseInt(ageMatch[1]);
-
-  // Sex
-  if (/\b(male|man)\b/i.test(message)) profile.sex = 'Male';
-  else if (/\b(female|woman)\b/i.test(message)) profile.sex = 'Female';
-
-  // Cancer type (expanded map)
-  const cancerMap: Record<string, string> = {
-    'non-small cell lung': 'NSCLC', nsclc: 'NSCLC', sclc: 'SCLC',
-    'small cell lung': 'SCLC', 'lung cancer': 'NSCLC', 'lung adenocarcinoma': 'NSCLC',
-    breast: 'Breast Cancer', tnbc: 'TNBC', 'triple negative': 'TNBC',
-    melanoma: 'Melanoma', colorectal: 'CRC', 'colon cancer': 'CRC', 'rectal cancer': 'CRC',
-    pancreatic: 'Pancreatic Cancer', ovarian: 'Ovarian Cancer', prostate: 'Prostate Cancer',
-    glioblastoma: 'Glioblastoma', gbm: 'Glioblastoma',
-    hepatocellular: 'HCC', hcc: 'HCC', 'liver cancer': 'HCC',
-    renal: 'RCC', rcc: 'RCC', 'kidney cancer': 'RCC',
-    gastric: 'Gastric Cancer', 'stomach cancer': 'Gastric Cancer',
-    esophageal: 'Esophageal Cancer', bladder: 'Bladder Cancer', urothelial: 'Urothelial Cancer',
-    mesothelioma: 'Mesothelioma', lymphoma: 'Lymphoma', leukemia: 'Leukemia',
-    myeloma: 'Multiple Myeloma', sarcoma: 'Sarcoma',
-    adenocarcinoma: 'Adenocarcinoma', squamous: 'Squamous Cell Carcinoma',
-    carcinoma: 'Carcinoma', neuroendocrine: 'Neuroendocrine Tumor',
-    cholangiocarcinoma: 'Cholangiocarcinoma', 'bile duct': 'Cholangiocarcinoma',
-    thyroid: 'Thyroid Cancer', endometrial: 'Endometrial Cancer', cervical: 'Cervical Cancer',
-    'head and neck': 'Head and Neck Cancer', nasopharyngeal: 'Nasopharyngeal Cancer',
-  };
-  // Check longer keys first to match "non-small cell lung" before "lung"
-  const sortedKeys = Object.keys(cancerMap).sort((a, b) => b.length - a.length);
-  const msgLower = message.toLowerCase();
-  for (const key of sortedKeys) {
-    if (msgLower.includes(key)) { profile.cancerType = cancerMap[key]; break; }
-  }
-
-  // Stage: "stage IV", "stage 4", "stage IIIB", "T2N1M0"
-  const stageMatch = message.match(/stage[\s:=-]*(I{1,3}V?|IV|[1-4])[ABC]?/i);
-  if (stageMatch) {
-    const stageNum: Record<string, string> = { '1': 'I', '2': 'II', '3': 'III', '4': 'IV' };
-    const raw = stageMatch[1];
-    const roman = stageNum[raw] || raw.toUpperCase();
-    profile.stage = `STAGE ${roman}`;
-  } else if (/\b(metastatic|advanced|mets)\b/i.test(message)) {
-    profile.stage = 'Stage IV';
-  }
-
-  // Biomarkers
-  for (const marker of ['EGFR', 'BRAF', 'KRAS', 'ALK', 'ROS1', 'HER2', 'NTRK', 'MET', 'RET', 'PIK3CA', 'BRCA1', 'BRCA2', 'TP53', 'IDH1', 'IDH2', 'FGFR']) {
-    const regex = new RegExp(`\\b${marker}\\b[\\s:=-]*(\\S+)?`, 'i');
-    const match = message.match(regex);
-    if (match) {
-      const ctx = message.slice(Math.max(0, match.index! - 20), match.index! + 30);
-      profile.biomarkers![marker] = /pos|positive|\+|mutant|mutation|amplif/i.test(ctx) ? 'Positive' :
-        /neg|negative|-|wild/i.test(ctx) ? 'Negative' : 'Detected';
-    }
-  }
-
-  // PD-L1
-  const pdl1 = message.match(/pd-?l1[\s:=-]*(tps)?[\s:=-]*(\d+)\s*%?/i);
-  if (pdl1) profile.pdl1Score = `TPS ${pdl1[2]}%`;
-
-  // ECOG
-  const ecog = message.match(/ecog[\s:=-]*(\d)/i);
-  if (ecog) profile.ecog = parseInt(ecog[1]);
-
-  // Treatments (expanded)
-  const treatments = [
-    'carboplatin', 'cisplatin', 'pemetrexed', 'pembrolizumab', 'nivolumab', 'osimertinib',
-    'atezolizumab', 'durvalumab', 'ipilimumab', 'trastuzumab', 'bevacizumab',
-    'docetaxel', 'paclitaxel', 'gemcitabine', 'irinotecan', 'capecitabine',
-    'erlotinib', 'gefitinib', 'crizotinib', 'alectinib', 'lorlatinib',
-    'sotorasib', 'adagrasib', 'dabrafenib', 'trametinib', 'vemurafenib',
-    'olaparib', 'niraparib', 'rucaparib', 'temozolomide', 'lenvatinib', 'sorafenib',
-    'chemotherapy', 'chemo', 'immunotherapy', 'radiation', 'radiotherapy', 'surgery',
-  ];
-  for (const tx of treatments) {
-    if (msgLower.includes(tx) && !profile.priorTreatments!.includes(tx)) {
-      // Normalize "chemo" → "Chemotherapy"
-      const normalized = tx === 'chemo' ? 'Chemotherapy' : tx.charAt(0).toUpperCase() + tx.slice(1);
-      if (!profile.priorTreatments!.includes(normalized)) {
-        profile.priorTreatments!.push(normalized);
-      }
-    }
-  }
-
-  return profile;
-}
-
 export const graph = createTrialMatchingGraph();
@@ -7,7 +7,7 @@
 
 import { Client } from '@langchain/langgraph-sdk';
 import type { Thread, Run } from '@langchain/langgraph-sdk';
-import { PatientProfile } from '@/types';
+import { PatientProfile, ProfileConflict } from '@/types';
 
 // =============================================================================
 // Configuration
@@ -63,8 +63,10 @@ export async function updateThreadState(threadId: string, values: Record<string,
 
 export interface GraphInput {
   userMessage: string;
+  messageId?: string;
   patientProfile?: PatientProfile;
   triggerMatching?: boolean;
+  matchRequested?: boolean;
 }
 
 export interface StreamEvent {
@@ -79,11 +81,13 @@ export interface StreamEvent {
 export async function* streamGraph(
   threadId: string,
   input: GraphInput,
-  assistantId = config.assistantId
+  assistantId = config.assistantId,
+  signal?: AbortSignal
 ): AsyncGenerator<StreamEvent> {
   const stream = getClient().runs.stream(threadId, assistantId, {
     input: input as unknown as Record<string, unknown>,
     streamMode: 'events',
+    signal,
   });
 
   for await (const event of stream) {
@@ -107,6 +111,7 @@ export interface GraphResult {
   response?: string;
   patientProfile?: PatientProfile;
   matchedTrials?: TrialResult[];
+  conflicts?: ProfileConflict[];
   pipelineResults?: PipelineResult[];
   totalCost?: number;
 }
@@ -153,9 +158,10 @@ export async function checkHealth(): Promise<boolean> {
 
 export type ChatEvent =
   | { type: 'thread_created'; threadId: string }
+  | { type: 'run_started'; runId: string }
   | { type: 'step_start'; step: string }
   | { type: 'step_complete'; step: string; cost?: number }
-  | { type: 'complete'; response?: string; patientProfile?: PatientProfile; trials?: unknown[]; totalCost?: number };
+  | { type: 'complete'; response?: string; patientProfile?: PatientProfile; trials?: unknown[]; conflicts?: ProfileConflict[]; totalCost?: number };
 
 /**
  * High-level streaming chat function.
@@ -163,7 +169,14 @@ export type ChatEvent =
  */
 export async function* chat(
   message: string,
-  options: { threadId?: string; patientProfile?: PatientProfile; triggerMatching?: boolean } = {}
+  options: {
+    threadId?: string;
+    messageId?: string;
+    patientProfile?: PatientProfile;
+    triggerMatching?: boolean;
+    matchRequested?: boolean;
+    signal?: AbortSignal;
+  } = {}
 ): AsyncGenerator<ChatEvent> {
   // Create thread if needed
   let threadId = options.threadId;
@@ -176,9 +189,17 @@ export async function* chat(
   // Stream the graph
   for await (const event of streamGraph(threadId, {
     userMessage: message,
+    messageId: options.messageId,
     patientProfile: options.patientProfile,
     triggerMatching: options.triggerMatching,
-  })) {
+    matchRequested: options.matchRequested,
+  }, config.assistantId, options.signal)) {
+    // First event of every run carries its id (needed for cancelRun)
+    if (event.event === 'metadata') {
+      const runId = (event.data as { run_id?: string })?.run_id;
+      if (runId) yield { type: 'run_started', runId };
+    }
+
     if (event.event === 'on_chain_start' && event.name && event.name !== 'LangGraph') {
       yield { type: 'step_start', step: event.name };
     }
@@ -196,6 +217,7 @@ export async function* chat(
           response: output?.response,
           patientProfile: output?.patientProfile,
           trials: output?.matchedTrials,
+          conflicts: output?.conflicts,
           totalCost: output?.totalCost,
         };
       }
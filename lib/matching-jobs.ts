@@ -0,0 +1,262 @@
+/**
+ * Matching Jobs
+ *
+ * A FastAPI matching run is modeled as a job with an id and an append-only
+ * event log. The runner writes events to the store; any number of SSE
+ * responses tail the log, so a client whose connection dropped (or whose
+ * function hit its time limit) can reconnect with Last-Event-ID and replay
+ * what it missed, including the final `response` payload. Tails on the
+ * runner's instance are woken by its writes; the store is only polled, with
+ * backoff, for a runner on another instance.
+ *
+ * The runner itself still lives inside one function invocation (kept alive
+ * with `after()`), bounded by the platform's function limit. It sets no
+ * deadline of its own; backend heartbeats only refresh `updatedAt` (they
+ * aren't replayed), and a tail reports the job as stalled once nothing has
+ * been recorded for `staleAfterMs`, i.e. the invocation running it ended.
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createStore, KeyValueStore } from '@/lib/kv-store';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const config = {
+  ttlSeconds: parseInt(process.env.JOB_TTL_SECONDS || '', 10) || 60 * 60,
+  filePath: process.env.JOB_FILE_PATH || path.join(process.cwd(), '.matching-jobs.json'),
+  keyPrefix: process.env.JOB_KEY_PREFIX || 'risentia:job:',
+  // Store polling for runs on other instances: from the first to the last
+  // interval while nothing changes, back to the first on new events
+  pollIntervalMs: { min: 1000, max: 5000 },
+  // SSE comment sent while nothing new happens, well inside the client's 45s heartbeat timeout
+  keepAliveMs: 15_000,
+  staleAfterMs: 2 * 60 * 1000,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JobStatus = 'running' | 'complete' | 'error' | 'cancelled';
+
+export interface JobEvent {
+  /** Monotonically increasing per job, sent as the SSE `id:` field */
+  id: number;
+  data: Record<string, unknown>;
+}
+
+export interface MatchingJob {
+  id: string;
+  sessionId: string;
+  status: JobStatus;
+  events: JobEvent[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobHandle {
+  id: string;
+  /** Aborted when the job is cancelled (locally or via the store) */
+  signal: AbortSignal;
+  emit(data: Record<string, unknown>): Promise<void>;
+  /** Record that the run is alive without adding an event */
+  touch(): Promise<void>;
+  finish(status: Exclude<JobStatus, 'running'>): Promise<void>;
+}
+
+let store: KeyValueStore<MatchingJob> | null = null;
+
+function getJobStore(): KeyValueStore<MatchingJob> {
+  if (!store) {
+    store = createStore<MatchingJob>(config);
+  }
+  return store;
+}
+
+// Runners on this instance, so DELETE can abort them without waiting for a poll
+const localRunners = new Map<string, AbortController>();
+
+// Tails on this instance waiting for a job to change, woken by its writes
+const waitingTails = new Map<string, Set<() => void>>();
+
+function notifyTails(jobId: string): void {
+  for (const wake of waitingTails.get(jobId) || []) wake();
+}
+
+/** Resolves on the next write to the job on this instance, after `timeoutMs`, or on abort */
+function waitForChange(jobId: string, timeoutMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const tails = waitingTails.get(jobId) || new Set<() => void>();
+    waitingTails.set(jobId, tails);
+    const wake = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', wake);
+      tails.delete(wake);
+      if (tails.size === 0 && waitingTails.get(jobId) === tails) waitingTails.delete(jobId);
+      resolve();
+    };
+    const timer = setTimeout(wake, timeoutMs);
+    signal.addEventListener('abort', wake);
+    tails.add(wake);
+  });
+}
+
+// =============================================================================
+// Job Lifecycle
+// =============================================================================
+
+export async function createMatchingJob(sessionId: string): Promise<JobHandle> {
+  const now = Date.now();
+  const job: MatchingJob = {
+    id: uuidv4(),
+    sessionId,
+    status: 'running',
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getJobStore().set(job.id, job);
+
+  const abortController = new AbortController();
+  localRunners.set(job.id, abortController);
+
+  // Writes are serialized so event ids stay in order even if emit isn't
+  // awaited. Each is an atomic update of the stored job, so a cancel from
+  // another instance isn't overwritten, and stops the runner when seen
+  let queue: Promise<void> = Promise.resolve();
+  const write = (fn: (job: MatchingJob) => void) => {
+    queue = queue.then(async () => {
+      const stored = await getJobStore().update(job.id, current => {
+        if (current.status !== 'running') return undefined;
+        fn(current);
+        current.updatedAt = Date.now();
+        return current;
+      });
+      if (stored?.status === 'cancelled') abortController.abort();
+      notifyTails(job.id);
+    });
+    return queue;
+  };
+
+  return {
+    id: job.id,
+    signal: abortController.signal,
+    emit: data => write(j => {
+      j.events.push({ id: j.events.length + 1, data });
+    }),
+    touch: () => write(() => undefined),
+    finish: async status => {
+      await write(j => {
+        j.events.push({ id: j.events.length + 1, data: { type: 'done' } });
+        j.status = status;
+      });
+      localRunners.delete(job.id);
+    },
+  };
+}
+
+export async function getMatchingJob(jobId: string): Promise<MatchingJob | undefined> {
+  return getJobStore().get(jobId);
+}
+
+/**
+ * Mark a job cancelled. The runner sees this on its next write (or right
+ * away if it runs on this instance) and aborts the backend stream.
+ */
+export async function cancelMatchingJob(jobId: string): Promise<boolean> {
+  const job = await getJobStore().update(jobId, current => {
+    if (current.status !== 'running') return undefined;
+    current.status = 'cancelled';
+    current.events.push({ id: current.events.length + 1, data: { type: 'done' } });
+    current.updatedAt = Date.now();
+    return current;
+  });
+  if (!job) return false;
+  localRunners.get(jobId)?.abort();
+  localRunners.delete(jobId);
+  notifyTails(jobId);
+  return true;
+}
+
+// =============================================================================
+// SSE Tail
+// =============================================================================
+
+/**
+ * Stream a job's events as SSE, starting after `lastEventId`, until the job
+ * ends or the client disconnects.
+ */
+export function streamMatchingJob(
+  jobId: string,
+  lastEventId: number,
+  clientSignal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: JobEvent) => controller.enqueue(encoder.encode(
+        `id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`
+      ));
+
+      controller.enqueue(encoder.encode(
+        `data: ${JSON.stringify({ type: 'job', jobId })}\n\n`
+      ));
+
+      let cursor = lastEventId;
+      let lastSent = Date.now();
+      let pollInterval = config.pollIntervalMs.min;
+      try {
+        while (!closed && !clientSignal.aborted) {
+          const job = await getJobStore().get(jobId);
+          if (!job) {
+            controller.enqueue(encoder.encode(
+              `data: ${JSON.stringify({ type: 'error', message: 'Matching job not found or expired.' })}\n\n`
+            ));
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+            break;
+          }
+
+          const previous = cursor;
+          for (const event of job.events) {
+            if (event.id > cursor) {
+              send(event);
+              cursor = event.id;
+              lastSent = Date.now();
+            }
+          }
+          pollInterval = cursor > previous
+            ? config.pollIntervalMs.min
+            : Math.min(pollInterval * 2, config.pollIntervalMs.max);
+
+          if (job.status !== 'running') break;
+          const now = Date.now();
+          if (now - job.updatedAt > config.staleAfterMs) {
+            controller.enqueue(encoder.encode(
+              `data: ${JSON.stringify({ type: 'error', message: 'The matching run stopped responding (the server running it ended). Please retry.' })}\n\n`
+            ));
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+            break;
+          }
+          // Keep the connection (and the client's heartbeat timeout) alive between events
+          if (now - lastSent > config.keepAliveMs) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            lastSent = now;
+          }
+          await waitForChange(jobId, pollInterval, clientSignal);
+        }
+        if (!closed) controller.close();
+      } catch (error) {
+        console.error('Job stream error:', error);
+        if (!closed) controller.error(error);
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
@@ -1,66 +1,156 @@
 /**
  * LLM-based patient profile extraction using Claude Haiku.
- * Uses @langchain/anthropic (already installed) with structured output.
+ * Uses @langchain/anthropic (already installed) with structured output;
+ * runs as the first extractor of the extraction pipeline. Given the current
+ * profile and recent turns, it also returns the message's corrections and
+ * removals as operations (lib/profile-operations.ts).
  */
 
 import { ChatAnthropic } from '@langchain/anthropic';
 import { z } from 'zod';
+import { normalizeBiomarkerStatus } from '@/lib/biomarkers';
+import { parseTnm } from '@/lib/staging';
+import type { ExtractionContext, ExtractorOutput } from '@/lib/extraction-pipeline';
+import { BiomarkerSchema, LabValueSchema, PatientLocationSchema, PatientProfileSchema, PROFILE_LIST_FIELDS, ProfileFieldSchema } from '@/types';
+import type { PatientProfile, ProfileListField, ProfileOperation } from '@/types';
 
-const PatientExtractionSchema = z.object({
-  age: z.number().optional().describe('Patient age in years'),
-  sex: z.enum(['Male', 'Female']).optional().describe('Patient sex'),
+export const EXTRACTION_MODEL = 'claude-haiku-4-5-20251001';
+
+// Built from the shared profile schema (types/schemas.ts); only the fields the
+// model returns in a different shape (TNM as text, medications as names) differ
+const PatientExtractionSchema = PatientProfileSchema.pick({
+  age: true,
+  sex: true,
+  pdl1Score: true,
+  ecog: true,
+}).extend({
   cancerType: z.string().optional().describe('Cancer type or diagnosis (e.g. NSCLC, Breast Cancer, Melanoma, Adenocarcinoma, CRC)'),
-  stage: z.string().optional().describe('Cancer stage (e.g. Stage IV, Stage IIIB)'),
-  biomarkers: z.record(z.string()).optional().describe('Biomarker name to status mapping (e.g. {"EGFR": "Positive", "KRAS": "Negative"})'),
-  ecog: z.number().optional().describe('ECOG performance status (0-4)'),
-  priorTreatments: z.array(z.string()).optional().describe('List of prior treatments or therapies'),
-  pdl1Score: z.string().optional().describe('PD-L1 score (e.g. "TPS 80%")'),
+  stage: z.string().optional().describe('AJCC stage group if stated (e.g. Stage IV, Stage IIIB)'),
+  tnm: z.string().optional().describe('TNM classification as stated, with its c/p/yp prefix (e.g. pT2a N1 M0)'),
+  stageExtent: PatientProfileSchema.shape.stageExtent.describe('Small cell lung cancer disease extent, if stated'),
+  biomarkers: z.array(BiomarkerSchema).optional().describe('Biomarker results, one entry per gene/alteration (keep the specific variant, e.g. EGFR L858R)'),
+  priorTreatments: z.array(z.string()).optional().describe('Prior treatments the patient has received, as written (drug, brand or regimen names, e.g. Keytruda, FOLFOX, carbo/pem)'),
+  labs: z.array(LabValueSchema.omit({ isNormal: true })).optional().describe('Laboratory values'),
+  comorbidities: z.array(z.string()).optional().describe('Comorbid conditions the patient HAS (e.g. Interstitial Lung Disease, Autoimmune Disease, Hepatitis B, Heart Failure). Exclude negated ones ("no ILD").'),
+  currentMedications: z.array(z.string()).optional().describe('Non-cancer medications the patient is currently taking (e.g. warfarin, prednisone, metformin)'),
+  location: PatientLocationSchema.optional().describe('Where the patient lives (home location), not where they were treated'),
+  maxTravelMiles: z.number().optional().describe('Maximum distance the patient is willing to travel, converted to miles (1 km = 0.62 mi)'),
+  operations: z.array(z.object({
+    op: z.enum(['set', 'update', 'delete', 'append']),
+    field: ProfileFieldSchema,
+    match: z.string().optional().describe('For list fields: the existing entry to update or delete, as named on the current profile (gene, drug, condition, lab)'),
+    value: z.string().optional().describe('New value as text: "Stage IIIA", "2", "Negative" (biomarker status), "stopped" (medication), "osimertinib" (appended treatment)'),
+  })).optional().describe('Changes this message makes to values ALREADY ON THE CURRENT PROFILE: corrections ("actually stage IIIA, not IV" → update stage), removals ("remove KRAS" → delete biomarkers KRAS), status changes ("she progressed on it" → append the treatment "it" refers to in the conversation to priorTreatments). Omit when the message only adds new information.'),
 });
 
-let llm: ChatAnthropic | null = null;
+// A chat message states a few fields; a page of a clinical document can fill most of them
+const MESSAGE_MAX_TOKENS = 500;
+const DOCUMENT_MAX_TOKENS = 2000;
+
+const llms = new Map<number, ChatAnthropic>();
 
-function getLLM(): ChatAnthropic {
+function getLLM(maxTokens = MESSAGE_MAX_TOKENS): ChatAnthropic {
+  let llm = llms.get(maxTokens);
   if (!llm) {
     llm = new ChatAnthropic({
-      model: 'claude-haiku-4-5-20251001',
+      model: EXTRACTION_MODEL,
       anthropicApiKey: process.env.ANTHROPIC_API_KEY,
       temperature: 0,
-      maxTokens: 200,
+      maxTokens,
     });
+    llms.set(maxTokens, llm);
   }
   return llm;
 }
 
-export async function extractPatientFromMessage(
-  message: string
-): Promise<Partial<{
-  age?: number;
-  sex?: 'Male' | 'Female';
-  cancerType?: string;
-  stage?: string;
-  biomarkers: Record<string, string>;
-  priorTreatments: string[];
-  pdl1Score?: string;
-  ecog?: number;
-}>> {
-  try {
-    const structured = getLLM().withStructuredOutput(PatientExtractionSchema);
-    const result = await structured.invoke(
-      `Extract patient clinical information from this message. Only extract fields that are explicitly mentioned. If a field is not mentioned, omit it.\n\nMessage: "${message}"`
-    );
-    return {
-      ...(result.age !== undefined ? { age: result.age } : {}),
-      ...(result.sex ? { sex: result.sex } : {}),
-      ...(result.cancerType ? { cancerType: result.cancerType } : {}),
-      ...(result.stage ? { stage: result.stage } : {}),
-      biomarkers: result.biomarkers || {},
-      priorTreatments: result.priorTreatments || [],
-      ...(result.pdl1Score ? { pdl1Score: result.pdl1Score } : {}),
-      ...(result.ecog !== undefined ? { ecog: result.ecog } : {}),
-    };
-  } catch (error) {
-    console.error('Claude extraction failed, falling back to regex:', error);
-    const { parsePatientFromMessage } = await import('@/lib/langgraph/graph');
-    return parsePatientFromMessage(message);
-  }
+/** The model's structured output, before normalization */
+export type PatientExtraction = z.infer<typeof PatientExtractionSchema>;
+
+// Turns of history the model sees for pronouns and corrections
+const CONTEXT_TURNS = 6;
+
+/** The profile as the model sees it: values only, no provenance or raw text */
+function describeProfile(profile: PatientProfile): string {
+  const { provenance, rawText, unknownFields, ...values } = profile;
+  const present = Object.entries(values).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0));
+  return present.length > 0 ? JSON.stringify(Object.fromEntries(present)) : '(empty)';
+}
+
+/** One structured-output call; throws if the model is unavailable */
+export async function invokeExtractionModel(message: string, context?: ExtractionContext): Promise<PatientExtraction> {
+  if (context?.section !== undefined) return invokeOnDocument(message, context);
+  const structured = getLLM().withStructuredOutput(PatientExtractionSchema);
+  const conversation = context?.history.slice(-CONTEXT_TURNS).map(turn => `${turn.role}: ${turn.content}`).join('\n');
+  const background = context
+    ? `Current patient profile: ${describeProfile(context.profile)}\n${conversation ? `\nRecent conversation:\n${conversation}\n` : ''}\n`
+    : '';
+  const prompt = `${background}Extract patient clinical information from this message. Only extract fields that are explicitly mentioned. If a field is not mentioned, omit it.${context ? ' Put changes to values already on the current profile in operations, resolving pronouns ("it", "that drug") from the conversation.' : ''}\n\nMessage: "${message}"`;
+
+  // Names and record numbers never reach the model; its dates are shifted back
+  const phi = context?.deidentifier;
+  if (!phi) return structured.invoke(prompt);
+  return phi.restore(await structured.invoke(phi.scrub(prompt, 'anthropic:extraction')));
+}
+
+/**
+ * A piece of a clinical document (lib/documents), read with its section
+ * heading and without operations: the user reviews what it would change
+ * before anything is merged.
+ */
+async function invokeOnDocument(text: string, context: ExtractionContext): Promise<PatientExtraction> {
+  const structured = getLLM(DOCUMENT_MAX_TOKENS).withStructuredOutput(PatientExtractionSchema.omit({ operations: true }));
+  const prompt = `This is the "${context.section}" section of a clinical document (pathology report, molecular report or clinic note) about one patient. Extract the patient's clinical information stated in it. Only extract what is stated about this patient: ignore family members' conditions, treatments that are planned or being considered rather than given, and pending results. If a field is not mentioned, omit it.\n\nDocument text:\n"""\n${text}\n"""`;
+
+  const phi = context.deidentifier;
+  if (!phi) return structured.invoke(prompt);
+  return phi.restore(await structured.invoke(phi.scrub(prompt, 'anthropic:extraction')));
+}
+
+const NUMERIC_FIELDS = new Set(['age', 'ecog', 'maxTravelMiles']);
+
+/**
+ * Model operations with typed values: numbers for numeric fields, TNM
+ * parsed. Scalar values that don't fit the profile schema are dropped here,
+ * so one bad value doesn't sink the rest of the transaction.
+ */
+function fromModelOperations(operations: NonNullable<PatientExtraction['operations']>): ProfileOperation[] {
+  return operations.flatMap(operation => {
+    const { value, ...rest } = operation;
+    if (value === undefined || operation.op === 'delete') return [rest];
+    if (PROFILE_LIST_FIELDS.includes(operation.field as ProfileListField)) return [{ ...rest, value }];
+
+    const typed = NUMERIC_FIELDS.has(operation.field) ? Number(value.replace(/[^\d.]/g, ''))
+      : operation.field === 'tnm' ? parseTnm(value)
+      : operation.field === 'sex' || operation.field === 'stageExtent' ? value.charAt(0).toUpperCase() + value.slice(1).toLowerCase()
+      : value;
+    const valid = (PatientProfileSchema.shape as Record<string, z.ZodTypeAny>)[operation.field].safeParse(typed);
+    return valid.success && typed !== undefined ? [{ ...rest, value: typed }] : [];
+  });
+}
+
+/**
+ * Model output in profile shape (TNM parsed, medications as entries).
+ * Canonical names, stage groups and provenance are added by the extraction
+ * pipeline (lib/extraction-pipeline.ts), as for every other extractor.
+ */
+export function fromModelExtraction(result: PatientExtraction): ExtractorOutput {
+  const tnm = result.tnm ? parseTnm(result.tnm) : undefined;
+  return {
+    ...(result.age !== undefined ? { age: result.age } : {}),
+    ...(result.sex ? { sex: result.sex } : {}),
+    ...(result.cancerType ? { cancerType: result.cancerType } : {}),
+    ...(result.stage ? { stage: result.stage } : {}),
+    ...(tnm ? { tnm } : {}),
+    ...(result.stageExtent ? { stageExtent: result.stageExtent } : {}),
+    biomarkers: (result.biomarkers || []).map(b => ({ ...b, status: normalizeBiomarkerStatus(b.status) })),
+    priorTreatments: result.priorTreatments || [],
+    ...(result.pdl1Score ? { pdl1Score: result.pdl1Score } : {}),
+    ...(result.ecog !== undefined ? { ecog: result.ecog } : {}),
+    labs: result.labs || [],
+    comorbidities: result.comorbidities || [],
+    currentMedications: (result.currentMedications || []).map(name => ({ name, status: 'active' as const })),
+    ...(result.location && Object.keys(result.location).length > 0 ? { location: result.location } : {}),
+    ...(result.maxTravelMiles !== undefined ? { maxTravelMiles: Math.round(result.maxTravelMiles) } : {}),
+    ...(result.operations?.length ? { operations: fromModelOperations(result.operations) } : {}),
+  };
 }
@@ -0,0 +1,229 @@
+/**
+ * Profile conflicts
+ *
+ * Detects when a new extraction contradicts the accumulated profile (age
+ * 58 → 62, ECOG 1 → 3, EGFR Positive → Negative). Clinically significant
+ * values are never overwritten silently: the merge keeps the current value
+ * and the conflict is put to the user in chat to accept or reject. The same
+ * choice is offered when the LLM and rule parser read one message
+ * differently (lib/extraction-ensemble.ts).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { formatBiomarker } from '@/lib/biomarkers';
+import { provenanceKey } from '@/lib/provenance';
+import type { ProfileEdit } from '@/lib/profile-edits';
+import { formatTnm } from '@/lib/staging';
+import { Biomarker, PatientProfile, ProfileConflict, TnmStage } from '@/types';
+
+// Scalars where a changed value needs confirmation; other fields (labs,
+// medications, location, ...) legitimately change over time and just update
+export const CLINICALLY_SIGNIFICANT_FIELDS = [
+  'age', 'sex', 'cancerType', 'histology', 'stage', 'tnm', 'stageExtent', 'ecog', 'pdl1Score', 'msiStatus',
+] as const;
+
+type SignificantField = typeof CLINICALLY_SIGNIFICANT_FIELDS[number];
+
+const FIELD_LABELS: Record<SignificantField, string> = {
+  age: 'Age',
+  sex: 'Sex',
+  cancerType: 'Diagnosis',
+  histology: 'Histology',
+  stage: 'Stage',
+  tnm: 'TNM',
+  stageExtent: 'SCLC extent',
+  ecog: 'ECOG',
+  pdl1Score: 'PD-L1',
+  msiStatus: 'MSI status',
+};
+
+/** Display name of a profile field ("ECOG", "Diagnosis"); other fields by name */
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS[field as SignificantField] || field;
+}
+
+/** What a conflict is about: the field, or `biomarkers:GENE` (the same key as operationSubject) */
+export function conflictSubject(conflict: ProfileConflict): string {
+  return conflict.field === 'biomarkers' ? `biomarkers:${(conflict.currentValue as Biomarker).gene.toUpperCase()}` : conflict.field;
+}
+
+function normalizeScalar(value: unknown): string {
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function displayValue(field: SignificantField, value: unknown): string {
+  return field === 'tnm' ? formatTnm(value as TnmStage) : String(value);
+}
+
+function polarity(b: Biomarker): 'positive' | 'negative' | undefined {
+  if (b.status === 'Positive' || b.status === 'Detected') return 'positive';
+  if (b.status === 'Negative') return 'negative';
+  return undefined;
+}
+
+/** The current entry an incoming biomarker would replace in mergeBiomarkers */
+function matchingBiomarker(current: Biomarker[], incoming: Biomarker): Biomarker | undefined {
+  const gene = incoming.gene.toUpperCase();
+  const alteration = (incoming.alteration || '').toUpperCase();
+  return current.find(b =>
+    b.gene.toUpperCase() === gene &&
+    ((b.alteration || '').toUpperCase() === alteration || (!!incoming.alteration && !b.alteration))
+  );
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+export function detectConflicts(current: PatientProfile, incoming: Partial<PatientProfile>): ProfileConflict[] {
+  const conflicts: ProfileConflict[] = [];
+
+  for (const field of CLINICALLY_SIGNIFICANT_FIELDS) {
+    const before = current[field];
+    const after = incoming[field];
+    if (before === undefined || after === undefined) continue;
+    if (normalizeScalar(before) === normalizeScalar(after)) continue;
+    conflicts.push({
+      id: uuidv4(),
+      field,
+      label: FIELD_LABELS[field],
+      currentValue: before,
+      incomingValue: after,
+      currentDisplay: displayValue(field, before),
+      incomingDisplay: displayValue(field, after),
+      provenance: incoming.provenance?.[field],
+    });
+  }
+
+  for (const biomarker of incoming.biomarkers || []) {
+    const existing = matchingBiomarker(current.biomarkers, biomarker);
+    if (!existing) continue;
+    const statusFlipped = !!polarity(existing) && !!polarity(biomarker) && polarity(existing) !== polarity(biomarker);
+    const valueChanged = existing.value !== undefined && biomarker.value !== undefined && existing.value !== biomarker.value;
+    if (!statusFlipped && !valueChanged) continue;
+    conflicts.push({
+      id: uuidv4(),
+      field: 'biomarkers',
+      itemKey: provenanceKey('biomarkers', biomarker),
+      label: 'Biomarker',
+      currentValue: existing,
+      incomingValue: biomarker,
+      currentDisplay: formatBiomarker(existing),
+      incomingDisplay: formatBiomarker(biomarker),
+      provenance: incoming.provenance?.[provenanceKey('biomarkers', biomarker)],
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Two extractors' readings of the same value: `kept` is on the profile,
+ * `other` is offered as the alternative. Only clinically significant fields
+ * and biomarkers are put to the user.
+ */
+export function extractorDisagreement(
+  field: string,
+  kept: unknown,
+  other: unknown,
+  provenance?: ProfileConflict['provenance']
+): ProfileConflict | undefined {
+  if (field === 'biomarkers') {
+    return {
+      id: uuidv4(),
+      field,
+      itemKey: provenanceKey('biomarkers', kept as Biomarker),
+      label: 'Biomarker',
+      currentValue: kept,
+      incomingValue: other,
+      currentDisplay: formatBiomarker(kept as Biomarker),
+      incomingDisplay: formatBiomarker(other as Biomarker),
+      provenance,
+      origin: 'extractors',
+    };
+  }
+  if (!(CLINICALLY_SIGNIFICANT_FIELDS as readonly string[]).includes(field)) return undefined;
+  const significant = field as SignificantField;
+  return {
+    id: uuidv4(),
+    field,
+    label: FIELD_LABELS[significant],
+    currentValue: kept,
+    incomingValue: other,
+    currentDisplay: displayValue(significant, kept),
+    incomingDisplay: displayValue(significant, other),
+    provenance,
+    origin: 'extractors',
+  };
+}
+
+/**
+ * Undo the conflicting part of a merge: `merged` is `before` with an
+ * extraction applied; conflicting values (and their provenance) are put
+ * back to what `before` had until the user decides.
+ */
+export function revertConflicts(before: PatientProfile, merged: PatientProfile, conflicts: ProfileConflict[]): PatientProfile {
+  if (!conflicts.some(c => c.origin !== 'extractors')) return merged;
+  const reverted: PatientProfile = { ...merged, provenance: { ...merged.provenance } };
+
+  for (const conflict of conflicts) {
+    // Extractor disagreements were never applied over the profile
+    if (conflict.origin === 'extractors') continue;
+    if (conflict.field === 'biomarkers') {
+      const current = conflict.currentValue as Biomarker;
+      const incoming = conflict.incomingValue as Biomarker;
+      reverted.biomarkers = reverted.biomarkers.map(b =>
+        provenanceKey('biomarkers', b) === provenanceKey('biomarkers', incoming) ? current : b
+      );
+      delete reverted.provenance![provenanceKey('biomarkers', incoming)];
+      const currentKey = provenanceKey('biomarkers', current);
+      if (before.provenance?.[currentKey]) reverted.provenance![currentKey] = before.provenance[currentKey];
+    } else {
+      const field = conflict.field as SignificantField;
+      (reverted as unknown as Record<string, unknown>)[field] = before[field];
+      if (before.provenance?.[field]) reverted.provenance![field] = before.provenance[field];
+      else delete reverted.provenance![field];
+    }
+  }
+
+  return reverted;
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/** The profile edit that applies a conflict's incoming value (on accept) */
+export function conflictEdit(profile: PatientProfile, conflict: ProfileConflict): ProfileEdit {
+  if (conflict.field === 'biomarkers') {
+    const current = conflict.currentValue as Biomarker;
+    const incoming = conflict.incomingValue as Biomarker;
+    const currentKey = provenanceKey('biomarkers', current);
+    const replaced = profile.biomarkers.some(b => provenanceKey('biomarkers', b) === currentKey);
+    return {
+      set: {
+        biomarkers: replaced
+          ? profile.biomarkers.map(b => provenanceKey('biomarkers', b) === currentKey ? incoming : b)
+          : [...profile.biomarkers, incoming],
+      },
+    };
+  }
+  return { set: { [conflict.field]: conflict.incomingValue } as Partial<PatientProfile> };
+}
+
+/** Chat note listing conflicts awaiting confirmation */
+export function describeConflicts(conflicts: ProfileConflict[]): string {
+  const profileConflicts = conflicts.filter(c => c.origin !== 'extractors');
+  const disagreements = conflicts.filter(c => c.origin === 'extractors');
+  const sections: string[] = [];
+  if (profileConflicts.length > 0) {
+    const lines = profileConflicts.map(c => `- **${c.label}:** ${c.currentDisplay} → ${c.incomingDisplay}`);
+    sections.push(`⚠️ **Needs confirmation:** this message conflicts with the current profile. I kept the existing values until you accept or reject the change:\n${lines.join('\n')}`);
+  }
+  if (disagreements.length > 0) {
+    const lines = disagreements.map(c => `- **${c.label}:** ${c.currentDisplay} (kept) or ${c.incomingDisplay}`);
+    sections.push(`⚖️ **Please check:** I read part of this message two ways and kept the reading best supported by the text. Accept the other reading if it's the right one:\n${lines.join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
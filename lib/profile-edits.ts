@@ -0,0 +1,61 @@
+/**
+ * Profile edits
+ *
+ * Manual corrections from the PatientCard. An edit replaces fields as-is
+ * and removes cleared ones, so unlike the extraction merges (which only ever
+ * add) it can delete a wrong value. Applied identically by the store and by
+ * the route's PATCH handler.
+ */
+
+import { z } from 'zod';
+import { PatientProfile, ProfileEditSchema, ProfileListField, PROFILE_LIST_FIELDS } from '@/types';
+import { buildProvenance, changedFields, pruneProvenance } from '@/lib/provenance';
+
+export type ProfileField = Exclude<keyof PatientProfile, 'rawText' | 'provenance'>;
+
+export type ProfileEdit = z.infer<typeof ProfileEditSchema>;
+
+export function isListField(field: string): field is ProfileListField {
+  return (PROFILE_LIST_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Move `undefined` values in `set` to `clear` so the edit survives
+ * JSON.stringify (which drops undefined keys) on its way to the server.
+ */
+export function normalizeProfileEdit(edit: ProfileEdit): ProfileEdit {
+  const set: Partial<PatientProfile> = {};
+  const clear = new Set(edit.clear || []);
+  for (const [field, value] of Object.entries(edit.set || {})) {
+    if (value === undefined || value === null) clear.add(field as ProfileField);
+    else (set as Record<string, unknown>)[field] = value;
+  }
+  return { set, clear: [...clear] };
+}
+
+export function applyProfileEdit(profile: PatientProfile, edit: ProfileEdit): PatientProfile {
+  const updated: PatientProfile = { ...profile };
+  for (const [field, value] of Object.entries(edit.set || {})) {
+    // undefined (or null from JSON) in `set` is treated as a clear
+    if (value === undefined || value === null) {
+      clearField(updated, field as ProfileField);
+    } else {
+      (updated as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  for (const field of edit.clear || []) {
+    clearField(updated, field);
+  }
+
+  // Values set by hand are recorded as manual; cleared ones lose their entries
+  const manual = buildProvenance(changedFields(profile, updated), '', { source: 'manual' });
+  return pruneProvenance({ ...updated, provenance: { ...profile.provenance, ...manual } });
+}
+
+function clearField(profile: PatientProfile, field: ProfileField) {
+  if (isListField(field)) {
+    profile[field] = [];
+  } else {
+    delete profile[field];
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Profile operations
+ *
+ * Explicit changes a chat message makes to what the profile already holds:
+ * "actually she's stage IIIA, not IV" (update), "remove KRAS" (delete), "she
+ * progressed on it" (append the drug the conversation was about). The
+ * extraction merge only ever adds, so extractors that see the current
+ * profile and recent history emit these as operations; they are applied
+ * after the merge as one transaction, and each message's changes are kept
+ * as an undo entry.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { formatBiomarker, mergeBiomarkers, normalizeBiomarkerStatus, parseBiomarkerLabel } from '@/lib/biomarkers';
+import { mergeLabs, mergeMedications } from '@/lib/clinical-context';
+import { fieldLabel } from '@/lib/profile-conflicts';
+import { isListField, ProfileField } from '@/lib/profile-edits';
+import { buildProvenance, changedFields, itemKey, pruneProvenance } from '@/lib/provenance';
+import { formatTnm } from '@/lib/staging';
+import {
+  Biomarker,
+  LabValue,
+  Medication,
+  PatientProfile,
+  PatientProfileSchema,
+  ProfileListField,
+  ProfileOperation,
+  ProfileUndo,
+  PROFILE_LIST_FIELDS,
+  TnmStage,
+} from '@/types';
+
+type ListItem = Biomarker | LabValue | Medication | string;
+
+// Entries kept per session; older changes can no longer be undone
+export const MAX_UNDO_ENTRIES = 10;
+
+// =============================================================================
+// Items
+// =============================================================================
+
+function itemName(field: ProfileListField, item: ListItem): string {
+  if (typeof item === 'string') return item;
+  if (field === 'biomarkers') return formatBiomarker(item as Biomarker);
+  if (field === 'labs') return `${(item as LabValue).name} ${(item as LabValue).value} ${(item as LabValue).unit}`;
+  const medication = item as Medication;
+  return medication.status === 'stopped' ? `${medication.name} (stopped)` : medication.name;
+}
+
+/** "KRAS" matches every KRAS entry, "KRAS G12C" only that variant */
+function matchesItem(field: ProfileListField, item: ListItem, match: string): boolean {
+  const wanted = match.trim().toLowerCase();
+  if (field === 'biomarkers') {
+    const b = item as Biomarker;
+    const gene = b.gene.toLowerCase();
+    return wanted === gene || wanted === `${gene} ${(b.alteration || '').toLowerCase()}`.trim();
+  }
+  return (typeof item === 'string' ? item : (item as LabValue | Medication).name).toLowerCase() === wanted;
+}
+
+/** An appended value as a list item; strings are parsed where the list holds objects */
+function toItem(field: ProfileListField, value: unknown): ListItem | undefined {
+  if (field === 'priorTreatments' || field === 'comorbidities') {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+  if (field === 'biomarkers') {
+    if (typeof value === 'string') return parseBiomarkerLabel(value);
+    return value && typeof value === 'object' && 'gene' in value ? value as Biomarker : undefined;
+  }
+  if (field === 'currentMedications') {
+    if (typeof value === 'string') return value.trim() ? { name: value.trim(), status: 'active' } : undefined;
+    return value && typeof value === 'object' && 'name' in value ? { status: 'active', ...value } as Medication : undefined;
+  }
+  return value && typeof value === 'object' && 'name' in value ? value as LabValue : undefined;
+}
+
+/** The matched item with `value` applied: a replacement name, a status, a lab result or changed fields */
+function updateItem(field: ProfileListField, item: ListItem, value: unknown): ListItem {
+  if (typeof item === 'string') return typeof value === 'string' && value.trim() ? value.trim() : item;
+  if (value && typeof value === 'object') return { ...item, ...value } as ListItem;
+  if (field === 'biomarkers' && typeof value === 'string') {
+    return { ...item as Biomarker, status: normalizeBiomarkerStatus(value) };
+  }
+  if (field === 'currentMedications' && (value === 'active' || value === 'stopped')) {
+    return { ...item as Medication, status: value };
+  }
+  if (field === 'labs' && typeof value === 'number') return { ...item as LabValue, value };
+  return item;
+}
+
+/** `incoming` merged into a list the way extractions merge: a variant replaces its generic result, a newer lab the older */
+export function mergeListItems(field: ProfileListField, items: ListItem[], incoming: ListItem[]): ListItem[] {
+  switch (field) {
+    case 'biomarkers': return mergeBiomarkers(items as Biomarker[], incoming as Biomarker[]);
+    case 'labs': return mergeLabs(items as LabValue[], incoming as LabValue[]);
+    case 'currentMedications': return mergeMedications(items as Medication[], incoming as Medication[]);
+    default: {
+      const keys = new Set(items.map(item => itemKey(field, item)));
+      return [...items, ...incoming.filter(item => !keys.has(itemKey(field, item)))];
+    }
+  }
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/** What an operation is about: the field, or `biomarkers:GENE` (the same key as conflictSubject) */
+export function operationSubject(operation: ProfileOperation): string {
+  if (operation.field !== 'biomarkers' || !operation.match) return operation.field;
+  return `biomarkers:${operation.match.trim().split(/\s+/)[0].toUpperCase()}`;
+}
+
+/** Apply one operation to `profile` in place; the reason it can't be applied otherwise */
+function applyOperation(profile: PatientProfile, operation: ProfileOperation): string | undefined {
+  const { op, field, match, value } = operation;
+  const record = profile as unknown as Record<string, unknown>;
+
+  if (!isListField(field)) {
+    if (op === 'append') return `${field} holds a single value`;
+    if (op === 'delete') {
+      if (record[field] === undefined) return `no ${field} to remove`;
+      delete record[field];
+      return undefined;
+    }
+    if (value === undefined || value === null || value === '') return `no new ${field} given`;
+    record[field] = value;
+    return undefined;
+  }
+
+  const items = profile[field] as ListItem[];
+  if (op === 'set') {
+    if (!Array.isArray(value)) return `${field} needs a list`;
+    record[field] = value;
+    return undefined;
+  }
+  if (op === 'append') {
+    const item = toItem(field, value);
+    if (!item) return `can't add ${JSON.stringify(value)} to ${field}`;
+    record[field] = mergeListItems(field, items, [item]);
+    return undefined;
+  }
+  if (!match) {
+    if (op === 'update') return `which ${field} entry to update`;
+    record[field] = [];
+    return undefined;
+  }
+  if (!items.some(item => matchesItem(field, item, match))) return `no ${match} in ${field}`;
+  record[field] = op === 'delete'
+    ? items.filter(item => !matchesItem(field, item, match))
+    : items.map(item => matchesItem(field, item, match) ? updateItem(field, item, value) : item);
+  return undefined;
+}
+
+/**
+ * `extracted` without what the operations delete: "remove ALK" parses as an
+ * ALK result, which the merge would otherwise add right back.
+ */
+export function withoutDeletedValues(extracted: Partial<PatientProfile>, operations: ProfileOperation[]): Partial<PatientProfile> {
+  const result: Partial<PatientProfile> = { ...extracted };
+  const record = result as Record<string, unknown>;
+  for (const { op, field, match } of operations) {
+    if (op !== 'delete' || record[field] === undefined) continue;
+    if (!isListField(field)) delete record[field];
+    else if (!match) record[field] = [];
+    else record[field] = (record[field] as ListItem[]).filter(item => !matchesItem(field, item, match));
+  }
+  return result;
+}
+
+export interface OperationsResult {
+  profile: PatientProfile;
+  applied: ProfileOperation[];
+  /** Operations that didn't fit the profile ("remove KRAS" with no KRAS), with why */
+  rejected: Array<{ operation: ProfileOperation; reason: string }>;
+}
+
+/**
+ * Apply operations as one transaction. Operations that don't fit the
+ * profile are skipped and reported; if the result isn't a valid profile
+ * (ECOG 7, an unknown sex), none of them are applied. New values get
+ * provenance from `message`, attributed to the operation's source.
+ */
+export function applyProfileOperations(
+  profile: PatientProfile,
+  operations: ProfileOperation[],
+  { message, messageId }: { message: string; messageId?: string }
+): OperationsResult {
+  const draft: PatientProfile = { ...profile, provenance: { ...profile.provenance } };
+  const applied: ProfileOperation[] = [];
+  const rejected: OperationsResult['rejected'] = [];
+
+  for (const operation of operations) {
+    const before = { ...draft };
+    const reason = applyOperation(draft, operation);
+    if (reason) {
+      rejected.push({ operation, reason });
+      continue;
+    }
+    applied.push(operation);
+    Object.assign(draft.provenance!, buildProvenance(changedFields(before, draft), message, {
+      source: operation.source || 'manual',
+      messageId,
+    }));
+  }
+
+  const valid = PatientProfileSchema.safeParse(draft);
+  if (!valid.success) {
+    const reason = valid.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    return { profile, applied: [], rejected: operations.map(operation => ({ operation, reason })) };
+  }
+  return { profile: pruneProvenance(draft), applied, rejected };
+}
+
+/**
+ * `profile` with the fields `operations` touched taken from `result` as-is.
+ * Clients union the lists a turn returns into what they hold, which would
+ * bring back what an operation removed.
+ */
+export function withOperatedFields(profile: PatientProfile, result: PatientProfile, operations: ProfileOperation[]): PatientProfile {
+  const fields = new Set<string>(operations.map(o => o.field));
+  if (fields.size === 0) return profile;
+  const next = { ...profile, provenance: { ...profile.provenance } } as unknown as Record<string, unknown>;
+  for (const field of fields) {
+    if (result[field as ProfileField] === undefined) delete next[field];
+    else next[field] = result[field as ProfileField];
+  }
+  const provenance = next.provenance as Record<string, unknown>;
+  for (const key of Object.keys(provenance)) if (fields.has(key.split(':')[0])) delete provenance[key];
+  for (const [key, entry] of Object.entries(result.provenance || {})) if (fields.has(key.split(':')[0])) provenance[key] = entry;
+  return pruneProvenance(next as unknown as PatientProfile);
+}
+
+/** Chat note for operations that couldn't be applied ("no KRAS in biomarkers") */
+export function describeRejectedOperations(rejected: OperationsResult['rejected']): string {
+  return `⚠️ **Couldn't change the profile:** ${[...new Set(rejected.map(r => r.reason))].join('; ')}.`;
+}
+
+// =============================================================================
+// Undo
+// =============================================================================
+
+function profileFields(before: PatientProfile, after: PatientProfile): ProfileField[] {
+  return Object.keys({ ...before, ...after }).filter(key => key !== 'provenance' && key !== 'rawText') as ProfileField[];
+}
+
+function displayField(field: ProfileField, value: unknown): string {
+  if (field === 'tnm') return formatTnm(value as TnmStage);
+  if (field === 'location') return Object.values(value as object).filter(Boolean).join(', ');
+  return String(value);
+}
+
+/** A scalar's value or a list entry as the user sees it: "Stage IIIA", "EGFR L858R Positive" */
+export function formatFieldValue(field: ProfileField, value: unknown): string {
+  return isListField(field) ? itemName(field, value as ListItem) : displayField(field, value);
+}
+
+/** "Stage: Stage IV → Stage IIIA; added Osimertinib; removed KRAS G12C" */
+export function describeProfileChange(before: PatientProfile, after: PatientProfile): string {
+  const parts: string[] = [];
+  for (const field of profileFields(before, after)) {
+    if (field === 'unknownFields') continue;
+    if (isListField(field)) {
+      const was = new Map((before[field] as ListItem[]).map(item => [itemKey(field, item), item]));
+      const now = new Map((after[field] as ListItem[]).map(item => [itemKey(field, item), item]));
+      for (const [key, item] of now) {
+        if (!was.has(key)) parts.push(`added ${itemName(field, item)}`);
+        else if (JSON.stringify(was.get(key)) !== JSON.stringify(item)) parts.push(`${itemName(field, was.get(key)!)} → ${itemName(field, item)}`);
+      }
+      for (const [key, item] of was) if (!now.has(key)) parts.push(`removed ${itemName(field, item)}`);
+      continue;
+    }
+    const was = before[field];
+    const now = after[field];
+    if (JSON.stringify(was) === JSON.stringify(now)) continue;
+    if (now === undefined) parts.push(`removed ${fieldLabel(field)} ${displayField(field, was)}`);
+    else if (was === undefined) parts.push(`${fieldLabel(field)} ${displayField(field, now)}`);
+    else parts.push(`${fieldLabel(field)}: ${displayField(field, was)} → ${displayField(field, now)}`);
+  }
+  return parts.join('; ');
+}
+
+/** The fields (with their provenance) a message changed, to put back on undo; undefined if none */
+export function createUndoEntry(
+  before: PatientProfile,
+  after: PatientProfile,
+  { messageId }: { messageId?: string } = {}
+): ProfileUndo | undefined {
+  const fields = profileFields(before, after)
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+  if (fields.length === 0) return undefined;
+
+  const snapshot = (profile: PatientProfile): Partial<PatientProfile> => {
+    const values = Object.fromEntries(fields.map(field => [field, profile[field]]));
+    const provenance = Object.fromEntries(Object.entries(profile.provenance || {})
+      .filter(([key]) => fields.includes(key.split(':')[0] as ProfileField)));
+    return { ...values, provenance };
+  };
+
+  return {
+    id: uuidv4(),
+    messageId,
+    summary: describeProfileChange(before, after),
+    fields,
+    before: snapshot(before),
+    after: snapshot(after),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Put a message's fields back as they were. Undefined if any of them has
+ * changed since (a later message or edit), which the undo would silently
+ * discard.
+ */
+export function undoProfileChange(profile: PatientProfile, entry: ProfileUndo): PatientProfile | undefined {
+  const stale = entry.fields.some(field =>
+    JSON.stringify(profile[field] ?? null) !== JSON.stringify(entry.after[field] ?? null)
+  );
+  if (stale) return undefined;
+
+  const restored: PatientProfile = { ...profile, provenance: { ...profile.provenance } };
+  for (const field of entry.fields) {
+    const value = entry.before[field];
+    if (value === undefined) {
+      if ((PROFILE_LIST_FIELDS as readonly string[]).includes(field)) (restored as unknown as Record<string, unknown>)[field] = [];
+      else delete restored[field];
+    } else {
+      (restored as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  for (const key of Object.keys(entry.after.provenance || {})) delete restored.provenance![key];
+  Object.assign(restored.provenance!, entry.before.provenance);
+  return pruneProvenance(restored);
+}
@@ -0,0 +1,239 @@
+/**
+ * Field provenance
+ *
+ * Where each profile value came from: which extractor (or a manual edit or
+ * the client) set it, from which message and text span, and how much to
+ * trust it. Keys are the field name for scalars and `field:item` for list
+ * entries (e.g. `biomarkers:EGFR|L858R`, `labs:anc`).
+ */
+
+import {
+  Biomarker,
+  FieldProvenance,
+  LabValue,
+  Medication,
+  PatientProfile,
+  ProfileListField,
+  ProvenanceMap,
+  ProvenanceSource,
+  PROFILE_LIST_FIELDS,
+  TnmStage,
+} from '@/types';
+import { cancerTypeSynonyms, drugSynonyms } from '@/lib/terminology';
+
+// Values below this are flagged in the UI
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Fields with a single value, keyed by field name
+export const SCALAR_FIELDS = [
+  'age', 'sex', 'cancerType', 'histology', 'stage', 'tnm', 'stageExtent', 'pdl1Score', 'msiStatus', 'ecog',
+  'location', 'maxTravelMiles',
+] as const;
+
+// Rule-based confidence per field: loose keyword rules (sex from "man", treatment
+// substrings, comorbidity keywords) score below the flag threshold
+const REGEX_CONFIDENCE: Record<string, number> = {
+  age: 0.85, sex: 0.5, cancerType: 0.7, histology: 0.7, stage: 0.7, tnm: 0.85, stageExtent: 0.8, pdl1Score: 0.8, msiStatus: 0.7,
+  ecog: 0.85, location: 0.6, maxTravelMiles: 0.75,
+  biomarkers: 0.7, priorTreatments: 0.55, labs: 0.8, comorbidities: 0.55, currentMedications: 0.7,
+};
+const SOURCE_CONFIDENCE: Record<Exclude<ProvenanceSource, 'regex'>, number> = {
+  llm: 0.9,
+  client: 0.8,
+  manual: 1,
+  import: 0.95,
+};
+// Multiplier when the value can't be found in the message it was extracted from
+const NO_SPAN_PENALTY = 0.8;
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+export function itemKey(field: ProfileListField, item: Biomarker | LabValue | Medication | string): string {
+  if (typeof item === 'string') return item.toLowerCase();
+  if (field === 'biomarkers') {
+    const b = item as Biomarker;
+    return `${b.gene.toUpperCase()}|${(b.alteration || '').toUpperCase()}`;
+  }
+  return (item as LabValue | Medication).name.toLowerCase();
+}
+
+export function provenanceKey(field: string, item?: Biomarker | LabValue | Medication | string): string {
+  return item === undefined ? field : `${field}:${itemKey(field as ProfileListField, item)}`;
+}
+
+export function getProvenance(
+  profile: PatientProfile,
+  field: string,
+  item?: Biomarker | LabValue | Medication | string
+): FieldProvenance | undefined {
+  return profile.provenance?.[provenanceKey(field, item)];
+}
+
+export function isLowConfidence(provenance: FieldProvenance | undefined): boolean {
+  return !!provenance && provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+export interface ProvenanceOrigin {
+  source: ProvenanceSource;
+  extractor?: string;
+  messageId?: string;
+}
+
+/** Text to look for in the message for a given value */
+function spanNeedles(field: string, value: unknown): string[] {
+  switch (field) {
+    case 'sex':
+      return value === 'Male' ? ['male', 'man', 'gentleman'] : ['female', 'woman', 'lady'];
+    case 'cancerType':
+      return cancerTypeSynonyms(String(value));
+    case 'stage':
+      return [String(value), String(value).replace(/^stage\s*/i, '')];
+    case 'tnm': {
+      const tnm = value as TnmStage;
+      return [`${tnm.prefix || ''}${tnm.t}`, tnm.t || ''];
+    }
+    case 'stageExtent':
+      return [`${value}-stage`, `${value} stage`, `${value} disease`, String(value)];
+    case 'ecog':
+      return [`ECOG ${value}`, `ECOG${value}`, `ECOG PS ${value}`, `ECOG is ${value}`, `PS ${value}`];
+    case 'pdl1Score':
+      return ['PD-L1', 'PDL1'];
+    case 'location': {
+      const loc = value as PatientProfile['location'];
+      return [loc?.city, loc?.postalCode].filter((v): v is string => !!v);
+    }
+    case 'biomarkers': {
+      const b = value as Biomarker;
+      return [b.alteration ? `${b.gene} ${b.alteration}` : '', b.gene].filter(Boolean);
+    }
+    case 'priorTreatments':
+      return drugSynonyms(String(value));
+    case 'labs':
+    case 'currentMedications':
+      return [(value as LabValue | Medication).name];
+    default:
+      return [String(value)];
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** First case-insensitive, word-bounded occurrence of any needle */
+export function findSpan(message: string, needles: string[]): FieldProvenance['span'] {
+  for (const needle of needles) {
+    if (!needle.trim()) continue;
+    const match = message.match(new RegExp(`(?<![\\w-])${escapeRegExp(needle)}(?![\\w-])`, 'i'));
+    if (match) {
+      return { start: match.index!, end: match.index! + match[0].length, text: match[0] };
+    }
+  }
+  return undefined;
+}
+
+function entry(field: string, value: unknown, message: string, origin: ProvenanceOrigin, known?: FieldProvenance['span']): FieldProvenance {
+  const span = known || (message ? findSpan(message, spanNeedles(field, value)) : undefined);
+  const base = origin.source === 'regex' ? REGEX_CONFIDENCE[field] ?? 0.7 : SOURCE_CONFIDENCE[origin.source];
+  return {
+    source: origin.source,
+    ...(origin.extractor ? { extractor: origin.extractor } : {}),
+    ...(origin.messageId ? { messageId: origin.messageId } : {}),
+    ...(span ? { span } : {}),
+    confidence: Math.round((message && !span ? base * NO_SPAN_PENALTY : base) * 100) / 100,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Provenance for every field and list item in an extractor's output.
+ * `spans` gives where the extractor read a scalar, for values a text search
+ * wouldn't find ("58M" for sex).
+ */
+export function buildProvenance(
+  extracted: Partial<PatientProfile>,
+  message: string,
+  origin: ProvenanceOrigin,
+  spans: Partial<Record<typeof SCALAR_FIELDS[number], FieldProvenance['span']>> = {}
+): ProvenanceMap {
+  const provenance: ProvenanceMap = {};
+  for (const field of SCALAR_FIELDS) {
+    const value = extracted[field];
+    if (value !== undefined) provenance[field] = entry(field, value, message, origin, spans[field]);
+  }
+  for (const field of PROFILE_LIST_FIELDS) {
+    for (const item of (extracted[field] || []) as Array<Biomarker | LabValue | Medication | string>) {
+      provenance[provenanceKey(field, item)] = entry(field, item, message, origin);
+    }
+  }
+  return provenance;
+}
+
+/**
+ * The part of `after` that differs from `before`: changed scalars and list
+ * items that weren't there. Lets nodes that update a profile in place
+ * record provenance for just what they extracted.
+ */
+export function changedFields(before: PatientProfile, after: PatientProfile): Partial<PatientProfile> {
+  const changed: Partial<PatientProfile> = {};
+  for (const field of SCALAR_FIELDS) {
+    if (after[field] !== undefined && JSON.stringify(after[field]) !== JSON.stringify(before[field])) {
+      (changed as Record<string, unknown>)[field] = after[field];
+    }
+  }
+  for (const field of PROFILE_LIST_FIELDS) {
+    const previous = new Map(
+      ((before[field] || []) as Array<Biomarker | LabValue | Medication | string>).map(item => [itemKey(field, item), JSON.stringify(item)])
+    );
+    const added = ((after[field] || []) as Array<Biomarker | LabValue | Medication | string>)
+      .filter(item => previous.get(itemKey(field, item)) !== JSON.stringify(item));
+    if (added.length > 0) (changed as Record<string, unknown>)[field] = added;
+  }
+  return changed;
+}
+
+/** Attribute values without a provenance entry to `origin` (e.g. a client-seeded profile) */
+export function fillMissingProvenance(profile: PatientProfile, origin: ProvenanceOrigin): PatientProfile {
+  const missing: Partial<PatientProfile> = {};
+  for (const field of SCALAR_FIELDS) {
+    if (profile[field] !== undefined && !profile.provenance?.[field]) {
+      (missing as Record<string, unknown>)[field] = profile[field];
+    }
+  }
+  for (const field of PROFILE_LIST_FIELDS) {
+    const items = ((profile[field] || []) as Array<Biomarker | LabValue | Medication | string>)
+      .filter(item => !profile.provenance?.[provenanceKey(field, item)]);
+    if (items.length > 0) (missing as Record<string, unknown>)[field] = items;
+  }
+  if (Object.keys(missing).length === 0) return profile;
+  return { ...profile, provenance: { ...buildProvenance(missing, '', origin), ...profile.provenance } };
+}
+
+/** Drop entries whose field or list item is no longer in the profile */
+export function pruneProvenance(profile: PatientProfile): PatientProfile {
+  if (!profile.provenance) return profile;
+  const live = new Set<string>();
+  for (const field of SCALAR_FIELDS) {
+    if (profile[field] !== undefined) live.add(field);
+  }
+  for (const field of PROFILE_LIST_FIELDS) {
+    for (const item of (profile[field] || []) as Array<Biomarker | LabValue | Medication | string>) {
+      live.add(provenanceKey(field, item));
+    }
+  }
+  const provenance = Object.fromEntries(Object.entries(profile.provenance).filter(([key]) => live.has(key)));
+  return { ...profile, provenance };
+}
+
+/** Short label for tooltips, e.g. "LLM (claude-haiku) · 90%" */
+export function describeProvenance(provenance: FieldProvenance): string {
+  const source = { llm: 'LLM', regex: 'Rule-based', client: 'Client', manual: 'Manual edit', import: 'Record import' }[provenance.source];
+  const extractor = provenance.extractor ? ` (${provenance.extractor})` : '';
+  return `${source}${extractor} · ${Math.round(provenance.confidence * 100)}% confidence`;
+}
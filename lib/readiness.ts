@@ -0,0 +1,236 @@
+/**
+ * Pre-match readiness
+ *
+ * What a profile still needs before it goes to matching. Blocking gaps
+ * (diagnosis, age, stage) stop the search until they're filled in or the
+ * user confirms they're unknown; soft gaps (sex, ECOG, the biomarkers that
+ * drive trial selection for the cancer type) are asked about once. Anything
+ * still missing is sent to the backend as an explicit unknown instead of a
+ * made-up default.
+ */
+
+import { PatientProfile } from '@/types';
+
+export type GapSeverity = 'blocking' | 'soft';
+
+export interface ReadinessGap {
+  /** Profile field, or `biomarkers:GENE` */
+  key: string;
+  label: string;
+  severity: GapSeverity;
+  /** Example answer shown in the checklist */
+  hint: string;
+  /** Whether the user may confirm it as unknown and search anyway */
+  confirmable: boolean;
+}
+
+export interface ReadinessReport {
+  /** No blocking gaps left */
+  ready: boolean;
+  blocking: ReadinessGap[];
+  soft: ReadinessGap[];
+  /** Keys the user confirmed as unknown that are still missing */
+  unknown: string[];
+}
+
+// =============================================================================
+// Requirements
+// =============================================================================
+
+interface Requirement extends ReadinessGap {
+  /** How the user refers to it in chat ("stage unknown", "EGFR not tested") */
+  terms: RegExp;
+  isKnown: (profile: PatientProfile) => boolean;
+}
+
+function requirement(
+  key: string,
+  label: string,
+  severity: GapSeverity,
+  hint: string,
+  terms: RegExp,
+  isKnown: (profile: PatientProfile) => boolean,
+  confirmable = true
+): Requirement {
+  return { key, label, severity, hint, terms, isKnown, confirmable };
+}
+
+function biomarker(gene: string, hint: string, aliases: string[] = [], isKnown?: (profile: PatientProfile) => boolean): Requirement {
+  const names = [gene, ...aliases];
+  const terms = new RegExp(`(?<![\\w-])(?:${names.map(n => n.replace(/[-/]/g, '[-/\\s]?')).join('|')})(?![\\w-])`, 'i');
+  return requirement(
+    `biomarkers:${gene}`,
+    `${gene} status`,
+    'soft',
+    hint,
+    terms,
+    profile => profile.biomarkers.some(b => names.some(n => n.toUpperCase() === b.gene.toUpperCase())) || !!isKnown?.(profile)
+  );
+}
+
+const CANCER_TYPE = requirement('cancerType', 'Diagnosis', 'blocking', 'e.g. "metastatic NSCLC"',
+  /\b(?:diagnosis|cancer type|cancer)\b/i, p => !!p.cancerType, false);
+const AGE = requirement('age', 'Age', 'blocking', 'e.g. "62 years old"',
+  /\bage\b|\bhow old\b/i, p => p.age !== undefined);
+const STAGE = requirement('stage', 'Stage', 'blocking', 'e.g. "stage IIIB" or "pT2 N1 M0"',
+  /\bstage\b|\btnm\b/i, p => !!p.stage);
+const SCLC_STAGE = requirement('stage', 'Stage or extent', 'blocking', 'e.g. "extensive-stage" or "stage IIIA"',
+  /\bstage\b|\bextent\b|\btnm\b/i, p => !!p.stage || !!p.stageExtent);
+const SEX = requirement('sex', 'Sex', 'soft', 'e.g. "female"',
+  /\bsex\b|\bgender\b/i, p => !!p.sex);
+const ECOG = requirement('ecog', 'ECOG performance status', 'soft', 'e.g. "ECOG 1"',
+  /\becog\b|\bperformance status\b|\bPS\b/i, p => p.ecog !== undefined);
+
+const PDL1 = biomarker('PD-L1', 'e.g. "PD-L1 TPS 60%"', ['PDL1'], p => !!p.pdl1Score);
+const MSI = biomarker('MSI', 'e.g. "MSI-high" or "MSS"', ['MSI-H', 'MSS', 'MMR', 'dMMR', 'pMMR'], p => !!p.msiStatus);
+const HER2 = biomarker('HER2', 'e.g. "HER2 negative"', ['ERBB2']);
+const BRCA = biomarker('BRCA', 'e.g. "germline BRCA2 mutation"', ['BRCA1', 'BRCA2']);
+const KRAS = biomarker('KRAS', 'e.g. "KRAS G12C"');
+const BRAF = biomarker('BRAF', 'e.g. "BRAF V600E" or "BRAF wild-type"');
+const FGFR = biomarker('FGFR', 'e.g. "FGFR2 fusion"', ['FGFR1', 'FGFR2', 'FGFR3', 'FGFR4']);
+
+// Biomarkers that decide most trial eligibility for each canonical cancer type (lib/terminology)
+const BIOMARKERS_BY_CANCER_TYPE: Record<string, Requirement[]> = {
+  NSCLC: [
+    biomarker('EGFR', 'e.g. "EGFR exon 19 deletion" or "EGFR negative"'),
+    biomarker('ALK', 'e.g. "ALK fusion" or "ALK negative"'),
+    biomarker('ROS1', 'e.g. "ROS1 negative"'),
+    KRAS,
+    PDL1,
+  ],
+  'Breast Cancer': [HER2, biomarker('HR', 'e.g. "ER+/PR-"', ['ER', 'PR', 'ESR1', 'PGR']), BRCA],
+  TNBC: [BRCA, PDL1],
+  CRC: [KRAS, BRAF, MSI, HER2],
+  Melanoma: [BRAF],
+  'Pancreatic Cancer': [KRAS, BRCA, MSI],
+  'Ovarian Cancer': [BRCA],
+  'Prostate Cancer': [BRCA],
+  'Gastric Cancer': [HER2, MSI, PDL1],
+  'Esophageal Cancer': [HER2, PDL1],
+  'Endometrial Cancer': [MSI],
+  Cholangiocarcinoma: [FGFR, biomarker('IDH1', 'e.g. "IDH1 R132C"')],
+  'Bladder Cancer': [FGFR],
+  'Urothelial Cancer': [FGFR],
+  Glioblastoma: [biomarker('IDH', 'e.g. "IDH wild-type"', ['IDH1', 'IDH2'])],
+};
+
+// Staged differently (or not at all) by AJCC
+const HEMATOLOGIC = ['Lymphoma', 'Leukemia', 'Multiple Myeloma'];
+
+function requirementsFor(profile: PatientProfile): Requirement[] {
+  const cancerType = profile.cancerType;
+  const stage = !cancerType || !HEMATOLOGIC.includes(cancerType)
+    ? [cancerType === 'SCLC' ? SCLC_STAGE : STAGE]
+    : [];
+  return [CANCER_TYPE, AGE, ...stage, SEX, ECOG, ...(cancerType ? BIOMARKERS_BY_CANCER_TYPE[cancerType] || [] : [])];
+}
+
+function toGap({ key, label, severity, hint, confirmable }: Requirement): ReadinessGap {
+  return { key, label, severity, hint, confirmable };
+}
+
+// =============================================================================
+// Assessment
+// =============================================================================
+
+/** Gaps that are neither filled in nor confirmed unknown */
+export function assessReadiness(profile: PatientProfile): ReadinessReport {
+  const confirmed = new Set(profile.unknownFields || []);
+  const missing = requirementsFor(profile).filter(r => !r.isKnown(profile));
+  const open = missing.filter(r => !r.confirmable || !confirmed.has(r.key));
+  const blocking = open.filter(r => r.severity === 'blocking').map(toGap);
+  return {
+    ready: blocking.length === 0,
+    blocking,
+    soft: open.filter(r => r.severity === 'soft').map(toGap),
+    unknown: missing.filter(r => r.confirmable && confirmed.has(r.key)).map(r => r.key),
+  };
+}
+
+const UNKNOWN_CUE = /\b(?:unknown|not known|(?:don'?t|do not) know|not sure|unsure|not (?:been )?(?:tested|done|assessed)|untested|unavailable|not available|n\/a)\b/i;
+
+// "search anyway", "go ahead anyway", "the rest is unknown"
+export const MATCH_ANYWAY = /\b(?:search|match|proceed|continue|go ahead)(?:\s+with\s+(?:the\s+)?(?:search|matching))?\s+anyway\b|\b(?:the\s+)?(?:rest|others|everything else)\s+(?:is\s+|are\s+)?unknown\b/i;
+
+/**
+ * Gaps the message confirms as unknown: "stage unknown", "EGFR and ALK not
+ * tested", "don't know her ECOG". A comma list only shares the cue when its
+ * other items name nothing but gaps ("EGFR, ALK unknown").
+ */
+export function extractUnknownConfirmations(message: string, profile: PatientProfile): string[] {
+  const requirements = requirementsFor(profile).filter(r => r.confirmable && !r.isKnown(profile));
+  const confirmed = new Set<string>();
+  let listed: Requirement[] = [];
+
+  for (const clause of message.split(/[.;!?\n]|,/)) {
+    const mentioned = requirements.filter(r => r.terms.test(clause));
+    if (UNKNOWN_CUE.test(clause)) {
+      [...listed, ...mentioned].forEach(r => confirmed.add(r.key));
+      listed = [];
+      continue;
+    }
+    const rest = requirements.reduce((text, r) => text.replace(new RegExp(r.terms.source, 'gi'), ''), clause);
+    listed = mentioned.length > 0 && /^(?:\s|\band\b|\bor\b|&|\bstatus\b)*$/i.test(rest) ? [...listed, ...mentioned] : [];
+  }
+  return [...confirmed];
+}
+
+/** Record what `message` confirms as unknown on the profile */
+export function recordUnknownConfirmations(profile: PatientProfile, message: string, extra: string[] = []): PatientProfile {
+  const confirmations = [...extractUnknownConfirmations(message, profile), ...extra];
+  if (confirmations.length === 0) return profile;
+  return { ...profile, unknownFields: [...new Set([...(profile.unknownFields || []), ...confirmations])] };
+}
+
+/** Keys of the gaps still open, blocking first */
+export function openGaps(report: ReadinessReport): string[] {
+  return [...report.blocking, ...report.soft].map(gap => gap.key);
+}
+
+export interface ReadinessCheck {
+  /** Nothing left to ask: start matching */
+  proceed: boolean;
+  /** The profile with the user's unknown confirmations recorded */
+  profile: PatientProfile;
+  report: ReadinessReport;
+}
+
+/**
+ * The gate in front of matching. Soft gaps already shown once
+ * (`previouslyAsked`) count as confirmed when the user asks to match again,
+ * as do all soft gaps on "search anyway"; blocking ones need a value or an
+ * explicit "unknown".
+ */
+export function checkReadiness(profile: PatientProfile, message: string, previouslyAsked: string[] = []): ReadinessCheck {
+  const goAhead = MATCH_ANYWAY.test(message);
+  const acknowledged = assessReadiness(profile).soft
+    .filter(gap => goAhead || previouslyAsked.includes(gap.key))
+    .map(gap => gap.key);
+  const updated = recordUnknownConfirmations(profile, message, acknowledged);
+  const report = assessReadiness(updated);
+  return { proceed: openGaps(report).length === 0, profile: updated, report };
+}
+
+/** Checklist for the gaps still open, or a go-ahead once there are none */
+export function describeReadiness(report: ReadinessReport, cancerType?: string): string {
+  if (openGaps(report).length === 0) {
+    return '✅ Everything needed for matching is in — say **find trials** to start.';
+  }
+
+  const line = (gap: ReadinessGap) => `- ${gap.label} — ${gap.hint}`;
+  const sections: string[] = [];
+  if (report.blocking.length > 0) {
+    sections.push(`**Needed before I can search**\n${report.blocking.map(line).join('\n')}`);
+  }
+  if (report.soft.length > 0) {
+    sections.push(`**Recommended${cancerType ? ` for ${cancerType}` : ''}**\n${report.soft.map(line).join('\n')}`);
+  }
+
+  const next = report.blocking.some(g => !g.confirmable)
+    ? 'Tell me the diagnosis and anything else you know, then say **find trials** again.'
+    : report.blocking.length > 0
+      ? 'Reply with what you know, or say e.g. "stage unknown" for anything that isn\'t known, then say **find trials** again.'
+      : 'Reply with what you know, or say **search anyway** to search with these marked unknown.';
+
+  return `📋 **A few details before matching:**\n\n${sections.join('\n\n')}\n\n${next}`;
+}
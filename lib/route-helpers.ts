@@ -0,0 +1,48 @@
+/**
+ * Route helpers
+ *
+ * Request parsing, profile normalization and undo bookkeeping shared by the
+ * API routes (app/api/chat, app/api/documents).
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { normalizeBiomarkers } from '@/lib/biomarkers';
+import { withClinicalContextDefaults } from '@/lib/clinical-context';
+import { createUndoEntry, MAX_UNDO_ENTRIES } from '@/lib/profile-operations';
+import type { Session } from '@/lib/session-store';
+import { normalizeStaging } from '@/lib/staging';
+import { ClientPatientProfile, PatientProfile } from '@/types';
+
+// Older clients/sessions may still carry the legacy Record<gene, status> biomarkers,
+// predate the labs / comorbidities / medications lists or have non-canonical
+// stages ("STAGE III"); a group is also derived once TNM and cancer type are both known
+export function normalizeProfile(raw: ClientPatientProfile): PatientProfile {
+  const { biomarkers, ...rest } = raw;
+  return normalizeStaging({
+    ...withClinicalContextDefaults(rest),
+    biomarkers: normalizeBiomarkers(biomarkers),
+  });
+}
+
+/** Record what a request changed on the profile as an undo entry; what the client shows for it */
+export function rememberUndo(session: Session, before: PatientProfile, messageId: string | undefined) {
+  const entry = createUndoEntry(before, session.patientProfile, { messageId });
+  if (!entry) return undefined;
+  session.undoStack = [...(session.undoStack || []), entry].slice(-MAX_UNDO_ENTRIES);
+  return { id: entry.id, summary: entry.summary };
+}
+
+// 400 listing every invalid field, e.g. { path: 'patientProfile.biomarkers', message: 'Expected array, received string' }
+export function invalidRequest(error: z.ZodError): Response {
+  return Response.json({
+    error: 'Invalid request body',
+    issues: error.issues.map(issue => ({ path: issue.path.join('.'), code: issue.code, message: issue.message })),
+  }, { status: 400 });
+}
+
+/** Parse a JSON body against `schema`; malformed JSON fails like any other invalid body */
+export async function parseBody<T extends z.ZodTypeAny>(request: NextRequest, schema: T): Promise<z.SafeParseReturnType<unknown, z.output<T>>> {
+  const body = await request.json().catch(() => undefined);
+  return schema.safeParse(body);
+}
@@ -0,0 +1,140 @@
+/**
+ * Clause-level assertion context
+ *
+ * A NegEx/ConText-style pass deciding, for a mention at a given offset,
+ * whether the text asserts it about the patient: negated ("no prior
+ * chemotherapy"), planned ("plans to start osimertinib"), family history
+ * ("mother had breast cancer"), uncertain ("possible ILD") or historical
+ * ("history of DVT"). Triggers open a scope that runs forward (or, for
+ * post-triggers, back) to the end of the clause.
+ */
+
+export interface Assertion {
+  negated: boolean;
+  uncertain: boolean;
+  planned: boolean;
+  family: boolean;
+  historical: boolean;
+}
+
+type AssertionKind = keyof Assertion;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// =============================================================================
+// Triggers
+// =============================================================================
+
+const RELATIVE = '(?:mother|father|mom|dad|sister|brother|sibling|aunt|uncle|grand(?:mother|father|parent)|cousin|daughter|son|parent|niece|nephew|wife|husband|spouse)s?';
+
+// Open a scope that runs forward from the trigger
+const PRE_TRIGGERS: Record<AssertionKind, RegExp> = {
+  negated: /\b(?:no|not|never|denies|denied|without|negative\s+for|free\s+of|absence\s+of|declined|declines|refused|refuses|neither|nor)\b|n't\b/gi,
+  uncertain: /\b(?:possible|possibly|probable|probably|likely|suspected|suspicious\s+for|suspicion\s+of|concern(?:ing)?\s+for|questionable|rule\s+out|r\/o|may\s+have|might\s+have|could\s+be|presumed|presumptive|equivocal\s+for|query)\b/gi,
+  planned: /\b(?:plan(?:s|ned|ning)?(?:\s+(?:to|for|on))?|will\s+(?:start|begin|receive|get|undergo|be\s+(?:started|treated))|to\s+(?:start|begin|initiate|receive)|scheduled\s+(?:for|to)|due\s+to\s+start|about\s+to\s+(?:start|begin)|going\s+to|candidate\s+for|consider(?:ing|ed\s+for)?|being\s+considered\s+for|eligible\s+for|recommended|offered|proposed|awaiting|intends?\s+to|next\s+line)\b/gi,
+  family: new RegExp(`\\b(?:family\\s+history|fhx|fh\\s+of|${RELATIVE}(?:'s)?)\\b`, 'gi'),
+  historical: /\b(?:history\s+of|hx\s+of|h\/o|previously|prior|previous|s\/p|status\s+post|received|treated\s+with|completed|progressed\s+(?:on|after|through)|failed|underwent|was\s+on|had\s+been\s+on)\b/gi,
+};
+
+// Follow the mention and look back to it ("EGFR not detected", "chemo is planned")
+const POST_TRIGGERS: Partial<Record<AssertionKind, RegExp>> = {
+  negated: /^\s*(?:was|were|is|are|has\s+been)?\s*(?:ruled\s+out|not\s+(?:detected|seen|found|given|received|present|identified)|absent|negative|declined|refused)\b/i,
+  uncertain: /^\s*(?:is|was)?\s*(?:suspected|possible|likely|unconfirmed|not\s+(?:excluded|ruled\s+out))\b|^\s*\?/i,
+  planned: /^\s*(?:is|was|are|were)?\s*(?:planned|scheduled|proposed|recommended|being\s+considered)\b/i,
+  family: new RegExp(`^\\s*(?:in|on)\\s+(?:his|her|their|a|the)\\s+${RELATIVE}\\b|^\\s*\\(?(?:family\\s+history|fhx)\\)?`, 'i'),
+};
+
+// Phrases containing a trigger word that don't open a scope
+const PSEUDO_TRIGGERS = /\b(?:no\s+(?:further|change|significant\s+change|increase|longer)|not\s+(?:only|necessarily|been\s+ruled\s+out|ruled\s+out)|without\s+difficulty|gram[\s-]negative|prior\s+to)\b/gi;
+
+// End a forward scope: contrast, a new subject, or a verb that starts a fresh assertion
+const TERMINATION = /\b(?:but|however|although|though|yet|except|aside\s+from|apart\s+from|which|who|whereas|now|currently|presents?|presented|then|subsequently|since|(?:he|she|they|patient|pt)\s+(?:has|had|is|was|reports?|received|started))\b/gi;
+
+// Max characters between a mention and a post-trigger
+const POST_TRIGGER_WINDOW = 30;
+
+// =============================================================================
+// Segmentation
+// =============================================================================
+
+// Sentence breaks: ". " (not inside "s/p", decimals or common abbreviations), ; ! ? and newlines
+const SENTENCE_BREAK = /(?<!\b(?:dr|vs|approx|e\.g|i\.e|mr|mrs|ms|pt))[.!?](?=\s|$)|[;\n]/gi;
+
+/** Bounds of the sentence containing `index` */
+export function sentenceAt(text: string, index: number): Span {
+  let start = 0;
+  let end = text.length;
+  for (const match of text.matchAll(SENTENCE_BREAK)) {
+    const breakAt = match.index!;
+    if (breakAt < index) start = breakAt + 1;
+    else { end = breakAt; break; }
+  }
+  return { start, end };
+}
+
+function allMatches(regex: RegExp, text: string): Span[] {
+  return [...text.matchAll(regex)].map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+/**
+ * Where a scope opened at `from` stops: a termination term, or a comma unless
+ * the rest reads as a list ("no diabetes, hypertension or COPD").
+ */
+function forwardScopeEnd(sentence: string, from: number): number {
+  const terminator = allMatches(TERMINATION, sentence).find(t => t.start >= from);
+  const end = terminator ? terminator.start : sentence.length;
+
+  const rest = sentence.slice(from, end);
+  const firstComma = rest.indexOf(',');
+  if (firstComma < 0) return end;
+
+  const segments = rest.slice(firstComma + 1).split(',');
+  const isList = /\b(?:or|nor|and)\b/i.test(rest.slice(firstComma))
+    && !/\b\d/.test(rest.slice(firstComma))
+    && segments.every(s => s.trim().split(/\s+/).length <= 4);
+  return isList ? end : from + firstComma;
+}
+
+// =============================================================================
+// Assertion
+// =============================================================================
+
+/** Assertion context of the mention at `start`–`end` in `text` */
+export function assertionAt(text: string, start: number, end: number = start): Assertion {
+  const bounds = sentenceAt(text, start);
+  const sentence = text.slice(bounds.start, bounds.end);
+  const mentionStart = start - bounds.start;
+  const mentionEnd = Math.min(end, bounds.end) - bounds.start;
+
+  const pseudo = allMatches(PSEUDO_TRIGGERS, sentence);
+  const insidePseudo = (t: Span) => pseudo.some(p => t.start >= p.start && t.start < p.end);
+
+  const assertion: Assertion = { negated: false, uncertain: false, planned: false, family: false, historical: false };
+
+  for (const kind of Object.keys(PRE_TRIGGERS) as AssertionKind[]) {
+    assertion[kind] = allMatches(PRE_TRIGGERS[kind], sentence).some(trigger =>
+      trigger.end <= mentionStart &&
+      !insidePseudo(trigger) &&
+      forwardScopeEnd(sentence, trigger.end) >= mentionEnd
+    );
+  }
+
+  // Post-triggers: same clause, within a few words after the mention
+  const tail = sentence.slice(mentionEnd).split(/[,;]/)[0];
+  const wordStarts = [0, ...allMatches(/\s+/g, tail).map(w => w.end)].filter(offset => offset <= POST_TRIGGER_WINDOW);
+  for (const [kind, regex] of Object.entries(POST_TRIGGERS) as Array<[AssertionKind, RegExp]>) {
+    assertion[kind] ||= wordStarts.some(offset =>
+      regex.test(tail.slice(offset)) && allMatches(TERMINATION, tail.slice(0, offset)).length === 0
+    );
+  }
+
+  return assertion;
+}
+
+/** The mention is affirmed, about the patient and has actually happened */
+export function isAffirmed(assertion: Assertion): boolean {
+  return !assertion.negated && !assertion.uncertain && !assertion.planned && !assertion.family;
+}
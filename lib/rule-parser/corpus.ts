@@ -0,0 +1,199 @@
+/**
+ * Rule parser regression corpus
+ *
+ * Sentences the rule-based parser has got wrong before (or easily could),
+ * with what it must and must not extract. `evaluateRegressionCorpus()` runs
+ * them and returns the failures; `npm run eval:rule-parser` lists them and
+ * exits non-zero, so run it after changing a trigger list.
+ */
+
+import { BiomarkerStatus, PatientProfile } from '@/types';
+import { parsePatientFromMessage } from './index';
+
+type ListField = 'priorTreatments' | 'comorbidities' | 'currentMedications';
+type ScalarField = 'age' | 'sex' | 'cancerType' | 'stage';
+
+export interface RegressionCase {
+  text: string;
+  /** Which behaviour the case pins down */
+  note: string;
+  includes?: Partial<Record<ListField, string[]>>;
+  excludes?: Partial<Record<ListField, string[]>>;
+  /** Expected status per gene; null = must not be extracted */
+  biomarkers?: Record<string, BiomarkerStatus | null>;
+  /** Expected scalar values; null = must not be extracted */
+  fields?: Partial<Record<ScalarField, string | number | null>>;
+}
+
+export interface RegressionFailure {
+  text: string;
+  note: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export const REGRESSION_CORPUS: RegressionCase[] = [
+  // Negation scope
+  { text: 'No prior chemotherapy.', note: 'negated treatment',
+    excludes: { priorTreatments: ['Chemotherapy'] } },
+  { text: '64yo woman with NSCLC, no prior chemotherapy or immunotherapy, ECOG 1', note: 'negation spans a short list',
+    excludes: { priorTreatments: ['Chemotherapy', 'Immunotherapy'] }, fields: { age: 64, sex: 'Female', cancerType: 'NSCLC' } },
+  { text: 'Never received pembrolizumab but completed 4 cycles of carboplatin', note: '"but" ends the negation scope',
+    includes: { priorTreatments: ['Carboplatin'] }, excludes: { priorTreatments: ['Pembrolizumab'] } },
+  { text: 'Denies diabetes, hypertension or COPD.', note: 'negated comorbidity list',
+    excludes: { comorbidities: ['Diabetes Mellitus', 'Hypertension', 'COPD'] } },
+  { text: 'No brain mets, history of DVT on apixaban', note: 'comma ends the negation scope when the rest is not a list',
+    includes: { comorbidities: ['Venous Thromboembolism'], currentMedications: ['Apixaban'] }, excludes: { comorbidities: ['Brain Metastases'] } },
+  { text: 'Hepatitis B was ruled out.', note: 'post-mention negation',
+    excludes: { comorbidities: ['Hepatitis B'] } },
+  { text: 'Declined chemotherapy, received radiation to the chest', note: 'declined therapy is not prior therapy',
+    includes: { priorTreatments: ['Radiotherapy'] }, excludes: { priorTreatments: ['Chemotherapy'] } },
+  { text: 'Has not had surgery.', note: 'contracted negation',
+    excludes: { priorTreatments: ['Surgery'] } },
+  { text: 'No metastatic disease on staging scans.', note: 'negated metastatic does not imply stage IV',
+    fields: { stage: null } },
+  { text: 'Non-metastatic breast cancer', note: '"non-metastatic" is not stage IV',
+    fields: { stage: null, cancerType: 'Breast Cancer' } },
+  { text: 'No further chemotherapy after carboplatin/pemetrexed.', note: '"no further" is a pseudo-negation',
+    includes: { priorTreatments: ['Carboplatin', 'Pemetrexed'] } },
+  { text: 'No longer on warfarin', note: '"no longer" marks a stopped medication rather than a negation',
+    includes: { currentMedications: ['Warfarin'] } },
+
+  // Planned vs received therapy
+  { text: 'Plans to start osimertinib next week.', note: 'planned therapy',
+    excludes: { priorTreatments: ['Osimertinib'] } },
+  { text: 'Progressed on carboplatin and pemetrexed; considering docetaxel', note: 'received vs considered in separate clauses',
+    includes: { priorTreatments: ['Carboplatin', 'Pemetrexed'] }, excludes: { priorTreatments: ['Docetaxel'] } },
+  { text: 'Will receive radiotherapy after surgery', note: 'future therapy',
+    excludes: { priorTreatments: ['Radiotherapy'] } },
+  { text: 'Completed chemoradiation with carboplatin/paclitaxel, planning durvalumab consolidation.', note: 'drug straight after "planning"',
+    includes: { priorTreatments: ['Carboplatin', 'Paclitaxel'] }, excludes: { priorTreatments: ['Durvalumab'] } },
+  { text: 'Immunotherapy is planned.', note: 'post-mention plan',
+    excludes: { priorTreatments: ['Immunotherapy'] } },
+  { text: 'Candidate for pembrolizumab; currently on osimertinib', note: 'candidacy vs current therapy',
+    includes: { priorTreatments: ['Osimertinib'] }, excludes: { priorTreatments: ['Pembrolizumab'] } },
+  { text: 'Scheduled to begin apixaban', note: 'planned medication',
+    excludes: { currentMedications: ['Apixaban'] } },
+
+  // Age and sex
+  { text: '58M with metastatic colorectal cancer', note: 'compact age and sex',
+    fields: { age: 58, sex: 'Male', cancerType: 'CRC' } },
+  { text: 'Stage IIIB NSCLC, 66F, completed chemoradiation', note: 'compact age and sex mid-sentence',
+    fields: { age: 66, sex: 'Female' } },
+  { text: '58 y/o M with NSCLC', note: 'y/o followed by a sex letter',
+    fields: { age: 58, sex: 'Male' } },
+  { text: 'Her creatinine is 1.1. She is 70, ovarian cancer', note: 'age after "she is", sex from pronouns',
+    fields: { age: 70, sex: 'Female' } },
+  { text: 'He is 70 kg, lung cancer', note: 'a weight is not an age',
+    fields: { age: null, sex: 'Male' } },
+  { text: 'pT2a N1 M0 lung adenocarcinoma', note: 'TNM "M0" is not a sex',
+    fields: { sex: null } },
+
+  // Family history vs the patient
+  { text: 'Mother had breast cancer. Patient is a 52 year old man with colorectal cancer.', note: 'family diagnosis in its own sentence',
+    fields: { cancerType: 'CRC', age: 52, sex: 'Male' } },
+  { text: 'Family history of ovarian cancer; 45yo with melanoma', note: 'family history clause',
+    fields: { cancerType: 'Melanoma', age: 45 } },
+  { text: 'Breast cancer in her sister, patient has NSCLC', note: 'post-mention relative',
+    fields: { cancerType: 'NSCLC' } },
+  { text: 'His father died of lung cancer at 70 years', note: "a relative's age and diagnosis",
+    fields: { age: null, cancerType: null } },
+  { text: 'Sister carries a BRCA1 mutation', note: "a relative's biomarker",
+    biomarkers: { BRCA1: null } },
+  { text: 'Mother has lupus', note: "a relative's comorbidity",
+    excludes: { comorbidities: ['Systemic Lupus Erythematosus'] } },
+
+  // Uncertainty
+  { text: 'Possible ILD on CT', note: 'uncertain comorbidity',
+    excludes: { comorbidities: ['Interstitial Lung Disease'] } },
+  { text: 'Pneumonitis is suspected', note: 'post-mention uncertainty',
+    excludes: { comorbidities: ['Interstitial Lung Disease'] } },
+  { text: 'Suspected ALK fusion, awaiting FISH', note: 'uncertain biomarker is equivocal',
+    biomarkers: { ALK: 'Equivocal' } },
+  { text: 'Rule out SCLC transformation', note: 'uncertain diagnosis',
+    fields: { cancerType: null } },
+
+  // Biomarker polarity
+  { text: 'FGFR2 fusion, FGFR3 mutation negative', note: 'gene family members',
+    biomarkers: { FGFR2: 'Positive', FGFR3: 'Negative' } },
+  { text: 'HER2 3+ by IHC', note: 'IHC score 3+ is positive',
+    biomarkers: { HER2: 'Positive' } },
+  { text: 'PD-L1 <1%, EGFR wild-type', note: 'PD-L1 below 1% is negative',
+    biomarkers: { 'PD-L1': 'Negative', EGFR: 'Negative' } },
+  { text: 'EGFR-mutant NSCLC', note: 'hyphenated positive',
+    biomarkers: { EGFR: 'Positive' } },
+  { text: 'ALK-rearranged adenocarcinoma', note: 'hyphenated rearrangement',
+    biomarkers: { ALK: 'Positive' } },
+  { text: 'HER2- breast cancer', note: 'bare trailing minus',
+    biomarkers: { HER2: 'Negative' } },
+  { text: 'KRAS wild-type, EGFR L858R', note: 'wild-type in the neighbouring clause does not leak',
+    biomarkers: { KRAS: 'Negative', EGFR: 'Positive' } },
+  { text: 'No EGFR mutation detected', note: 'negated mutation',
+    biomarkers: { EGFR: 'Negative' } },
+  { text: 'Negative for EGFR, ALK and ROS1', note: 'negation over a gene list',
+    biomarkers: { EGFR: 'Negative', ALK: 'Negative', ROS1: 'Negative' } },
+  { text: 'EGFR, ALK and ROS1 negative', note: 'status shared by a gene list',
+    biomarkers: { EGFR: 'Negative', ALK: 'Negative', ROS1: 'Negative' } },
+  { text: 'Positive for BRAF V600E', note: 'lead-in positive',
+    biomarkers: { BRAF: 'Positive' } },
+  { text: 'Non-smoker, EGFR positive', note: 'hyphen elsewhere in the sentence is not a status',
+    biomarkers: { EGFR: 'Positive' } },
+  { text: 'eGFR 55 mL/min, KRAS G12C', note: 'kidney eGFR is a lab, not a biomarker',
+    biomarkers: { EGFR: null, KRAS: 'Positive' } },
+  { text: 'EGFR, ALK not tested; KRAS pending', note: 'untested genes are gaps, not results',
+    biomarkers: { EGFR: null, ALK: null, KRAS: null } },
+
+  // Terminology
+  { text: 'Progressed on Keytruda, now on Tagrisso', note: 'brand names map to generics',
+    includes: { priorTreatments: ['Pembrolizumab', 'Osimertinib'] }, excludes: { priorTreatments: ['Keytruda', 'Tagrisso'] } },
+  { text: 'Received FOLFOX, then FOLFIRI + bev', note: 'regimens expand into components',
+    includes: { priorTreatments: ['Fluorouracil', 'Leucovorin', 'Oxaliplatin', 'Irinotecan', 'Bevacizumab'] } },
+  { text: '4 cycles of carbo/pem + pembro', note: 'shorthand combination',
+    includes: { priorTreatments: ['Carboplatin', 'Pemetrexed', 'Pembrolizumab'] } },
+  { text: 'Prior anti-PD-1 therapy and platinum doublet', note: 'class-level mentions',
+    includes: { priorTreatments: ['PD-(L)1 Inhibitor', 'Platinum Chemotherapy'] } },
+  { text: 'Has not had Tagrisso', note: 'negated brand name',
+    excludes: { priorTreatments: ['Osimertinib'] } },
+  { text: '67yo man with pancreatic adenocarcinoma', note: 'site-specific type wins over histology',
+    fields: { cancerType: 'Pancreatic Cancer' } },
+  { text: 'Adrenal insufficiency on hydrocortisone, 58yo with melanoma', note: '"adrenal" is not renal cancer',
+    fields: { cancerType: 'Melanoma' } },
+];
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+export function evaluateRegressionCorpus(
+  parse: (text: string) => Partial<PatientProfile> = parsePatientFromMessage
+): RegressionFailure[] {
+  const failures: RegressionFailure[] = [];
+
+  for (const testCase of REGRESSION_CORPUS) {
+    const profile = parse(testCase.text);
+    const fail = (field: string, expected: unknown, actual: unknown) =>
+      failures.push({ text: testCase.text, note: testCase.note, field, expected, actual });
+    const names = (field: ListField) =>
+      ((profile[field] || []) as Array<string | { name: string }>).map(item => typeof item === 'string' ? item : item.name);
+
+    for (const [field, expected] of Object.entries(testCase.includes || {}) as Array<[ListField, string[]]>) {
+      const missing = expected.filter(name => !names(field).includes(name));
+      if (missing.length > 0) fail(field, `includes ${missing.join(', ')}`, names(field));
+    }
+    for (const [field, unexpected] of Object.entries(testCase.excludes || {}) as Array<[ListField, string[]]>) {
+      const present = unexpected.filter(name => names(field).includes(name));
+      if (present.length > 0) fail(field, `excludes ${present.join(', ')}`, names(field));
+    }
+    for (const [gene, expected] of Object.entries(testCase.biomarkers || {})) {
+      const actual = profile.biomarkers?.find(b => b.gene.toUpperCase() === gene.toUpperCase())?.status ?? null;
+      if (actual !== expected) fail(`biomarkers:${gene}`, expected, actual);
+    }
+    for (const [field, expected] of Object.entries(testCase.fields || {}) as Array<[ScalarField, string | number | null]>) {
+      const actual = profile[field] ?? null;
+      if (actual !== expected) fail(field, expected, actual);
+    }
+  }
+
+  return failures;
+}
@@ -0,0 +1,158 @@
+/**
+ * Rule-based patient parser
+ *
+ * The fallback extractor used when the LLM is unavailable. Every mention is
+ * checked against its clause's assertion context (see ./context), so "no
+ * prior chemotherapy", "plans to start osimertinib", "mother had breast
+ * cancer" and "possible ILD" don't end up on the profile.
+ */
+
+import { extractBiomarkersFromText, extractPdl1Score, formatPdl1Score } from '@/lib/biomarkers';
+import { extractLabsFromText, extractComorbiditiesFromText, extractMedicationsFromText } from '@/lib/clinical-context';
+import { extractLocationFromText, extractTravelRadiusFromText } from '@/lib/geo';
+import { buildProvenance } from '@/lib/provenance';
+import { extractStagingFromText, Staging } from '@/lib/staging';
+import { findCancerTypeMentions, findTreatmentMentions } from '@/lib/terminology';
+import { PatientProfile } from '@/types';
+import { assertionAt, isAffirmed } from './context';
+
+export { assertionAt, isAffirmed, sentenceAt } from './context';
+export type { Assertion } from './context';
+export { parseProfileOperations } from './operations';
+
+// =============================================================================
+// Field Rules
+// =============================================================================
+
+/** All matches of a global regex whose assertion context passes `accept` */
+function assertedMatches(
+  message: string,
+  regex: RegExp,
+  accept: (context: ReturnType<typeof assertionAt>) => boolean
+): RegExpMatchArray[] {
+  return [...message.matchAll(regex)].filter(m => accept(assertionAt(message, m.index!, m.index! + m[0].length)));
+}
+
+// Compact age and sex as notes write them: "58M", "66F", "58 y/o M", "45yo F". Case-sensitive, so "5 m" isn't read
+const COMPACT_AGE_SEX = /\b(\d{1,3})\s*(?:(?:y\/?o|yo|yrs?|y)\.?\s*)?([MF])\b/g;
+
+// Age straight after the patient as subject: "She is 70", "Pt is 64," (not "he is 70 kg")
+const SUBJECT_AGE = /\b(?:he|she|patient|pt)\s+is\s+(?:now\s+)?(\d{1,3})\b(?![.\d]|\s*(?:%|kg|lbs?|cm|mm|mg|percent|days?|weeks?|months?))/gi;
+
+// Sex read only from pronouns is a weaker guess than "male" or "58M"
+const PRONOUN_SEX_CONFIDENCE = 0.3;
+
+interface Reading<T> {
+  value: T;
+  span: { start: number; end: number; text: string };
+}
+
+function readingOf<T>(value: T, match: RegExpMatchArray, text = match[0], offset = 0): Reading<T> {
+  const start = match.index! + offset;
+  return { value, span: { start, end: start + text.length, text } };
+}
+
+// "55 year old", "45yo", "age 45", "aged 62", "58-yr-old", "age: 71", "58M", "She is 70"; not a relative's age
+function extractAge(message: string): Reading<number> | undefined {
+  const [match] = [
+    ...assertedMatches(message, /(\d+)[\s-]*(?:year|yr|y\/?o)/gi, c => !c.family),
+    ...assertedMatches(message, /\bage[d]?[\s:=-]*(\d+)/gi, c => !c.family),
+    ...assertedMatches(message, COMPACT_AGE_SEX, c => !c.family),
+    ...assertedMatches(message, SUBJECT_AGE, c => !c.family),
+  ];
+  if (!match) return undefined;
+  const age = parseInt(match[1]);
+  return age <= 120 ? readingOf(age, match, match[1], match[0].indexOf(match[1])) : undefined;
+}
+
+// "male", "man", "58M"; failing those, the patient's pronouns ("She is 70", "his creatinine") when they agree
+function extractSex(message: string): (Reading<NonNullable<PatientProfile['sex']>> & { fromPronoun?: boolean }) | undefined {
+  const accept = (c: ReturnType<typeof assertionAt>) => !c.family && !c.negated;
+  const [male] = assertedMatches(message, /\b(?:male|man)\b/gi, accept);
+  if (male) return readingOf('Male', male);
+  const [female] = assertedMatches(message, /\b(?:female|woman)\b/gi, accept);
+  if (female) return readingOf('Female', female);
+  const [compact] = assertedMatches(message, COMPACT_AGE_SEX, c => !c.family);
+  if (compact) return readingOf(compact[2] === 'M' ? 'Male' : 'Female', compact, compact[2], compact[0].length - 1);
+
+  const [he] = assertedMatches(message, /\b(?:he|him|his)\b/gi, c => !c.family);
+  const [she] = assertedMatches(message, /\b(?:she|her|hers)\b/gi, c => !c.family);
+  if (!he === !she) return undefined;
+  return { ...readingOf(he ? 'Male' : 'Female', he || she), fromPronoun: true };
+}
+
+// The patient's diagnosis: skips "family history of breast cancer", "no evidence of lung cancer", "possible SCLC"
+function extractCancerType(message: string): string | undefined {
+  const mention = findCancerTypeMentions(message).find(m => {
+    const context = assertionAt(message, m.start, m.end);
+    return !context.negated && !context.family && !context.uncertain;
+  });
+  return mention?.entry.name;
+}
+
+// "stage IIIB", TNM ("pT2a N1 M0") and SCLC extent, canonicalized by lib/staging;
+// "metastatic"/"advanced" imply stage IV unless negated ("no metastatic disease", "non-metastatic")
+function extractStage(message: string, cancerType: string | undefined): Staging {
+  const staging = extractStagingFromText(message, cancerType);
+  if (!staging.stage && !staging.stageExtent) {
+    const advanced = assertedMatches(message, /(?<!non-)\b(?:metastatic|advanced|mets)\b/gi, c => !c.negated && !c.family && !c.uncertain);
+    if (advanced.length > 0) staging.stage = 'Stage IV';
+  }
+  return staging;
+}
+
+// Therapies the patient has actually received, in canonical form ("Keytruda" → Pembrolizumab,
+// "carbo/pem" → Carboplatin + Pemetrexed); planned, declined and negated mentions don't count
+function extractPriorTreatments(message: string): string[] {
+  const treatments: string[] = [];
+  for (const mention of findTreatmentMentions(message)) {
+    if (!isAffirmed(assertionAt(message, mention.start, mention.end))) continue;
+    treatments.push(...mention.treatments.filter(name => !treatments.includes(name)));
+  }
+  return treatments;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+export function parsePatientFromMessage(message: string, messageId?: string): Partial<PatientProfile> {
+  const profile: Partial<PatientProfile> = {
+    biomarkers: extractBiomarkersFromText(message),
+    priorTreatments: extractPriorTreatments(message),
+    labs: extractLabsFromText(message),
+    comorbidities: extractComorbiditiesFromText(message),
+    currentMedications: extractMedicationsFromText(message),
+  };
+
+  const age = extractAge(message);
+  if (age) profile.age = age.value;
+  const sex = extractSex(message);
+  if (sex) profile.sex = sex.value;
+  const cancerType = extractCancerType(message);
+  if (cancerType) profile.cancerType = cancerType;
+  Object.assign(profile, extractStage(message, cancerType));
+
+  // PD-L1
+  const pdl1 = extractPdl1Score(message);
+  if (pdl1) profile.pdl1Score = formatPdl1Score(pdl1);
+
+  // ECOG ("ECOG 1", "ECOG PS: 2", "ECOG is 2 now")
+  const ecog = message.match(/ecog(?:\s*ps)?(?:\s+(?:is|was|of|now))*[\s:=-]*(\d)/i);
+  if (ecog) profile.ecog = parseInt(ecog[1]);
+
+  // Home location and travel radius, for distance to trial sites
+  const location = extractLocationFromText(message);
+  if (location) profile.location = location;
+  const maxTravelMiles = extractTravelRadiusFromText(message);
+  if (maxTravelMiles !== undefined) profile.maxTravelMiles = maxTravelMiles;
+
+  profile.provenance = buildProvenance(profile, message, {
+    source: 'regex',
+    extractor: 'parsePatientFromMessage',
+    messageId,
+  }, { age: age?.span, sex: sex?.span });
+  if (sex?.fromPronoun) profile.provenance.sex = { ...profile.provenance.sex, confidence: PRONOUN_SEX_CONFIDENCE };
+
+  return profile;
+}
@@ -0,0 +1,184 @@
+/**
+ * Rule-based profile operations
+ *
+ * What a message changes about the profile it's read against. Corrections
+ * ("actually she's stage IIIA, not IV", "ECOG is 2 now") turn the parsed
+ * values into explicit updates rather than conflicts to confirm; removals
+ * ("remove KRAS", "drop the metformin") delete what they name; and
+ * "progressed on it" / "stopped that" resolve the pronoun to the last
+ * treatment mentioned, earlier in the message or in the conversation.
+ */
+
+import { SCALAR_FIELDS } from '@/lib/provenance';
+import { findTreatmentMentions } from '@/lib/terminology';
+import type { ProfileField } from '@/lib/profile-edits';
+import { createEmptyPatientProfile, PatientProfile, ProfileOperation } from '@/types';
+
+type History = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+// "actually", "I meant", "ECOG is 2 now", "stage IIIA, not IV"
+const CORRECTION = /\b(?:actually|correction|i\s+meant|meant\s+to\s+say|sorry|instead|turns\s+out|now|anymore|no\s+longer|updated?|changed?|wrong|mistake)\b|,\s*not\b/i;
+
+// "remove KRAS", "delete the metformin", "take osimertinib off"; the object runs to the clause end
+const REMOVAL = /\b(?:remove|delete|drop|take\s+(?:out|off)|strike|scratch|get\s+rid\s+of|forget(?:\s+about)?)\s+(?:the\s+|her\s+|his\s+|their\s+)?(.+?)(?=\s+(?:from|off)\b|[.;!?\n]|$)/gi;
+
+// "progressed on it", "she stopped that", "came off the drug"
+const TREATMENT_PRONOUN = /\b(progress(?:ed|ing)?|failed|stopped|discontinued|quit|came\s+off|went\s+off|is\s+off|was\s+taken\s+off)\s+(?:on\s+|after\s+|through\s+|while\s+on\s+)?(?:it|that|this|them|those|the\s+(?:drug|treatment|medication|med|therapy|regimen))\b/gi;
+
+// Scalars named in a removal ("remove the stage", "delete her location")
+const FIELD_NAMES: Array<[RegExp, ProfileField]> = [
+  [/^stage(?:\s+group)?$/i, 'stage'],
+  [/^tnm(?:\s+stage)?$/i, 'tnm'],
+  [/^(?:ecog|performance\s+status)$/i, 'ecog'],
+  [/^age$/i, 'age'],
+  [/^(?:sex|gender)$/i, 'sex'],
+  [/^(?:diagnosis|cancer(?:\s+type)?)$/i, 'cancerType'],
+  [/^histology$/i, 'histology'],
+  [/^pd-?l1(?:\s+score)?$/i, 'pdl1Score'],
+  [/^msi(?:\s+status)?$/i, 'msiStatus'],
+  [/^(?:location|address|home)$/i, 'location'],
+  [/^(?:travel\s+(?:radius|distance|limit)|max(?:imum)?\s+travel(?:\s+distance)?)$/i, 'maxTravelMiles'],
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function names(text: string, name: string): boolean {
+  return new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(name)}(?![a-z0-9])`, 'i').test(text);
+}
+
+// =============================================================================
+// Corrections
+// =============================================================================
+
+/** Parsed values that replace different ones on the profile, as updates */
+function corrections(extracted: Partial<PatientProfile>, profile: PatientProfile): ProfileOperation[] {
+  const operations: ProfileOperation[] = [];
+  for (const field of SCALAR_FIELDS) {
+    const value = extracted[field];
+    if (value === undefined || profile[field] === undefined) continue;
+    if (JSON.stringify(value) !== JSON.stringify(profile[field])) operations.push({ op: 'update', field, value });
+  }
+  for (const biomarker of extracted.biomarkers || []) {
+    const existing = profile.biomarkers.find(b => b.gene.toUpperCase() === biomarker.gene.toUpperCase());
+    if (!existing || biomarker.status === 'Unknown' || existing.status === biomarker.status) continue;
+    operations.push({
+      op: 'update',
+      field: 'biomarkers',
+      match: existing.gene,
+      value: { status: biomarker.status, ...(biomarker.alteration ? { alteration: biomarker.alteration } : {}) },
+    });
+  }
+  return operations;
+}
+
+// =============================================================================
+// Removals
+// =============================================================================
+
+/** What on the profile a removal's object names: a list entry, else a field */
+function removalTarget(target: string, profile: PatientProfile): ProfileOperation | undefined {
+  const biomarker = profile.biomarkers.find(b => names(target, b.gene));
+  if (biomarker) {
+    const match = biomarker.alteration && names(target, biomarker.alteration)
+      ? `${biomarker.gene} ${biomarker.alteration}`
+      : biomarker.gene;
+    return { op: 'delete', field: 'biomarkers', match };
+  }
+
+  // Drugs by any name ("Keytruda" for Pembrolizumab)
+  const canonical = findTreatmentMentions(target).flatMap(m => m.treatments.map(t => t.toLowerCase()));
+  const treatment = profile.priorTreatments.find(t => names(target, t) || canonical.includes(t.toLowerCase()));
+  if (treatment) return { op: 'delete', field: 'priorTreatments', match: treatment };
+
+  const medication = profile.currentMedications.find(m => names(target, m.name));
+  if (medication) return { op: 'delete', field: 'currentMedications', match: medication.name };
+  const comorbidity = profile.comorbidities.find(c => names(target, c));
+  if (comorbidity) return { op: 'delete', field: 'comorbidities', match: comorbidity };
+  const lab = profile.labs.find(l => names(target, l.name));
+  if (lab) return { op: 'delete', field: 'labs', match: lab.name };
+
+  const field = FIELD_NAMES.find(([regex]) => regex.test(target.trim()))?.[1];
+  return field ? { op: 'delete', field } : undefined;
+}
+
+/**
+ * Deletes for what removals name. A target not on the profile is matched
+ * against what the parser read from the removal itself ("remove ALK" parses
+ * as an ALK result), so the delete is reported as not applicable instead.
+ */
+function removals(message: string, extracted: Partial<PatientProfile>, profile: PatientProfile): ProfileOperation[] {
+  const parsed: PatientProfile = { ...createEmptyPatientProfile(), ...extracted };
+  const operations: ProfileOperation[] = [];
+  for (const match of message.matchAll(REMOVAL)) {
+    for (const target of match[1].split(/\s*(?:,|\band\b|&|\/)\s*/)) {
+      const operation = target.trim() && (removalTarget(target, profile) || removalTarget(target, parsed));
+      if (operation) operations.push(operation);
+    }
+  }
+  return operations;
+}
+
+// =============================================================================
+// Pronouns
+// =============================================================================
+
+/**
+ * The treatment "it" refers to: the last one mentioned before the pronoun,
+ * else in the most recent turn that mentions one. Current medications count
+ * too when stopping ("was on warfarin … stopped it"), not when progressing.
+ */
+function antecedent(
+  before: string,
+  history: History,
+  profile: PatientProfile,
+  progressed: boolean
+): { names: string[]; medication: boolean } | undefined {
+  const medications = progressed ? [] : profile.currentMedications;
+  for (const text of [before, ...history.map(turn => turn.content).reverse()]) {
+    const treatment = findTreatmentMentions(text).pop();
+    const medication = medications
+      .map(m => ({ name: m.name, index: text.toLowerCase().lastIndexOf(m.name.toLowerCase()) }))
+      .filter(m => m.index >= 0)
+      .sort((a, b) => b.index - a.index)[0];
+    if (medication && (!treatment || medication.index > treatment.start)) return { names: [medication.name], medication: true };
+    if (treatment) return { names: treatment.treatments, medication: false };
+  }
+  return undefined;
+}
+
+function pronounOperations(message: string, history: History, profile: PatientProfile): ProfileOperation[] {
+  const operations: ProfileOperation[] = [];
+  for (const match of message.matchAll(TREATMENT_PRONOUN)) {
+    const progressed = /^(?:progress|failed)/i.test(match[1]);
+    const referent = antecedent(message.slice(0, match.index), history, profile, progressed);
+    if (!referent) continue;
+    for (const name of referent.names) {
+      if (referent.medication) {
+        operations.push({ op: 'update', field: 'currentMedications', match: name, value: 'stopped' });
+      } else {
+        operations.push({ op: 'append', field: 'priorTreatments', value: name });
+      }
+    }
+  }
+  return operations;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Operations `message` makes on `profile`, given what the rule parser extracted from it */
+export function parseProfileOperations(
+  message: string,
+  extracted: Partial<PatientProfile>,
+  profile: PatientProfile,
+  history: History = []
+): ProfileOperation[] {
+  return [
+    ...(CORRECTION.test(message) ? corrections(extracted, profile) : []),
+    ...removals(message, extracted, profile),
+    ...pronounOperations(message, history, profile),
+  ];
+}
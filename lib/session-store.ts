@@ -0,0 +1,62 @@
+/**
+ * Session Store
+ *
+ * Persists chat sessions (patient profile, LangGraph thread, chat history)
+ * outside the route module so they survive redeploys, cold starts and
+ * multiple serverless instances. Backend is chosen in kv-store.ts.
+ */
+
+import path from 'path';
+import type { PhiAuditEntry, PhiVault } from '@/lib/deidentify';
+import type { PendingDocument } from '@/lib/documents';
+import { createStore, getStoreBackend, KeyValueStore } from '@/lib/kv-store';
+import { PatientProfile, ProfileUndo } from '@/types';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const config = {
+  ttlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || '', 10) || 24 * 60 * 60,
+  filePath: process.env.SESSION_FILE_PATH || path.join(process.cwd(), '.sessions.json'),
+  keyPrefix: process.env.SESSION_KEY_PREFIX || 'risentia:session:',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Session {
+  patientProfile: PatientProfile;
+  threadId?: string;
+  chatHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Readiness gaps listed in the last pre-match checklist (lib/readiness.ts) */
+  readinessAsked?: string[];
+  /** Recent messages' profile changes, newest last (lib/profile-operations.ts) */
+  undoStack?: ProfileUndo[];
+  /** Surrogates and date shift for text sent out of the server (lib/deidentify.ts) */
+  phi?: PhiVault;
+  /** What was scrubbed from each outbound call, newest last */
+  phiAudit?: PhiAuditEntry[];
+  /** Clinical documents read but not yet merged, newest last (lib/documents) */
+  documents?: PendingDocument[];
+}
+
+export type SessionStore = KeyValueStore<Session>;
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = createStore<Session>(config);
+  }
+  return store;
+}
+
+export function getSessionStoreBackend(): string {
+  return getStoreBackend();
+}
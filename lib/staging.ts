@@ -0,0 +1,295 @@
+/**
+ * Staging
+ *
+ * TNM classification (with c/p/yp prefixes and substages), SCLC
+ * limited/extensive disease, and AJCC 8th edition anatomic stage groups per
+ * cancer type. Every extractor and the backend payload go through here so
+ * the profile carries one canonical form: `stage` is "Stage IIIB", `tnm` is
+ * the structured classification and `stageExtent` the SCLC extent.
+ */
+
+import { PatientProfile, TnmStage } from '@/types';
+
+// =============================================================================
+// Stage Groups
+// =============================================================================
+
+const ARABIC_TO_ROMAN: Record<string, string> = { '0': '0', '1': 'I', '2': 'II', '3': 'III', '4': 'IV' };
+
+/** "stage 3b", "STAGE IIIB", "IIIb", "Stage IA2" → "IIIB" / "IA2"; undefined if not a stage group */
+export function normalizeStageGroup(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const match = raw.trim().match(/^(?:stage\s*)?(0|IV|I{1,3}|[1-4])([ABC]?)([1-3]?)$/i);
+  if (!match) return undefined;
+  const roman = ARABIC_TO_ROMAN[match[1]] || match[1].toUpperCase();
+  return `${roman}${match[2].toUpperCase()}${match[3]}`;
+}
+
+/** "IIIB" → "Stage IIIB" */
+export function formatStageGroup(group: string): string {
+  return `Stage ${group}`;
+}
+
+/**
+ * Canonical `stage` for any free-text stage: "STAGE III" → "Stage III",
+ * "stage 4" → "Stage IV". Text that isn't a stage group is kept as given.
+ */
+export function normalizeStage(raw: string | undefined): string | undefined {
+  if (!raw?.trim()) return undefined;
+  const group = normalizeStageGroup(raw);
+  return group ? formatStageGroup(group) : raw.trim();
+}
+
+// =============================================================================
+// TNM
+// =============================================================================
+
+// "pT2a N1 M0", "T2N1M0", "ypT1c pN0", "cT4 N2 M1b", "T1mi N0", "Tis N0 M0", "TX N1"
+const TNM_PATTERN = /\b(yc|yp|c|p|r)?T(is|X|0|[1-4](?:mi|[a-e])?)[\s,]*(?:yc|yp|c|p|r)?N(X|[0-3](?:mi|[a-c])?)(?:[\s,]*(?:c|p)?M(X|0|1[a-d]?))?(?![A-Za-z0-9])/;
+
+export function parseTnm(text: string): TnmStage | undefined {
+  const match = text.match(new RegExp(TNM_PATTERN.source, 'i'));
+  if (!match) return undefined;
+  const prefix = match[1]?.toLowerCase() as TnmStage['prefix'];
+  // "2A" → "2a", "1MI" → "1mi", "IS" → "is", "x" → "X"
+  const category = (letter: string, value: string) => `${letter}${/^x$/i.test(value) ? 'X' : value.toLowerCase()}`;
+  return {
+    ...(prefix ? { prefix } : {}),
+    t: category('T', match[2]),
+    n: category('N', match[3]),
+    ...(match[4] ? { m: category('M', match[4]) } : {}),
+  };
+}
+
+/** "pT2a N1 M0" */
+export function formatTnm(tnm: TnmStage): string {
+  return [`${tnm.prefix || ''}${tnm.t || 'TX'}`, tnm.n || 'NX', tnm.m].filter(Boolean).join(' ');
+}
+
+// =============================================================================
+// AJCC 8th Edition Stage Groups
+// =============================================================================
+
+interface Categories {
+  t: string;  // e.g. "1a", "2", "is", "4b"
+  n: string;  // e.g. "0", "1", "2a", "1mi"
+  m: string;  // e.g. "0", "1a"
+}
+
+interface StageTable {
+  /** Substages a bare category expands to (T2 → T2a, T2b) when the group depends on them */
+  t: Record<string, string[]>;
+  n: Record<string, string[]>;
+  m: Record<string, string[]>;
+  group: (c: Categories) => string | undefined;
+}
+
+const main = (category: string) => category.charAt(0);
+
+// Lung (NSCLC and SCLC share the TNM groups)
+const LUNG: StageTable = {
+  t: { '1': ['1a', '1b', '1c'], '2': ['2a', '2b'] },
+  n: {},
+  m: { '1': ['1a', '1b', '1c'] },
+  group: ({ t, n, m }) => {
+    if (m.startsWith('1')) return m === '1c' ? 'IVB' : 'IVA';
+    if (t === 'is' && n === '0') return '0';
+    if (t === 'X' && n === '0') return undefined;
+    const grid: Record<string, Record<string, string>> = {
+      '1': { '1': 'IIB', '2': 'IIIA', '3': 'IIIB' },
+      '2': { '1': 'IIB', '2': 'IIIA', '3': 'IIIB' },
+      '3': { '0': 'IIB', '1': 'IIIA', '2': 'IIIB', '3': 'IIIC' },
+      '4': { '0': 'IIIA', '1': 'IIIA', '2': 'IIIB', '3': 'IIIC' },
+    };
+    if (n === '0') {
+      if (t === '1mi' || t === '1a') return 'IA1';
+      if (t === '1b') return 'IA2';
+      if (t === '1c') return 'IA3';
+      if (t === '2a') return 'IB';
+      if (t === '2b') return 'IIA';
+    }
+    return grid[main(t)]?.[main(n)];
+  },
+};
+
+// Breast: anatomic stage groups (prognostic staging also needs grade, ER/PR and HER2)
+const BREAST: StageTable = {
+  t: {},
+  n: {},
+  m: {},
+  group: ({ t, n, m }) => {
+    if (m.startsWith('1')) return 'IV';
+    if (t === 'is' && n === '0') return '0';
+    if (main(n) === '3') return 'IIIC';
+    if (main(t) === '4') return 'IIIB';
+    if (n === '1mi' && (t === '0' || main(t) === '1')) return 'IB';
+    const grid: Record<string, Record<string, string>> = {
+      '0': { '1': 'IIA', '2': 'IIIA' },
+      '1': { '0': 'IA', '1': 'IIA', '2': 'IIIA' },
+      '2': { '0': 'IIA', '1': 'IIB', '2': 'IIIA' },
+      '3': { '0': 'IIB', '1': 'IIIA', '2': 'IIIA' },
+    };
+    return grid[main(t)]?.[main(n)];
+  },
+};
+
+const COLORECTAL: StageTable = {
+  t: { '4': ['4a', '4b'] },
+  n: { '2': ['2a', '2b'] },
+  m: { '1': ['1a', '1b', '1c'] },
+  group: ({ t, n, m }) => {
+    if (m.startsWith('1')) return m === '1c' ? 'IVC' : m === '1b' ? 'IVB' : 'IVA';
+    if (t === 'is' && n === '0') return '0';
+    const tMain = main(t);
+    if (n === '0') {
+      if (tMain === '1' || tMain === '2') return 'I';
+      if (tMain === '3') return 'IIA';
+      return t === '4b' ? 'IIC' : 'IIB';
+    }
+    if (t === '4b') return 'IIIC';
+    if (main(n) === '1') return tMain === '1' || tMain === '2' ? 'IIIA' : 'IIIB';
+    if (n === '2a') return tMain === '1' ? 'IIIA' : tMain === '4' ? 'IIIC' : 'IIIB';
+    // N2b
+    return tMain === '1' || tMain === '2' ? 'IIIB' : 'IIIC';
+  },
+};
+
+const PANCREATIC: StageTable = {
+  t: {},
+  n: {},
+  m: {},
+  group: ({ t, n, m }) => {
+    if (m.startsWith('1')) return 'IV';
+    if (t === 'is' && n === '0') return '0';
+    if (main(t) === '4' || main(n) === '2') return 'III';
+    if (main(n) === '1') return 'IIB';
+    return ({ '1': 'IA', '2': 'IB', '3': 'IIA' } as Record<string, string>)[main(t)];
+  },
+};
+
+// Cancer types without a table still get stage IV from distant metastasis
+const GENERIC: StageTable = {
+  t: {},
+  n: {},
+  m: {},
+  group: ({ m }) => (m.startsWith('1') ? 'IV' : undefined),
+};
+
+function stageTableFor(cancerType: string | undefined): StageTable {
+  const type = (cancerType || '').toLowerCase();
+  if (/mesothelioma/.test(type)) return GENERIC;
+  if (/nsclc|sclc|lung/.test(type)) return LUNG;
+  if (/breast|tnbc/.test(type)) return BREAST;
+  if (/\bcrc\b|colorectal|colon|rectal/.test(type)) return COLORECTAL;
+  if (/pancrea/.test(type)) return PANCREATIC;
+  return GENERIC;
+}
+
+/** Roman numeral, letter and digit of a group ("IIIB" → ["III", "B", ""]) */
+function groupParts(group: string): [string, string, string] {
+  const match = group.match(/^(0|IV|I{1,3})([ABC]?)(\d?)$/)!;
+  return [match[1], match[2], match[3]];
+}
+
+/**
+ * The most specific group all candidates agree on: IA1/IA3 → "IA",
+ * IIIA/IIIB → "III", IB/IIA → undefined.
+ */
+function commonGroup(groups: string[]): string | undefined {
+  if (groups.length === 0) return undefined;
+  const parts = groups.map(groupParts);
+  const [roman, letter, digit] = parts[0];
+  if (parts.some(p => p[0] !== roman)) return undefined;
+  if (parts.some(p => p[1] !== letter)) return roman;
+  if (parts.some(p => p[2] !== digit)) return `${roman}${letter}`;
+  return `${roman}${letter}${digit}`;
+}
+
+/**
+ * AJCC 8th edition stage group for a TNM classification. A bare category
+ * whose substage decides the group (T2 N0 in lung) yields the part the
+ * candidates share, or undefined.
+ */
+export function stageGroupFromTnm(tnm: TnmStage, cancerType?: string): string | undefined {
+  const table = stageTableFor(cancerType);
+  const value = (category: string | undefined, letter: string) => category ? category.slice(letter.length) : 'X';
+  const t = value(tnm.t, 'T');
+  const n = value(tnm.n, 'N');
+  const m = value(tnm.m, 'M') === 'X' ? '0' : value(tnm.m, 'M');
+  if ((t === 'X' || n === 'X') && !m.startsWith('1')) return undefined;
+
+  const candidates: string[] = [];
+  for (const tv of table.t[t] || [t]) {
+    for (const nv of table.n[n] || [n]) {
+      for (const mv of table.m[m] || [m]) {
+        const group = table.group({ t: tv, n: nv, m: mv });
+        if (!group) return undefined;
+        candidates.push(group);
+      }
+    }
+  }
+  return commonGroup([...new Set(candidates)]);
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+export interface Staging {
+  stage?: string;
+  tnm?: TnmStage;
+  stageExtent?: PatientProfile['stageExtent'];
+}
+
+/** SCLC "limited-stage", "LS-SCLC", "extensive disease", "ES-SCLC" */
+export function parseStageExtent(text: string): PatientProfile['stageExtent'] {
+  if (/\b(?:extensive[\s-]+(?:stage|disease)|ES-?SCLC)\b/i.test(text)) return 'Extensive';
+  if (/\b(?:limited[\s-]+(?:stage|disease)|LS-?SCLC)\b/i.test(text)) return 'Limited';
+  return undefined;
+}
+
+/**
+ * Staging mentioned in free text: an explicit "stage IIIB" wins, otherwise
+ * the group derived from TNM for the given cancer type.
+ */
+export function extractStagingFromText(text: string, cancerType?: string): Staging {
+  const staging: Staging = {};
+  const tnm = parseTnm(text);
+  if (tnm) staging.tnm = tnm;
+
+  const explicit = text.match(/\bstage[\s:=-]*(0|IV|I{1,3}|[1-4])([ABC]?[1-3]?)\b/i);
+  const group = explicit
+    ? normalizeStageGroup(`${explicit[1]}${explicit[2]}`)
+    : tnm && stageGroupFromTnm(tnm, cancerType);
+  if (group) staging.stage = formatStageGroup(group);
+
+  const extent = parseStageExtent(text);
+  if (extent) staging.stageExtent = extent;
+  return staging;
+}
+
+/**
+ * Canonicalize the staging fields of a (partial) profile: normalize `stage`
+ * and derive the group from TNM when only TNM is known.
+ */
+export function normalizeStaging<T extends Partial<PatientProfile>>(profile: T): T {
+  const derived = !profile.stage && profile.tnm ? stageGroupFromTnm(profile.tnm, profile.cancerType) : undefined;
+  const stage = derived ? formatStageGroup(derived) : normalizeStage(profile.stage);
+  if (stage === profile.stage) return profile;
+
+  const normalized = { ...profile };
+  if (stage) normalized.stage = stage; else delete normalized.stage;
+  return normalized;
+}
+
+/** "Stage IIIB (pT2a N2 M0)", "Extensive-stage", for display and the backend payload */
+export function formatStaging(profile: Pick<PatientProfile, 'stage' | 'tnm' | 'stageExtent'>): string | undefined {
+  const parts = [
+    profile.stage,
+    profile.stageExtent && `${profile.stageExtent}-stage`,
+  ].filter(Boolean);
+  if (parts.length === 0 && !profile.tnm) return undefined;
+  const label = parts.join(', ');
+  if (!profile.tnm) return label;
+  return label ? `${label} (${formatTnm(profile.tnm)})` : formatTnm(profile.tnm);
+}
@@ -0,0 +1,83 @@
+/**
+ * Cancer type vocabulary
+ *
+ * Canonical names (the short forms used across the app and the matching
+ * backend), display labels, ICD-10-CM codes and the phrases that map to them.
+ * Histology-only entries are `generic`: they only apply when no site-specific
+ * type matches ("pancreatic adenocarcinoma" is Pancreatic Cancer).
+ */
+
+export interface CancerTypeEntry {
+  name: string;
+  label: string;
+  icd10: string;
+  synonyms: string[];
+  generic?: boolean;
+}
+
+export const CANCER_TYPES: CancerTypeEntry[] = [
+  { name: 'NSCLC', label: 'Non-Small Cell Lung Cancer', icd10: 'C34.90',
+    synonyms: ['non-small cell lung', 'non small cell lung', 'non-small-cell lung', 'nsclc', 'lung cancer', 'lung adenocarcinoma', 'adenocarcinoma of the lung', 'lung squamous', 'squamous cell lung'] },
+  { name: 'SCLC', label: 'Small Cell Lung Cancer', icd10: 'C34.90',
+    synonyms: ['small cell lung', 'small-cell lung', 'sclc', 'small cell carcinoma of the lung'] },
+  { name: 'Breast Cancer', label: 'Breast Cancer', icd10: 'C50.919',
+    synonyms: ['breast'] },
+  { name: 'TNBC', label: 'Triple-Negative Breast Cancer', icd10: 'C50.919',
+    synonyms: ['tnbc', 'triple negative', 'triple-negative'] },
+  { name: 'Melanoma', label: 'Melanoma', icd10: 'C43.9',
+    synonyms: ['melanoma'] },
+  { name: 'CRC', label: 'Colorectal Cancer', icd10: 'C18.9',
+    synonyms: ['colorectal', 'crc', 'colon cancer', 'colon adenocarcinoma', 'rectal cancer', 'rectal adenocarcinoma'] },
+  { name: 'Pancreatic Cancer', label: 'Pancreatic Cancer', icd10: 'C25.9',
+    synonyms: ['pancreatic', 'pancreas cancer', 'pdac'] },
+  { name: 'Ovarian Cancer', label: 'Ovarian Cancer', icd10: 'C56.9',
+    synonyms: ['ovarian', 'fallopian tube cancer', 'primary peritoneal cancer'] },
+  { name: 'Prostate Cancer', label: 'Prostate Cancer', icd10: 'C61',
+    synonyms: ['prostate', 'prostatic adenocarcinoma', 'mcrpc', 'crpc'] },
+  { name: 'Glioblastoma', label: 'Glioblastoma', icd10: 'C71.9',
+    synonyms: ['glioblastoma', 'gbm'] },
+  { name: 'HCC', label: 'Hepatocellular Carcinoma', icd10: 'C22.0',
+    synonyms: ['hepatocellular', 'hcc', 'liver cancer'] },
+  { name: 'RCC', label: 'Renal Cell Carcinoma', icd10: 'C64.9',
+    synonyms: ['renal cell', 'rcc', 'kidney cancer', 'renal cancer', 'renal carcinoma'] },
+  { name: 'Gastric Cancer', label: 'Gastric Cancer', icd10: 'C16.9',
+    synonyms: ['gastric', 'stomach cancer'] },
+  { name: 'Esophageal Cancer', label: 'Esophageal Cancer', icd10: 'C15.9',
+    synonyms: ['esophageal', 'oesophageal'] },
+  { name: 'Bladder Cancer', label: 'Bladder Cancer', icd10: 'C67.9',
+    synonyms: ['bladder cancer', 'bladder carcinoma'] },
+  { name: 'Urothelial Cancer', label: 'Urothelial Carcinoma', icd10: 'C68.9',
+    synonyms: ['urothelial'] },
+  { name: 'Mesothelioma', label: 'Mesothelioma', icd10: 'C45.9',
+    synonyms: ['mesothelioma'] },
+  { name: 'Lymphoma', label: 'Lymphoma', icd10: 'C85.90',
+    synonyms: ['lymphoma', 'dlbcl'] },
+  { name: 'Leukemia', label: 'Leukemia', icd10: 'C95.90',
+    synonyms: ['leukemia', 'leukaemia'] },
+  { name: 'Multiple Myeloma', label: 'Multiple Myeloma', icd10: 'C90.00',
+    synonyms: ['myeloma'] },
+  { name: 'Sarcoma', label: 'Sarcoma', icd10: 'C49.9',
+    synonyms: ['sarcoma'] },
+  { name: 'Cholangiocarcinoma', label: 'Cholangiocarcinoma', icd10: 'C22.1',
+    synonyms: ['cholangiocarcinoma', 'bile duct', 'biliary tract cancer'] },
+  { name: 'Thyroid Cancer', label: 'Thyroid Cancer', icd10: 'C73',
+    synonyms: ['thyroid cancer', 'thyroid carcinoma', 'papillary thyroid'] },
+  { name: 'Endometrial Cancer', label: 'Endometrial Cancer', icd10: 'C54.1',
+    synonyms: ['endometrial', 'uterine cancer'] },
+  { name: 'Cervical Cancer', label: 'Cervical Cancer', icd10: 'C53.9',
+    synonyms: ['cervical cancer', 'cervical carcinoma', 'cancer of the cervix'] },
+  { name: 'Head and Neck Cancer', label: 'Head and Neck Cancer', icd10: 'C76.0',
+    synonyms: ['head and neck', 'hnscc', 'oropharyngeal cancer'] },
+  { name: 'Nasopharyngeal Cancer', label: 'Nasopharyngeal Carcinoma', icd10: 'C11.9',
+    synonyms: ['nasopharyngeal'] },
+
+  // Histology only
+  { name: 'Adenocarcinoma', label: 'Adenocarcinoma', icd10: 'C80.1', generic: true,
+    synonyms: ['adenocarcinoma'] },
+  { name: 'Squamous Cell Carcinoma', label: 'Squamous Cell Carcinoma', icd10: 'C80.1', generic: true,
+    synonyms: ['squamous'] },
+  { name: 'Neuroendocrine Tumor', label: 'Neuroendocrine Tumor', icd10: 'C7A.8', generic: true,
+    synonyms: ['neuroendocrine'] },
+  { name: 'Carcinoma', label: 'Carcinoma', icd10: 'C80.1', generic: true,
+    synonyms: ['carcinoma'] },
+];
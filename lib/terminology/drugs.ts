@@ -0,0 +1,184 @@
+/**
+ * Oncology drug dictionary
+ *
+ * Generic names with brand names, safe aliases (matched anywhere) and
+ * shorthand that only counts inside a combination ("carbo/pem"), drug
+ * classes, and named regimens with their components.
+ */
+
+export type DrugClass =
+  | 'Platinum Chemotherapy'
+  | 'Antifolate'
+  | 'Taxane'
+  | 'Nucleoside Analog'
+  | 'Fluoropyrimidine'
+  | 'Topoisomerase Inhibitor'
+  | 'Anthracycline'
+  | 'Alkylating Agent'
+  | 'Vinca Alkaloid'
+  | 'PD-(L)1 Inhibitor'
+  | 'CTLA-4 Inhibitor'
+  | 'Immune Checkpoint Inhibitor'
+  | 'EGFR TKI'
+  | 'Anti-EGFR Antibody'
+  | 'ALK TKI'
+  | 'ROS1 TKI'
+  | 'NTRK TKI'
+  | 'MET TKI'
+  | 'RET TKI'
+  | 'KRAS G12C Inhibitor'
+  | 'BRAF Inhibitor'
+  | 'MEK Inhibitor'
+  | 'Anti-HER2'
+  | 'Antibody-Drug Conjugate'
+  | 'Anti-VEGF'
+  | 'Multikinase Inhibitor'
+  | 'PARP Inhibitor'
+  | 'CDK4/6 Inhibitor'
+  | 'Endocrine Therapy'
+  | 'Anti-CD20';
+
+export interface DrugEntry {
+  generic: string;
+  brands?: string[];
+  /** Abbreviations safe to match on their own ("pembro", "5-FU") */
+  aliases?: string[];
+  /** Abbreviations only recognized inside a combination ("carbo/pem") */
+  shorthand?: string[];
+  classes: DrugClass[];
+}
+
+const PD_L1: DrugClass[] = ['PD-(L)1 Inhibitor', 'Immune Checkpoint Inhibitor'];
+
+export const DRUGS: DrugEntry[] = [
+  // Cytotoxic chemotherapy
+  { generic: 'Carboplatin', brands: ['Paraplatin'], aliases: ['carbo'], classes: ['Platinum Chemotherapy'] },
+  { generic: 'Cisplatin', brands: ['Platinol'], shorthand: ['cis'], classes: ['Platinum Chemotherapy'] },
+  { generic: 'Oxaliplatin', brands: ['Eloxatin'], shorthand: ['oxali', 'ox'], classes: ['Platinum Chemotherapy'] },
+  { generic: 'Pemetrexed', brands: ['Alimta'], shorthand: ['pem', 'pemetrex'], classes: ['Antifolate'] },
+  { generic: 'Paclitaxel', brands: ['Taxol'], shorthand: ['pac', 'pacli', 'tax'], classes: ['Taxane'] },
+  { generic: 'Nab-paclitaxel', brands: ['Abraxane'], aliases: ['nab-pac', 'nab-paclitaxel'], classes: ['Taxane'] },
+  { generic: 'Docetaxel', brands: ['Taxotere'], shorthand: ['doce', 'dtx'], classes: ['Taxane'] },
+  { generic: 'Gemcitabine', brands: ['Gemzar'], shorthand: ['gem'], classes: ['Nucleoside Analog'] },
+  { generic: 'Fluorouracil', brands: ['Adrucil'], aliases: ['5-FU', '5FU', '5-fluorouracil'], classes: ['Fluoropyrimidine'] },
+  { generic: 'Leucovorin', aliases: ['folinic acid'], shorthand: ['LV'], classes: [] },
+  { generic: 'Capecitabine', brands: ['Xeloda'], shorthand: ['cape', 'cap'], classes: ['Fluoropyrimidine'] },
+  { generic: 'Irinotecan', brands: ['Camptosar'], shorthand: ['iri'], classes: ['Topoisomerase Inhibitor'] },
+  { generic: 'Etoposide', brands: ['VePesid', 'Etopophos'], aliases: ['VP-16'], shorthand: ['etop'], classes: ['Topoisomerase Inhibitor'] },
+  { generic: 'Topotecan', brands: ['Hycamtin'], classes: ['Topoisomerase Inhibitor'] },
+  { generic: 'Doxorubicin', brands: ['Adriamycin'], shorthand: ['dox'], classes: ['Anthracycline'] },
+  { generic: 'Cyclophosphamide', brands: ['Cytoxan'], shorthand: ['cyclo'], classes: ['Alkylating Agent'] },
+  { generic: 'Temozolomide', brands: ['Temodar'], aliases: ['TMZ'], classes: ['Alkylating Agent'] },
+  { generic: 'Lurbinectedin', brands: ['Zepzelca'], classes: ['Alkylating Agent'] },
+  { generic: 'Vinorelbine', brands: ['Navelbine'], classes: ['Vinca Alkaloid'] },
+  { generic: 'Vincristine', brands: ['Oncovin'], classes: ['Vinca Alkaloid'] },
+
+  // Immune checkpoint inhibitors
+  { generic: 'Pembrolizumab', brands: ['Keytruda'], aliases: ['pembro'], classes: PD_L1 },
+  { generic: 'Nivolumab', brands: ['Opdivo'], aliases: ['nivo'], classes: PD_L1 },
+  { generic: 'Cemiplimab', brands: ['Libtayo'], classes: PD_L1 },
+  { generic: 'Dostarlimab', brands: ['Jemperli'], classes: PD_L1 },
+  { generic: 'Tislelizumab', brands: ['Tevimbra'], classes: PD_L1 },
+  { generic: 'Atezolizumab', brands: ['Tecentriq'], aliases: ['atezo'], classes: PD_L1 },
+  { generic: 'Durvalumab', brands: ['Imfinzi'], aliases: ['durva'], classes: PD_L1 },
+  { generic: 'Avelumab', brands: ['Bavencio'], classes: PD_L1 },
+  { generic: 'Ipilimumab', brands: ['Yervoy'], aliases: ['ipi'], classes: ['CTLA-4 Inhibitor', 'Immune Checkpoint Inhibitor'] },
+  { generic: 'Tremelimumab', brands: ['Imjudo'], aliases: ['treme'], classes: ['CTLA-4 Inhibitor', 'Immune Checkpoint Inhibitor'] },
+
+  // Targeted therapy
+  { generic: 'Osimertinib', brands: ['Tagrisso'], shorthand: ['osi'], classes: ['EGFR TKI'] },
+  { generic: 'Erlotinib', brands: ['Tarceva'], classes: ['EGFR TKI'] },
+  { generic: 'Gefitinib', brands: ['Iressa'], classes: ['EGFR TKI'] },
+  { generic: 'Afatinib', brands: ['Gilotrif', 'Giotrif'], classes: ['EGFR TKI'] },
+  { generic: 'Dacomitinib', brands: ['Vizimpro'], classes: ['EGFR TKI'] },
+  { generic: 'Lazertinib', brands: ['Lazcluze'], classes: ['EGFR TKI'] },
+  { generic: 'Amivantamab', brands: ['Rybrevant'], shorthand: ['ami'], classes: ['Anti-EGFR Antibody'] },
+  { generic: 'Cetuximab', brands: ['Erbitux'], classes: ['Anti-EGFR Antibody'] },
+  { generic: 'Panitumumab', brands: ['Vectibix'], classes: ['Anti-EGFR Antibody'] },
+  { generic: 'Crizotinib', brands: ['Xalkori'], classes: ['ALK TKI', 'ROS1 TKI', 'MET TKI'] },
+  { generic: 'Alectinib', brands: ['Alecensa'], classes: ['ALK TKI'] },
+  { generic: 'Brigatinib', brands: ['Alunbrig'], classes: ['ALK TKI'] },
+  { generic: 'Lorlatinib', brands: ['Lorbrena'], classes: ['ALK TKI'] },
+  { generic: 'Ceritinib', brands: ['Zykadia'], classes: ['ALK TKI'] },
+  { generic: 'Entrectinib', brands: ['Rozlytrek'], classes: ['ROS1 TKI', 'NTRK TKI'] },
+  { generic: 'Repotrectinib', brands: ['Augtyro'], classes: ['ROS1 TKI', 'NTRK TKI'] },
+  { generic: 'Larotrectinib', brands: ['Vitrakvi'], classes: ['NTRK TKI'] },
+  { generic: 'Capmatinib', brands: ['Tabrecta'], classes: ['MET TKI'] },
+  { generic: 'Tepotinib', brands: ['Tepmetko'], classes: ['MET TKI'] },
+  { generic: 'Selpercatinib', brands: ['Retevmo'], classes: ['RET TKI'] },
+  { generic: 'Pralsetinib', brands: ['Gavreto'], classes: ['RET TKI'] },
+  { generic: 'Sotorasib', brands: ['Lumakras', 'Lumykras'], classes: ['KRAS G12C Inhibitor'] },
+  { generic: 'Adagrasib', brands: ['Krazati'], classes: ['KRAS G12C Inhibitor'] },
+  { generic: 'Dabrafenib', brands: ['Tafinlar'], shorthand: ['dab', 'dabra'], classes: ['BRAF Inhibitor'] },
+  { generic: 'Vemurafenib', brands: ['Zelboraf'], shorthand: ['vem'], classes: ['BRAF Inhibitor'] },
+  { generic: 'Encorafenib', brands: ['Braftovi'], shorthand: ['enco'], classes: ['BRAF Inhibitor'] },
+  { generic: 'Trametinib', brands: ['Mekinist'], shorthand: ['tram', 'trame'], classes: ['MEK Inhibitor'] },
+  { generic: 'Binimetinib', brands: ['Mektovi'], shorthand: ['bini'], classes: ['MEK Inhibitor'] },
+  { generic: 'Cobimetinib', brands: ['Cotellic'], shorthand: ['cobi'], classes: ['MEK Inhibitor'] },
+  { generic: 'Trastuzumab deruxtecan', brands: ['Enhertu'], aliases: ['T-DXd', 'TDXd'], classes: ['Anti-HER2', 'Antibody-Drug Conjugate'] },
+  { generic: 'Trastuzumab emtansine', brands: ['Kadcyla'], aliases: ['T-DM1', 'TDM1'], classes: ['Anti-HER2', 'Antibody-Drug Conjugate'] },
+  { generic: 'Trastuzumab', brands: ['Herceptin'], shorthand: ['trastu'], classes: ['Anti-HER2'] },
+  { generic: 'Pertuzumab', brands: ['Perjeta'], shorthand: ['pertu'], classes: ['Anti-HER2'] },
+  { generic: 'Tucatinib', brands: ['Tukysa'], classes: ['Anti-HER2'] },
+  { generic: 'Lapatinib', brands: ['Tykerb', 'Tyverb'], classes: ['Anti-HER2'] },
+  { generic: 'Sacituzumab govitecan', brands: ['Trodelvy'], shorthand: ['SG'], classes: ['Antibody-Drug Conjugate'] },
+  { generic: 'Bevacizumab', brands: ['Avastin'], shorthand: ['bev', 'beva'], classes: ['Anti-VEGF'] },
+  { generic: 'Ramucirumab', brands: ['Cyramza'], shorthand: ['ram'], classes: ['Anti-VEGF'] },
+  { generic: 'Lenvatinib', brands: ['Lenvima'], classes: ['Multikinase Inhibitor'] },
+  { generic: 'Sorafenib', brands: ['Nexavar'], classes: ['Multikinase Inhibitor'] },
+  { generic: 'Cabozantinib', brands: ['Cabometyx', 'Cometriq'], classes: ['Multikinase Inhibitor'] },
+  { generic: 'Regorafenib', brands: ['Stivarga'], classes: ['Multikinase Inhibitor'] },
+  { generic: 'Sunitinib', brands: ['Sutent'], classes: ['Multikinase Inhibitor'] },
+  { generic: 'Olaparib', brands: ['Lynparza'], classes: ['PARP Inhibitor'] },
+  { generic: 'Niraparib', brands: ['Zejula'], classes: ['PARP Inhibitor'] },
+  { generic: 'Rucaparib', brands: ['Rubraca'], classes: ['PARP Inhibitor'] },
+  { generic: 'Talazoparib', brands: ['Talzenna'], classes: ['PARP Inhibitor'] },
+  { generic: 'Palbociclib', brands: ['Ibrance'], classes: ['CDK4/6 Inhibitor'] },
+  { generic: 'Ribociclib', brands: ['Kisqali'], classes: ['CDK4/6 Inhibitor'] },
+  { generic: 'Abemaciclib', brands: ['Verzenio'], classes: ['CDK4/6 Inhibitor'] },
+  { generic: 'Tamoxifen', brands: ['Nolvadex'], classes: ['Endocrine Therapy'] },
+  { generic: 'Letrozole', brands: ['Femara'], classes: ['Endocrine Therapy'] },
+  { generic: 'Anastrozole', brands: ['Arimidex'], classes: ['Endocrine Therapy'] },
+  { generic: 'Fulvestrant', brands: ['Faslodex'], classes: ['Endocrine Therapy'] },
+  { generic: 'Enzalutamide', brands: ['Xtandi'], classes: ['Endocrine Therapy'] },
+  { generic: 'Abiraterone', brands: ['Zytiga'], classes: ['Endocrine Therapy'] },
+  { generic: 'Rituximab', brands: ['Rituxan', 'MabThera'], shorthand: ['R', 'ritux'], classes: ['Anti-CD20'] },
+];
+
+// Named regimens; components that aren't in DRUGS (leucovorin, prednisone) are kept as-is
+export const REGIMENS: Array<{ pattern: RegExp; name: string; components: string[] }> = [
+  { pattern: /\bFOLFIRINOX\b/i, name: 'FOLFIRINOX', components: ['Fluorouracil', 'Leucovorin', 'Irinotecan', 'Oxaliplatin'] },
+  { pattern: /\bm?FOLFOX(?:-?\d+)?\b/i, name: 'FOLFOX', components: ['Fluorouracil', 'Leucovorin', 'Oxaliplatin'] },
+  { pattern: /\bFOLFIRI\b/i, name: 'FOLFIRI', components: ['Fluorouracil', 'Leucovorin', 'Irinotecan'] },
+  { pattern: /\b(?:CAPOX|CAPEOX|XELOX)\b/i, name: 'CAPOX', components: ['Capecitabine', 'Oxaliplatin'] },
+  { pattern: /\bFLOT\b/, name: 'FLOT', components: ['Fluorouracil', 'Leucovorin', 'Oxaliplatin', 'Docetaxel'] },
+  { pattern: /\bR-?CHOP\b/i, name: 'R-CHOP', components: ['Rituximab', 'Cyclophosphamide', 'Doxorubicin', 'Vincristine', 'Prednisone'] },
+  { pattern: /\bTCHP\b/, name: 'TCHP', components: ['Docetaxel', 'Carboplatin', 'Trastuzumab', 'Pertuzumab'] },
+  { pattern: /\bAC-?T\b/, name: 'AC-T', components: ['Doxorubicin', 'Cyclophosphamide', 'Paclitaxel'] },
+];
+
+// Class-level mentions ("anti-PD-1", "platinum doublet") recorded as the class itself
+export const CLASS_MENTIONS: Array<[RegExp, DrugClass]> = [
+  [/\banti-?PD-?L?1\b|\bPD-?L?1\s+(?:inhibitors?|blockade|antibod(?:y|ies)|therapy)\b/i, 'PD-(L)1 Inhibitor'],
+  [/\banti-?CTLA-?4\b|\bCTLA-?4\s+(?:inhibitors?|blockade)\b/i, 'CTLA-4 Inhibitor'],
+  [/\b(?:immune\s+)?checkpoint\s+(?:inhibitors?|blockade)\b/i, 'Immune Checkpoint Inhibitor'],
+  [/\bICIs?\b/, 'Immune Checkpoint Inhibitor'],
+  [/\bplatinum(?:-based)?(?:\s+(?:doublet|chemo(?:therapy)?|based\s+chemo(?:therapy)?))?\b/i, 'Platinum Chemotherapy'],
+  [/\bEGFR[\s-]+(?:TKIs?|tyrosine\s+kinase\s+inhibitors?)\b/i, 'EGFR TKI'],
+  [/\bALK[\s-]+(?:TKIs?|inhibitors?)\b/i, 'ALK TKI'],
+  [/\bPARP\s+inhibitors?\b|\bPARPi\b/i, 'PARP Inhibitor'],
+  [/\bCDK\s?4\/6\s+inhibitors?\b/i, 'CDK4/6 Inhibitor'],
+  [/\bKRAS\s+G12C\s+inhibitors?\b/i, 'KRAS G12C Inhibitor'],
+  [/\bantibody[\s-]drug\s+conjugates?\b/i, 'Antibody-Drug Conjugate'],
+  [/\bADCs?\b/, 'Antibody-Drug Conjugate'],
+];
+
+// Modality-level therapies
+export const THERAPY_MODALITIES: Array<[RegExp, string[]]> = [
+  [/\bchemo-?radi(?:ation|otherapy)\b|\bCRT\b/i, ['Chemotherapy', 'Radiotherapy']],
+  [/\bchemo(?:therapy)?\b/i, ['Chemotherapy']],
+  [/\bimmunotherapy\b/i, ['Immunotherapy']],
+  [/\bIO\b/, ['Immunotherapy']],
+  [/\b(?:radiation(?:\s+therapy)?|radiotherapy|SBRT|SRS|XRT)\b/i, ['Radiotherapy']],
+  [/\b(?:surgery|surgical resection|resection|lobectomy|pneumonectomy|mastectomy|lumpectomy|colectomy|whipple)\b/i, ['Surgery']],
+];
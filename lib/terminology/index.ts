@@ -0,0 +1,208 @@
+/**
+ * Oncology terminology
+ *
+ * Local normalization for what the extractors return: brand names and
+ * shorthand to generics ("Keytruda" → Pembrolizumab), regimens to their
+ * components ("FOLFOX", "carbo/pem"), class-level mentions to a drug class
+ * ("anti-PD-1"), and cancer types to one canonical vocabulary with codes.
+ */
+
+import { normalizeComorbidityName, normalizeMedicationName } from '@/lib/clinical-context';
+import { PatientProfile } from '@/types';
+import { CANCER_TYPES, CancerTypeEntry } from './cancer-types';
+import { CLASS_MENTIONS, DRUGS, DrugClass, DrugEntry, REGIMENS, THERAPY_MODALITIES } from './drugs';
+
+export { CANCER_TYPES, DRUGS, REGIMENS };
+export type { CancerTypeEntry, DrugClass, DrugEntry };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// =============================================================================
+// Drugs
+// =============================================================================
+
+// Generic, brand and alias → entry; shorthand only resolves inside combinations
+const byName = new Map<string, DrugEntry>();
+const byShorthand = new Map<string, DrugEntry>();
+for (const drug of DRUGS) {
+  for (const name of [drug.generic, ...(drug.brands || []), ...(drug.aliases || [])]) byName.set(name.toLowerCase(), drug);
+  for (const name of drug.shorthand || []) byShorthand.set(name.toLowerCase(), drug);
+}
+
+// Longest names first so "nab-paclitaxel" wins over "paclitaxel"
+const DRUG_PATTERN = new RegExp(
+  `(?<!\\w)(?:${[...byName.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?!\\w)`,
+  'gi'
+);
+
+// "carbo/pem", "ipi + nivo", "FOLFOX/bev"
+const COMBINATION_PATTERN = /(?<![\w/+-])[A-Za-z0-9][\w-]*(?:\s*[/+]\s*[A-Za-z0-9][\w-]*)+/g;
+
+const DRUG_CLASS_NAMES = new Set<string>(DRUGS.flatMap(d => d.classes));
+
+/** Dictionary entry for a generic, brand or alias ("Keytruda", "pembro") */
+export function lookupDrug(name: string): DrugEntry | undefined {
+  return byName.get(name.trim().toLowerCase());
+}
+
+/** Generic name for a drug, or the input unchanged if it isn't in the dictionary */
+export function normalizeDrugName(name: string): string {
+  return lookupDrug(name)?.generic ?? name.trim();
+}
+
+/** Drug classes for a drug name; a class name ("EGFR TKI") is its own class */
+export function drugClasses(name: string): DrugClass[] {
+  if (DRUG_CLASS_NAMES.has(name)) return [name as DrugClass];
+  return lookupDrug(name)?.classes ?? [];
+}
+
+/** Names a drug may appear under in free text (for evidence spans) */
+export function drugSynonyms(generic: string): string[] {
+  const drug = lookupDrug(generic);
+  return drug ? [drug.generic, ...(drug.brands || []), ...(drug.aliases || [])] : [generic];
+}
+
+/** Components of a named regimen ("FOLFOX") or combination ("carbo/pem"), if it is one */
+export function expandRegimen(text: string): string[] | undefined {
+  const trimmed = text.trim();
+  const regimen = REGIMENS.find(r => new RegExp(`^(?:${r.pattern.source})$`, r.pattern.flags).test(trimmed));
+  if (regimen) return regimen.components;
+
+  const parts = trimmed.split(/\s*[/+]\s*/);
+  if (parts.length < 2) return undefined;
+  const components: string[] = [];
+  for (const part of parts) {
+    const resolved = expandRegimen(part)
+      ?? [(lookupDrug(part) ?? byShorthand.get(part.toLowerCase()))?.generic].filter((g): g is string => !!g);
+    if (resolved.length === 0) return undefined;
+    components.push(...resolved.filter(c => !components.includes(c)));
+  }
+  return components;
+}
+
+// =============================================================================
+// Treatment Mentions
+// =============================================================================
+
+export interface TreatmentMention {
+  start: number;
+  end: number;
+  text: string;
+  /** Canonical treatments the mention stands for */
+  treatments: string[];
+}
+
+/**
+ * Every therapy mentioned in `text`, non-overlapping, in text order: drugs,
+ * regimens and combinations, drug classes and modalities (chemotherapy,
+ * radiotherapy, surgery). Callers check each mention's assertion context.
+ */
+export function findTreatmentMentions(text: string): TreatmentMention[] {
+  const candidates: TreatmentMention[] = [];
+  const add = (match: RegExpMatchArray, treatments: string[]) =>
+    candidates.push({ start: match.index!, end: match.index! + match[0].length, text: match[0], treatments });
+  const global = (regex: RegExp) => new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+
+  for (const match of text.matchAll(COMBINATION_PATTERN)) {
+    const components = expandRegimen(match[0]);
+    if (components) add(match, components);
+  }
+  for (const regimen of REGIMENS) {
+    for (const match of text.matchAll(global(regimen.pattern))) add(match, regimen.components);
+  }
+  for (const match of text.matchAll(DRUG_PATTERN)) add(match, [lookupDrug(match[0])!.generic]);
+  for (const [regex, drugClass] of CLASS_MENTIONS) {
+    for (const match of text.matchAll(global(regex))) add(match, [drugClass]);
+  }
+  for (const [regex, treatments] of THERAPY_MODALITIES) {
+    for (const match of text.matchAll(global(regex))) add(match, treatments);
+  }
+
+  // Earliest, then longest, mention wins an overlap
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const mentions: TreatmentMention[] = [];
+  for (const candidate of candidates) {
+    const last = mentions[mentions.length - 1];
+    if (!last || candidate.start >= last.end) mentions.push(candidate);
+  }
+  return mentions;
+}
+
+/**
+ * Canonical treatment list: brands to generics, regimens expanded, duplicates
+ * dropped. Entries the dictionary doesn't recognize are kept as written.
+ */
+export function normalizeTreatments(treatments: string[]): string[] {
+  const normalized: string[] = [];
+  const push = (name: string) => {
+    if (name && !normalized.some(n => n.toLowerCase() === name.toLowerCase())) normalized.push(name);
+  };
+  for (const treatment of treatments) {
+    const mentions = findTreatmentMentions(treatment);
+    if (mentions.length === 0) push(treatment.trim());
+    for (const mention of mentions) mention.treatments.forEach(push);
+  }
+  return normalized;
+}
+
+// =============================================================================
+// Cancer Types
+// =============================================================================
+
+// Site-specific synonyms before histology-only ones, longest first within each
+const CANCER_SYNONYMS = CANCER_TYPES
+  .flatMap(entry => entry.synonyms.map(synonym => ({ synonym, entry })))
+  .sort((a, b) => Number(!!a.entry.generic) - Number(!!b.entry.generic) || b.synonym.length - a.synonym.length)
+  .map(({ synonym, entry }) => ({ entry, regex: new RegExp(`\\b${escapeRegExp(synonym)}s?\\b`, 'gi') }));
+
+export interface CancerTypeMention {
+  start: number;
+  end: number;
+  entry: CancerTypeEntry;
+}
+
+/** Cancer type mentions in `text`, most specific first (not text order) */
+export function findCancerTypeMentions(text: string): CancerTypeMention[] {
+  return CANCER_SYNONYMS.flatMap(({ entry, regex }) =>
+    [...text.matchAll(regex)].map(m => ({ start: m.index!, end: m.index! + m[0].length, entry }))
+  );
+}
+
+/** Vocabulary entry for a canonical name, label or free-text diagnosis */
+export function lookupCancerType(text: string): CancerTypeEntry | undefined {
+  const key = text.trim().toLowerCase();
+  return CANCER_TYPES.find(e => e.name.toLowerCase() === key || e.label.toLowerCase() === key)
+    ?? findCancerTypeMentions(text)[0]?.entry;
+}
+
+/** Phrases a cancer type may appear under in free text (for evidence spans) */
+export function cancerTypeSynonyms(name: string): string[] {
+  const entry = lookupCancerType(name);
+  return entry ? [entry.name, entry.label, ...entry.synonyms] : [name];
+}
+
+/** Canonical cancer type name ("Pancreatic adenocarcinoma" → "Pancreatic Cancer"), or the input unchanged */
+export function normalizeCancerType(text: string): string {
+  return lookupCancerType(text)?.name ?? text.trim();
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+/** Cancer type, prior treatments, comorbidity and medication names in canonical form */
+export function normalizeTerminology<T extends Partial<PatientProfile>>(profile: T): T {
+  return {
+    ...profile,
+    ...(profile.cancerType ? { cancerType: normalizeCancerType(profile.cancerType) } : {}),
+    ...(profile.priorTreatments ? { priorTreatments: normalizeTreatments(profile.priorTreatments) } : {}),
+    ...(profile.comorbidities
+      ? { comorbidities: [...new Set(profile.comorbidities.map(normalizeComorbidityName))] }
+      : {}),
+    ...(profile.currentMedications
+      ? { currentMedications: profile.currentMedications.map(m => ({ ...m, name: normalizeMedicationName(m.name) })) }
+      : {}),
+  };
+}
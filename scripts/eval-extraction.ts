@@ -0,0 +1,30 @@
+/**
+ * Extraction evaluation
+ *
+ * Prints precision/recall/F1 per field for the rule parser, the LLM extractor
+ * and their ensemble against the labelled corpus (lib/extraction-eval).
+ *
+ *   npm run eval:extraction                 replay the recorded LLM outputs (no network)
+ *   npm run eval:extraction -- --live       call the model (needs ANTHROPIC_API_KEY)
+ *
+ * An API key in the environment never makes a run live on its own.
+ */
+
+import { evaluateExtractors, formatReport, LlmMode } from '@/lib/extraction-eval';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const llmMode: LlmMode = args.includes('--live') ? 'live' : 'recorded';
+  if (llmMode === 'live' && !process.env.ANTHROPIC_API_KEY) {
+    console.error('--live needs ANTHROPIC_API_KEY');
+    process.exit(1);
+  }
+
+  const reports = await evaluateExtractors({ llmMode });
+  console.log(formatReport(reports));
+}
+
+main().catch(error => {
+  console.error('Extraction evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+/**
+ * FHIR round-trip check
+ *
+ * Exports the round-trip profile (lib/fhir/round-trip.ts), imports it back
+ * and lists the fields that changed; exits non-zero on any difference.
+ *
+ *   npm run eval:fhir
+ */
+
+import { checkFhirRoundTrip } from '@/lib/fhir/round-trip';
+
+const failures = checkFhirRoundTrip();
+for (const failure of failures) {
+  console.log(`✗ ${failure.field}: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`);
+}
+console.log(failures.length === 0 ? 'Every field came back as exported' : `${failures.length} fields changed`);
+if (failures.length > 0) process.exit(1);
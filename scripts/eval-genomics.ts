@@ -0,0 +1,17 @@
+/**
+ * Genomic import check
+ *
+ * Imports the genomic fixtures (lib/genomics/corpus.ts) and lists what was
+ * mapped wrong; exits non-zero on any failure.
+ *
+ *   npm run eval:genomics
+ */
+
+import { evaluateGenomicCorpus, GENOMIC_CORPUS } from '@/lib/genomics/corpus';
+
+const failures = evaluateGenomicCorpus();
+for (const failure of failures) {
+  console.log(`✗ ${failure.name} · ${failure.gene}: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`);
+}
+console.log(`${failures.length} failures / ${GENOMIC_CORPUS.length} fixtures`);
+if (failures.length > 0) process.exit(1);
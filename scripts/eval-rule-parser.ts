@@ -0,0 +1,18 @@
+/**
+ * Rule parser regression check
+ *
+ * Runs the rule parser over its regression corpus (lib/rule-parser/corpus.ts)
+ * and lists what it got wrong; exits non-zero on any failure.
+ *
+ *   npm run eval:rule-parser
+ */
+
+import { evaluateRegressionCorpus, REGRESSION_CORPUS } from '@/lib/rule-parser/corpus';
+
+const failures = evaluateRegressionCorpus();
+for (const failure of failures) {
+  console.log(`✗ "${failure.text}" (${failure.note})`);
+  console.log(`    ${failure.field}: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`);
+}
+console.log(`${REGRESSION_CORPUS.length - failures.length}/${REGRESSION_CORPUS.length} cases pass`);
+if (failures.length > 0) process.exit(1);
@@ -1,40 +1,71 @@
+import { z } from 'zod';
+import {
+  AppModeSchema,
+  BiomarkerSchema,
+  BiomarkerStatusSchema,
+  ChatMessageSchema,
+  ChatRequestSchema,
+  ClientPatientProfileSchema,
+  DocumentChangeSchema,
+  DocumentReviewSchema,
+  DocumentSectionKindSchema,
+  FieldProvenanceSchema,
+  LabValueSchema,
+  MedicationSchema,
+  PatientLocationSchema,
+  PatientProfileSchema,
+  ProfileConflictSchema,
+  ProfileOperationSchema,
+  ProfileUndoSchema,
+  ProvenanceMapSchema,
+  ProvenanceSourceSchema,
+  TnmStageSchema,
+  TrialMatchSchema,
+} from './schemas';
+
+export * from './schemas';
+
 // =============================================================================
 // Patient Data
 // =============================================================================
 
-export interface PatientProfile {
-  age?: number;
-  sex?: 'Male' | 'Female';
-  cancerType?: string;
-  histology?: string;
-  stage?: string;
-  biomarkers: Record<string, string>;
-  pdl1Score?: string;
-  msiStatus?: string;
-  priorTreatments: string[];
-  ecog?: number;
-  rawText?: string;  // Original text used to parse profile
-}
+// Shapes and field docs live in ./schemas; these are their inferred types
+
+export type BiomarkerStatus = z.infer<typeof BiomarkerStatusSchema>;
+export type Biomarker = z.infer<typeof BiomarkerSchema>;
+export type LabValue = z.infer<typeof LabValueSchema>;
+export type Medication = z.infer<typeof MedicationSchema>;
+export type PatientLocation = z.infer<typeof PatientLocationSchema>;
+export type TnmStage = z.infer<typeof TnmStageSchema>;
+export type ProvenanceSource = z.infer<typeof ProvenanceSourceSchema>;
+export type FieldProvenance = z.infer<typeof FieldProvenanceSchema>;
+export type ProvenanceMap = z.infer<typeof ProvenanceMapSchema>;
+export type PatientProfile = z.infer<typeof PatientProfileSchema>;
+
+// Array fields of PatientProfile (everything else is a scalar)
+export const PROFILE_LIST_FIELDS = ['biomarkers', 'priorTreatments', 'labs', 'comorbidities', 'currentMedications'] as const;
+
+export type ProfileListField = typeof PROFILE_LIST_FIELDS[number];
 
 export const createEmptyPatientProfile = (): PatientProfile => ({
-  biomarkers: {},
+  biomarkers: [],
   priorTreatments: [],
+  labs: [],
+  comorbidities: [],
+  currentMedications: [],
 });
 
 // =============================================================================
 // Messages
 // =============================================================================
 
-export interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  metadata?: {
-    patientData?: PatientProfile;
-    trials?: TrialMatch[];
-  };
-}
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ProfileConflict = z.infer<typeof ProfileConflictSchema>;
+export type ProfileOperation = z.infer<typeof ProfileOperationSchema>;
+export type ProfileUndo = z.infer<typeof ProfileUndoSchema>;
+export type DocumentChange = z.infer<typeof DocumentChangeSchema>;
+export type DocumentSectionKind = z.infer<typeof DocumentSectionKindSchema>;
+export type DocumentReview = z.infer<typeof DocumentReviewSchema>;
 
 export type IntakeStage = 'welcome' | 'demographics' | 'diagnosis' | 'biomarkers' | 'treatment' | 'review' | 'matching' | 'complete';
 
@@ -63,7 +94,7 @@ export interface PipelineStep {
   name: string;
   description: string;
   model: ModelId;
-  status: 'pending' | 'running' | 'complete' | 'error';
+  status: 'pending' | 'running' | 'complete' | 'error' | 'cancelled';
   tokens?: { input: number; output: number };
   cost?: number;
   duration?: number;
@@ -80,6 +111,30 @@ export interface TrialProgressEvent {
   confidence?: number;
 }
 
+/**
+ * A `data:` payload of the /api/chat SSE stream. Local and remote turns send
+ * these straight from the route; FastAPI matching replays them from its job
+ * log (lib/matching-jobs.ts), after a `job` event naming the job to resume.
+ */
+export type ChatStreamEvent =
+  | { type: 'step_start'; step: string; message?: string }
+  | { type: 'step_complete'; step: string; cost?: number; detail?: string }
+  | { type: 'step_progress'; step: string; detail?: string; message?: string }
+  | ({ type: 'trial_progress' } & TrialProgressEvent)
+  | {
+      type: 'response';
+      content: string;
+      patientData?: PatientProfile;
+      trials?: TrialMatch[];
+      conflicts?: ProfileConflict[];
+      operations?: ProfileOperation[];
+      undo?: { id: string; summary: string };
+      totalCost?: number;
+    }
+  | { type: 'error'; message: string }
+  | { type: 'job'; jobId: string }
+  | { type: 'done' };
+
 export const PIPELINE_STEPS: Omit<PipelineStep, 'status'>[] = [
   { name: 'Retrieve Trials', description: 'BM25 + semantic search', model: 'qwen-flash' },
   { name: 'Pre-filter', description: 'Age, gender, ECOG checks', model: 'rule-based' },
@@ -91,17 +146,7 @@ export const PIPELINE_STEPS: Omit<PipelineStep, 'status'>[] = [
 // Trials
 // =============================================================================
 
-export interface TrialMatch {
-  nctId: string;
-  title: string;
-  phase: string;
-  status: string;
-  sponsor: string;
-  locations: string[];
-  matchScore: number;
-  matchReasons: string[];
-  concerns: string[];
-}
+export type TrialMatch = z.infer<typeof TrialMatchSchema>;
 
 // Alias for API compatibility
 export type TrialResult = TrialMatch;
@@ -110,4 +155,11 @@ export type TrialResult = TrialMatch;
 // Modes
 // =============================================================================
 
-export type AppMode = 'local' | 'fastapi';
+export type AppMode = z.infer<typeof AppModeSchema>;
+
+// =============================================================================
+// API
+// =============================================================================
+
+export type ClientPatientProfile = z.infer<typeof ClientPatientProfileSchema>;
+export type ChatRequest = z.infer<typeof ChatRequestSchema>;
@@ -0,0 +1,289 @@
+/**
+ * Shared schemas
+ *
+ * The zod definitions behind the patient, message and API types in
+ * ./index. The route validates request bodies against them and the LLM
+ * extractor builds its structured-output schema from them, so the client,
+ * the server and the extractor agree on one shape.
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Patient Data
+// =============================================================================
+
+export const BiomarkerStatusSchema = z.enum(['Positive', 'Negative', 'Detected', 'Equivocal', 'Unknown']);
+
+export const BiomarkerSchema = z.object({
+  gene: z.string().describe('Gene or marker name (e.g. EGFR, KRAS, ALK, HER2, PD-L1, TMB)'),
+  alteration: z.string().optional().describe('Specific variant or alteration if stated (e.g. L858R, G12C, exon 19 deletion, V600E, fusion, amplification)'),
+  status: BiomarkerStatusSchema.describe('Result status'),
+  value: z.number().optional().describe('Numeric result if stated (e.g. 45 for PD-L1 TPS 45%, 12 for TMB 12 mut/Mb)'),
+  unit: z.string().optional().describe('Unit or scoring system for value (e.g. "% TPS", "CPS", "mut/Mb")'),
+  method: z.string().optional().describe('Assay method if stated (e.g. NGS, IHC, FISH, PCR, ctDNA)'),
+  specimenDate: z.string().optional().describe('Specimen or report date (YYYY-MM-DD) if stated'),
+});
+
+export const LabValueSchema = z.object({
+  name: z.string().describe('Lab name (e.g. Creatinine, Creatinine Clearance, ANC, Hemoglobin, Platelets, Total Bilirubin, AST, ALT, Albumin)'),
+  value: z.number().describe('Numeric result'),
+  unit: z.string().describe('Unit as stated (e.g. mg/dL, x10^9/L, U/L, mL/min; "x ULN" for a multiple of the upper limit of normal)'),
+  date: z.string().optional().describe('Result date (YYYY-MM-DD) if stated'),
+  isNormal: z.boolean().optional().describe('Within the reference range, if known'),
+});
+
+export const MedicationSchema = z.object({
+  name: z.string(),
+  status: z.enum(['active', 'stopped']),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+});
+
+export const PatientLocationSchema = z.object({
+  city: z.string().optional().describe('City (e.g. Boston, Brussels)'),
+  state: z.string().optional().describe('US state or region code if stated (e.g. MA)'),
+  postalCode: z.string().optional().describe('ZIP / postal code if stated'),
+  country: z.string().optional().describe('ISO 3166-1 alpha-2 country code (e.g. US, BE)'),
+});
+
+// TNM classification (AJCC 8th edition), e.g. pT2a N1 M0
+export const TnmStageSchema = z.object({
+  prefix: z.enum(['c', 'p', 'yc', 'yp', 'r']).optional().describe('Clinical, pathological, post-therapy or recurrence'),
+  t: z.string().optional().describe('e.g. Tis, T1mi, T2a, TX'),
+  n: z.string().optional().describe('e.g. N0, N1mi, N2b'),
+  m: z.string().optional().describe('e.g. M0, M1c'),
+});
+
+// import: structured records (FHIR bundles, genomic reports)
+export const ProvenanceSourceSchema = z.enum(['llm', 'regex', 'client', 'manual', 'import']);
+
+export const FieldProvenanceSchema = z.object({
+  source: ProvenanceSourceSchema,
+  extractor: z.string().optional().describe('e.g. claude-haiku-4-5, parsePatientFromMessage'),
+  messageId: z.string().optional().describe('Chat message the value was extracted from'),
+  span: z.object({ start: z.number(), end: z.number(), text: z.string() }).optional().describe('Where in that message'),
+  confidence: z.number().min(0).max(1),
+  recordedAt: z.string().describe('ISO timestamp'),
+});
+
+// Keyed by field name, or `field:item` for list entries (see lib/provenance.ts)
+export const ProvenanceMapSchema = z.record(z.string(), FieldProvenanceSchema);
+
+export const PatientProfileSchema = z.object({
+  age: z.number().min(0).max(130).optional().describe('Patient age in years'),
+  sex: z.enum(['Male', 'Female']).optional().describe('Patient sex'),
+  cancerType: z.string().optional().describe('Canonical cancer type (lib/terminology, e.g. NSCLC, Breast Cancer)'),
+  histology: z.string().optional(),
+  stage: z.string().optional().describe('AJCC stage group, canonical "Stage IIIB" (lib/staging.ts)'),
+  tnm: TnmStageSchema.optional(),
+  stageExtent: z.enum(['Limited', 'Extensive']).optional().describe('Small cell lung cancer disease extent'),
+  biomarkers: z.array(BiomarkerSchema),
+  pdl1Score: z.string().optional().describe('PD-L1 score (e.g. "TPS 80%")'),
+  msiStatus: z.string().optional(),
+  priorTreatments: z.array(z.string()).describe('Prior treatments or therapies'),
+  ecog: z.number().int().min(0).max(4).optional().describe('ECOG performance status (0-4)'),
+  labs: z.array(LabValueSchema),
+  comorbidities: z.array(z.string()),
+  currentMedications: z.array(MedicationSchema),
+  location: PatientLocationSchema.optional().describe('Home location, for distance to trial sites'),
+  maxTravelMiles: z.number().min(0).optional().describe('How far the patient is willing to travel, in miles'),
+  provenance: ProvenanceMapSchema.optional().describe('Source and confidence of each value'),
+  unknownFields: z.array(z.string()).optional().describe('Gaps the user confirmed are unknown (lib/readiness.ts), e.g. stage, biomarkers:EGFR'),
+  rawText: z.string().optional().describe('Original text used to parse profile'),
+});
+
+export const ProfileFieldSchema = PatientProfileSchema.omit({ rawText: true, provenance: true }).keyof();
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+export const TrialMatchSchema = z.object({
+  nctId: z.string(),
+  title: z.string(),
+  phase: z.string(),
+  status: z.string(),
+  sponsor: z.string(),
+  locations: z.array(z.string()),
+  matchScore: z.number(),
+  matchReasons: z.array(z.string()),
+  concerns: z.array(z.string()),
+  nearestSite: z.object({ location: z.string(), distanceMiles: z.number() }).optional(),
+  withinTravelRadius: z.boolean().optional(),
+});
+
+/**
+ * An extracted value that contradicts the current profile, or one extractor's
+ * reading that lost to another's. The profile keeps `currentValue` until the
+ * user accepts or rejects `incomingValue` in chat.
+ */
+export const ProfileConflictSchema = z.object({
+  id: z.string(),
+  field: z.string(),
+  itemKey: z.string().optional().describe('Provenance key of the list item (biomarkers)'),
+  label: z.string(),
+  currentValue: z.unknown(),
+  incomingValue: z.unknown(),
+  currentDisplay: z.string(),
+  incomingDisplay: z.string(),
+  provenance: FieldProvenanceSchema.optional(),
+  resolution: z.enum(['accepted', 'rejected']).optional(),
+  origin: z.enum(['profile', 'extractors']).optional()
+    .describe("'extractors': the LLM and rule parser read the same message differently; currentValue is the reading kept"),
+});
+
+// An explicit change a message makes to the profile (lib/profile-operations.ts)
+export const ProfileOperationSchema = z.object({
+  op: z.enum(['set', 'update', 'delete', 'append']),
+  field: ProfileFieldSchema,
+  match: z.string().optional().describe('List item to update or delete, by name (gene, drug, condition, lab)'),
+  value: z.unknown().optional().describe('The new scalar, the appended item, or what changes on the matched item'),
+  source: ProvenanceSourceSchema.optional().describe('Extractor that emitted it, for provenance'),
+});
+
+// One message's profile changes, reversible until those fields change again
+export const ProfileUndoSchema = z.object({
+  id: z.string(),
+  messageId: z.string().optional(),
+  summary: z.string().describe('e.g. "Stage: Stage IV → Stage IIIA; removed KRAS G12C"'),
+  fields: z.array(ProfileFieldSchema),
+  before: PatientProfileSchema.partial().describe('The changed fields (and their provenance) before the message'),
+  after: PatientProfileSchema.partial(),
+  createdAt: z.string().describe('ISO timestamp'),
+});
+
+// A value a clinical document would add or change, offered for review before merging (lib/documents)
+export const DocumentChangeSchema = z.object({
+  id: z.string(),
+  field: ProfileFieldSchema,
+  label: z.string(),
+  section: z.string().describe('Heading of the document section it was read from'),
+  currentDisplay: z.string().optional().describe('What the profile holds now; absent for a new value'),
+  proposedDisplay: z.string(),
+  evidence: z.string().optional().describe('The document text it was read from'),
+});
+
+export const DocumentSectionKindSchema = z.enum([
+  'demographics', 'diagnosis', 'molecular', 'treatment', 'medications', 'labs', 'history', 'social', 'family', 'plan', 'general',
+]);
+
+export const DocumentReviewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  sections: z.array(z.object({ title: z.string(), kind: DocumentSectionKindSchema })),
+  chunks: z.number().describe('Pieces the document was read in (resources or results mapped, for an imported record)'),
+  changes: z.array(DocumentChangeSchema),
+  unmapped: z.array(z.object({ reference: z.string(), reason: z.string() })).optional()
+    .describe('Resources or variants of an imported record that map to no profile field, e.g. Observation/glucose'),
+  unread: z.array(z.string()).optional().describe('Sections, by title, left unread past the chunk limit'),
+  status: z.enum(['merged', 'dismissed']).optional(),
+  accepted: z.array(z.string()).optional().describe('Changes merged, by id'),
+});
+
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  // Serialized as an ISO string over the wire
+  timestamp: z.coerce.date(),
+  metadata: z.object({
+    patientData: PatientProfileSchema.optional(),
+    trials: z.array(TrialMatchSchema).optional(),
+    conflicts: z.array(ProfileConflictSchema).optional(),
+    undo: z.object({ id: z.string(), summary: z.string(), undone: z.boolean().optional() }).optional()
+      .describe("The message's profile changes, offered for undo"),
+    document: DocumentReviewSchema.optional().describe('An ingested document, reviewed before merging'),
+  }).optional(),
+});
+
+// =============================================================================
+// API
+// =============================================================================
+
+export const AppModeSchema = z.enum(['local', 'remote', 'fastapi']);
+
+/**
+ * A profile as clients send it. Older clients may omit the list fields or
+ * send the legacy Record<gene, status> biomarkers with free-form statuses;
+ * the route normalizes those once the shape is known to be sound.
+ */
+export const ClientPatientProfileSchema = PatientProfileSchema.extend({
+  biomarkers: z.union([
+    z.array(BiomarkerSchema.extend({ status: z.string().optional() })),
+    z.record(z.string(), z.string()),
+  ]).default([]),
+  priorTreatments: z.array(z.string()).default([]),
+  labs: z.array(LabValueSchema).default([]),
+  comorbidities: z.array(z.string()).default([]),
+  currentMedications: z.array(MedicationSchema).default([]),
+});
+
+export const ChatRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  message: z.string().trim().min(1),
+  messageId: z.string().optional(),
+  mode: AppModeSchema.default('local'),
+  patientProfile: ClientPatientProfileSchema.optional(),
+});
+
+// Manual edit from the PatientCard (see lib/profile-edits.ts)
+export const ProfileEditSchema = z.object({
+  set: PatientProfileSchema.partial().optional().describe('Fields replaced as-is; a list given here replaces the whole list'),
+  clear: z.array(ProfileFieldSchema).optional().describe('Fields removed (lists are emptied)'),
+});
+
+// Either a manual edit or the undo of a message's changes
+export const ProfileEditRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  edit: ProfileEditSchema.optional(),
+  undoId: z.string().min(1).optional().describe('ProfileUndo entry to reverse'),
+  patientProfile: ClientPatientProfileSchema.optional(),
+}).refine(body => !body.edit !== !body.undoId, { message: 'Send either an edit or an undoId' });
+
+// A pasted or uploaded clinical document (app/api/documents): text, or a PDF's text layer
+export const DocumentIngestRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  name: z.string().trim().min(1).default('Pasted document'),
+  mode: AppModeSchema.default('local').describe('local reads with the rule parser only, other modes with the LLM extractor'),
+  text: z.string().optional(),
+  pdfBase64: z.string().optional().describe('A text-layer PDF, base64-encoded'),
+  patientProfile: ClientPatientProfileSchema.optional(),
+}).refine(body => !body.text !== !body.pdfBase64, { message: 'Send either text or pdfBase64' });
+
+// A FHIR R4 bundle from the EHR, mapped onto the profile (lib/fhir)
+export const FhirImportRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  name: z.string().trim().min(1).default('FHIR bundle'),
+  bundle: z.object({
+    resourceType: z.literal('Bundle'),
+    type: z.string().default('collection'),
+    entry: z.array(z.object({ resource: z.object({ resourceType: z.string() }).passthrough().optional() }).passthrough()).default([]),
+  }).passthrough(),
+  patientProfile: ClientPatientProfileSchema.optional(),
+});
+
+// A VCF or a lab's CSV/TSV/JSON variant list, mapped onto biomarkers, TMB and MSI (lib/genomics)
+export const GenomicImportRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  name: z.string().trim().min(1).default('Genomic report'),
+  text: z.string().min(1),
+  format: z.enum(['vcf', 'table', 'json']).optional().describe('Detected from the text when not given'),
+  patientProfile: ClientPatientProfileSchema.optional(),
+});
+
+// Matching results to export as a FHIR R4 transaction bundle (lib/fhir)
+export const FhirExportRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  trials: z.array(TrialMatchSchema).min(1),
+  patientReference: z.string().regex(/^Patient\/[A-Za-z0-9.-]{1,64}$/).optional()
+    .describe("The EHR's Patient to attach results to, e.g. Patient/123; a new Patient otherwise"),
+  patientProfile: ClientPatientProfileSchema.optional(),
+});
+
+// The reviewed changes of an ingested document to merge
+export const DocumentApplyRequestSchema = z.object({
+  sessionId: z.string().min(1),
+  documentId: z.string().min(1),
+  accept: z.array(z.string()).min(1),
+});